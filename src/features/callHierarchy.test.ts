@@ -0,0 +1,163 @@
+/**
+ * Unit tests for the call hierarchy
+ */
+
+import { SymbolKind } from 'vscode-languageserver/node';
+import { prepareCallHierarchy, getIncomingCalls, getOutgoingCalls } from './callHierarchy';
+import { useWorkspace } from '../../test/helpers/workspace';
+
+describe('Call Hierarchy', () => {
+  const workspace = useWorkspace({
+    'file:///queue.mod': `DEFINITION MODULE Queue;
+TYPE
+  QueueObj = OBJECT
+    TELL METHOD Schedule(IN delay : REAL);
+    ASK METHOD Size() : INTEGER;
+  END OBJECT;
+PROCEDURE Clear;
+END MODULE.`,
+    'file:///queue_impl.mod': `IMPLEMENTATION MODULE Queue;
+PROCEDURE Clear;
+BEGIN
+END PROCEDURE;
+
+OBJECT QueueObj;
+  TELL METHOD Schedule(IN delay : REAL);
+  BEGIN
+    Clear;
+  END METHOD;
+
+  ASK METHOD Size() : INTEGER;
+  BEGIN
+    TELL SELF TO Schedule(1.0);
+    RETURN 0;
+  END METHOD;
+END OBJECT;
+END MODULE.`,
+    'file:///app.mod': `MAIN MODULE App;
+FROM Queue IMPORT QueueObj, Clear;
+VAR q : QueueObj;
+
+PROCEDURE Run;
+VAR n : INTEGER;
+BEGIN
+  Clear();
+  TELL q TO Schedule(2.0);
+  n := ASK q Size;
+  Clear;
+END PROCEDURE;
+
+BEGIN
+  Run;
+  TELL q TO Schedule(3.0);
+END MODULE.`,
+  });
+
+  const prepareAt = workspace.at(prepareCallHierarchy);
+
+  describe('Prepare', () => {
+    it('should resolve an ASK/TELL method to its body through the receiver type', () => {
+      // On Schedule in "TELL q TO Schedule(2.0);"
+      const items = prepareAt('file:///app.mod', 8, 14);
+
+      expect(items).toHaveLength(1);
+      expect(items![0]).toMatchObject({
+        name: 'Schedule',
+        kind: SymbolKind.Method,
+        detail: 'QueueObj',
+        uri: 'file:///queue_impl.mod',
+        selectionRange: { start: { line: 6, character: 2 } },
+      });
+    });
+
+    it('should resolve procedures from their DEFINITION module declaration', () => {
+      // On "PROCEDURE Clear;" in the definition
+      const items = prepareAt('file:///queue.mod', 6, 12);
+
+      expect(items![0]).toMatchObject({ name: 'Clear', kind: SymbolKind.Function, uri: 'file:///queue_impl.mod' });
+    });
+
+    it('should resolve the receiver through the scope of the call', async () => {
+      await workspace.manager.updateDocument('file:///shapes.mod', `MAIN MODULE Shapes;
+TYPE
+  A = OBJECT
+    ASK METHOD Run;
+  END OBJECT;
+  B = OBJECT
+    ASK METHOD Run;
+  END OBJECT;
+
+PROCEDURE First;
+VAR obj : A;
+BEGIN
+  ASK obj TO Run;
+END PROCEDURE;
+
+PROCEDURE Second;
+VAR obj : B;
+BEGIN
+  ASK obj TO Run;
+END PROCEDURE;
+END MODULE.`, 1);
+
+      // On Run in Second's "ASK obj TO Run;"
+      const items = prepareAt('file:///shapes.mod', 18, 14);
+
+      expect(items![0]).toMatchObject({ name: 'Run', detail: 'B' });
+    });
+
+    it('should return null for anything but procedures and methods', () => {
+      // On q in "VAR q : QueueObj;"
+      expect(prepareAt('file:///app.mod', 2, 4)).toBeNull();
+    });
+  });
+
+  describe('Incoming Calls', () => {
+    it('should find ASK/TELL callers of a method across the workspace', () => {
+      const [item] = prepareAt('file:///app.mod', 8, 14)!;
+      const incoming = getIncomingCalls(item, workspace.manager);
+
+      expect(incoming.map(call => [call.from.name, call.from.uri, call.fromRanges.length])).toEqual(expect.arrayContaining([
+        ['Size', 'file:///queue_impl.mod', 1],
+        ['Run', 'file:///app.mod', 1],
+        ['App', 'file:///app.mod', 1],
+      ]));
+      expect(incoming).toHaveLength(3);
+    });
+
+    it('should find procedure calls with and without parentheses', () => {
+      const [item] = prepareAt('file:///queue.mod', 6, 12)!;
+      const incoming = getIncomingCalls(item, workspace.manager);
+
+      expect(incoming.map(call => call.from.name).sort()).toEqual(['Run', 'Schedule']);
+      expect(incoming.find(call => call.from.name === 'Run')!.fromRanges[0]).toEqual({
+        start: { line: 7, character: 2 },
+        end: { line: 7, character: 7 },
+      });
+    });
+  });
+
+  describe('Outgoing Calls', () => {
+    it('should list the procedures and methods a routine calls, grouping repeated calls', () => {
+      // On "PROCEDURE Run;"
+      const [item] = prepareAt('file:///app.mod', 4, 11)!;
+      const outgoing = getOutgoingCalls(item, workspace.manager);
+
+      expect(outgoing.map(call => [call.to.name, call.to.uri, call.fromRanges.length])).toEqual([
+        ['Clear', 'file:///queue_impl.mod', 2],
+        ['Schedule', 'file:///queue_impl.mod', 1],
+        ['Size', 'file:///queue_impl.mod', 1],
+      ]);
+    });
+
+    it('should follow calls out of a MAIN module body', () => {
+      // On Run in the module body
+      const [run] = prepareAt('file:///app.mod', 14, 3)!;
+      const [caller] = getIncomingCalls(run, workspace.manager).map(call => call.from);
+      const outgoing = getOutgoingCalls(caller, workspace.manager);
+
+      expect(caller).toMatchObject({ name: 'App', kind: SymbolKind.Module });
+      expect(outgoing.map(call => call.to.name)).toEqual(['Run', 'Schedule']);
+    });
+  });
+});
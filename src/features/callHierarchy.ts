@@ -0,0 +1,339 @@
+/**
+ * Call Hierarchy Provider
+ * Callers and callees of procedures and ASK/TELL methods across the workspace
+ */
+
+import {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CancellationToken,
+  Range,
+  SymbolKind,
+} from 'vscode-languageserver/node';
+
+import type {
+  Module,
+  ASTNode,
+  Expression,
+  MethodDeclaration,
+  ProcedureDeclaration,
+  Statement,
+} from '../language/ast';
+import { SymbolTable } from '../language/symbols';
+import type { WorkspaceManager } from '../utils/workspace';
+import { toRange } from '../utils/astPosition';
+import {
+  ModuleContext,
+  isModuleReference,
+  resolveDeclaration,
+  getModuleContext,
+  getWorkspaceContexts,
+  toDeclarationLocation,
+} from '../utils/declarations';
+import { findTargetAtPosition, resolveReceiverMember } from '../utils/symbolBinding';
+
+/**
+ * A procedure, method or MAIN module body that makes or receives calls
+ * Stored as the data of a CallHierarchyItem. Methods belong to the module that
+ * declares their object type.
+ */
+export interface CallTarget {
+  kind: 'procedure' | 'method' | 'module';
+  module: string;
+  typeName?: string;
+  name: string;
+}
+
+/**
+ * A declaration of a call target, with the statements of its body
+ * Declarations in DEFINITION modules and object types have no body.
+ */
+interface Routine {
+  target: CallTarget;
+  context: ModuleContext;
+  node: ProcedureDeclaration | MethodDeclaration | Module;
+  body: Statement[];
+}
+
+/**
+ * A call site and what it calls
+ */
+interface Call {
+  target: CallTarget;
+  range: Range;
+}
+
+/**
+ * Get the call hierarchy item for the procedure or method at a position
+ */
+export function prepareCallHierarchy(
+  ast: Module,
+  symbolTable: SymbolTable,
+  line: number,
+  character: number,
+  documentUri: string,
+  workspaceManager?: WorkspaceManager
+): CallHierarchyItem[] | null {
+  const context: ModuleContext = { uri: documentUri, ast, symbolTable };
+  const found = findTargetAtPosition(context, { line, character }, workspaceManager);
+
+  let target: CallTarget | undefined;
+  if (found?.kind === 'declaration' && found.resolved.declaration.type === 'ProcedureDeclaration') {
+    target = { kind: 'procedure', module: found.resolved.context.ast.name, name: found.name };
+  } else if (found?.kind === 'member' && found.resolved.member.type === 'MethodDeclaration') {
+    const { context: typeContext, typeName } = found.resolved;
+    target = { kind: 'method', module: typeContext.ast.name, typeName, name: found.name };
+  }
+  if (!target) {
+    return null;
+  }
+
+  const routine = indexRoutines(getWorkspaceContexts(workspaceManager, context)).find(target);
+  return routine ? [createItem(routine)] : null;
+}
+
+/**
+ * Get every routine in the workspace that calls an item
+ */
+export function getIncomingCalls(
+  item: CallHierarchyItem,
+  workspaceManager: WorkspaceManager,
+  token?: CancellationToken
+): CallHierarchyIncomingCall[] {
+  const target = item.data as CallTarget;
+  const key = getTargetKey(target);
+  const incoming: CallHierarchyIncomingCall[] = [];
+
+  for (const context of getWorkspaceContexts(workspaceManager)) {
+    if (token?.isCancellationRequested) {
+      return [];
+    }
+
+    for (const routine of getRoutines(context)) {
+      const fromRanges = findCalls(routine, workspaceManager)
+        .filter(call => getTargetKey(call.target) === key)
+        .map(call => call.range);
+      if (fromRanges.length > 0) {
+        incoming.push({ from: createItem(routine), fromRanges });
+      }
+    }
+  }
+
+  return incoming;
+}
+
+/**
+ * Get the procedures and methods an item calls, grouped by callee
+ */
+export function getOutgoingCalls(
+  item: CallHierarchyItem,
+  workspaceManager: WorkspaceManager,
+  token?: CancellationToken
+): CallHierarchyOutgoingCall[] {
+  const routines = indexRoutines(getWorkspaceContexts(workspaceManager));
+  const caller = routines.find(item.data as CallTarget);
+  if (!caller || token?.isCancellationRequested) {
+    return [];
+  }
+
+  const outgoing = new Map<string, CallHierarchyOutgoingCall>();
+  for (const call of findCalls(caller, workspaceManager)) {
+    const key = getTargetKey(call.target);
+    const existing = outgoing.get(key);
+    if (existing) {
+      existing.fromRanges.push(call.range);
+      continue;
+    }
+
+    const callee = routines.find(call.target);
+    if (callee) {
+      outgoing.set(key, { to: createItem(callee), fromRanges: [call.range] });
+    }
+  }
+
+  return Array.from(outgoing.values());
+}
+
+/**
+ * Index the routines of a set of modules by target
+ * Lookups prefer a declaration with a body, then one outside a DEFINITION module.
+ */
+function indexRoutines(contexts: ModuleContext[]): { find(target: CallTarget): Routine | undefined } {
+  const index = new Map<string, Routine[]>();
+  for (const context of contexts) {
+    for (const routine of getRoutines(context)) {
+      const key = getTargetKey(routine.target);
+      index.set(key, [...(index.get(key) ?? []), routine]);
+    }
+  }
+
+  return {
+    find(target: CallTarget): Routine | undefined {
+      const matching = index.get(getTargetKey(target)) ?? [];
+      return matching.find(r => r.node.type === 'Module' || !r.node.isForward)
+        ?? matching.find(r => r.context.ast.kind !== 'DEFINITION')
+        ?? matching[0];
+    },
+  };
+}
+
+/**
+ * Get the procedures, methods and MAIN body of a module
+ */
+function getRoutines(context: ModuleContext): Routine[] {
+  const module = context.ast.name;
+  const routines: Routine[] = [];
+
+  if (context.ast.mainBody && context.ast.mainBody.length > 0) {
+    routines.push({ target: { kind: 'module', module, name: module }, context, node: context.ast, body: context.ast.mainBody });
+  }
+
+  const addMethods = (typeName: string, methods: MethodDeclaration[]) => {
+    for (const method of methods) {
+      routines.push({
+        target: { kind: 'method', module, typeName, name: method.name },
+        context,
+        node: method,
+        body: method.body ?? [],
+      });
+    }
+  };
+
+  for (const decl of context.ast.declarations) {
+    switch (decl.type) {
+      case 'ProcedureDeclaration':
+        routines.push({ target: { kind: 'procedure', module, name: decl.name }, context, node: decl, body: decl.body ?? [] });
+        break;
+      case 'TypeDeclaration':
+        if (decl.typeSpec.type === 'ObjectType') {
+          addMethods(decl.name, decl.typeSpec.methods);
+        }
+        break;
+      case 'ObjectDeclaration':
+        addMethods(decl.name, [...decl.methods, ...(decl.privateSection?.methods ?? [])]);
+        break;
+    }
+  }
+
+  return routines;
+}
+
+/**
+ * Find the calls in the body of a routine
+ * Procedure calls may omit the parentheses, which parses as an expression statement.
+ */
+function findCalls(routine: Routine, workspaceManager: WorkspaceManager | undefined): Call[] {
+  const { context } = routine;
+  const calls: Call[] = [];
+  const visited = new Set<object>();
+
+  const visit = (value: unknown): void => {
+    if (!value || typeof value !== 'object' || visited.has(value)) {
+      return;
+    }
+    visited.add(value);
+
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+
+    const node = value as ASTNode & Record<string, any>;
+    let target: CallTarget | undefined;
+    switch (node.type) {
+      case 'CallExpression':
+        target = resolveCallee(context, node.callee, workspaceManager);
+        break;
+      case 'AssignmentStatement':
+        if (node.target === node.value && node.value.type !== 'CallExpression') {
+          target = resolveCallee(context, node.value, workspaceManager);
+        }
+        break;
+      case 'AskStatement':
+      case 'TellStatement':
+        target = resolveMethodCall(context, node.object, node.method, workspaceManager);
+        break;
+    }
+    if (target) {
+      const callee = node.type === 'CallExpression' ? node.callee as ASTNode : node;
+      calls.push({ target, range: toRange(callee) });
+    }
+
+    Object.values(node).forEach(visit);
+  };
+
+  visit(routine.body);
+  return calls;
+}
+
+/**
+ * Resolve what a called expression refers to: `Proc`, `Module.Proc` or an ASK expression's `object.Method`
+ */
+function resolveCallee(
+  context: ModuleContext,
+  callee: Expression,
+  workspaceManager: WorkspaceManager | undefined
+): CallTarget | undefined {
+  if (callee.type === 'IdentifierExpression') {
+    return procedureTarget(context, callee.name, workspaceManager);
+  }
+
+  if (callee.type === 'FieldAccessExpression') {
+    const { object, field } = callee;
+    if (workspaceManager && object.type === 'IdentifierExpression' && isModuleReference(context, object.name)) {
+      const moduleContext = getModuleContext(workspaceManager, object.name);
+      return moduleContext && procedureTarget(moduleContext, field, workspaceManager);
+    }
+    return resolveMethodCall(context, object, field, workspaceManager);
+  }
+
+  return undefined;
+}
+
+function procedureTarget(
+  context: ModuleContext,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined
+): CallTarget | undefined {
+  const resolved = resolveDeclaration(context, name, workspaceManager);
+  return resolved?.declaration.type === 'ProcedureDeclaration'
+    ? { kind: 'procedure', module: resolved.context.ast.name, name }
+    : undefined;
+}
+
+/**
+ * Resolve a method through the object type of its receiver
+ */
+function resolveMethodCall(
+  context: ModuleContext,
+  receiver: Expression,
+  method: string,
+  workspaceManager: WorkspaceManager | undefined
+): CallTarget | undefined {
+  const resolved = resolveReceiverMember(context, receiver, method, workspaceManager);
+  return resolved?.member.type === 'MethodDeclaration'
+    ? { kind: 'method', module: resolved.context.ast.name, typeName: resolved.typeName, name: method }
+    : undefined;
+}
+
+function createItem(routine: Routine): CallHierarchyItem {
+  const { target, context, node } = routine;
+  const kind = target.kind === 'method' ? SymbolKind.Method
+    : target.kind === 'module' ? SymbolKind.Module
+    : SymbolKind.Function;
+
+  return {
+    name: target.name,
+    kind,
+    detail: target.kind === 'module' ? undefined : target.typeName ?? target.module,
+    uri: context.uri,
+    range: toRange(node),
+    selectionRange: toDeclarationLocation(context.uri, node.start, target.name).range,
+    data: target,
+  };
+}
+
+function getTargetKey(target: CallTarget): string {
+  return [target.kind, target.module, target.typeName ?? '', target.name].join('.');
+}
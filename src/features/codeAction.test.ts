@@ -3,10 +3,12 @@
  */
 
 import { CodeActionKind, Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Lexer } from '../language/lexer';
 import { Parser } from '../language/parser';
 import { SemanticAnalyzer } from '../language/analyzer';
 import { getCodeActions } from './codeAction';
+import { toLspDiagnostics } from './pullDiagnostics';
 
 function parseAndAnalyze(code: string, options?: { errorRecovery?: boolean }) {
   const lexer = new Lexer(code);
@@ -280,6 +282,178 @@ END MODULE;
       });
     });
 
+    describe('Remove unused declarations', () => {
+      /**
+       * Apply the quick fix of the unused-declaration hint about a name, returning its title and the fixed code
+       */
+      function removeUnused(code: string, name: string) {
+        const { ast, analyzer } = parseAndAnalyze(code);
+        const diagnostics = toLspDiagnostics(analyzer.analyze(ast));
+        const diagnostic = diagnostics.find(d => d.code?.toString().startsWith('unused-') && d.message.includes(`'${name}'`));
+        expect(diagnostic).toBeDefined();
+
+        const [action] = getCodeActions(ast, analyzer.getSymbolTable(), diagnostic!.range, [diagnostic!], documentUri, code)
+          .filter(a => a.title.startsWith('Remove'));
+        const document = TextDocument.create(documentUri, 'modsim', 1, code);
+        return { title: action.title, code: TextDocument.applyEdits(document, action.edit!.changes![documentUri]) };
+      }
+
+      const procedure = (declarations: string) => `MAIN MODULE Test;
+PROCEDURE Run;
+${declarations}
+BEGIN
+  i := k;
+END PROCEDURE;
+END MODULE.`;
+
+      it('should remove one name of a variable declaration', () => {
+        expect(removeUnused(procedure('VAR i, j, k : INTEGER;'), 'j')).toEqual({
+          title: "Remove unused variable 'j'",
+          code: procedure('VAR i, k : INTEGER;'),
+        });
+        expect(removeUnused(procedure('VAR j, i, k : INTEGER;'), 'j').code).toBe(procedure('VAR i, k : INTEGER;'));
+      });
+
+      it('should keep the section keyword for the declarations that follow', () => {
+        expect(removeUnused(procedure('VAR\n  j : INTEGER;\n  i, k : INTEGER;'), 'j').code)
+          .toBe(procedure('VAR\n  i, k : INTEGER;'));
+        expect(removeUnused(procedure('VAR i, k : INTEGER;\nCONST\n  Limit = 1;'), 'Limit').code)
+          .toBe(procedure('VAR i, k : INTEGER;'));
+      });
+
+      it('should remove unused constants and types of the module', () => {
+        const code = `MAIN MODULE Test;
+CONST Size = 1; Unused = 2;
+TYPE Shade = INTEGER;
+VAR n : INTEGER;
+BEGIN
+  n := Size;
+END MODULE.`;
+
+        expect(removeUnused(code, 'Unused').code).toContain('CONST Size = 1;\nTYPE');
+        expect(removeUnused(code, 'Shade')).toEqual({
+          title: "Remove unused type 'Shade'",
+          code: code.replace('TYPE Shade = INTEGER;\n', ''),
+        });
+      });
+
+      it('should remove an unused import, and its statement when it is the only symbol', () => {
+        const code = `MAIN MODULE Test;
+FROM Queues IMPORT QueueObj, StackObj, ListObj;
+FROM Util IMPORT Log;
+VAR q : QueueObj;
+VAR l : ListObj;
+END MODULE.`;
+
+        expect(removeUnused(code, 'StackObj')).toEqual({
+          title: "Remove unused import 'StackObj'",
+          code: code.replace('StackObj, ', ''),
+        });
+        expect(removeUnused(code, 'Log').code).toBe(code.replace('FROM Util IMPORT Log;\n', ''));
+      });
+
+      it('should remove an unused PRIVATE method with its implementation', () => {
+        const code = `MAIN MODULE Test;
+TYPE PartObj = OBJECT
+  ASK METHOD Name() : STRING;
+PRIVATE
+  ASK METHOD Secret() : INTEGER;
+END OBJECT;
+OBJECT PartObj;
+  ASK METHOD Name() : STRING;
+  BEGIN
+    RETURN "part";
+  END METHOD;
+
+  ASK METHOD Secret() : INTEGER;
+  BEGIN
+    RETURN 1;
+  END METHOD;
+END OBJECT;
+END MODULE.`;
+
+        expect(removeUnused(code, 'Secret').code).toBe(code
+          .replace('  ASK METHOD Secret() : INTEGER;\nEND OBJECT;', 'END OBJECT;')
+          .replace('\n  ASK METHOD Secret() : INTEGER;\n  BEGIN\n    RETURN 1;\n  END METHOD;', ''));
+      });
+    });
+
+    describe('Add missing CASE arms', () => {
+      it('should add a WHEN arm for each enumeration value the CASE does not handle', () => {
+        const code = `MAIN MODULE Test;
+TYPE State = (Idle, Running, Failed, Repaired);
+PROCEDURE Next(IN s : State) : State;
+BEGIN
+  IF s = Idle
+    CASE s
+      WHEN Running: RETURN Failed;
+    END CASE;
+  END IF;
+  RETURN Idle;
+END PROCEDURE;
+END MODULE.`;
+
+        const { ast, analyzer } = parseAndAnalyze(code);
+        const diagnostic = toLspDiagnostics(analyzer.analyze(ast)).find(d => d.code === 'non-exhaustive-case')!;
+        const [action] = getCodeActions(ast, analyzer.getSymbolTable(), diagnostic.range, [diagnostic], documentUri, code)
+          .filter(a => a.title.startsWith('Add missing CASE arms'));
+
+        expect(action.title).toBe('Add missing CASE arms for Idle, Failed, Repaired');
+        const document = TextDocument.create(documentUri, 'modsim', 1, code);
+        expect(TextDocument.applyEdits(document, action.edit!.changes![documentUri])).toBe(code.replace(
+          '      WHEN Running: RETURN Failed;\n',
+          '      WHEN Running: RETURN Failed;\n      WHEN Idle:\n      WHEN Failed:\n      WHEN Repaired:\n'
+        ));
+      });
+
+      it('should add the arms of a CASE inside ON INTERRUPT', () => {
+        const code = `MAIN MODULE Test;
+TYPE State = (Idle, Running);
+VAR s : State;
+    job : ANYOBJ;
+BEGIN
+  WAIT FOR job TO Run;
+  ON INTERRUPT
+    CASE s
+      WHEN Running: s := Idle;
+    END CASE;
+  END WAIT;
+END MODULE.`;
+
+        const { ast, analyzer } = parseAndAnalyze(code);
+        const diagnostic = toLspDiagnostics(analyzer.analyze(ast)).find(d => d.code === 'non-exhaustive-case')!;
+        const [action] = getCodeActions(ast, analyzer.getSymbolTable(), diagnostic.range, [diagnostic], documentUri, code)
+          .filter(a => a.title.startsWith('Add missing CASE arms'));
+
+        expect(action.title).toBe('Add missing CASE arms for Idle');
+      });
+
+      it('should take the values from the diagnostic data and keep CRLF line endings', () => {
+        const code = [
+          'MAIN MODULE Test;',
+          'TYPE State = (Idle, Running, Failed);',
+          'VAR s : State;',
+          'BEGIN',
+          '  CASE s',
+          '    WHEN Running: s := Idle;',
+          '  END CASE;',
+          'END MODULE.',
+        ].join('\r\n');
+
+        const { ast, analyzer } = parseAndAnalyze(code);
+        const diagnostic = toLspDiagnostics(analyzer.analyze(ast)).find(d => d.code === 'non-exhaustive-case')!;
+        expect(diagnostic.data).toEqual({ values: ['Idle', 'Failed'] });
+
+        const [action] = getCodeActions(ast, analyzer.getSymbolTable(), diagnostic.range, [diagnostic], documentUri, code)
+          .filter(a => a.title.startsWith('Add missing CASE arms'));
+        const document = TextDocument.create(documentUri, 'modsim', 1, code);
+        expect(TextDocument.applyEdits(document, action.edit!.changes![documentUri])).toBe(code.replace(
+          '    WHEN Running: s := Idle;\r\n',
+          '    WHEN Running: s := Idle;\r\n    WHEN Idle:\r\n    WHEN Failed:\r\n'
+        ));
+      });
+    });
+
     describe('Add missing END', () => {
       it('should provide quick fix to add missing END PROCEDURE', () => {
         const code = `
@@ -11,10 +11,22 @@ import {
   TextEdit,
 } from 'vscode-languageserver/node';
 
-import type { Module } from '../language/ast';
+import type { Module, Declaration, ImportStatement, Statement, CaseStatement, Position } from '../language/ast';
 import { SymbolTable } from '../language/symbols';
 import { findNodeAtPosition } from '../utils/astPosition';
 
+/**
+ * Declaration removed by the quick fix of each unused-declaration diagnostic code
+ */
+const UNUSED_DECLARATION_KINDS: Record<string, string> = {
+  'unused-variable': 'variable',
+  'unused-constant': 'constant',
+  'unused-type': 'type',
+  'unused-field': 'field',
+  'unused-method': 'method',
+  'unused-import': 'import',
+};
+
 /**
  * Get code actions for a range
  */
@@ -66,7 +78,7 @@ function getQuickFixes(
   diagnostic: Diagnostic,
   documentUri: string,
   documentText: string,
-  _ast: Module,
+  ast: Module,
   _symbolTable: SymbolTable
 ): CodeAction[] {
   const actions: CodeAction[] = [];
@@ -131,33 +143,50 @@ function getQuickFixes(
     }
   }
 
-  // Remove unused variable
-  if (message.includes('is declared but never used')) {
-    const match = message.match(/(Variable|Parameter) '(\w+)'/);
-    if (match) {
-      const symbolType = match[1];
-      const symbolName = match[2];
+  // Remove unused declarations and imports
+  const unused = getUnusedDeclaration(diagnostic);
+  if (unused) {
+    // Without its declaration in the AST, an unused variable is removed with its line
+    const edits = getRemovalEdits(ast, documentText, unused.kind, unused.name, diagnostic.range.start.line + 1)
+      ?? (unused.kind === 'variable' ? [
+        TextEdit.del({
+          start: { line: diagnostic.range.start.line, character: 0 },
+          end: { line: diagnostic.range.start.line + 1, character: 0 }
+        })
+      ] : undefined);
+
+    if (edits) {
+      actions.push({
+        title: `Remove unused ${unused.kind} '${unused.name}'`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: {
+          changes: {
+            [documentUri]: edits
+          }
+        }
+      });
+    }
+  }
 
-      // For variables, remove the entire VAR declaration line
-      if (symbolType === 'Variable') {
-        const action: CodeAction = {
-          title: `Remove unused variable '${symbolName}'`,
-          kind: CodeActionKind.QuickFix,
-          diagnostics: [diagnostic],
-          edit: {
-            changes: {
-              [documentUri]: [
-                // Delete the entire line including newline
-                TextEdit.del({
-                  start: { line: diagnostic.range.start.line, character: 0 },
-                  end: { line: diagnostic.range.start.line + 1, character: 0 }
-                })
-              ]
-            }
+  // Add the arms of the enumeration values a CASE does not handle
+  if (diagnostic.code === 'non-exhaustive-case') {
+    const values = (diagnostic.data as { values?: string[] } | undefined)?.values;
+    const caseStatement = findCaseStatement(getStatementLists(ast), diagnostic.range.start);
+
+    if (values && caseStatement) {
+      actions.push({
+        title: `Add missing CASE arms for ${values.join(', ')}`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: {
+          changes: {
+            [documentUri]: [getMissingArmsEdit(documentText, caseStatement, values)]
           }
-        };
-        actions.push(action);
-      }
+        }
+      });
     }
   }
 
@@ -194,6 +223,263 @@ function getQuickFixes(
   return actions;
 }
 
+/**
+ * Get the kind and name of the declaration an unused-declaration diagnostic is about
+ * Parameters are not removed, as that would change the calls of their procedure.
+ */
+function getUnusedDeclaration(diagnostic: Diagnostic): { kind: string; name: string } | undefined {
+  const name = diagnostic.message.match(/'(\w+)'/)?.[1];
+  const kind = typeof diagnostic.code === 'string'
+    ? UNUSED_DECLARATION_KINDS[diagnostic.code]
+    : /^Variable '\w+' is declared but never used/.test(diagnostic.message) ? 'variable' : undefined;
+  return name && kind ? { kind, name } : undefined;
+}
+
+/**
+ * Get the edits removing a declaration or import, found by its name and the line of its name
+ */
+function getRemovalEdits(ast: Module, text: string, kind: string, name: string, line: number): TextEdit[] | undefined {
+  if (kind === 'import') {
+    for (const statement of ast.imports) {
+      const index = statement.symbols.findIndex((s, i) => s.name === name && statement.symbolStarts?.[i]?.line === line);
+      if (index !== -1) {
+        return [TextEdit.del(toRange(text, getImportSymbolSpan(text, statement, index)))];
+      }
+    }
+    return undefined;
+  }
+
+  if (kind === 'method') {
+    return getPrivateMethodRemovalEdits(ast, text, name, line);
+  }
+
+  const declarationType = kind === 'constant' ? 'ConstDeclaration' : kind === 'type' ? 'TypeDeclaration' : 'VarDeclaration';
+  for (const declarations of getDeclarationLists(ast.declarations)) {
+    for (let index = 0; index < declarations.length; index++) {
+      const decl = declarations[index];
+      if (decl.type !== declarationType) continue;
+
+      const nameIndex = getNameStarts(decl).findIndex((start, i) => getNames(decl)[i] === name && start.line === line);
+      if (nameIndex !== -1) {
+        return [TextEdit.del(toRange(text, getDeclarationSpan(text, declarations, index, nameIndex)))];
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the edits removing a PRIVATE method from its object type and from the OBJECT block implementing it
+ */
+function getPrivateMethodRemovalEdits(ast: Module, text: string, name: string, line: number): TextEdit[] | undefined {
+  for (const decl of ast.declarations) {
+    if (decl.type !== 'TypeDeclaration' || decl.typeSpec.type !== 'ObjectType') continue;
+
+    const method = decl.typeSpec.methods.find((m) => m.name === name && m.isPrivate && m.nameStart?.line === line);
+    if (!method) continue;
+
+    const edits = [TextEdit.del(toRange(text, extendToLines(text, method.start.offset, method.end.offset)))];
+    for (const objectDecl of ast.declarations) {
+      if (objectDecl.type !== 'ObjectDeclaration' || objectDecl.name !== decl.name) continue;
+
+      const implementation = [...objectDecl.methods, ...(objectDecl.privateSection?.methods ?? [])].find((m) => m.name === name);
+      if (implementation) {
+        edits.push(TextEdit.del(toRange(text, extendToLines(text, implementation.start.offset, implementation.end.offset))));
+      }
+    }
+    return edits;
+  }
+  return undefined;
+}
+
+/**
+ * Get every list of declarations: those of the module, of procedures and methods, and the fields of types
+ */
+function* getDeclarationLists(declarations: Declaration[]): Generator<Declaration[]> {
+  yield declarations;
+  for (const decl of declarations) {
+    if (decl.type === 'ProcedureDeclaration') {
+      yield* getDeclarationLists(decl.localDeclarations ?? []);
+    } else if (decl.type === 'ObjectDeclaration') {
+      for (const method of [...decl.methods, ...(decl.privateSection?.methods ?? [])]) {
+        yield* getDeclarationLists(method.localDeclarations ?? []);
+      }
+    } else if (decl.type === 'TypeDeclaration' && (decl.typeSpec.type === 'ObjectType' || decl.typeSpec.type === 'RecordType')) {
+      yield decl.typeSpec.fields;
+    }
+  }
+}
+
+/**
+ * Get the names a declaration declares
+ */
+function getNames(decl: Declaration): string[] {
+  return decl.type === 'VarDeclaration' ? decl.names : 'name' in decl ? [decl.name] : [];
+}
+
+/**
+ * Get the start of each name a declaration declares
+ */
+function getNameStarts(decl: Declaration): Position[] {
+  if (decl.type === 'VarDeclaration') {
+    return decl.nameStarts ?? [];
+  }
+  return 'nameStart' in decl && decl.nameStart ? [decl.nameStart] : [];
+}
+
+/**
+ * Get the span of text removing one name of a declaration, or the whole declaration
+ * A declaration starting at its VAR, CONST or TYPE keyword keeps it for the declarations continuing its section.
+ */
+function getDeclarationSpan(text: string, declarations: Declaration[], index: number, nameIndex: number): [number, number] {
+  const decl = declarations[index];
+  const names = getNames(decl);
+  const starts = getNameStarts(decl).map((start) => start.offset);
+
+  if (names.length > 1) {
+    return getListItemSpan(starts, starts.map((start, i) => start + names[i].length), nameIndex);
+  }
+
+  const startsAtKeyword = (d: Declaration) => (getNameStarts(d)[0]?.offset ?? d.start.offset) > d.start.offset;
+  const next = declarations[index + 1];
+  const continuesSection = next && next.type === decl.type && !startsAtKeyword(next);
+  const start = startsAtKeyword(decl) && continuesSection ? starts[0] : decl.start.offset;
+  return extendToLines(text, start, decl.end.offset);
+}
+
+/**
+ * Get the span of text removing one symbol of an import, or the whole import when it is the only one
+ */
+function getImportSymbolSpan(text: string, statement: ImportStatement, index: number): [number, number] {
+  const starts = (statement.symbolStarts ?? []).map((start) => start.offset);
+  if (starts.length <= 1) {
+    return extendToLines(text, statement.start.offset, statement.end.offset);
+  }
+
+  // A symbol, with its alias or enumeration values, ends at the comma or semicolon after it
+  const ends = starts.map((_, i) => {
+    let end = i < starts.length - 1 ? text.lastIndexOf(',', starts[i + 1]) : statement.end.offset - 1;
+    while (/\s/.test(text[end - 1])) end--;
+    return end;
+  });
+  return getListItemSpan(starts, ends, index);
+}
+
+/**
+ * Get the span of text removing an item of a comma-separated list, with one of its commas
+ */
+function getListItemSpan(starts: number[], ends: number[], index: number): [number, number] {
+  return index === 0 ? [starts[0], starts[1]] : [ends[index - 1], ends[index]];
+}
+
+/**
+ * Extend a span of text to whole lines when nothing else is on them, otherwise to the spaces separating it
+ */
+function extendToLines(text: string, start: number, end: number): [number, number] {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+  const endsLine = /^[ \t\r]*$/.test(text.slice(end, lineEnd));
+
+  if (endsLine && /^[ \t]*$/.test(text.slice(lineStart, start))) {
+    return [lineStart, Math.min(lineEnd + 1, text.length)];
+  }
+  if (endsLine) {
+    while (start > lineStart && /[ \t]/.test(text[start - 1])) start--;
+  } else {
+    while (end < lineEnd && /[ \t]/.test(text[end])) end++;
+  }
+  return [start, end];
+}
+
+/**
+ * Convert a span of text to a range
+ */
+function toRange(text: string, [start, end]: [number, number]): Range {
+  return { start: positionAt(text, start), end: positionAt(text, end) };
+}
+
+/**
+ * Convert an offset in a text to a position
+ */
+function positionAt(text: string, offset: number): { line: number; character: number } {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length - 1;
+  return { line, character: offset - (before.lastIndexOf('\n') + 1) };
+}
+
+/**
+ * Get the statement lists of the module body and of every procedure and method
+ */
+function getStatementLists(ast: Module): Statement[][] {
+  const lists = [ast.mainBody ?? []];
+  for (const decl of ast.declarations) {
+    if (decl.type === 'ProcedureDeclaration') {
+      lists.push(decl.body);
+    } else if (decl.type === 'ObjectDeclaration') {
+      lists.push(...[...decl.methods, ...(decl.privateSection?.methods ?? [])].map((method) => method.body));
+    }
+  }
+  return lists;
+}
+
+/**
+ * Find the CASE statement starting at a position, in statement lists or the blocks nested in them
+ */
+function findCaseStatement(lists: Statement[][], position: { line: number; character: number }): CaseStatement | undefined {
+  for (const stmt of lists.flat()) {
+    if (stmt.type === 'CaseStatement' && stmt.start.line === position.line + 1 && stmt.start.column === position.character + 1) {
+      return stmt;
+    }
+
+    const found = findCaseStatement(getNestedStatementLists(stmt), position);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the blocks of statements nested in a statement
+ */
+function getNestedStatementLists(stmt: Statement): Statement[][] {
+  switch (stmt.type) {
+    case 'IfStatement':
+      return [stmt.thenBlock, ...stmt.elsifClauses.map((clause) => clause.block), stmt.elseBlock ?? []];
+    case 'CaseStatement':
+      return [...stmt.cases.map((arm) => arm.block), stmt.otherwiseBlock ?? []];
+    case 'BlockStatement':
+      return [stmt.statements];
+    case 'WaitStatement':
+      return [stmt.body ?? [], stmt.onInterrupt ?? []];
+    default:
+      return 'body' in stmt && Array.isArray(stmt.body) ? [stmt.body] : [];
+  }
+}
+
+/**
+ * Get the edit inserting an empty WHEN arm for each value before the END of a CASE statement
+ */
+function getMissingArmsEdit(text: string, stmt: CaseStatement, values: string[]): TextEdit {
+  const endOffset = text.lastIndexOf('END', stmt.end.offset);
+  const endPosition = positionAt(text, endOffset);
+  const endLineText = getLineText(text, endPosition.line);
+
+  // Arms line up with the existing ones, or are indented inside END CASE
+  const firstLabel = stmt.cases[0]?.values[0];
+  const indent = firstLabel
+    ? getIndentation(getLineText(text, firstLabel.start.line - 1))
+    : getIndentation(endLineText) + '  ';
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const arms = values.map((value) => `${indent}WHEN ${value}:${eol}`).join('');
+
+  // END CASE on its own line gets the arms on the lines before it
+  if (/^\s*$/.test(endLineText.slice(0, endPosition.character))) {
+    return TextEdit.insert({ line: endPosition.line, character: 0 }, arms);
+  }
+  return TextEdit.insert(endPosition, `${eol}${arms}`);
+}
+
 /**
  * Get refactorings for a node
  */
@@ -0,0 +1,131 @@
+/**
+ * Unit tests for code lenses
+ */
+
+import { CodeLens, Location } from 'vscode-languageserver/node';
+import { getCodeLenses, ReferenceIndexCache, SHOW_REFERENCES_COMMAND } from './codeLens';
+import { useWorkspace } from '../../test/helpers/workspace';
+
+describe('Code Lens', () => {
+  const workspace = useWorkspace({
+    'file:///queue.mod': `DEFINITION MODULE Queue;
+TYPE
+  QueueObj = OBJECT
+    TELL METHOD Schedule(IN delay : REAL);
+    ASK METHOD Size() : INTEGER;
+  END OBJECT;
+PROCEDURE Clear;
+END MODULE.`,
+    'file:///priority.mod': `DEFINITION MODULE Priority;
+FROM Queue IMPORT QueueObj;
+TYPE
+  PriorityObj = OBJECT(QueueObj)
+    OVERRIDE
+      TELL METHOD Schedule(IN delay : REAL);
+  END OBJECT;
+END MODULE.`,
+    'file:///app.mod': `MAIN MODULE App;
+FROM Queue IMPORT QueueObj, Clear;
+VAR q : QueueObj;
+VAR other : QueueObj;
+VAR n : INTEGER;
+BEGIN
+  Clear;
+  TELL q TO Schedule(2.0);
+  TELL other TO Schedule(3.0);
+  n := ASK q Size;
+END MODULE.`,
+  });
+
+  function lensesOf(uri: string): CodeLens[] {
+    const { ast, symbolTable } = workspace.document(uri);
+    return getCodeLenses(ast, symbolTable, uri, workspace.manager);
+  }
+
+  const titles = (lenses: CodeLens[]) => lenses.map(lens => [lens.range.start.line, lens.command!.title]);
+  const locationsOf = (lens: CodeLens) => (lens.command!.arguments![2] as Location[])
+    .map(location => [location.uri, location.range.start.line]);
+
+  it('should count references, overrides and scheduling sites across the workspace', () => {
+    expect(titles(lensesOf('file:///queue.mod'))).toEqual([
+      // The first type of a TYPE section starts at the keyword
+      [1, '2 references'],
+      [3, '2 references'],
+      [3, '1 override'],
+      [3, '2 scheduling sites'],
+      [4, '1 reference'],
+      [4, '0 overrides'],
+      [6, '1 reference'],
+    ]);
+  });
+
+  it('should name the method an OVERRIDE overrides', () => {
+    const lenses = lensesOf('file:///priority.mod');
+    const overrides = lenses.find(lens => lens.command!.title.startsWith('overrides'))!;
+
+    expect(overrides.command!.title).toBe('overrides QueueObj.Schedule');
+    expect(locationsOf(overrides)).toEqual([['file:///queue.mod', 3]]);
+  });
+
+  it('should not count same-named locals of other routines as references', async () => {
+    await workspace.manager.updateDocument('file:///tally.mod', `MAIN MODULE Tally;
+PROCEDURE Count;
+BEGIN
+END PROCEDURE;
+
+PROCEDURE Run;
+VAR Count : INTEGER;
+BEGIN
+  Count := 1;
+END PROCEDURE;
+
+BEGIN
+  Count;
+END MODULE.`, 1);
+
+    expect(titles(lensesOf('file:///tally.mod'))).toEqual([
+      [1, '1 reference'],
+      [5, '0 references'],
+    ]);
+  });
+
+  it('should index again only the modules analyzed again', async () => {
+    const cache = new ReferenceIndexCache();
+    const lensesWith = (uri: string) => {
+      const { ast, symbolTable } = workspace.document(uri);
+      return getCodeLenses(ast, symbolTable, uri, workspace.manager, undefined, cache);
+    };
+    const get = cache.get.bind(cache);
+    const indexed: string[] = [];
+    const build = jest.spyOn(cache, 'get').mockImplementation((contexts, buildModule) =>
+      get(contexts, context => {
+        indexed.push(context.uri);
+        return buildModule(context);
+      })
+    );
+
+    expect(titles(lensesWith('file:///queue.mod'))[0]).toEqual([1, '2 references']);
+    expect(indexed.sort()).toEqual(Object.keys(workspace.files).sort());
+    const first = build.mock.results[0].value;
+    lensesWith('file:///priority.mod');
+    expect(build.mock.results[1].value).toBe(first);
+
+    indexed.length = 0;
+    await workspace.manager.updateDocument('file:///app.mod', workspace.files['file:///app.mod'].replace('VAR other : QueueObj;\n', ''), 2);
+    expect(titles(lensesWith('file:///queue.mod'))[0]).toEqual([1, '1 reference']);
+    expect(indexed).toEqual(['file:///app.mod']);
+    expect(build.mock.results[2].value).not.toBe(first);
+  });
+
+  it('should open the matching locations with the show references command', () => {
+    const lenses = lensesOf('file:///queue.mod');
+    const scheduling = lenses.find(lens => lens.command!.title === '2 scheduling sites')!;
+    const overrides = lenses.find(lens => lens.command!.title === '1 override')!;
+
+    expect(scheduling.command!.command).toBe(SHOW_REFERENCES_COMMAND);
+    expect(scheduling.command!.arguments![0]).toBe('file:///queue.mod');
+    expect(scheduling.command!.arguments![1]).toEqual({ line: 3, character: 4 });
+    expect(locationsOf(scheduling)).toEqual([['file:///app.mod', 7], ['file:///app.mod', 8]]);
+    expect(locationsOf(overrides)).toEqual([['file:///priority.mod', 5]]);
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Code Lens Provider
+ * Reference counts above procedures, object types and methods, with the
+ * overrides of methods and the TELL statements that schedule them
+ */
+
+import {
+  CancellationToken,
+  CodeLens,
+  Location,
+} from 'vscode-languageserver/node';
+
+import type { Module, ASTNode, Expression, MethodDeclaration } from '../language/ast';
+import { SymbolTable } from '../language/symbols';
+import type { WorkspaceManager } from '../utils/workspace';
+import { toRange } from '../utils/astPosition';
+import {
+  ModuleContext,
+  ResolvedMember,
+  isModuleReference,
+  resolveDeclaration,
+  resolveMember,
+  getModuleContext,
+  getWorkspaceContexts,
+  toDeclarationLocation,
+} from '../utils/declarations';
+import { bindReference, resolveReceiverMember } from '../utils/symbolBinding';
+
+/**
+ * Client command the lenses run to open their locations, with the arguments (uri, position,
+ * locations) as protocol JSON. Clients register it and convert the arguments for their own
+ * references view, e.g. VS Code's `editor.action.showReferences` (see docs/vscode-setup.md).
+ */
+export const SHOW_REFERENCES_COMMAND = 'modsim.showReferences';
+
+/**
+ * References, overrides and TELL scheduling sites across the workspace, by declaration key
+ * Procedures and types are keyed `Module.Name`, methods `Module.Type.Method`.
+ */
+interface ReferenceIndex {
+  references: Map<string, Location[]>;
+  overrides: Map<string, Location[]>;
+  scheduling: Map<string, Location[]>;
+}
+
+/**
+ * The reference index of each module, and the workspace index merged from them
+ * Every analysis has its own symbol table, so a module is indexed again only once it has been
+ * analyzed again, and the merged index is rebuilt only when a module changed.
+ */
+export class ReferenceIndexCache {
+  private modules = new Map<string, { symbolTable: SymbolTable; index: ReferenceIndex }>();
+  private merged: ReferenceIndex | undefined;
+
+  get(
+    contexts: ModuleContext[],
+    build: (context: ModuleContext) => ReferenceIndex | undefined
+  ): ReferenceIndex | undefined {
+    const uris = new Set(contexts.map(context => context.uri));
+    for (const uri of this.modules.keys()) {
+      if (!uris.has(uri)) {
+        this.modules.delete(uri);
+        this.merged = undefined;
+      }
+    }
+
+    for (const context of contexts) {
+      if (this.modules.get(context.uri)?.symbolTable === context.symbolTable) {
+        continue;
+      }
+      const index = build(context);
+      if (!index) {
+        return undefined;
+      }
+      this.modules.set(context.uri, { symbolTable: context.symbolTable, index });
+      this.merged = undefined;
+    }
+
+    this.merged ??= mergeIndexes(contexts.map(context => this.modules.get(context.uri)!.index));
+    return this.merged;
+  }
+}
+
+/**
+ * Get the code lenses of a document
+ */
+export function getCodeLenses(
+  ast: Module,
+  symbolTable: SymbolTable,
+  documentUri: string,
+  workspaceManager?: WorkspaceManager,
+  token?: CancellationToken,
+  cache = new ReferenceIndexCache()
+): CodeLens[] {
+  const context: ModuleContext = { uri: documentUri, ast, symbolTable };
+  const contexts = getWorkspaceContexts(workspaceManager, context);
+  const index = cache.get(contexts, moduleContext =>
+    token?.isCancellationRequested ? undefined : indexReferences(moduleContext, workspaceManager)
+  );
+  if (!index) {
+    return [];
+  }
+
+  const lenses: CodeLens[] = [];
+  const addMethodLenses = (typeName: string, methods: MethodDeclaration[]) => {
+    for (const method of methods) {
+      const resolved = resolveMember(context, typeName, method.name, workspaceManager);
+      if (resolved?.member.type === 'MethodDeclaration') {
+        lenses.push(...getMethodLenses(context, method, resolved, index, workspaceManager));
+      }
+    }
+  };
+
+  for (const decl of ast.declarations) {
+    switch (decl.type) {
+      case 'ProcedureDeclaration':
+        lenses.push(createReferencesLens(context, decl, decl.name, index.references.get(`${ast.name}.${decl.name}`)));
+        break;
+      case 'TypeDeclaration':
+        if (decl.typeSpec.type === 'ObjectType') {
+          lenses.push(createReferencesLens(context, decl, decl.name, index.references.get(`${ast.name}.${decl.name}`)));
+          addMethodLenses(decl.name, decl.typeSpec.methods);
+        }
+        break;
+      case 'ObjectDeclaration':
+        addMethodLenses(decl.name, [...decl.methods, ...(decl.privateSection?.methods ?? [])]);
+        break;
+    }
+  }
+
+  return lenses;
+}
+
+/**
+ * Get the lenses of a method: its references, what it overrides or its overrides,
+ * and for TELL methods where it is scheduled
+ */
+function getMethodLenses(
+  context: ModuleContext,
+  method: MethodDeclaration,
+  resolved: ResolvedMember,
+  index: ReferenceIndex,
+  workspaceManager: WorkspaceManager | undefined
+): CodeLens[] {
+  const key = getMemberKey(resolved, method.name);
+  const lenses = [createReferencesLens(context, method, method.name, index.references.get(key))];
+
+  const overridden = findOverriddenMethod(resolved, method.name, workspaceManager);
+  if (overridden) {
+    lenses.push(createLens(context, method, method.name, `overrides ${overridden.typeName}.${method.name}`, [
+      toDeclarationLocation(overridden.context.uri, overridden.member.start, method.name),
+    ]));
+  } else {
+    const overrides = index.overrides.get(key) ?? [];
+    lenses.push(createLens(context, method, method.name, plural(overrides.length, 'override'), overrides));
+  }
+
+  if (method.methodType === 'TELL') {
+    const sites = index.scheduling.get(key) ?? [];
+    lenses.push(createLens(context, method, method.name, plural(sites.length, 'scheduling site'), sites));
+  }
+
+  return lenses;
+}
+
+/**
+ * Find the method of a base type that a method OVERRIDEs
+ */
+function findOverriddenMethod(
+  resolved: ResolvedMember,
+  methodName: string,
+  workspaceManager: WorkspaceManager | undefined
+): ResolvedMember | undefined {
+  const declared = resolveDeclaration(resolved.context, resolved.typeName, workspaceManager);
+  if (declared?.declaration.type !== 'TypeDeclaration' || declared.declaration.typeSpec.type !== 'ObjectType') {
+    return undefined;
+  }
+
+  for (const baseType of declared.declaration.typeSpec.baseTypes ?? []) {
+    const inherited = resolveMember(declared.context, baseType, methodName, workspaceManager);
+    if (inherited?.member.type === 'MethodDeclaration') {
+      return inherited;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Index the references, overrides and scheduling sites in a module
+ */
+function indexReferences(context: ModuleContext, workspaceManager: WorkspaceManager | undefined): ReferenceIndex {
+  const index: ReferenceIndex = { references: new Map(), overrides: new Map(), scheduling: new Map() };
+  const add = (map: Map<string, Location[]>, key: string | undefined, location: Location) => {
+    if (key) {
+      map.set(key, [...(map.get(key) ?? []), location]);
+    }
+  };
+
+  const visited = new Set<object>();
+  const visit = (value: unknown): void => {
+    if (!value || typeof value !== 'object' || visited.has(value)) {
+      return;
+    }
+    visited.add(value);
+
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+
+    const node = value as ASTNode & Record<string, any>;
+    const location = () => ({ uri: context.uri, range: toRange(node) });
+    switch (node.type) {
+      case 'IdentifierExpression':
+      case 'SimpleType':
+        add(index.references, resolveReferenceKey(context, node, node.name, workspaceManager), location());
+        break;
+      case 'FieldAccessExpression':
+        add(index.references, resolveFieldKey(context, node.object, node.field, workspaceManager), location());
+        break;
+      case 'AskStatement':
+      case 'TellStatement': {
+        const key = resolveMethodKey(context, node.object, node.method, workspaceManager);
+        add(index.references, key, location());
+        if (node.type === 'TellStatement') {
+          add(index.scheduling, key, location());
+        }
+        break;
+      }
+      case 'TypeDeclaration':
+        if (node.typeSpec.type === 'ObjectType') {
+          for (const method of node.typeSpec.methods as MethodDeclaration[]) {
+            const overridden = method.isOverride
+              ? findOverriddenMethod({ context, typeName: node.name, member: method }, method.name, workspaceManager)
+              : undefined;
+            if (overridden) {
+              add(index.overrides, getMemberKey(overridden, method.name),
+                toDeclarationLocation(context.uri, method.start, method.name));
+            }
+          }
+        }
+        break;
+    }
+
+    Object.values(node).forEach(visit);
+  };
+
+  visit(context.ast.declarations);
+  visit(context.ast.mainBody);
+
+  return index;
+}
+
+/**
+ * Merge the indexes of modules, keeping their order
+ */
+function mergeIndexes(indexes: ReferenceIndex[]): ReferenceIndex {
+  const merged: ReferenceIndex = { references: new Map(), overrides: new Map(), scheduling: new Map() };
+  const merge = (target: Map<string, Location[]>, source: Map<string, Location[]>) => {
+    for (const [key, locations] of source) {
+      target.set(key, [...(target.get(key) ?? []), ...locations]);
+    }
+  };
+
+  for (const index of indexes) {
+    merge(merged.references, index.references);
+    merge(merged.overrides, index.overrides);
+    merge(merged.scheduling, index.scheduling);
+  }
+  return merged;
+}
+
+/**
+ * Key of the procedure or object type a name refers to, bound through the scope it is written in
+ * Locals and parameters that share the name of a procedure or type are not its references.
+ */
+function resolveReferenceKey(
+  context: ModuleContext,
+  node: ASTNode,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined
+): string | undefined {
+  const binding = bindReference(context, name, node.start, workspaceManager, node.type === 'SimpleType');
+  const declaration = binding?.node;
+  if (declaration?.type !== 'ProcedureDeclaration' && declaration?.type !== 'TypeDeclaration') {
+    return undefined;
+  }
+  return `${binding!.context.ast.name}.${binding!.name}`;
+}
+
+/**
+ * Key of the procedure or object type a module-level name refers to
+ */
+function resolveDeclarationKey(
+  context: ModuleContext,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined
+): string | undefined {
+  const resolved = resolveDeclaration(context, name, workspaceManager);
+  const declaration = resolved?.declaration;
+  if (declaration?.type !== 'ProcedureDeclaration' && declaration?.type !== 'TypeDeclaration') {
+    return undefined;
+  }
+  return `${resolved!.context.ast.name}.${declaration.name}`;
+}
+
+/**
+ * Key of what `Module.Name` or `object.Method` refers to
+ */
+function resolveFieldKey(
+  context: ModuleContext,
+  object: Expression,
+  field: string,
+  workspaceManager: WorkspaceManager | undefined
+): string | undefined {
+  if (workspaceManager && object.type === 'IdentifierExpression' && isModuleReference(context, object.name)) {
+    const moduleContext = getModuleContext(workspaceManager, object.name);
+    return moduleContext && resolveDeclarationKey(moduleContext, field, workspaceManager);
+  }
+  return resolveMethodKey(context, object, field, workspaceManager);
+}
+
+/**
+ * Key of a method, resolved through the object type of its receiver
+ */
+function resolveMethodKey(
+  context: ModuleContext,
+  receiver: Expression,
+  method: string,
+  workspaceManager: WorkspaceManager | undefined
+): string | undefined {
+  const resolved = resolveReceiverMember(context, receiver, method, workspaceManager);
+  return resolved?.member.type === 'MethodDeclaration' ? getMemberKey(resolved, method) : undefined;
+}
+
+function getMemberKey(resolved: ResolvedMember, name: string): string {
+  return `${resolved.context.ast.name}.${resolved.typeName}.${name}`;
+}
+
+function createReferencesLens(context: ModuleContext, node: ASTNode, name: string, references: Location[] = []): CodeLens {
+  return createLens(context, node, name, plural(references.length, 'reference'), references);
+}
+
+function createLens(context: ModuleContext, node: ASTNode, name: string, title: string, locations: Location[]): CodeLens {
+  const { range } = toDeclarationLocation(context.uri, node.start, name);
+  return {
+    range,
+    command: {
+      title,
+      command: SHOW_REFERENCES_COMMAND,
+      arguments: [context.uri, range.start, locations],
+    },
+  };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
@@ -3,10 +3,11 @@
  */
 
 import { getCompletions, resolveCompletionItem } from './completion';
-import { CompletionItemKind } from 'vscode-languageserver/node';
+import { CompletionItem, CompletionItemKind, MarkupKind } from 'vscode-languageserver/node';
 import { Lexer } from '../language/lexer';
 import { Parser } from '../language/parser';
 import { SemanticAnalyzer } from '../language/analyzer';
+import { DocComments } from '../language/docComments';
 import type { Module } from '../language/ast';
 
 describe('Completion', () => {
@@ -320,6 +321,193 @@ END MODULE;
       expect(resolved).toBeDefined();
       expect(resolved.label).toBe(item.label);
     });
+
+    it('should resolve the doc comment of a symbol', () => {
+      const code = `
+DEFINITION MODULE Test;
+{ Age in whole years }
+TYPE Age = INTEGER;
+TYPE Plain = INTEGER;
+END MODULE;
+      `.trim();
+
+      const ast = new Parser(new Lexer(code).tokenize()).parse();
+      const analyzer = new SemanticAnalyzer();
+      analyzer.setDocComments(new DocComments(code));
+      analyzer.analyze(ast);
+      const symbolTable = analyzer.getSymbolTable();
+
+      const age = { label: 'Age', data: { uri: 'file:///test.mod', name: 'Age' } };
+      expect(resolveCompletionItem(age, symbolTable).documentation).toEqual({
+        kind: MarkupKind.Markdown,
+        value: 'Age in whole years',
+      });
+
+      const plain = { label: 'Plain', data: { uri: 'file:///test.mod', name: 'Plain' } };
+      expect(resolveCompletionItem(plain, symbolTable).documentation).toBeUndefined();
+    });
+
+    it('should tag symbol items with the document they came from', () => {
+      const { ast, analyzer } = parseAndAnalyze('DEFINITION MODULE Test;\nEND MODULE;');
+      const completions = getCompletions(ast, analyzer.getSymbolTable(), 0, 0, 'file:///test.mod');
+
+      const symbolItem = completions.find(c => c.label === 'Test');
+      expect(symbolItem?.data).toEqual({ uri: 'file:///test.mod', name: 'Test' });
+    });
+  });
+
+  describe('Context', () => {
+    const source = `IMPLEMENTATION MODULE Shop;
+TYPE
+  Point = RECORD
+    x : REAL;
+    y : REAL;
+  END RECORD;
+  BaseObj = OBJECT
+    id : INTEGER;
+    { Returns the id }
+    ASK METHOD GetId() : INTEGER;
+    TELL METHOD Reset();
+  END OBJECT;
+  CartObj = OBJECT(BaseObj)
+    pos : Point;
+    ASK METHOD Total(IN tax : REAL) : REAL;
+    TELL METHOD Add(IN item : INTEGER);
+  END OBJECT;
+VAR
+  cart : CartObj;
+  origin : Point;
+PROCEDURE Checkout(IN count : INTEGER);
+VAR
+  total : REAL;
+BEGIN
+  total := 0.0;
+END PROCEDURE;
+END MODULE.`;
+
+    /**
+     * Complete at the '|' marker, using the analysis of the unedited source
+     */
+    function complete(code: string, analyzed = source): CompletionItem[] {
+      const offset = code.indexOf('|');
+      const text = code.slice(0, offset) + code.slice(offset + 1);
+      const before = text.slice(0, offset).split('\n');
+      const ast = new Parser(new Lexer(analyzed).tokenize()).parse();
+      const analyzer = new SemanticAnalyzer();
+      analyzer.setDocComments(new DocComments(analyzed));
+      analyzer.analyze(ast);
+      return getCompletions(ast, analyzer.getSymbolTable(), before.length - 1, before[before.length - 1].length, undefined, text);
+    }
+
+    function completeAt(code: string, analyzed = source): string[] {
+      return complete(code, analyzed).map(c => c.label);
+    }
+
+    function inCheckout(statement: string): string {
+      return source.replace('  total := 0.0;', statement);
+    }
+
+    it('should offer ASK methods after ASK obj TO, including inherited ones', () => {
+      const labels = completeAt(inCheckout('  ASK cart TO |'));
+      expect(labels).toEqual(expect.arrayContaining(['Total', 'GetId']));
+      expect(labels).not.toContain('Add');
+      expect(labels).not.toContain('Reset');
+      expect(labels).not.toContain('IF');
+    });
+
+    it('should offer TELL methods after TELL obj TO and filter by the typed prefix', () => {
+      expect(completeAt(inCheckout('  TELL cart TO |'))).toEqual(expect.arrayContaining(['Add', 'Reset']));
+      expect(completeAt(inCheckout('  TELL cart TO Ad|'))).not.toContain('Total');
+    });
+
+    it('should describe methods with their signature and documentation', () => {
+      const items = complete(inCheckout('  ASK cart TO |'));
+
+      expect(items.find(i => i.label === 'Total')?.detail).toBe('ASK METHOD Total(IN tax : REAL) : REAL');
+      expect(items.find(i => i.label === 'GetId')?.documentation).toEqual({ kind: MarkupKind.Markdown, value: 'Returns the id' });
+    });
+
+    it('should offer record and object fields after a dot', () => {
+      expect(completeAt(inCheckout('  origin.|'))).toEqual(['x', 'y']);
+      expect(completeAt(inCheckout('  cart.pos.|'))).toEqual(['x', 'y']);
+      expect(completeAt(inCheckout('  total := cart.|'))).toEqual(expect.arrayContaining(['pos', 'id']));
+    });
+
+    it('should offer only types in a type position', () => {
+      const labels = completeAt(source.replace('  total : REAL;', '  total : |'));
+      expect(labels).toEqual(expect.arrayContaining(['REAL', 'INTEGER', 'Point', 'CartObj', 'ARRAY']));
+      expect(labels).not.toContain('cart');
+      expect(labels).not.toContain('Checkout');
+      expect(labels).not.toContain('IF');
+    });
+
+    it('should offer in-scope variables and procedures inside a statement', () => {
+      const labels = completeAt(inCheckout('  total := |'));
+      expect(labels).toEqual(expect.arrayContaining(['total', 'count', 'cart', 'origin', 'Checkout', 'TRUE']));
+      expect(labels).not.toContain('Point');
+      expect(labels).not.toContain('INTEGER');
+      expect(labels).not.toContain('WHILE');
+    });
+
+    it('should add statement keywords and snippets at the start of a statement', () => {
+      const labels = completeAt(inCheckout('  total := 0.0;\n  |'));
+      expect(labels).toEqual(expect.arrayContaining(['total', 'IF', 'WHILE', 'IF...END IF']));
+      expect(labels).not.toContain('PROCEDURE');
+    });
+
+    it('should offer nothing inside a comment', () => {
+      expect(completeAt(inCheckout('  { see |'))).toEqual([]);
+    });
+
+    it('should offer the fields of a WITH record inside its body', () => {
+      const code = inCheckout('  WITH origin DO\n    total := |y;\n  END WITH;');
+      const labels = completeAt(code, code.replace('|', ''));
+
+      expect(labels).toEqual(expect.arrayContaining(['x', 'y', 'total', 'count']));
+    });
+
+    it('should offer methods inherited from an object type of another module', () => {
+      const base = new SemanticAnalyzer();
+      base.analyze(new Parser(new Lexer(`DEFINITION MODULE Base;
+TYPE
+  BaseObj = OBJECT
+    ASK METHOD GetId() : INTEGER;
+  END OBJECT;
+END MODULE.`).tokenize()).parse());
+
+      const code = `IMPLEMENTATION MODULE Shop;
+FROM Base IMPORT BaseObj;
+TYPE
+  CartObj = OBJECT(BaseObj)
+    ASK METHOD Total() : REAL;
+  END OBJECT;
+VAR
+  cart : CartObj;
+PROCEDURE Checkout;
+BEGIN
+  ASK cart TO |
+END PROCEDURE;
+END MODULE.`;
+      const offset = code.indexOf('|');
+      const text = code.replace('|', '');
+      const before = text.slice(0, offset).split('\n');
+      const ast = new Parser(new Lexer(text).tokenize(), { errorRecovery: true }).parse();
+      const analyzer = new SemanticAnalyzer();
+      analyzer.setWorkspaceResolver(name => name === 'Base' ? base.getSymbolTable() : undefined);
+      analyzer.analyze(ast);
+
+      const labels = getCompletions(
+        ast,
+        analyzer.getSymbolTable(),
+        before.length - 1,
+        before[before.length - 1].length,
+        undefined,
+        text,
+        (reference) => reference.moduleName === 'Base' ? base.getSymbolTable().lookupGlobal(reference.name)?.type : undefined
+      ).map(c => c.label);
+
+      expect(labels).toEqual(expect.arrayContaining(['Total', 'GetId']));
+    });
   });
 
   describe('Complex Module Completions', () => {
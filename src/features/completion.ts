@@ -3,50 +3,140 @@
  * Provides context-aware code completion for MODSIM III
  */
 
-import { CompletionItem, CompletionItemKind, InsertTextFormat } from 'vscode-languageserver/node';
-import type { Module } from '../language/ast';
-import { SymbolTable, SymbolKind } from '../language/symbols';
+import { CompletionItem, CompletionItemKind, InsertTextFormat, MarkupKind } from 'vscode-languageserver/node';
+import type { Module, Token } from '../language/ast';
+import { TokenType } from '../language/ast';
+import { Lexer } from '../language/lexer';
+import { SymbolTable, SymbolKind, Scope, ScopeKind, AnySymbol } from '../language/symbols';
+import {
+  Type,
+  TypeKind,
+  PointerType,
+  MethodInfo,
+  FieldInfo,
+  ImportedTypeResolver,
+  getMembers,
+} from '../language/types';
+
+/**
+ * Syntactic context at the cursor
+ */
+type CompletionContext =
+  | { kind: 'general' } // Declarations, or no text to go on
+  | { kind: 'comment' }
+  | { kind: 'type' } // After ':' in a declaration, OF, POINTER TO, or '=' in a TYPE section
+  | { kind: 'statement' } // Start of a statement
+  | { kind: 'expression' } // Inside a statement
+  | { kind: 'member'; path: string[] } // After `rec.`
+  | { kind: 'method'; path: string[]; methodTypes: MethodInfo['methodType'][] }; // After `ASK obj TO`
+
+/**
+ * Declarations enclosing the cursor
+ */
+interface Enclosing {
+  object?: string; // Object being implemented, which SELF refers to
+}
+
+/**
+ * What resolving the members of a path needs
+ */
+interface MemberLookup {
+  symbolTable: SymbolTable;
+  enclosing: Enclosing;
+  resolveImported?: ImportedTypeResolver;
+}
 
 /**
  * Get completion items at a position
+ * Without the document text the context is unknown and everything in scope is offered.
+ * Members inherited from object types of other modules need `resolveImported`.
  */
 export function getCompletions(
-  _ast: Module,
+  ast: Module,
   symbolTable: SymbolTable,
-  _line: number,
-  _character: number
+  line: number,
+  character: number,
+  documentUri?: string,
+  text?: string,
+  resolveImported?: ImportedTypeResolver
 ): CompletionItem[] {
-  const completions: CompletionItem[] = [];
-
-  // Add keywords
-  completions.push(...getKeywordCompletions());
-
-  // Add symbols from symbol table
-  completions.push(...getSymbolCompletions(symbolTable));
+  const scope = findScope(symbolTable, ast, line, character);
+  if (text === undefined) {
+    return getGeneralCompletions(scope, documentUri);
+  }
 
-  // Add snippets
-  completions.push(...getSnippetCompletions());
+  const { context, enclosing } = getCompletionContext(text, line, character);
+  const members: MemberLookup = { symbolTable, enclosing, resolveImported };
 
-  return completions;
+  switch (context.kind) {
+    case 'comment':
+      return [];
+    case 'method':
+      return getMethodCompletions(context.path, context.methodTypes, scope, members);
+    case 'member':
+      return getMemberCompletions(context.path, scope, members);
+    case 'type':
+      return [
+        ...getSymbolCompletions(scope, documentUri, symbol => symbol.kind === SymbolKind.TYPE),
+        ...getKeywordCompletions(TYPE_KEYWORDS),
+      ];
+    case 'statement':
+      return [
+        ...getSymbolCompletions(scope, documentUri, isValueSymbol),
+        ...getKeywordCompletions(STATEMENT_KEYWORDS),
+        ...getStatementSnippets(),
+      ];
+    case 'expression':
+      return [
+        ...getSymbolCompletions(scope, documentUri, isValueSymbol),
+        ...getKeywordCompletions(VALUE_KEYWORDS),
+      ];
+    default:
+      return getGeneralCompletions(scope, documentUri);
+  }
 }
 
 /**
- * Get keyword completions
+ * Everything in scope: keywords, symbols and snippets
  */
-function getKeywordCompletions(): CompletionItem[] {
-  const keywords = [
-    'AND', 'ARRAY', 'ASK', 'BEGIN', 'BOOLEAN', 'BY', 'CASE', 'CLONE',
-    'CONST', 'DEFINITION', 'DISPOSE', 'DIV', 'DO', 'DOWNTO', 'DURATION',
-    'ELSE', 'ELSIF', 'END', 'EXIT', 'FALSE', 'FIRST', 'FOR', 'FOREACH',
-    'FROM', 'IF', 'IMPLEMENTATION', 'IMPORT', 'IN', 'INHERITED', 'INOUT',
-    'INPUT', 'INTEGER', 'INTERRUPT', 'LAST', 'LOOP', 'METHOD', 'MOD',
-    'MODULE', 'NEW', 'NILARRAY', 'NILOBJ', 'NILREC', 'NOT', 'NUMBER',
-    'OBJECT', 'OF', 'OR', 'OTHERWISE', 'OUT', 'OUTPUT', 'OVERRIDE',
-    'POINTER', 'PROCEDURE', 'REAL', 'RECORD', 'REF', 'REPEAT', 'RETURN',
-    'SELF', 'STRING', 'TELL', 'TERMINATE', 'THEN', 'TO', 'TRUE', 'TYPE',
-    'UNTIL', 'VAR', 'WAIT', 'WHILE', 'WITH', 'XOR'
+function getGeneralCompletions(scope: Scope, documentUri?: string): CompletionItem[] {
+  return [
+    ...getKeywordCompletions(),
+    ...getSymbolCompletions(scope, documentUri),
+    ...getStatementSnippets(),
+    ...getDeclarationSnippets(),
   ];
+}
+
+const KEYWORDS = [
+  'AND', 'ARRAY', 'ASK', 'BEGIN', 'BOOLEAN', 'BY', 'CASE', 'CLONE',
+  'CONST', 'DEFINITION', 'DISPOSE', 'DIV', 'DO', 'DOWNTO', 'DURATION',
+  'ELSE', 'ELSIF', 'END', 'EXIT', 'FALSE', 'FIRST', 'FOR', 'FOREACH',
+  'FROM', 'IF', 'IMPLEMENTATION', 'IMPORT', 'IN', 'INHERITED', 'INOUT',
+  'INPUT', 'INTEGER', 'INTERRUPT', 'LAST', 'LOOP', 'METHOD', 'MOD',
+  'MODULE', 'NEW', 'NILARRAY', 'NILOBJ', 'NILREC', 'NOT', 'NUMBER',
+  'OBJECT', 'OF', 'OR', 'OTHERWISE', 'OUT', 'OUTPUT', 'OVERRIDE',
+  'POINTER', 'PROCEDURE', 'REAL', 'RECORD', 'REF', 'REPEAT', 'RETURN',
+  'SELF', 'STRING', 'TELL', 'TERMINATE', 'THEN', 'TO', 'TRUE', 'TYPE',
+  'UNTIL', 'VAR', 'WAIT', 'WHILE', 'WITH', 'XOR'
+];
+
+// Keywords that start a type (built-in types come from the symbol table)
+const TYPE_KEYWORDS = ['ARRAY', 'OBJECT', 'POINTER', 'RECORD'];
 
+// Keywords that start or continue a statement
+const STATEMENT_KEYWORDS = [
+  'ASK', 'CASE', 'DISPOSE', 'ELSE', 'ELSIF', 'END', 'EXIT', 'FOR', 'FOREACH', 'IF', 'INHERITED',
+  'LOOP', 'NEW', 'REPEAT', 'RETURN', 'TELL', 'TERMINATE', 'UNTIL', 'WAIT', 'WHILE',
+];
+
+// Keywords that are values in an expression
+const VALUE_KEYWORDS = ['FALSE', 'NILARRAY', 'NILOBJ', 'NILREC', 'NOT', 'SELF', 'TRUE'];
+
+/**
+ * Get keyword completions
+ */
+function getKeywordCompletions(keywords: string[] = KEYWORDS): CompletionItem[] {
   return keywords.map((keyword) => ({
     label: keyword,
     kind: CompletionItemKind.Keyword,
@@ -55,18 +145,48 @@ function getKeywordCompletions(): CompletionItem[] {
 }
 
 /**
- * Get symbol completions from symbol table
+ * Data carried by symbol completion items, so documentation can be resolved lazily
  */
-function getSymbolCompletions(symbolTable: SymbolTable): CompletionItem[] {
+export interface SymbolCompletionData {
+  uri?: string;
+  name: string;
+}
+
+/**
+ * Symbols that can be used in a statement
+ */
+function isValueSymbol(symbol: AnySymbol): boolean {
+  switch (symbol.kind) {
+    case SymbolKind.VAR:
+    case SymbolKind.PARAMETER:
+    case SymbolKind.CONST:
+    case SymbolKind.PROCEDURE:
+    case SymbolKind.FIELD:
+    case SymbolKind.ENUM_VALUE:
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get symbol completions from a scope and all parent scopes
+ */
+function getSymbolCompletions(
+  startScope: Scope,
+  documentUri?: string,
+  filter: (symbol: AnySymbol) => boolean = () => true
+): CompletionItem[] {
   const completions: CompletionItem[] = [];
   const seen = new Set<string>();
 
-  // Get symbols from current scope and all parent scopes
-  let scope: typeof symbolTable.currentScope | undefined = symbolTable.currentScope;
+  let scope: Scope | undefined = startScope;
   while (scope) {
     for (const [name, symbol] of scope.symbols.entries()) {
+      // Inner declarations hide outer ones, even if they are filtered out
       if (seen.has(name)) continue;
       seen.add(name);
+      if (!filter(symbol)) continue;
 
       let kind: CompletionItemKind;
       let detail: string;
@@ -105,10 +225,12 @@ function getSymbolCompletions(symbolTable: SymbolTable): CompletionItem[] {
           detail = 'Symbol';
       }
 
+      const data: SymbolCompletionData = { uri: documentUri, name };
       completions.push({
         label: name,
         kind,
         detail,
+        data,
       });
     }
 
@@ -119,9 +241,292 @@ function getSymbolCompletions(symbolTable: SymbolTable): CompletionItem[] {
 }
 
 /**
- * Get snippet completions
+ * Get the methods that can be called with ASK/TELL on an object, including inherited ones
+ */
+function getMethodCompletions(
+  path: string[],
+  methodTypes: MethodInfo['methodType'][],
+  scope: Scope,
+  members: MemberLookup
+): CompletionItem[] {
+  const type = resolvePath(path, scope, members);
+  if (type?.kind !== TypeKind.OBJECT) {
+    return [];
+  }
+
+  const completions: CompletionItem[] = [];
+  for (const [name, method] of getObjectMethods(type, path[0] === 'SELF', members.resolveImported)) {
+    if (!methodTypes.includes(method.methodType)) continue;
+
+    const parameters = method.parameters.map(p => `${p.mode} ${p.name} : ${formatType(p.type)}`).join('; ');
+    const returnType = method.returnType ? ` : ${formatType(method.returnType)}` : '';
+    completions.push({
+      label: name,
+      kind: CompletionItemKind.Method,
+      detail: `${method.methodType} METHOD ${name}(${parameters})${returnType}`,
+      documentation: method.documentation ? { kind: MarkupKind.Markdown, value: method.documentation } : undefined,
+    });
+  }
+
+  return completions;
+}
+
+/**
+ * Get the fields of a record or object after `rec.`
+ */
+function getMemberCompletions(path: string[], scope: Scope, members: MemberLookup): CompletionItem[] {
+  const type = resolvePath(path, scope, members);
+  if (type?.kind !== TypeKind.RECORD && type?.kind !== TypeKind.OBJECT) {
+    return [];
+  }
+
+  return Array.from(getFields(type, path[0] === 'SELF', members.resolveImported), ([name, field]) => ({
+    label: name,
+    kind: CompletionItemKind.Field,
+    detail: formatType(field.type),
+    documentation: field.documentation ? { kind: MarkupKind.Markdown, value: field.documentation } : undefined,
+  }));
+}
+
+/**
+ * Methods of an object type and its base types; private ones only from SELF
+ */
+function getObjectMethods(
+  type: Type,
+  includePrivate: boolean,
+  resolveImported?: ImportedTypeResolver
+): Map<string, MethodInfo> {
+  const methods = new Map<string, MethodInfo>();
+  for (const [name, member] of getMembers(type, resolveImported).members) {
+    if (member.method && (includePrivate || !member.isPrivate)) {
+      methods.set(name, member.method);
+    }
+  }
+  return methods;
+}
+
+/**
+ * Fields of a record or object type and its base types; private ones only from SELF
+ */
+function getFields(
+  type: Type,
+  includePrivate: boolean,
+  resolveImported?: ImportedTypeResolver
+): Map<string, FieldInfo> {
+  const fields = new Map<string, FieldInfo>();
+  for (const [name, member] of getMembers(type, resolveImported).members) {
+    if (member.field && (includePrivate || !member.isPrivate)) {
+      fields.set(name, member.field);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Resolve the type of a path such as `obj`, `SELF.queue` or `rec.pos`
+ */
+function resolvePath(path: string[], scope: Scope, members: MemberLookup): Type | undefined {
+  const { symbolTable, enclosing, resolveImported } = members;
+  let type: Type | undefined;
+  if (path[0] === 'SELF') {
+    type = enclosing.object ? lookup(enclosing.object, scope, symbolTable)?.type : undefined;
+  } else {
+    type = lookup(path[0], scope, symbolTable)?.type;
+  }
+
+  for (const name of path.slice(1)) {
+    type = dereference(type);
+    if (type?.kind !== TypeKind.RECORD && type?.kind !== TypeKind.OBJECT) {
+      return undefined;
+    }
+    type = getFields(type, false, resolveImported).get(name)?.type;
+  }
+
+  return dereference(type);
+}
+
+function dereference(type: Type | undefined): Type | undefined {
+  return type?.kind === TypeKind.POINTER ? (type as PointerType).baseType : type;
+}
+
+function lookup(name: string, scope: Scope, symbolTable: SymbolTable): AnySymbol | undefined {
+  return scope.lookup(name) ?? symbolTable.lookupGlobal(name);
+}
+
+function formatType(type: Type | undefined): string {
+  return type?.name || type?.kind || 'Unknown';
+}
+
+/**
+ * Find the innermost scope containing the cursor (0-based)
+ * Outside the module's range, e.g. after END MODULE, falls back to the module scope.
+ */
+function findScope(symbolTable: SymbolTable, ast: Module, line: number, character: number): Scope {
+  const scope = symbolTable.findScopeAt({ line: line + 1, column: character + 1 });
+  if (scope !== symbolTable.globalScope) {
+    return scope;
+  }
+  return symbolTable.globalScope.children.find(child => child.kind === ScopeKind.MODULE && child.name === ast.name)
+    ?? symbolTable.globalScope;
+}
+
+/**
+ * Work out what can be typed at a position from the tokens before it
+ */
+function getCompletionContext(
+  text: string,
+  line: number,
+  character: number
+): { context: CompletionContext; enclosing: Enclosing } {
+  const offset = getOffset(text, line, character);
+  const prefix = text.slice(0, offset);
+  const tokens = new Lexer(prefix, { trivia: true }).tokenize();
+
+  const eof = tokens.pop()!;
+  const enclosing: Enclosing = {};
+  if (isInComment(eof, prefix)) {
+    return { context: { kind: 'comment' }, enclosing };
+  }
+
+  // A word being typed is the filter text, not part of the context
+  const last = tokens[tokens.length - 1];
+  if (last && last.end.offset === offset && /^\w+$/.test(prefix.slice(last.start.offset))) {
+    tokens.pop();
+  }
+
+  // Track where the cursor is: declarations or statements, and in which object
+  let inBody = false;
+  let section: TokenType | undefined;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+    const afterEnd = tokens[i - 1]?.type === TokenType.END;
+
+    switch (token.type) {
+      case TokenType.BEGIN:
+        inBody = true;
+        break;
+      case TokenType.VAR:
+      case TokenType.CONST:
+      case TokenType.TYPE:
+        inBody = false;
+        section = token.type;
+        break;
+      case TokenType.PROCEDURE:
+      case TokenType.METHOD:
+        inBody = false;
+        section = undefined;
+        break;
+      case TokenType.OBJECT:
+        if (afterEnd) {
+          enclosing.object = undefined;
+        } else if (next?.type === TokenType.IDENTIFIER && tokens[i - 1]?.type !== TokenType.EQUAL) {
+          enclosing.object = next.value; // OBJECT Name; starts an implementation
+        }
+        break;
+      case TokenType.IMPLEMENTATION:
+        if (next?.type === TokenType.IDENTIFIER) {
+          enclosing.object = next.value;
+        }
+        break;
+      case TokenType.MODULE:
+        if (afterEnd) inBody = false;
+        break;
+    }
+  }
+
+  return { context: classifyContext(tokens, inBody, section), enclosing };
+}
+
+/**
+ * Classify the position after the last token
+ */
+function classifyContext(tokens: Token[], inBody: boolean, section: TokenType | undefined): CompletionContext {
+  const last = tokens[tokens.length - 1];
+  const previous = tokens[tokens.length - 2];
+
+  if (last?.type === TokenType.TO) {
+    const { path, start } = readPath(tokens, tokens.length - 1);
+    const keyword = tokens[start - 1];
+    if (path.length > 0 && keyword?.type === TokenType.ASK) {
+      return { kind: 'method', path, methodTypes: ['ASK', 'LMONITOR', 'RMONITOR'] };
+    }
+    if (path.length > 0 && keyword?.type === TokenType.TELL) {
+      return { kind: 'method', path, methodTypes: ['TELL'] };
+    }
+    if (path.length > 0 && keyword?.type === TokenType.FOR && tokens[start - 2]?.type === TokenType.WAIT) {
+      return { kind: 'method', path, methodTypes: ['TELL', 'WAITFOR'] };
+    }
+  }
+
+  if (last?.type === TokenType.DOT) {
+    const { path } = readPath(tokens, tokens.length - 1);
+    if (path.length > 0) {
+      return { kind: 'member', path };
+    }
+  }
+
+  if (!inBody) {
+    const isType = last?.type === TokenType.COLON
+      || last?.type === TokenType.OF
+      || (last?.type === TokenType.TO && previous?.type === TokenType.POINTER)
+      || (last?.type === TokenType.EQUAL && section === TokenType.TYPE);
+    return { kind: isType ? 'type' : 'general' };
+  }
+
+  const statementStarts = [
+    TokenType.SEMICOLON, TokenType.BEGIN, TokenType.THEN, TokenType.DO, TokenType.ELSE, TokenType.LOOP,
+    TokenType.REPEAT, TokenType.OTHERWISE, TokenType.COLON, TokenType.INTERRUPT,
+  ];
+  return { kind: !last || statementStarts.includes(last.type) ? 'statement' : 'expression' };
+}
+
+/**
+ * Read the `a.b.c` path ending just before index
+ */
+function readPath(tokens: Token[], index: number): { path: string[]; start: number } {
+  const path: string[] = [];
+  let i = index - 1;
+
+  while (i >= 0 && (tokens[i].type === TokenType.IDENTIFIER || tokens[i].type === TokenType.SELF)) {
+    path.unshift(tokens[i].value);
+    if (tokens[i - 1]?.type !== TokenType.DOT) {
+      break;
+    }
+    i -= 2;
+  }
+
+  return { path, start: i };
+}
+
+/**
+ * Whether the end of the text is inside an unterminated comment
+ */
+function isInComment(eof: Token, prefix: string): boolean {
+  const trivia = eof.leadingTrivia ?? [];
+  const comment = trivia[trivia.length - 1];
+  if (comment?.type !== TokenType.COMMENT || comment.end.offset !== prefix.length) {
+    return false;
+  }
+  return comment.text.startsWith('(*') ? !comment.text.endsWith('*)') : !comment.text.endsWith('}');
+}
+
+function getOffset(text: string, line: number, character: number): number {
+  let offset = 0;
+  for (let i = 0; i < line; i++) {
+    const newline = text.indexOf('\n', offset);
+    if (newline < 0) {
+      return text.length;
+    }
+    offset = newline + 1;
+  }
+  return Math.min(offset + character, text.length);
+}
+
+/**
+ * Get statement snippet completions
  */
-function getSnippetCompletions(): CompletionItem[] {
+function getStatementSnippets(): CompletionItem[] {
   return [
     {
       label: 'IF...END IF',
@@ -165,6 +570,28 @@ function getSnippetCompletions(): CompletionItem[] {
       insertText: 'LOOP\n\t$0\n\tEXIT;\nEND LOOP;',
       insertTextFormat: InsertTextFormat.Snippet,
     },
+    {
+      label: 'ASK...TO',
+      kind: CompletionItemKind.Snippet,
+      detail: 'ASK statement',
+      insertText: 'ASK ${1:object} TO ${2:method}(${3:arguments});',
+      insertTextFormat: InsertTextFormat.Snippet,
+    },
+    {
+      label: 'TELL...TO',
+      kind: CompletionItemKind.Snippet,
+      detail: 'TELL statement',
+      insertText: 'TELL ${1:object} TO ${2:method}(${3:arguments});',
+      insertTextFormat: InsertTextFormat.Snippet,
+    },
+  ];
+}
+
+/**
+ * Get declaration snippet completions
+ */
+function getDeclarationSnippets(): CompletionItem[] {
+  return [
     {
       label: 'PROCEDURE',
       kind: CompletionItemKind.Snippet,
@@ -193,28 +620,27 @@ function getSnippetCompletions(): CompletionItem[] {
       insertText: 'OBJECT ${1:name};\n\t$0\nEND OBJECT;',
       insertTextFormat: InsertTextFormat.Snippet,
     },
-    {
-      label: 'ASK...TO',
-      kind: CompletionItemKind.Snippet,
-      detail: 'ASK statement',
-      insertText: 'ASK ${1:object} TO ${2:method}(${3:arguments});',
-      insertTextFormat: InsertTextFormat.Snippet,
-    },
-    {
-      label: 'TELL...TO',
-      kind: CompletionItemKind.Snippet,
-      detail: 'TELL statement',
-      insertText: 'TELL ${1:object} TO ${2:method}(${3:arguments});',
-      insertTextFormat: InsertTextFormat.Snippet,
-    },
   ];
 }
 
 /**
  * Resolve completion item (add additional details)
+ * Symbol items get the doc comment of their declaration, which may be in another file
+ * when the symbol was imported.
  */
-export function resolveCompletionItem(item: CompletionItem): CompletionItem {
-  // Add documentation if needed
-  // For now, just return the item as-is
+export function resolveCompletionItem(item: CompletionItem, symbolTable?: SymbolTable): CompletionItem {
+  const data = item.data as SymbolCompletionData | undefined;
+  if (!symbolTable || !data?.name) {
+    return item;
+  }
+
+  const symbol = symbolTable.getAllSymbols().find(s => s.name === data.name);
+  if (symbol?.documentation) {
+    item.documentation = {
+      kind: MarkupKind.Markdown,
+      value: symbol.documentation,
+    };
+  }
+
   return item;
 }
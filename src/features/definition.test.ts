@@ -7,6 +7,7 @@ import { Lexer } from '../language/lexer';
 import { Parser } from '../language/parser';
 import { SemanticAnalyzer } from '../language/analyzer';
 import type { Module } from '../language/ast';
+import { WorkspaceManager } from '../utils/workspace';
 
 describe('Definition', () => {
   const testUri = 'file:///test.mod';
@@ -152,6 +153,75 @@ END MODULE;
     });
   });
 
+  describe('Scope-Aware Definitions', () => {
+    const code = `
+IMPLEMENTATION MODULE Test;
+TYPE Counter = OBJECT
+  count: INTEGER;
+  ASK METHOD Bump;
+END OBJECT;
+
+PROCEDURE Scale(IN count: REAL);
+BEGIN
+END PROCEDURE;
+
+PROCEDURE Tally;
+VAR total, count: INTEGER;
+BEGIN
+  count := 1;
+END PROCEDURE;
+
+OBJECT Counter;
+  ASK METHOD Bump;
+  BEGIN
+    count := count + 1;
+  END METHOD;
+END OBJECT;
+END MODULE;
+    `;
+
+    it('should resolve a local variable to its own declaration, at its name', () => {
+      const { ast, analyzer } = parseAndAnalyze(code);
+
+      // On count in "count := 1;"
+      const location = getDefinition(ast, analyzer.getSymbolTable(), 13, 3, testUri);
+
+      expect(location).toEqual({
+        uri: testUri,
+        range: { start: { line: 11, character: 11 }, end: { line: 11, character: 16 } },
+      });
+    });
+
+    it('should resolve an object field rather than another routine\'s parameter', () => {
+      const { ast, analyzer } = parseAndAnalyze(code);
+
+      // On count in "count := count + 1;"
+      const location = getDefinition(ast, analyzer.getSymbolTable(), 19, 5, testUri);
+
+      expect(location).toEqual({
+        uri: testUri,
+        range: { start: { line: 2, character: 2 }, end: { line: 2, character: 7 } },
+      });
+    });
+
+    it('should return null for a name not visible at the position', () => {
+      const { ast, analyzer } = parseAndAnalyze(`
+IMPLEMENTATION MODULE Test;
+PROCEDURE Scale(IN count: REAL);
+BEGIN
+END PROCEDURE;
+
+PROCEDURE Tally;
+BEGIN
+  count := 1;
+END PROCEDURE;
+END MODULE;
+      `);
+
+      expect(getDefinition(ast, analyzer.getSymbolTable(), 7, 3, testUri)).toBeNull();
+    });
+  });
+
   describe('Object and Method Definitions', () => {
     it('should handle object type definition lookup', () => {
       const code = `
@@ -299,4 +369,145 @@ END MODULE;
       });
     });
   });
+
+  describe('Cross-File Definitions', () => {
+    async function createWorkspace(): Promise<WorkspaceManager> {
+      const workspaceManager = new WorkspaceManager();
+      await workspaceManager.updateDocument('file:///base.mod', `DEFINITION MODULE Base;
+TYPE
+  Shape = OBJECT
+    area : REAL;
+    ASK METHOD GetArea() : REAL;
+  END OBJECT;
+END MODULE.`, 1);
+      await workspaceManager.updateDocument('file:///shapes.mod', `DEFINITION MODULE Shapes;
+FROM Base IMPORT Shape;
+CONST MAX_SIDES = 12;
+TYPE
+  Square = OBJECT(Shape)
+    ASK METHOD GetSide() : REAL;
+  END OBJECT;
+PROCEDURE Reset;
+END MODULE.`, 1);
+      return workspaceManager;
+    }
+
+    function analyzeWith(workspaceManager: WorkspaceManager, code: string): { ast: Module; analyzer: SemanticAnalyzer } {
+      const ast = new Parser(new Lexer(code).tokenize()).parse();
+      const analyzer = new SemanticAnalyzer();
+      analyzer.setWorkspaceResolver((moduleName) => {
+        const uri = workspaceManager.resolveModule(moduleName);
+        return uri ? workspaceManager.getDocument(uri)?.symbolTable : undefined;
+      });
+      analyzer.analyze(ast);
+      return { ast, analyzer };
+    }
+
+    const mainCode = `MAIN MODULE App;
+FROM Shapes IMPORT Square, Reset, MAX_SIDES;
+VAR sq : Square;
+BEGIN
+  Reset;
+  Shapes.Reset;
+  ASK sq TO GetArea;
+  ASK sq TO GetSide;
+END MODULE.`;
+
+    it('should resolve imported symbols to the declaring module', async () => {
+      const workspaceManager = await createWorkspace();
+      const { ast, analyzer } = analyzeWith(workspaceManager, mainCode);
+
+      // On Reset in "Reset;"
+      const location = getDefinition(ast, analyzer.getSymbolTable(), 4, 3, testUri, workspaceManager);
+
+      expect(location).toEqual({
+        uri: 'file:///shapes.mod',
+        range: { start: { line: 7, character: 10 }, end: { line: 7, character: 15 } },
+      });
+    });
+
+    it('should resolve qualified Module.Symbol references', async () => {
+      const workspaceManager = await createWorkspace();
+      const { ast, analyzer } = analyzeWith(workspaceManager, mainCode);
+
+      // On Reset in "Shapes.Reset;"
+      const location = getDefinition(ast, analyzer.getSymbolTable(), 5, 10, testUri, workspaceManager);
+
+      expect(location).toMatchObject({ uri: 'file:///shapes.mod', range: { start: { line: 7 } } });
+    });
+
+    it('should resolve methods inherited from a type in another module', async () => {
+      const workspaceManager = await createWorkspace();
+      const { ast, analyzer } = analyzeWith(workspaceManager, mainCode);
+
+      // On GetArea in "ASK sq TO GetArea;" and GetSide in "ASK sq TO GetSide;"
+      const inherited = getDefinition(ast, analyzer.getSymbolTable(), 6, 14, testUri, workspaceManager);
+      const own = getDefinition(ast, analyzer.getSymbolTable(), 7, 14, testUri, workspaceManager);
+
+      expect(inherited).toMatchObject({ uri: 'file:///base.mod', range: { start: { line: 4 } } });
+      expect(own).toMatchObject({ uri: 'file:///shapes.mod', range: { start: { line: 5 } } });
+    });
+
+    it('should resolve symbols an implementation takes from its definition module', async () => {
+      const workspaceManager = await createWorkspace();
+      const { ast, analyzer } = analyzeWith(workspaceManager, `IMPLEMENTATION MODULE Shapes;
+VAR sides : INTEGER;
+PROCEDURE Reset;
+BEGIN
+  sides := MAX_SIDES;
+END PROCEDURE;
+END MODULE.`);
+
+      // On MAX_SIDES and sides in "sides := MAX_SIDES;"
+      const constant = getDefinition(ast, analyzer.getSymbolTable(), 4, 14, testUri, workspaceManager);
+      const local = getDefinition(ast, analyzer.getSymbolTable(), 4, 4, testUri, workspaceManager);
+
+      expect(constant).toMatchObject({ uri: 'file:///shapes.mod', range: { start: { line: 2 } } });
+      expect(local).toMatchObject({ uri: testUri });
+    });
+
+    it('should resolve module names to their file', async () => {
+      const workspaceManager = await createWorkspace();
+      const { ast, analyzer } = analyzeWith(workspaceManager, mainCode);
+
+      // On Shapes in "Shapes.Reset;"
+      const location = getDefinition(ast, analyzer.getSymbolTable(), 5, 3, testUri, workspaceManager);
+
+      expect(location).toMatchObject({ uri: 'file:///shapes.mod', range: { start: { line: 0 } } });
+    });
+
+    it('should resolve the names of import clauses', async () => {
+      const workspaceManager = await createWorkspace();
+      const { ast, analyzer } = analyzeWith(workspaceManager, mainCode);
+
+      // On Square and Shapes in "FROM Shapes IMPORT Square, Reset, MAX_SIDES;"
+      const symbol = getDefinition(ast, analyzer.getSymbolTable(), 1, 21, testUri, workspaceManager);
+      const module = getDefinition(ast, analyzer.getSymbolTable(), 1, 7, testUri, workspaceManager);
+
+      expect(symbol).toEqual({
+        uri: 'file:///shapes.mod',
+        range: { start: { line: 4, character: 2 }, end: { line: 4, character: 8 } },
+      });
+      expect(module).toMatchObject({ uri: 'file:///shapes.mod', range: { start: { line: 0 } } });
+    });
+
+    it('should resolve type references', async () => {
+      const workspaceManager = await createWorkspace();
+      const { ast, analyzer } = analyzeWith(workspaceManager, mainCode);
+
+      // On Square in "VAR sq : Square;" and Shape in "Square = OBJECT(Shape)"
+      const imported = getDefinition(ast, analyzer.getSymbolTable(), 2, 11, testUri, workspaceManager);
+      const shapes = workspaceManager.getDocument('file:///shapes.mod')!;
+      const baseType = getDefinition(shapes.ast!, shapes.symbolTable!, 4, 19, 'file:///shapes.mod', workspaceManager);
+
+      expect(imported).toEqual({
+        uri: 'file:///shapes.mod',
+        range: { start: { line: 4, character: 2 }, end: { line: 4, character: 8 } },
+      });
+      expect(baseType).toEqual({
+        uri: 'file:///base.mod',
+        range: { start: { line: 2, character: 2 }, end: { line: 2, character: 7 } },
+      });
+    });
+  });
 });
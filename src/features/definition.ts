@@ -4,65 +4,46 @@
 
 import { Location } from 'vscode-languageserver/node';
 
-import type { Module, ASTNode } from '../language/ast';
+import type { Module } from '../language/ast';
 import { SymbolTable } from '../language/symbols';
-import { findIdentifierAtPosition as findIdNode } from '../utils/astPosition';
+import type { WorkspaceManager } from '../utils/workspace';
+import { collectNameOccurrences, findOccurrenceAt } from '../utils/nameOccurrences';
+import { bindOccurrence, resolveReceiverMember } from '../utils/symbolBinding';
+import { ModuleContext, getModuleContext, toNameLocation } from '../utils/declarations';
 
 /**
  * Get definition location for a symbol at a position
+ * Names are bound through the scopes at their position. With a workspace manager, imported
+ * symbols, qualified `Module.Symbol` references and inherited methods resolve to the file of
+ * the module that declares them.
  */
 export function getDefinition(
   ast: Module,
   symbolTable: SymbolTable,
   line: number,
   character: number,
-  documentUri: string
+  documentUri: string,
+  workspaceManager?: WorkspaceManager
 ): Location | Location[] | null {
-  // Find the identifier at the position
-  const identifierNode = findIdNode(ast, { line, character });
-  if (!identifierNode) {
+  const context: ModuleContext = { uri: documentUri, ast, symbolTable };
+  const occurrence = findOccurrenceAt(collectNameOccurrences(ast), line, character);
+  if (!occurrence) {
     return null;
   }
 
-  // Extract identifier name
-  const identifier = getIdentifierName(identifierNode);
-  if (!identifier) {
-    return null;
-  }
-
-  // Look up the symbol
-  const symbol = symbolTable.lookup(identifier);
-  if (!symbol || !symbol.declaration) {
-    return null;
+  switch (occurrence.site.kind) {
+    case 'module': {
+      const moduleContext = workspaceManager && getModuleContext(workspaceManager, occurrence.name);
+      return moduleContext ? toNameLocation(moduleContext.uri, moduleContext.ast, moduleContext.ast.name) : null;
+    }
+    case 'member': {
+      // The member of the receiver's own type, rather than the method it overrides
+      const resolved = resolveReceiverMember(context, occurrence.site.receiver, occurrence.name, workspaceManager);
+      return resolved ? toNameLocation(resolved.context.uri, resolved.member, occurrence.name) : null;
+    }
+    default: {
+      const binding = bindOccurrence(context, occurrence, workspaceManager);
+      return binding ? toNameLocation(binding.context.uri, binding.node, binding.name) : null;
+    }
   }
-
-  // Return location of the symbol's declaration
-  return {
-    uri: documentUri, // TODO: Handle cross-file definitions with workspace manager
-    range: {
-      start: {
-        line: symbol.declaration.line - 1, // Convert to 0-based
-        character: symbol.declaration.column - 1,
-      },
-      end: {
-        line: symbol.declaration.line - 1,
-        character: symbol.declaration.column - 1 + identifier.length,
-      },
-    },
-  };
-}
-
-/**
- * Extract identifier name from AST node
- */
-function getIdentifierName(node: ASTNode): string | null {
-  if (node.type === 'IdentifierExpression' && 'name' in node) {
-    return node.name as string;
-  }
-
-  if (node.type === 'FieldAccessExpression' && 'field' in node) {
-    return node.field as string;
-  }
-
-  return null;
 }
@@ -258,9 +258,7 @@ END MODULE;
   });
 
   describe('Scope Handling', () => {
-    it('should highlight all variables with same name across different scopes', () => {
-      // Note: Current implementation highlights all symbols with same name
-      // Not scope-aware (this is a known limitation)
+    it('should only highlight the variable in scope, not same-named ones in other scopes', () => {
       const code = `
 IMPLEMENTATION MODULE Test;
 PROCEDURE Outer();
@@ -290,8 +288,8 @@ END MODULE;
         workspaceManager
       );
 
-      // Currently highlights ALL x's (both scopes)
-      expect(highlights.length).toBe(3); // Both declarations + both usages
+      // Outer's declaration and usage, not Inner's
+      expect(highlights.map(h => h.range.start.line)).toEqual([2, 4]);
     });
   });
 
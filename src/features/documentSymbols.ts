@@ -112,7 +112,7 @@ function typeDeclarationToSymbol(decl: TypeDeclaration): DocumentSymbol {
 /**
  * Get symbol kind for type specification
  */
-function getTypeSymbolKind(typeSpecType: string): SymbolKind {
+export function getTypeSymbolKind(typeSpecType: string): SymbolKind {
   switch (typeSpecType) {
     case 'ObjectType':
       return SymbolKind.Class;
@@ -113,6 +113,46 @@ END MODULE;
     });
   });
 
+  describe('Type Folding', () => {
+    it('should fold multi-line object types', () => {
+      const code = `
+DEFINITION MODULE Test;
+TYPE
+  Counter = OBJECT
+    count : INTEGER;
+    ASK METHOD GetCount() : INTEGER;
+  END OBJECT;
+  Age = INTEGER;
+END MODULE;
+      `.trim();
+
+      const ast = parse(code);
+      const ranges = getFoldingRanges(ast);
+
+      // The first type of a section starts at TYPE
+      expect(ranges.find(r => r.startLine === 1)?.endLine).toBe(5);
+      expect(ranges.find(r => r.startLine === 6)).toBeUndefined();
+    });
+  });
+
+  describe('Main Module Folding', () => {
+    it('should fold statements in the main body', () => {
+      const code = `
+MAIN MODULE Test;
+BEGIN
+  WHILE x > 0 DO
+    DEC(x);
+  END WHILE;
+END MODULE.
+      `.trim();
+
+      const ast = parse(code);
+      const ranges = getFoldingRanges(ast);
+
+      expect(ranges.find(r => r.startLine === 2)?.endLine).toBe(4);
+    });
+  });
+
   describe('Method Folding', () => {
     it('should fold methods in objects', () => {
       const code = `
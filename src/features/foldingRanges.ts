@@ -45,6 +45,17 @@ function collectFoldingRanges(node: ASTNode, ranges: FoldingRange[]): void {
       });
       break;
 
+    case 'TypeDeclaration':
+      // Fold multi-line type definitions, such as objects and records
+      if (node.end.line > node.start.line) {
+        ranges.push({
+          startLine: node.start.line - 1,
+          endLine: node.end.line - 1,
+          kind: FoldingRangeKind.Region,
+        });
+      }
+      break;
+
     case 'ProcedureDeclaration':
     case 'MethodDeclaration':
       // Fold procedure/method body (from declaration line to END PROCEDURE/METHOD)
@@ -171,6 +182,9 @@ function getNodeChildren(node: ASTNode): ASTNode[] {
       if ('declarations' in node && Array.isArray(node.declarations)) {
         children.push(...node.declarations);
       }
+      if ('mainBody' in node && Array.isArray(node.mainBody)) {
+        children.push(...node.mainBody);
+      }
       break;
 
     case 'ObjectDeclaration':
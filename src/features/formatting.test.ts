@@ -0,0 +1,282 @@
+/**
+ * Unit tests for the formatting provider
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FormattingOptions } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { formatDocument, formatRange, formatText, DEFAULT_FORMAT_SETTINGS } from './formatting';
+
+describe('Formatting', () => {
+  const options: FormattingOptions = { tabSize: 2, insertSpaces: true };
+
+  function format(code: string, settings = DEFAULT_FORMAT_SETTINGS): string {
+    return formatText(code, options, settings);
+  }
+
+  describe('Indentation', () => {
+    it('should indent procedure bodies and nested blocks', () => {
+      const code = `IMPLEMENTATION MODULE Test;
+PROCEDURE Count(IN n : INTEGER) : INTEGER;
+VAR
+i : INTEGER;
+BEGIN
+      FOR i := 1 TO n DO
+   IF i > 2 THEN
+x := i;
+        ELSIF i = 1 THEN
+x := 0;
+ELSE
+  WHILE x > 0 DO
+DEC(x);
+END WHILE;
+    END IF;
+  END FOR;
+RETURN x;
+END PROCEDURE;
+END MODULE.`;
+
+      expect(format(code)).toBe(`IMPLEMENTATION MODULE Test;
+PROCEDURE Count(IN n : INTEGER) : INTEGER;
+VAR
+  i : INTEGER;
+BEGIN
+  FOR i := 1 TO n DO
+    IF i > 2 THEN
+      x := i;
+    ELSIF i = 1 THEN
+      x := 0;
+    ELSE
+      WHILE x > 0 DO
+        DEC(x);
+      END WHILE;
+    END IF;
+  END FOR;
+  RETURN x;
+END PROCEDURE;
+END MODULE.`);
+    });
+
+    it('should indent object types and method implementations', () => {
+      const code = `IMPLEMENTATION MODULE Test;
+TYPE
+Counter = OBJECT
+VAR
+count : INTEGER;
+ASK METHOD Next() : INTEGER;
+END OBJECT;
+OBJECT Counter;
+ASK METHOD Next() : INTEGER;
+BEGIN
+RETURN count;
+END METHOD;
+END OBJECT;
+END MODULE.`;
+
+      expect(format(code)).toBe(`IMPLEMENTATION MODULE Test;
+TYPE
+  Counter = OBJECT
+    VAR
+      count : INTEGER;
+    ASK METHOD Next() : INTEGER;
+  END OBJECT;
+OBJECT Counter;
+  ASK METHOD Next() : INTEGER;
+  BEGIN
+    RETURN count;
+  END METHOD;
+END OBJECT;
+END MODULE.`);
+    });
+
+    it('should indent CASE arms and their statements', () => {
+      const code = `MAIN MODULE Test;
+BEGIN
+CASE x OF
+WHEN 1:
+y := 1;
+OTHERWISE
+y := 0;
+END CASE;
+REPEAT
+WAIT DURATION 1.0;
+UNTIL y > 0;
+END MODULE.`;
+
+      expect(format(code)).toBe(`MAIN MODULE Test;
+BEGIN
+  CASE x OF
+    WHEN 1:
+      y := 1;
+    OTHERWISE
+      y := 0;
+  END CASE;
+  REPEAT
+    WAIT DURATION 1.0;
+  UNTIL y > 0;
+END MODULE.`);
+
+      expect(format(code, { ...DEFAULT_FORMAT_SETTINGS, indentCaseArms: false })).toContain(`  CASE x OF
+  WHEN 1:
+    y := 1;
+  OTHERWISE
+    y := 0;
+  END CASE;`);
+    });
+
+    it('should indent WAIT bodies and ON INTERRUPT', () => {
+      const code = `MAIN MODULE Test;
+BEGIN
+WAIT FOR obj TO Run();
+x := 1;
+ON INTERRUPT
+x := 0;
+END WAIT;
+END MODULE.`;
+
+      expect(format(code)).toBe(`MAIN MODULE Test;
+BEGIN
+  WAIT FOR obj TO Run();
+    x := 1;
+  ON INTERRUPT
+    x := 0;
+  END WAIT;
+END MODULE.`);
+    });
+
+    it('should indent continuation lines and keep lines inside parentheses', () => {
+      const code = `MAIN MODULE Test;
+BEGIN
+x := a +
+b;
+Call(a,
+     b);
+END MODULE.`;
+
+      expect(format(code)).toBe(`MAIN MODULE Test;
+BEGIN
+  x := a +
+    b;
+  Call(a,
+     b);
+END MODULE.`);
+    });
+
+    it('should use the indent width setting or tabs', () => {
+      const code = 'MAIN MODULE Test;\nBEGIN\nx := 1;\nEND MODULE.';
+
+      expect(format(code, { ...DEFAULT_FORMAT_SETTINGS, indentWidth: 4 })).toContain('\n    x := 1;\n');
+      expect(formatText(code, { tabSize: 8, insertSpaces: false })).toContain('\n\tx := 1;\n');
+    });
+  });
+
+  describe('Spacing', () => {
+    it('should normalize spacing around assignments and operators', () => {
+      const code = 'MAIN MODULE Test;\nBEGIN\n  x:=a+b*  -c;\n  y :=Foo( a ,b [1] )-1;\n  z := arr[1..  2];\nEND MODULE.';
+
+      expect(format(code)).toBe(
+        'MAIN MODULE Test;\nBEGIN\n  x := a + b * -c;\n  y := Foo(a, b [1]) - 1;\n  z := arr[1..2];\nEND MODULE.'
+      );
+    });
+
+    it('should align consecutive declarations', () => {
+      const code = `IMPLEMENTATION MODULE Test;
+VAR
+  count: INTEGER;
+  x,y   :REAL;
+
+  total : INTEGER;
+END MODULE.`;
+
+      expect(format(code)).toBe(`IMPLEMENTATION MODULE Test;
+VAR
+  count : INTEGER;
+  x, y  : REAL;
+
+  total : INTEGER;
+END MODULE.`);
+
+      expect(format(code, { ...DEFAULT_FORMAT_SETTINGS, alignDeclarations: false })).toContain(
+        '  count: INTEGER;\n  x, y : REAL;'
+      );
+    });
+
+    it('should space every declaration on a line', () => {
+      const code = `IMPLEMENTATION MODULE Test;
+VAR a:INTEGER; b:REAL;
+VAR
+  count: INTEGER; x,y :REAL;
+  total : INTEGER;
+END MODULE.`;
+
+      expect(format(code)).toBe(`IMPLEMENTATION MODULE Test;
+VAR a : INTEGER; b : REAL;
+VAR
+  count : INTEGER; x, y : REAL;
+  total : INTEGER;
+END MODULE.`);
+    });
+  });
+
+  describe('Comments', () => {
+    it('should preserve comments and indent them with the following line', () => {
+      const code = `MAIN MODULE Test;
+BEGIN
+{ first }
+x := 1;   { trailing }
+    (* a comment
+         spanning lines *)
+  IF x THEN
+{ inside }
+  END IF;
+END MODULE.`;
+
+      expect(format(code)).toBe(`MAIN MODULE Test;
+BEGIN
+  { first }
+  x := 1;   { trailing }
+  (* a comment
+         spanning lines *)
+  IF x THEN
+    { inside }
+  END IF;
+END MODULE.`);
+    });
+
+    it('should leave lines with lexical errors untouched', () => {
+      const code = 'MAIN MODULE Test;\nBEGIN\nx  :=  1 @;\nEND MODULE.';
+      expect(format(code)).toBe(code);
+    });
+  });
+
+  describe('Edits', () => {
+    it('should keep the fixtures unchanged apart from declaration alignment', () => {
+      const fixture = fs.readFileSync(path.join(__dirname, '../../test/fixtures/sample-procedure.mod'), 'utf8');
+      const formatted = format(fixture, { ...DEFAULT_FORMAT_SETTINGS, alignDeclarations: false });
+
+      expect(formatted).toBe(fixture);
+      expect(format(format(fixture))).toBe(format(fixture));
+    });
+
+    it('should return line edits that produce the formatted text', () => {
+      const code = 'MAIN MODULE Test;\r\nBEGIN\r\nx:=1;\r\n  y := 2;\r\nEND MODULE.\r\n';
+      const document = TextDocument.create('file:///test.mod', 'modsim', 1, code);
+      const edits = formatDocument(code, options);
+
+      expect(edits).toHaveLength(1);
+      expect(TextDocument.applyEdits(document, edits)).toBe(
+        'MAIN MODULE Test;\r\nBEGIN\r\n  x := 1;\r\n  y := 2;\r\nEND MODULE.\r\n'
+      );
+    });
+
+    it('should only edit lines within the range', () => {
+      const code = 'MAIN MODULE Test;\nBEGIN\nx:=1;\ny:=2;\nz:=3;\nEND MODULE.';
+      const edits = formatRange(code, { start: { line: 3, character: 0 }, end: { line: 4, character: 0 } }, options);
+
+      expect(edits).toHaveLength(1);
+      expect(edits[0].range.start.line).toBe(3);
+      expect(edits[0].newText).toBe('  y := 2;');
+    });
+  });
+});
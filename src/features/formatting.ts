@@ -0,0 +1,550 @@
+/**
+ * Formatting Provider
+ * Normalizes indentation and spacing of MODSIM III source, preserving comments
+ *
+ * Formatting works line by line on the token stream: every line keeps its
+ * tokens and comments, only the whitespace between them changes. Lines that
+ * start inside a multi-line comment or contain lexical errors are left as is.
+ */
+
+import { FormattingOptions, Range, TextEdit } from 'vscode-languageserver/node';
+import { Lexer } from '../language/lexer';
+import { TokenType } from '../language/ast';
+import type { Token, Trivia } from '../language/ast';
+
+/**
+ * Formatter settings, read from the `modsim.format` configuration section
+ */
+export interface FormatSettings {
+  indentWidth?: number; // Overrides the editor's tab size
+  alignDeclarations: boolean; // Line up the ':' of consecutive declarations
+  indentCaseArms: boolean; // Indent WHEN/OTHERWISE one level inside CASE
+  insertEndKeywords: boolean; // Close blocks opened while typing
+}
+
+export const DEFAULT_FORMAT_SETTINGS: FormatSettings = {
+  alignDeclarations: true,
+  indentCaseArms: true,
+  insertEndKeywords: true,
+};
+
+/**
+ * Format a whole document
+ */
+export function formatDocument(
+  text: string,
+  options: FormattingOptions,
+  settings: FormatSettings = DEFAULT_FORMAT_SETTINGS
+): TextEdit[] {
+  return getLineEdits(text, formatLines(text, options, settings));
+}
+
+/**
+ * Format the lines touched by a range. Indentation still follows the
+ * structure of the whole document.
+ */
+export function formatRange(
+  text: string,
+  range: Range,
+  options: FormattingOptions,
+  settings: FormatSettings = DEFAULT_FORMAT_SETTINGS
+): TextEdit[] {
+  // A range ending at the start of a line doesn't include that line
+  const lastLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+  return getLineEdits(text, formatLines(text, options, settings), range.start.line, lastLine);
+}
+
+/**
+ * Format source text
+ */
+export function formatText(
+  text: string,
+  options: FormattingOptions,
+  settings: FormatSettings = DEFAULT_FORMAT_SETTINGS
+): string {
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  return formatLines(text, options, settings).join(eol);
+}
+
+/**
+ * One level of indentation
+ */
+export function getIndentUnit(options: FormattingOptions, settings: FormatSettings): string {
+  return options.insertSpaces ? ' '.repeat(settings.indentWidth ?? options.tabSize) : '\t';
+}
+
+// Blocks opened by a keyword and closed by END <keyword>
+type BlockKind =
+  | 'IF' | 'WHILE' | 'FOR' | 'FOREACH' | 'LOOP' | 'REPEAT' | 'CASE' | 'WITH' | 'WAIT'
+  | 'BEGIN' | 'RECORD' | 'OBJECT' | 'SECTION';
+
+interface Block {
+  kind: BlockKind;
+  outer: number; // Depth of the opening and closing lines
+  inner: number; // Depth of the block's contents
+}
+
+const BLOCK_OPENERS = new Map<TokenType, BlockKind>([
+  [TokenType.IF, 'IF'],
+  [TokenType.WHILE, 'WHILE'],
+  [TokenType.FOR, 'FOR'],
+  [TokenType.FOREACH, 'FOREACH'],
+  [TokenType.LOOP, 'LOOP'],
+  [TokenType.REPEAT, 'REPEAT'],
+  [TokenType.CASE, 'CASE'],
+  [TokenType.WITH, 'WITH'],
+  [TokenType.WAIT, 'WAIT'],
+  [TokenType.BEGIN, 'BEGIN'],
+  [TokenType.RECORD, 'RECORD'],
+  [TokenType.OBJECT, 'OBJECT'],
+  [TokenType.PROTO, 'OBJECT'],
+]);
+
+// END PROCEDURE and END METHOD close the BEGIN of the body
+const BLOCK_CLOSERS = new Map<TokenType, BlockKind>([
+  ...BLOCK_OPENERS,
+  [TokenType.PROCEDURE, 'BEGIN'],
+  [TokenType.METHOD, 'BEGIN'],
+]);
+
+const SECTION_KEYWORDS = new Set([TokenType.VAR, TokenType.CONST, TokenType.TYPE]);
+
+// Tokens that end a VAR/CONST/TYPE section when they start a line
+const SECTION_ENDS = new Set([
+  TokenType.VAR, TokenType.CONST, TokenType.TYPE, TokenType.PROCEDURE, TokenType.BEGIN, TokenType.END,
+  TokenType.OBJECT, TokenType.PROTO, TokenType.ASK, TokenType.TELL, TokenType.LMONITOR, TokenType.RMONITOR,
+  TokenType.WAITFOR, TokenType.OVERRIDE, TokenType.PRIVATE, TokenType.PUBLIC, TokenType.CLASS,
+  TokenType.FROM, TokenType.IMPORT, TokenType.EXPORT, TokenType.IMPLEMENTATION,
+]);
+
+// Lines starting with these stay at the depth of the enclosing block
+// rather than taking the depth of the comment lines above them
+const BLOCK_CONTINUATIONS = new Set([
+  TokenType.END, TokenType.ELSE, TokenType.ELSIF, TokenType.UNTIL, TokenType.ON,
+]);
+
+// Last tokens of a line after which the next line is not a continuation
+const LINE_ENDS = new Set([
+  TokenType.SEMICOLON, TokenType.THEN, TokenType.DO, TokenType.BEGIN, TokenType.OF, TokenType.ELSE,
+  TokenType.LOOP, TokenType.REPEAT, TokenType.OTHERWISE, TokenType.COLON, TokenType.DOT, TokenType.VAR,
+  TokenType.CONST, TokenType.TYPE, TokenType.PRIVATE, TokenType.OVERRIDE, TokenType.INTERRUPT,
+]);
+
+const BINARY_OPERATORS = new Set([
+  TokenType.ASSIGN, TokenType.EQUAL, TokenType.NOT_EQUAL, TokenType.LESS_THAN, TokenType.GREATER_THAN,
+  TokenType.LESS_EQUAL, TokenType.GREATER_EQUAL, TokenType.PLUS, TokenType.MINUS, TokenType.MULTIPLY,
+  TokenType.DIVIDE,
+]);
+
+// Tokens that can end an operand; a '+' or '-' after anything else is unary
+const OPERAND_ENDS = new Set([
+  TokenType.IDENTIFIER, TokenType.INTEGER_LITERAL, TokenType.REAL_LITERAL, TokenType.STRING_LITERAL,
+  TokenType.CHAR_LITERAL, TokenType.RPAREN, TokenType.RBRACKET, TokenType.TRUE, TokenType.FALSE,
+  TokenType.NILOBJ, TokenType.NILARRAY, TokenType.NILREC, TokenType.SELF,
+]);
+
+/**
+ * A token or comment on a line
+ */
+interface Segment {
+  text: string;
+  start: number; // Offsets in the source
+  end: number;
+  token?: Token; // Undefined for comments
+}
+
+/**
+ * Line being formatted
+ */
+interface Line {
+  segments: Segment[];
+  verbatim: boolean; // Starts inside a multi-line comment or has lexical errors
+  inParens: boolean; // Starts inside parentheses; keeps its own indentation
+  depth: number;
+  declaration?: { names: string; rest: string }; // Candidate for alignment
+}
+
+/**
+ * Produce the formatted text of every line of a document
+ */
+function formatLines(text: string, options: FormattingOptions, settings: FormatSettings): string[] {
+  const sourceLines = text.split(/\r?\n/);
+  const tokens = new Lexer(text, { trivia: true }).tokenize();
+  const lines = collectLines(text, sourceLines.length, tokens);
+  const signs = findSigns(tokens);
+
+  indentLines(lines, settings);
+
+  const unit = getIndentUnit(options, settings);
+
+  const result = lines.map((line, i) => {
+    if (line.verbatim) {
+      return sourceLines[i];
+    }
+    if (line.segments.length === 0) {
+      return '';
+    }
+
+    const indent = line.inParens ? sourceLines[i].match(/^\s*/)![0] : unit.repeat(line.depth);
+    return indent + renderSegments(text, line.segments, signs);
+  });
+
+  if (settings.alignDeclarations) {
+    alignDeclarations(lines, result, text, signs);
+  }
+
+  return result;
+}
+
+/**
+ * Split the tokens and comments of a document into lines
+ */
+function collectLines(text: string, lineCount: number, tokens: Token[]): Line[] {
+  const lines: Line[] = Array.from({ length: lineCount }, () => ({
+    segments: [],
+    verbatim: false,
+    inParens: false,
+    depth: 0,
+  }));
+
+  const addSegment = (line: number, segment: Segment): void => {
+    lines[line - 1].segments.push(segment);
+  };
+
+  // Lines after the first line of a multi-line token or comment are kept as is
+  const markSpan = (start: { line: number }, end: { line: number }): void => {
+    for (let line = start.line + 1; line <= end.line; line++) {
+      lines[line - 1].verbatim = true;
+    }
+  };
+
+  const addComments = (trivia: Trivia[] | undefined): void => {
+    for (const piece of trivia ?? []) {
+      if (piece.type !== TokenType.COMMENT) {
+        continue;
+      }
+      // A comment running onto later lines keeps the rest of its first line
+      const lineEnd = text.indexOf('\n', piece.start.offset);
+      const end = piece.end.line > piece.start.line && lineEnd >= 0 ? lineEnd : piece.end.offset;
+      addSegment(piece.start.line, {
+        text: text.slice(piece.start.offset, end).replace(/\r$/, ''),
+        start: piece.start.offset,
+        end,
+      });
+      markSpan(piece.start, piece.end);
+    }
+  };
+
+  for (const token of tokens) {
+    addComments(token.leadingTrivia);
+    if (token.type !== TokenType.EOF) {
+      addSegment(token.start.line, {
+        text: text.slice(token.start.offset, token.end.offset),
+        start: token.start.offset,
+        end: token.end.offset,
+        token,
+      });
+      markSpan(token.start, token.end);
+      if (token.type === TokenType.ERROR) {
+        lines[token.start.line - 1].verbatim = true;
+      }
+    }
+    addComments(token.trailingTrivia);
+  }
+
+  return lines;
+}
+
+/**
+ * Work out the indentation depth of every line from the block structure
+ */
+function indentLines(lines: Line[], settings: FormatSettings): void {
+  const stack: Block[] = [];
+  const caseArmDepth = settings.indentCaseArms ? 1 : 0;
+  let parenDepth = 0;
+  let continuation = false;
+
+  const top = (): Block | undefined => stack[stack.length - 1];
+  const currentDepth = (): number => top()?.inner ?? 0;
+
+  let commentLines: Line[] = [];
+
+  for (const line of lines) {
+    line.inParens = parenDepth > 0;
+    const lineTokens = line.segments.filter(s => s.token).map(s => s.token!);
+    const first = lineTokens[0]?.type;
+    const stackSize = stack.length;
+    const enclosingDepth = currentDepth();
+
+    if (first !== undefined && top()?.kind === 'SECTION' && SECTION_ENDS.has(first)) {
+      stack.pop();
+    }
+
+    let depth = currentDepth();
+    const block = top();
+    if (first === TokenType.END) {
+      const closed = findClosedBlock(stack, lineTokens[1]?.type);
+      depth = closed >= 0 ? stack[closed].outer : depth;
+    } else if (block && (first === TokenType.ELSE || first === TokenType.ELSIF || first === TokenType.ON)) {
+      depth = block.outer;
+    } else if (block?.kind === 'CASE' && (first === TokenType.WHEN || first === TokenType.OTHERWISE)) {
+      depth = block.outer + caseArmDepth;
+    } else if (block?.kind === 'REPEAT' && first === TokenType.UNTIL) {
+      depth = block.outer;
+    } else if (continuation && first !== undefined) {
+      depth += 1;
+    }
+    line.depth = depth;
+
+    // Apply the blocks opened and closed on this line
+    for (let i = 0; i < lineTokens.length; i++) {
+      const token = lineTokens[i];
+      const previous = lineTokens[i - 1];
+
+      if (token.type === TokenType.LPAREN || token.type === TokenType.LBRACKET) {
+        parenDepth++;
+      } else if (token.type === TokenType.RPAREN || token.type === TokenType.RBRACKET) {
+        parenDepth = Math.max(0, parenDepth - 1);
+      }
+
+      if (token.type === TokenType.END) {
+        const closed = findClosedBlock(stack, lineTokens[i + 1]?.type);
+        if (closed >= 0) {
+          stack.length = closed;
+        }
+        i++; // The keyword after END doesn't open a block
+        continue;
+      }
+
+      if (token.type === TokenType.UNTIL && top()?.kind === 'REPEAT') {
+        stack.pop();
+        continue;
+      }
+
+      // IMPLEMENTATION <Object>; ... END OBJECT holds the object's methods
+      const kind = token.type === TokenType.IMPLEMENTATION && lineTokens[i + 1]?.type !== TokenType.MODULE
+        ? 'OBJECT'
+        : BLOCK_OPENERS.get(token.type);
+      if (kind && !(token.type === TokenType.FOR && previous?.type === TokenType.WAIT) && !isSimpleWait(lineTokens, i)) {
+        if (kind === 'BEGIN' && top()?.kind === 'SECTION') {
+          stack.pop();
+        }
+        const inner = kind === 'CASE' ? depth + caseArmDepth + 1 : depth + 1;
+        stack.push({ kind, outer: depth, inner });
+      }
+    }
+
+    if (first !== undefined && SECTION_KEYWORDS.has(first)) {
+      stack.push({ kind: 'SECTION', outer: depth, inner: depth + 1 });
+    }
+
+    // The next line continues this one if it was left unfinished
+    const last = lineTokens[lineTokens.length - 1];
+    if (last) {
+      continuation = stack.length === stackSize && !LINE_ENDS.has(last.type) && parenDepth === 0 && !line.inParens;
+    }
+
+    if (first === undefined) {
+      commentLines.push(line);
+    } else {
+      // Comments above a line belong with it
+      const commentDepth = BLOCK_CONTINUATIONS.has(first) ? enclosingDepth : depth;
+      commentLines.forEach(comment => comment.depth = commentDepth);
+      commentLines = [];
+    }
+  }
+}
+
+/**
+ * Whether the token at index is a `WAIT DURATION expr;` with no body or END WAIT
+ */
+function isSimpleWait(lineTokens: Token[], index: number): boolean {
+  return lineTokens[index].type === TokenType.WAIT
+    && lineTokens[index + 1]?.type === TokenType.DURATION
+    && lineTokens.slice(index + 2).some(token => token.type === TokenType.SEMICOLON);
+}
+
+/**
+ * Index of the block closed by END <keyword>, or -1 if there is none
+ */
+function findClosedBlock(stack: Block[], keyword: TokenType | undefined): number {
+  // END MODULE closes whatever is still open
+  if (keyword === TokenType.MODULE) {
+    return stack.length > 0 ? 0 : -1;
+  }
+
+  const kind = keyword !== undefined ? BLOCK_CLOSERS.get(keyword) : undefined;
+  if (!kind) {
+    return stack.length > 0 && stack[stack.length - 1].kind === 'SECTION' ? stack.length - 1 : -1;
+  }
+
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (stack[i].kind === kind) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Join the segments of a line with normalized spacing
+ * The colons of declarations get a space on either side.
+ */
+function renderSegments(text: string, segments: Segment[], signs: Set<Token>, colons?: Set<Token>): string {
+  let result = segments[0].text;
+
+  for (let i = 1; i < segments.length; i++) {
+    const previous = segments[i - 1];
+    const segment = segments[i];
+    const gap = text.slice(previous.end, segment.start);
+
+    if (!previous.token || !segment.token) {
+      // Keep the spacing around comments, e.g. aligned trailing comments
+      result += gap;
+    } else if (colons?.has(segment.token)) {
+      result += ' ';
+    } else {
+      result += spaceBetween(previous.token, segment.token, gap.length > 0, signs);
+    }
+    result += segment.text;
+  }
+
+  return result;
+}
+
+/**
+ * Spacing between two tokens on the same line
+ */
+function spaceBetween(left: Token, right: Token, spaced: boolean, signs: Set<Token>): string {
+  const l = left.type;
+  const r = right.type;
+
+  if (r === TokenType.SEMICOLON || r === TokenType.COMMA || r === TokenType.RPAREN || r === TokenType.RBRACKET) {
+    return '';
+  }
+  if (l === TokenType.LPAREN || l === TokenType.LBRACKET || l === TokenType.HASH) {
+    return '';
+  }
+  if (l === TokenType.DOT || r === TokenType.DOT || l === TokenType.RANGE || r === TokenType.RANGE) {
+    return '';
+  }
+  if (l === TokenType.COMMA || l === TokenType.SEMICOLON || l === TokenType.COLON) {
+    return ' ';
+  }
+  if (signs.has(left)) {
+    return '';
+  }
+  if (BINARY_OPERATORS.has(l) || BINARY_OPERATORS.has(r)) {
+    return ' ';
+  }
+  return spaced ? ' ' : '';
+}
+
+/**
+ * The '+' and '-' tokens that are signs rather than binary operators
+ */
+function findSigns(tokens: Token[]): Set<Token> {
+  const signs = new Set<Token>();
+  tokens.forEach((token, i) => {
+    const previous = tokens[i - 1];
+    if ((token.type === TokenType.PLUS || token.type === TokenType.MINUS) && (!previous || !OPERAND_ENDS.has(previous.type))) {
+      signs.add(token);
+    }
+  });
+  return signs;
+}
+
+/**
+ * Line up the ':' of consecutive declarations at the same depth
+ */
+function alignDeclarations(lines: Line[], result: string[], text: string, signs: Set<Token>): void {
+  let group: number[] = [];
+
+  const flush = (): void => {
+    const width = Math.max(...group.map(i => lines[i].declaration!.names.length));
+    for (const i of group) {
+      const { names, rest } = lines[i].declaration!;
+      const indent = result[i].match(/^\s*/)![0];
+      result[i] = `${indent}${names.padEnd(width)} : ${rest}`;
+    }
+    group = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    line.declaration = line.verbatim || line.inParens ? undefined : splitDeclaration(line.segments, text, signs);
+
+    const previous = group[group.length - 1];
+    if (group.length > 0 && (!line.declaration || lines[previous].depth !== line.depth)) {
+      flush();
+    }
+    if (line.declaration) {
+      group.push(i);
+    }
+  }
+
+  if (group.length > 0) {
+    flush();
+  }
+}
+
+/**
+ * Split a `name, name : Type;` line, or a `VAR name : Type;` one, at its colon
+ * Further declarations on the line, as in `a : X; b : Y;`, are spaced like the first.
+ */
+function splitDeclaration(segments: Segment[], text: string, signs: Set<Token>): Line['declaration'] {
+  const colon = findDeclarationColon(segments, segments[0]?.token?.type === TokenType.VAR ? 1 : 0);
+  if (colon < 0 || colon === segments.length - 1) {
+    return undefined;
+  }
+
+  const colons = new Set<Token>();
+  for (let i = colon + 1; i < segments.length; i++) {
+    const next = segments[i - 1].token?.type === TokenType.SEMICOLON ? findDeclarationColon(segments, i) : -1;
+    if (next >= 0) {
+      colons.add(segments[next].token!);
+    }
+  }
+
+  return {
+    names: renderSegments(text, segments.slice(0, colon), signs),
+    rest: renderSegments(text, segments.slice(colon + 1), signs, colons),
+  };
+}
+
+/**
+ * Index of the colon after a `name, name` list starting at a segment, or -1 if there is none
+ */
+function findDeclarationColon(segments: Segment[], start: number): number {
+  for (let i = start; i < segments.length; i++) {
+    const type = segments[i].token?.type;
+    const expectName = (i - start) % 2 === 0;
+    if (expectName && type === TokenType.IDENTIFIER) {
+      continue;
+    }
+    if (!expectName && type === TokenType.COMMA) {
+      continue;
+    }
+    return !expectName && type === TokenType.COLON ? i : -1;
+  }
+  return -1;
+}
+
+/**
+ * Replace each changed line within [firstLine, lastLine]
+ */
+function getLineEdits(text: string, formatted: string[], firstLine = 0, lastLine = Infinity): TextEdit[] {
+  const original = text.split(/\r?\n/);
+  const edits: TextEdit[] = [];
+
+  for (let i = Math.max(0, firstLine); i < original.length && i <= lastLine; i++) {
+    if (original[i] !== formatted[i]) {
+      edits.push(TextEdit.replace(
+        { start: { line: i, character: 0 }, end: { line: i, character: original[i].length } },
+        formatted[i]
+      ));
+    }
+  }
+
+  return edits;
+}
@@ -6,6 +6,8 @@ import { getHover } from './hover';
 import { Lexer } from '../language/lexer';
 import { Parser } from '../language/parser';
 import { SemanticAnalyzer } from '../language/analyzer';
+import { DocComments } from '../language/docComments';
+import { WorkspaceManager } from '../utils/workspace';
 import type { Module } from '../language/ast';
 import { MarkupKind } from 'vscode-languageserver/node';
 
@@ -406,6 +408,162 @@ END MODULE;
     });
   });
 
+  describe('Documentation', () => {
+    const code = `
+IMPLEMENTATION MODULE Test;
+{ Largest number of items in a batch }
+CONST MaxBatch = 10;
+
+(* Adds two numbers.
+   Overflow is not checked. *)
+PROCEDURE Add(IN x: INTEGER; { First operand }
+              IN y: INTEGER): INTEGER;
+BEGIN
+  RETURN x + y;
+END PROCEDURE;
+
+PROCEDURE Main();
+VAR total: INTEGER;
+BEGIN
+  total := Add(MaxBatch, 1);
+END PROCEDURE;
+END MODULE;
+    `.trim();
+
+    function parseWithDocs(text: string, analyzer = new SemanticAnalyzer()): { ast: Module; analyzer: SemanticAnalyzer } {
+      const ast = new Parser(new Lexer(text).tokenize()).parse();
+      analyzer.setDocComments(new DocComments(text));
+      analyzer.analyze(ast);
+      return { ast, analyzer };
+    }
+
+    function hoverText(ast: Module, analyzer: SemanticAnalyzer, line: number, character: number): string {
+      const hover = getHover(ast, analyzer.getSymbolTable(), line, character, testUri);
+      expect(hover).not.toBeNull();
+      return (hover!.contents as { value: string }).value;
+    }
+
+    it('should show the doc comment of a procedure and its parameters', () => {
+      const { ast, analyzer } = parseWithDocs(code);
+
+      // On Add in "total := Add(MaxBatch, 1);"
+      const text = hoverText(ast, analyzer, 15, 12);
+
+      expect(text).toContain('Adds two numbers.\nOverflow is not checked.');
+      expect(text).toContain('`x` (IN): INTEGER - First operand');
+    });
+
+    it('should show the doc comment of a constant', () => {
+      const { ast, analyzer } = parseWithDocs(code);
+
+      // On MaxBatch in "total := Add(MaxBatch, 1);"
+      const text = hoverText(ast, analyzer, 15, 17);
+
+      expect(text).toContain('Largest number of items in a batch');
+    });
+
+    it('should show doc comments of symbols imported from another file', async () => {
+      const workspaceManager = new WorkspaceManager();
+      await workspaceManager.updateDocument('file:///queue.mod', `
+DEFINITION MODULE Queue;
+{ Removes all items from the queue }
+PROCEDURE Clear;
+END MODULE.
+      `.trim(), 1);
+
+      const analyzer = new SemanticAnalyzer();
+      analyzer.setWorkspaceResolver((moduleName) => {
+        const uri = workspaceManager.resolveModule(moduleName);
+        return uri ? workspaceManager.getDocument(uri)?.symbolTable : undefined;
+      });
+      const { ast } = parseWithDocs(`
+IMPLEMENTATION MODULE Shop;
+FROM Queue IMPORT Clear;
+PROCEDURE Reset;
+BEGIN
+  Clear();
+END PROCEDURE;
+END MODULE.
+      `.trim(), analyzer);
+
+      const text = hoverText(ast, analyzer, 4, 3);
+
+      expect(text).toContain('Removes all items from the queue');
+    });
+
+    it('should show the type of a field through the type of its record or object', () => {
+      const { ast, analyzer } = parseAndAnalyze(`
+MAIN MODULE Test;
+TYPE
+  PartObj = OBJECT
+    failureRate : REAL;
+  END OBJECT;
+  PumpObj = OBJECT(PartObj)
+  END OBJECT;
+VAR pump : PumpObj;
+VAR r : REAL;
+BEGIN
+  r := pump.failureRate;
+END MODULE.
+      `);
+
+      // On failureRate in "r := pump.failureRate;"
+      const text = hoverText(ast, analyzer, 10, 14);
+
+      expect(text).toContain('failureRate: REAL');
+      expect(text).toContain('**Field of:** PumpObj');
+    });
+
+    it('should show the symbol visible at the position, not a same-named one of another routine', () => {
+      const { ast, analyzer } = parseWithDocs(`
+IMPLEMENTATION MODULE Test;
+PROCEDURE Scale(IN count: REAL); { Scaling factor }
+BEGIN
+END PROCEDURE;
+
+PROCEDURE Tally;
+VAR count: INTEGER;
+BEGIN
+  count := 1;
+END PROCEDURE;
+END MODULE.
+      `.trim());
+
+      // On count in "count := 1;"
+      const text = hoverText(ast, analyzer, 8, 3);
+
+      expect(text).toContain('INTEGER');
+      expect(text).not.toContain('REAL');
+      expect(text).not.toContain('Scaling factor');
+    });
+
+    it('should return null for a name not visible at the position', () => {
+      const { ast, analyzer } = parseAndAnalyze(`
+IMPLEMENTATION MODULE Test;
+PROCEDURE Scale(IN count: REAL);
+BEGIN
+END PROCEDURE;
+
+PROCEDURE Tally;
+BEGIN
+  count := 1;
+END PROCEDURE;
+END MODULE.
+      `);
+
+      // On count in "count := 1;"
+      expect(getHover(ast, analyzer.getSymbolTable(), 7, 3, testUri)).toBeNull();
+    });
+
+    it('should leave hover unchanged for undocumented symbols', () => {
+      const { ast, analyzer } = parseAndAnalyze(code);
+
+      const text = hoverText(ast, analyzer, 15, 12);
+
+      expect(text).not.toContain('Adds two numbers');
+    });
+  });
+
   describe('Hover Structure', () => {
     it('should return proper Hover structure when hover available', () => {
       const code = `
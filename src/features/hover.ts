@@ -7,9 +7,17 @@ import {
   MarkupKind,
 } from 'vscode-languageserver/node';
 
-import type { Module } from '../language/ast';
-import { SymbolTable, AnySymbol, SymbolKind } from '../language/symbols';
-import { Type, TypeKind, ObjectType as SemanticObjectType } from '../language/types';
+import type { Module, ASTNode, Expression, FieldAccessExpression } from '../language/ast';
+import { SymbolTable, Scope, AnySymbol, SymbolKind } from '../language/symbols';
+import {
+  Type,
+  TypeKind,
+  ObjectType as SemanticObjectType,
+  PointerType,
+  MemberInfo,
+  findMember,
+  getMemberType,
+} from '../language/types';
 import { findIdentifierAtPosition as findIdNode } from '../utils/astPosition';
 
 /**
@@ -22,14 +30,25 @@ export function getHover(
   character: number,
   documentUri?: string
 ): Hover | null {
+  // Fields and methods are looked up in the type of the record or object they are accessed on
+  const node = findIdNode(ast, { line, character });
+  if (node?.type === 'FieldAccessExpression') {
+    const expr = node as FieldAccessExpression;
+    const member = findAccessedMember(expr, symbolTable.findScopeAt(expr.object.start));
+    if (member) {
+      return toHover(generateMemberHover(member));
+    }
+  }
+
   // Find the identifier at the position
-  const identifier = findIdentifierAtPosition(ast, line, character);
+  const identifier = findIdentifierAtPosition(node);
   if (!identifier) {
     return null;
   }
 
-  // Look up the symbol
-  const symbol = symbolTable.lookup(identifier);
+  // Look up the symbol through the scopes enclosing the position; a name that isn't
+  // visible there has no hover, even if another routine declares it
+  const symbol = symbolTable.findScopeAt({ line: line + 1, column: character + 1 }).lookup(identifier);
   if (!symbol) {
     return null;
   }
@@ -40,6 +59,10 @@ export function getHover(
     return null;
   }
 
+  return toHover(content);
+}
+
+function toHover(content: string): Hover {
   return {
     contents: {
       kind: MarkupKind.Markdown,
@@ -49,15 +72,9 @@ export function getHover(
 }
 
 /**
- * Find identifier at position
+ * Find the identifier of the node at a position
  */
-function findIdentifierAtPosition(
-  ast: Module,
-  line: number,
-  character: number
-): string | null {
-  // Use AST position tracking to find the node at this position
-  const node = findIdNode(ast, { line, character });
+function findIdentifierAtPosition(node: ASTNode | null): string | null {
   if (!node) {
     return null;
   }
@@ -74,6 +91,49 @@ function findIdentifierAtPosition(
   return null;
 }
 
+/**
+ * Find the field or method a field access refers to, through the type of its receiver
+ */
+function findAccessedMember(expr: FieldAccessExpression, scope: Scope): MemberInfo | undefined {
+  const receiverType = inferReceiverType(expr.object, scope);
+  return receiverType ? findMember(receiverType, expr.field) : undefined;
+}
+
+function inferReceiverType(expr: Expression, scope: Scope): Type | undefined {
+  let type: Type | undefined;
+  if (expr.type === 'IdentifierExpression') {
+    type = scope.lookup(expr.name)?.type;
+  } else if (expr.type === 'FieldAccessExpression') {
+    const member = findAccessedMember(expr, scope);
+    type = member ? getMemberType(member) : undefined;
+  }
+  return type?.kind === TypeKind.POINTER ? (type as PointerType).baseType : type;
+}
+
+/**
+ * Generate hover for a field or method of a record or object
+ */
+function generateMemberHover(member: MemberInfo): string {
+  const lines: string[] = [];
+  const owner = formatType(member.owner);
+
+  lines.push('```modsim');
+  if (member.method) {
+    const { methodType, parameters, returnType } = member.method;
+    const params = parameters.map(p => `${p.mode} ${p.name}: ${formatType(p.type)}`).join('; ');
+    const returns = returnType && returnType.kind !== TypeKind.VOID ? `: ${formatType(returnType)}` : '';
+    lines.push(`${methodType} METHOD ${member.name}${params ? `(${params})` : ''}${returns}`);
+  } else {
+    lines.push(`${member.name}: ${formatType(getMemberType(member))}`);
+  }
+  lines.push('```');
+  lines.push('');
+  pushDocumentation(lines, (member.field ?? member.method)?.documentation);
+  lines.push(`**${member.method ? 'Method' : 'Field'} of:** ${owner}${member.isPrivate ? ' (PRIVATE)' : ''}`);
+
+  return lines.join('\n');
+}
+
 /**
  * Generate hover content for a symbol
  */
@@ -124,6 +184,7 @@ function generateTypeHover(symbol: AnySymbol, documentUri?: string): string {
   lines.push(`TYPE ${symbol.name}`);
   lines.push('```');
   lines.push('');
+  pushDocumentation(lines, symbol.documentation);
   lines.push(`**Kind:** ${symbol.type.kind}`);
 
   if (symbol.type.kind === TypeKind.OBJECT) {
@@ -157,6 +218,7 @@ function generateConstHover(symbol: AnySymbol, documentUri?: string): string {
   lines.push(`CONST ${symbol.name}`);
   lines.push('```');
   lines.push('');
+  pushDocumentation(lines, symbol.documentation);
   lines.push(`**Type:** ${formatType(symbol.type)}`);
   lines.push('');
   lines.push(formatLocation(symbol, documentUri));
@@ -176,6 +238,7 @@ function generateVarHover(symbol: AnySymbol, documentUri?: string): string {
   lines.push(`${kind}: ${symbol.name}`);
   lines.push('```');
   lines.push('');
+  pushDocumentation(lines, symbol.documentation);
   lines.push(`**Type:** ${formatType(symbol.type)}`);
 
   if (symbol.kind === SymbolKind.PARAMETER) {
@@ -217,11 +280,12 @@ function generateProcedureHover(symbol: AnySymbol, documentUri?: string): string
   lines.push(sig);
   lines.push('```');
   lines.push('');
+  pushDocumentation(lines, symbol.documentation);
 
   if (proc.parameters && proc.parameters.length > 0) {
     lines.push('**Parameters:**');
     for (const param of proc.parameters) {
-      lines.push(`- \`${param.name}\` (${param.mode}): ${formatType(param.type)}`);
+      lines.push(`- \`${param.name}\` (${param.mode}): ${formatType(param.type)}${formatParameterDocumentation(param)}`);
     }
     lines.push('');
   }
@@ -262,6 +326,7 @@ function generateMethodHover(symbol: AnySymbol, documentUri?: string): string {
   lines.push(sig);
   lines.push('```');
   lines.push('');
+  pushDocumentation(lines, symbol.documentation);
 
   lines.push(`**Method type:** ${method.methodType}`);
 
@@ -273,7 +338,7 @@ function generateMethodHover(symbol: AnySymbol, documentUri?: string): string {
     lines.push('');
     lines.push('**Parameters:**');
     for (const param of method.parameters) {
-      lines.push(`- \`${param.name}\` (${param.mode}): ${formatType(param.type)}`);
+      lines.push(`- \`${param.name}\` (${param.mode}): ${formatType(param.type)}${formatParameterDocumentation(param)}`);
     }
   }
 
@@ -298,6 +363,7 @@ function generateFieldHover(symbol: AnySymbol, documentUri?: string): string {
   lines.push(`${symbol.name}: ${formatType(symbol.type)}`);
   lines.push('```');
   lines.push('');
+  pushDocumentation(lines, symbol.documentation);
   lines.push('**Field**');
   lines.push('');
   lines.push(formatLocation(symbol, documentUri));
@@ -316,11 +382,29 @@ function generateModuleHover(symbol: AnySymbol, _documentUri?: string): string {
   lines.push(`${mod.moduleKind} MODULE ${symbol.name}`);
   lines.push('```');
   lines.push('');
+  pushDocumentation(lines, symbol.documentation);
   lines.push(`**Type:** ${mod.moduleKind} Module`);
 
   return lines.join('\n');
 }
 
+/**
+ * Add a doc comment, followed by a blank line
+ */
+function pushDocumentation(lines: string[], documentation?: string): void {
+  if (documentation) {
+    lines.push(documentation);
+    lines.push('');
+  }
+}
+
+/**
+ * Format a parameter's doc comment to follow it in a list item
+ */
+function formatParameterDocumentation(param: { documentation?: string }): string {
+  return param.documentation ? ` - ${param.documentation.replace(/\s*\n\s*/g, ' ')}` : '';
+}
+
 /**
  * Format a type for display
  */
@@ -343,7 +427,7 @@ function formatType(type: Type): string {
     case TypeKind.ARRAY:
       return 'ARRAY';
     case TypeKind.RECORD:
-      return 'RECORD';
+      return type.name || 'RECORD';
     case TypeKind.OBJECT:
       return type.name || 'OBJECT';
     case TypeKind.VOID:
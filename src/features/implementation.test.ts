@@ -0,0 +1,130 @@
+/**
+ * Unit tests for Go-to-Declaration and Go-to-Implementation
+ */
+
+import { getDeclaration, getImplementation } from './implementation';
+import { useWorkspace } from '../../test/helpers/workspace';
+
+describe('Declaration and Implementation', () => {
+  const workspace = useWorkspace({
+    'file:///shapes.mod': `DEFINITION MODULE Shapes;
+TYPE
+  Shape = OBJECT
+    ASK METHOD Area() : REAL;
+  END OBJECT;
+PROCEDURE Reset;
+END MODULE.`,
+    'file:///shapes_impl.mod': `IMPLEMENTATION MODULE Shapes;
+PROCEDURE Reset;
+BEGIN
+END PROCEDURE;
+
+OBJECT Shape;
+  ASK METHOD Area() : REAL;
+  BEGIN
+    RETURN 0.0;
+  END METHOD;
+END OBJECT;
+END MODULE.`,
+    'file:///squares.mod': `DEFINITION MODULE Squares;
+FROM Shapes IMPORT Shape;
+TYPE
+  Square = OBJECT(Shape)
+    OVERRIDE
+      ASK METHOD Area() : REAL;
+  END OBJECT;
+END MODULE.`,
+    'file:///squares_impl.mod': `IMPLEMENTATION MODULE Squares;
+OBJECT Square;
+  ASK METHOD Area() : REAL;
+  BEGIN
+    RETURN 1.0;
+  END METHOD;
+END OBJECT;
+END MODULE.`,
+    'file:///app.mod': `MAIN MODULE App;
+FROM Shapes IMPORT Shape, Reset;
+VAR s : Shape;
+BEGIN
+  Reset;
+  ASK s TO Area;
+END MODULE.`,
+  });
+
+  const declarationAt = workspace.at(getDeclaration);
+  const implementationAt = workspace.at(getImplementation);
+
+  function lines(locations: Array<{ uri: string; range: { start: { line: number } } }> | null) {
+    return locations?.map(location => [location.uri, location.range.start.line]);
+  }
+
+  describe('Declaration', () => {
+    it('should jump from a procedure body to its DEFINITION module declaration', () => {
+      // On "PROCEDURE Reset;" in the implementation
+      const location = declarationAt('file:///shapes_impl.mod', 1, 12);
+
+      expect(location).toMatchObject({ uri: 'file:///shapes.mod', range: { start: { line: 5 } } });
+    });
+
+    it('should jump from an object implementation to its type declaration', () => {
+      // On "OBJECT Shape;"
+      const location = declarationAt('file:///shapes_impl.mod', 5, 9);
+
+      // The first type of a TYPE section starts at the keyword
+      expect(location).toMatchObject({ uri: 'file:///shapes.mod', range: { start: { line: 1 } } });
+    });
+
+    it('should jump from a method body to its declaration in the object type', () => {
+      // On "ASK METHOD Area() : REAL;" in OBJECT Shape
+      const location = declarationAt('file:///shapes_impl.mod', 6, 15);
+
+      expect(location).toMatchObject({ uri: 'file:///shapes.mod', range: { start: { line: 3 } } });
+    });
+
+    it('should resolve references to imported procedures and methods', () => {
+      expect(declarationAt('file:///app.mod', 4, 3)).toMatchObject({ uri: 'file:///shapes.mod', range: { start: { line: 5 } } });
+      expect(declarationAt('file:///app.mod', 5, 12)).toMatchObject({ uri: 'file:///shapes.mod', range: { start: { line: 3 } } });
+    });
+  });
+
+  describe('Implementation', () => {
+    it('should jump from a procedure declaration to its body', () => {
+      // On "PROCEDURE Reset;" in the definition
+      expect(lines(implementationAt('file:///shapes.mod', 5, 12))).toEqual([['file:///shapes_impl.mod', 1]]);
+    });
+
+    it('should jump from an object type to its OBJECT block', () => {
+      // On "Shape = OBJECT"
+      expect(lines(implementationAt('file:///shapes.mod', 2, 4))).toEqual([['file:///shapes_impl.mod', 5]]);
+    });
+
+    it('should list the method body and the bodies of every override', () => {
+      // On "ASK METHOD Area() : REAL;" in the Shape type
+      const locations = implementationAt('file:///shapes.mod', 3, 16);
+
+      expect(lines(locations)).toEqual([
+        ['file:///shapes_impl.mod', 6],
+        ['file:///squares_impl.mod', 2],
+      ]);
+    });
+
+    it('should resolve methods called with ASK', () => {
+      // On Area in "ASK s TO Area;"
+      const locations = implementationAt('file:///app.mod', 5, 12);
+
+      expect(lines(locations)).toEqual([
+        ['file:///shapes_impl.mod', 6],
+        ['file:///squares_impl.mod', 2],
+      ]);
+    });
+
+    it('should list only overrides below the method they override', () => {
+      // On "ASK METHOD Area() : REAL;" in the Square type
+      expect(lines(implementationAt('file:///squares.mod', 5, 18))).toEqual([['file:///squares_impl.mod', 2]]);
+    });
+
+    it('should return null outside of procedures, objects and methods', () => {
+      expect(implementationAt('file:///app.mod', 0, 2)).toBeNull();
+    });
+  });
+});
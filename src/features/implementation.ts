@@ -0,0 +1,204 @@
+/**
+ * Go-to-declaration and go-to-implementation providers
+ * Move between the DEFINITION module that declares a procedure, object or method
+ * and the IMPLEMENTATION module that gives it a body
+ */
+
+import { Location } from 'vscode-languageserver/node';
+
+import type { Module, MethodDeclaration, ObjectDeclaration } from '../language/ast';
+import { SymbolTable } from '../language/symbols';
+import type { WorkspaceManager } from '../utils/workspace';
+import {
+  ModuleContext,
+  resolveDeclaration,
+  findTopLevelDeclaration,
+  getModuleContext,
+  getWorkspaceContexts,
+  toDeclarationLocation,
+} from '../utils/declarations';
+import { findTargetAtPosition } from '../utils/symbolBinding';
+
+/**
+ * Get the declaration of the symbol at a position
+ * Procedures and types resolve to the DEFINITION module when it declares them.
+ */
+export function getDeclaration(
+  ast: Module,
+  symbolTable: SymbolTable,
+  line: number,
+  character: number,
+  documentUri: string,
+  workspaceManager?: WorkspaceManager
+): Location | null {
+  const context: ModuleContext = { uri: documentUri, ast, symbolTable };
+  const target = findTargetAtPosition(context, { line, character }, workspaceManager);
+  if (!target) {
+    return null;
+  }
+
+  if (target.kind === 'member') {
+    return toDeclarationLocation(target.resolved.context.uri, target.resolved.member.start, target.name);
+  }
+
+  const { context: declaringContext, declaration } = target.resolved;
+  if (workspaceManager && declaringContext.ast.kind !== 'DEFINITION') {
+    const definition = getModuleContext(workspaceManager, declaringContext.ast.name, 'DEFINITION');
+    const declared = definition && findTopLevelDeclaration(definition.ast, target.name);
+    if (declared) {
+      return toDeclarationLocation(definition.uri, declared.start, target.name);
+    }
+  }
+
+  return toDeclarationLocation(declaringContext.uri, declaration.start, target.name);
+}
+
+/**
+ * Get the implementations of the procedure, object type or method at a position
+ * For a method this includes the overriding methods of every subtype.
+ */
+export function getImplementation(
+  ast: Module,
+  symbolTable: SymbolTable,
+  line: number,
+  character: number,
+  documentUri: string,
+  workspaceManager?: WorkspaceManager
+): Location[] | null {
+  const context: ModuleContext = { uri: documentUri, ast, symbolTable };
+  const target = findTargetAtPosition(context, { line, character }, workspaceManager);
+  if (!target) {
+    return null;
+  }
+
+  if (target.kind === 'member') {
+    const { context: typeContext, typeName, member } = target.resolved;
+    if (member.type !== 'MethodDeclaration') {
+      return null; // Fields have no body
+    }
+    return getMethodImplementations(context, typeContext, typeName, member, workspaceManager);
+  }
+
+  const { context: declaringContext, declaration } = target.resolved;
+  const implementation = getImplementationContext(declaringContext, workspaceManager);
+  if (!implementation) {
+    return null;
+  }
+
+  if (declaration.type === 'ProcedureDeclaration') {
+    const body = implementation.ast.declarations.find(
+      decl => decl.type === 'ProcedureDeclaration' && decl.name === target.name
+    );
+    return body ? [toDeclarationLocation(implementation.uri, body.start, target.name)] : null;
+  }
+
+  if (declaration.type === 'TypeDeclaration' && declaration.typeSpec.type === 'ObjectType') {
+    const objectDecl = findObjectDeclaration(implementation.ast, target.name);
+    return objectDecl ? [toDeclarationLocation(implementation.uri, objectDecl.start, target.name)] : null;
+  }
+
+  return null;
+}
+
+/**
+ * Get the module that implements the declarations of a module
+ * Only DEFINITION modules leave their bodies to a separate file.
+ */
+function getImplementationContext(
+  context: ModuleContext,
+  workspaceManager?: WorkspaceManager
+): ModuleContext | undefined {
+  if (context.ast.kind !== 'DEFINITION') {
+    return context;
+  }
+  return workspaceManager && getModuleContext(workspaceManager, context.ast.name, 'IMPLEMENTATION');
+}
+
+function findObjectDeclaration(ast: Module, name: string): ObjectDeclaration | undefined {
+  return ast.declarations.find(
+    (decl): decl is ObjectDeclaration => decl.type === 'ObjectDeclaration' && decl.name === name
+  );
+}
+
+/**
+ * Get the body of a method and the bodies of every override in a subtype
+ */
+function getMethodImplementations(
+  context: ModuleContext,
+  typeContext: ModuleContext,
+  typeName: string,
+  method: MethodDeclaration,
+  workspaceManager?: WorkspaceManager
+): Location[] {
+  const locations = [findMethodBody(typeContext, typeName, method, workspaceManager)];
+  const declaringType = typeKey(typeContext, typeName);
+
+  for (const moduleContext of getWorkspaceContexts(workspaceManager, context)) {
+    for (const decl of moduleContext.ast.declarations) {
+      if (decl.type !== 'TypeDeclaration' || decl.typeSpec.type !== 'ObjectType') {
+        continue;
+      }
+      const override = decl.typeSpec.methods.find(m => m.name === method.name);
+      if (override?.isOverride && inheritsFrom(moduleContext, decl.name, declaringType, workspaceManager, new Set())) {
+        locations.push(findMethodBody(moduleContext, decl.name, override, workspaceManager));
+      }
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Find the body of a method of an object type, or its declaration when no body is indexed
+ */
+function findMethodBody(
+  typeContext: ModuleContext,
+  typeName: string,
+  method: MethodDeclaration,
+  workspaceManager?: WorkspaceManager
+): Location {
+  const implementation = getImplementationContext(typeContext, workspaceManager);
+  const objectDecl = implementation && findObjectDeclaration(implementation.ast, typeName);
+  const body = objectDecl && [...objectDecl.methods, ...(objectDecl.privateSection?.methods ?? [])]
+    .find(m => m.name === method.name);
+
+  return body
+    ? toDeclarationLocation(implementation!.uri, body.start, method.name)
+    : toDeclarationLocation(typeContext.uri, method.start, method.name);
+}
+
+/**
+ * Whether an object type inherits, directly or indirectly, from the type with a given key
+ */
+function inheritsFrom(
+  context: ModuleContext,
+  typeName: string,
+  baseKey: string,
+  workspaceManager: WorkspaceManager | undefined,
+  visited: Set<string>
+): boolean {
+  const resolved = resolveDeclaration(context, typeName, workspaceManager);
+  if (!resolved || resolved.declaration.type !== 'TypeDeclaration' || resolved.declaration.typeSpec.type !== 'ObjectType') {
+    return false;
+  }
+
+  const key = typeKey(resolved.context, typeName);
+  if (visited.has(key)) {
+    return false;
+  }
+  visited.add(key);
+
+  return (resolved.declaration.typeSpec.baseTypes ?? []).some(baseType => {
+    const base = resolveDeclaration(resolved.context, baseType, workspaceManager);
+    return base !== undefined
+      && (typeKey(base.context, baseType) === baseKey
+        || inheritsFrom(base.context, baseType, baseKey, workspaceManager, visited));
+  });
+}
+
+/**
+ * Identify a type by the file that declares it and its name
+ */
+function typeKey(context: ModuleContext, typeName: string): string {
+  return `${context.uri}#${typeName}`;
+}
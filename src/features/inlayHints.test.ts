@@ -0,0 +1,138 @@
+/**
+ * Unit tests for inlay hints
+ */
+
+import { InlayHint, InlayHintKind } from 'vscode-languageserver/node';
+import { getInlayHints } from './inlayHints';
+import { useWorkspace } from '../../test/helpers/workspace';
+
+describe('Inlay Hints', () => {
+  const workspace = useWorkspace({
+    'file:///sim.mod': `DEFINITION MODULE Sim;
+TYPE
+  Server = OBJECT
+    ASK METHOD Configure(IN capacity : INTEGER; IN rate : REAL);
+    ASK METHOD Stats(OUT served : INTEGER; INOUT busy : REAL);
+  END OBJECT;
+PROCEDURE Setup(IN count : INTEGER; IN name : STRING; OUT ok : BOOLEAN);
+END MODULE.`,
+    'file:///app.mod': `MAIN MODULE App;
+FROM Sim IMPORT Server, Setup;
+CONST
+  Limit = 10;
+  Label = "queue";
+CONST Rate : REAL = 2.5;
+TYPE
+  Times = ARRAY [1..3] OF REAL;
+VAR s : Server;
+VAR times : Times;
+VAR t : REAL;
+VAR capacity, n : INTEGER;
+VAR ok : BOOLEAN;
+BEGIN
+  Setup(3, Label, ok);
+  ASK s TO Configure(capacity, 1.5);
+  ASK s TO Stats(n, t);
+  FOREACH t IN times DO
+  END FOREACH;
+END MODULE.`,
+    'file:///jobs.mod': `MAIN MODULE Jobs;
+TYPE
+  Job = OBJECT
+    ASK METHOD Run;
+  END OBJECT;
+  QueueObj = OBJECT
+    ASK METHOD Add(IN item : ANYOBJ);
+  END OBJECT;
+  JobQueue = OBJECT(QueueObj[ANYOBJ:Job])
+  END OBJECT;
+  UrgentQueue = OBJECT(JobQueue)
+  END OBJECT;
+  Counts = ARRAY [1..3] OF INTEGER;
+  Rates = ARRAY [1..3] OF REAL;
+  Worker = OBJECT
+    items : Counts;
+    ASK METHOD Work;
+  END OBJECT;
+VAR pending : JobQueue;
+VAR urgent : UrgentQueue;
+VAR items : Rates;
+VAR job : Job;
+VAR x : ANYOBJ;
+OBJECT Worker;
+  ASK METHOD Work;
+  BEGIN
+    FOREACH x IN items DO
+    END FOREACH;
+  END METHOD;
+END OBJECT;
+BEGIN
+  FOREACH job IN pending DO
+  END FOREACH;
+  FOREACH job IN urgent DO
+  END FOREACH;
+  FOREACH x IN items DO
+  END FOREACH;
+END MODULE.`,
+  });
+
+  function hintsIn(uri: string, startLine: number, endLine: number): InlayHint[] {
+    const { ast, symbolTable } = workspace.document(uri);
+    const range = { start: { line: startLine, character: 0 }, end: { line: endLine, character: 0 } };
+    return getInlayHints(ast, symbolTable, range, workspace.files[uri], uri, workspace.manager);
+  }
+
+  const labels = (hints: InlayHint[]) => hints.map(hint => [hint.position.line, hint.position.character, hint.label]);
+
+  it('should name the parameters of imported procedures, marking OUT arguments', () => {
+    const hints = hintsIn('file:///app.mod', 14, 15);
+
+    expect(labels(hints)).toEqual([
+      [14, 8, 'count:'],
+      [14, 11, 'name:'],
+      [14, 18, 'OUT ok:'],
+    ]);
+    expect(hints.every(hint => hint.kind === InlayHintKind.Parameter && hint.paddingRight)).toBe(true);
+  });
+
+  it('should name the parameters of ASK/TELL methods through the receiver type', () => {
+    expect(labels(hintsIn('file:///app.mod', 15, 17))).toEqual([
+      // capacity already spells out its parameter name
+      [15, 31, 'rate:'],
+      [16, 17, 'OUT served:'],
+      [16, 20, 'INOUT busy:'],
+    ]);
+  });
+
+  it('should show the element type of a FOREACH loop variable', () => {
+    const hints = hintsIn('file:///app.mod', 17, 18);
+
+    expect(labels(hints)).toEqual([[17, 11, ': REAL']]);
+    expect(hints[0].kind).toBe(InlayHintKind.Type);
+  });
+
+  it('should show the element type of collection objects substituted for ANYOBJ', () => {
+    expect(labels(hintsIn('file:///jobs.mod', 31, 35))).toEqual([
+      [31, 13, ': Job'],
+      // Inherited from the parameterized base type
+      [33, 13, ': Job'],
+    ]);
+  });
+
+  it('should bind FOREACH collections through the scope of the loop', () => {
+    // The object field, not the module variable of the same name
+    expect(labels(hintsIn('file:///jobs.mod', 26, 27))).toEqual([[26, 13, ': INTEGER']]);
+    expect(labels(hintsIn('file:///jobs.mod', 35, 36))).toEqual([[35, 11, ': REAL']]);
+  });
+
+  it('should show the inferred type of CONSTs without an explicit type', () => {
+    expect(labels(hintsIn('file:///app.mod', 2, 6))).toEqual([
+      [3, 7, ': INTEGER'],
+      [4, 7, ': STRING'],
+    ]);
+  });
+
+  it('should only return hints within the requested range', () => {
+    expect(hintsIn('file:///app.mod', 0, 2)).toEqual([]);
+  });
+});
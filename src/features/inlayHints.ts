@@ -0,0 +1,326 @@
+/**
+ * Inlay Hints Provider
+ * Parameter names at call sites, and the types of FOREACH loop variables and untyped CONSTs
+ */
+
+import {
+  InlayHint,
+  InlayHintKind,
+  Position,
+  Range,
+} from 'vscode-languageserver/node';
+
+import type {
+  Module,
+  ASTNode,
+  Expression,
+} from '../language/ast';
+import { SymbolTable, SymbolKind, ProcedureSymbol } from '../language/symbols';
+import { Type, TypeKind, ArrayType, ObjectType, RecordType, ParameterInfo } from '../language/types';
+import type { WorkspaceManager } from '../utils/workspace';
+import {
+  ModuleContext,
+  isModuleReference,
+  resolveDeclaration,
+  getModuleContext,
+} from '../utils/declarations';
+import { bindReference, getBoundType, resolveReceiverMember } from '../utils/symbolBinding';
+
+/**
+ * Get the inlay hints within a range of a document
+ */
+export function getInlayHints(
+  ast: Module,
+  symbolTable: SymbolTable,
+  range: Range,
+  documentText: string,
+  documentUri: string,
+  workspaceManager?: WorkspaceManager
+): InlayHint[] {
+  const context: ModuleContext = { uri: documentUri, ast, symbolTable };
+  const hints: InlayHint[] = [];
+  const visited = new Set<object>();
+  const lineOffsets = getLineOffsets(documentText);
+
+  const visit = (value: unknown): void => {
+    if (!value || typeof value !== 'object' || visited.has(value)) {
+      return;
+    }
+    visited.add(value);
+
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+
+    const node = value as ASTNode & Record<string, any>;
+    if (node.start && node.end && !overlaps(node, range)) {
+      return;
+    }
+
+    switch (node.type) {
+      case 'CallExpression':
+        hints.push(...getParameterHints(node.arguments, resolveCallParameters(context, node.callee, workspaceManager)));
+        break;
+      case 'AskStatement':
+      case 'TellStatement': {
+        const parameters = resolveMethodParameters(context, node.object, node.method, workspaceManager);
+        hints.push(...getParameterHints(node.arguments ?? [], parameters));
+        break;
+      }
+      case 'ForeachStatement': {
+        const elementType = getElementType(context, node.collection, workspaceManager);
+        if (elementType) {
+          const position = findNameEnd(documentText, lineOffsets, node.variable, node.start.offset, node.collection.start.offset);
+          if (position) {
+            hints.push(createTypeHint(position, elementType));
+          }
+        }
+        break;
+      }
+      case 'ConstDeclaration':
+        if (!node.valueType) {
+          const constType = findConstType(symbolTable, node.start.offset);
+          const position = findNameEnd(documentText, lineOffsets, node.name, node.start.offset, node.value.start.offset);
+          if (constType && position) {
+            hints.push(createTypeHint(position, constType));
+          }
+        }
+        break;
+    }
+
+    Object.values(node).forEach(visit);
+  };
+
+  visit(ast.declarations);
+  visit(ast.mainBody);
+
+  return hints.filter(hint => isInRange(hint.position, range));
+}
+
+/**
+ * Hint each argument with the name of its parameter, marking OUT and INOUT parameters
+ * Arguments that already spell out the name of an IN parameter need no hint.
+ */
+function getParameterHints(args: Expression[], parameters: ParameterInfo[] | undefined): InlayHint[] {
+  if (!parameters) {
+    return [];
+  }
+
+  const hints: InlayHint[] = [];
+  args.forEach((arg, i) => {
+    const param = parameters[i];
+    if (!param || (param.mode === 'IN' && arg.type === 'IdentifierExpression' && arg.name === param.name)) {
+      return;
+    }
+
+    hints.push({
+      position: toPosition(arg.start),
+      label: param.mode === 'IN' ? `${param.name}:` : `${param.mode} ${param.name}:`,
+      kind: InlayHintKind.Parameter,
+      paddingRight: true,
+    });
+  });
+  return hints;
+}
+
+/**
+ * Get the parameters of a called procedure, `Module.Proc` or ASK expression's `object.Method`
+ */
+function resolveCallParameters(
+  context: ModuleContext,
+  callee: Expression,
+  workspaceManager: WorkspaceManager | undefined
+): ParameterInfo[] | undefined {
+  if (callee.type === 'IdentifierExpression') {
+    return resolveProcedureParameters(context, callee.name, workspaceManager);
+  }
+
+  if (callee.type === 'FieldAccessExpression') {
+    const { object, field } = callee;
+    if (workspaceManager && object.type === 'IdentifierExpression' && isModuleReference(context, object.name)) {
+      const moduleContext = getModuleContext(workspaceManager, object.name);
+      return moduleContext && resolveProcedureParameters(moduleContext, field, workspaceManager);
+    }
+    return resolveMethodParameters(context, object, field, workspaceManager);
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the parameters of a procedure from the symbol table of the module that declares it
+ * Procedures not declared in any module, such as builtins, come from the module's own symbol table.
+ */
+function resolveProcedureParameters(
+  context: ModuleContext,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined
+): ParameterInfo[] | undefined {
+  const resolved = resolveDeclaration(context, name, workspaceManager);
+  if (resolved && resolved.declaration.type !== 'ProcedureDeclaration') {
+    return undefined;
+  }
+
+  const symbol = (resolved?.context ?? context).symbolTable.lookupGlobal(name);
+  return symbol?.kind === SymbolKind.PROCEDURE ? (symbol as ProcedureSymbol).parameters : undefined;
+}
+
+/**
+ * Get the parameters of a method through the object type of its receiver
+ */
+function resolveMethodParameters(
+  context: ModuleContext,
+  receiver: Expression,
+  method: string,
+  workspaceManager: WorkspaceManager | undefined
+): ParameterInfo[] | undefined {
+  const resolved = resolveReceiverMember(context, receiver, method, workspaceManager);
+  if (resolved?.member.type !== 'MethodDeclaration') {
+    return undefined;
+  }
+
+  const typeSymbol = resolved.context.symbolTable.lookupGlobal(resolved.typeName);
+  if (typeSymbol?.kind !== SymbolKind.TYPE || typeSymbol.type.kind !== TypeKind.OBJECT) {
+    return undefined;
+  }
+  return (typeSymbol.type as ObjectType).methods.get(method)?.parameters;
+}
+
+/**
+ * Get the element type of a FOREACH collection: an array, or a collection object whose base
+ * type substitutes the type of its elements for ANYOBJ
+ */
+function getElementType(
+  context: ModuleContext,
+  collection: Expression,
+  workspaceManager: WorkspaceManager | undefined
+): Type | undefined {
+  const collectionType = inferType(context, collection, workspaceManager);
+  switch (collectionType?.kind) {
+    case TypeKind.ARRAY:
+      return (collectionType as ArrayType).elementType;
+    case TypeKind.OBJECT:
+      return (collectionType as ObjectType).elementType;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Infer the type of a variable or a field of one
+ * Variables are bound through the scope they are written in.
+ */
+function inferType(
+  context: ModuleContext,
+  expr: Expression,
+  workspaceManager: WorkspaceManager | undefined
+): Type | undefined {
+  if (expr.type === 'IdentifierExpression') {
+    const binding = bindReference(context, expr.name, expr.start, workspaceManager);
+    return binding && getBoundType(binding);
+  }
+
+  if (expr.type === 'FieldAccessExpression') {
+    const objectType = inferType(context, expr.object, workspaceManager);
+    if (objectType?.kind === TypeKind.RECORD) {
+      return (objectType as RecordType).fields.get(expr.field)?.type;
+    }
+    if (objectType?.kind === TypeKind.OBJECT) {
+      const { fields, privateFields } = objectType as ObjectType;
+      return (fields.get(expr.field) ?? privateFields?.get(expr.field))?.type;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the type the analyzer inferred for a CONST declaration
+ */
+function findConstType(symbolTable: SymbolTable, declarationOffset: number): Type | undefined {
+  const symbol = symbolTable.getAllSymbols().find(
+    s => s.kind === SymbolKind.CONST && s.declaration.offset === declarationOffset
+  );
+  const type = symbol?.type;
+  return type && type.kind !== TypeKind.UNKNOWN && type.kind !== TypeKind.ERROR ? type : undefined;
+}
+
+/**
+ * Find where a declared name ends between two offsets
+ * Declarations start at their keyword (or the first name of a section), so the name is searched in the source.
+ */
+function findNameEnd(text: string, lineOffsets: number[], name: string, from: number, to: number): Position | undefined {
+  const match = new RegExp(`\\b${name}\\b`).exec(text.slice(from, to));
+  return match ? positionAt(lineOffsets, from + match.index + name.length) : undefined;
+}
+
+function createTypeHint(position: Position, type: Type): InlayHint {
+  return {
+    position,
+    label: `: ${formatType(type)}`,
+    kind: InlayHintKind.Type,
+  };
+}
+
+/**
+ * Format a type for display
+ */
+function formatType(type: Type): string {
+  if (type.name) {
+    return type.name;
+  }
+  if (type.kind === TypeKind.ARRAY) {
+    return `ARRAY OF ${formatType((type as ArrayType).elementType)}`;
+  }
+  return type.kind;
+}
+
+function overlaps(node: ASTNode, range: Range): boolean {
+  const start = toPosition(node.start);
+  const end = toPosition(node.end);
+  return !(end.line < range.start.line || start.line > range.end.line);
+}
+
+function isInRange(position: Position, range: Range): boolean {
+  const afterStart = position.line > range.start.line
+    || (position.line === range.start.line && position.character >= range.start.character);
+  const beforeEnd = position.line < range.end.line
+    || (position.line === range.end.line && position.character <= range.end.character);
+  return afterStart && beforeEnd;
+}
+
+/**
+ * Convert an AST position to an LSP position (LSP is 0-based)
+ */
+function toPosition(position: { line: number; column: number }): Position {
+  return { line: position.line - 1, character: position.column - 1 };
+}
+
+/**
+ * Get the offset each line of a text starts at
+ */
+function getLineOffsets(text: string): number[] {
+  const offsets = [0];
+  for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) {
+    offsets.push(i + 1);
+  }
+  return offsets;
+}
+
+/**
+ * Convert an offset to an LSP position, searching the line that contains it
+ */
+function positionAt(lineOffsets: number[], offset: number): Position {
+  let low = 0;
+  let high = lineOffsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineOffsets[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low, character: offset - lineOffsets[low] };
+}
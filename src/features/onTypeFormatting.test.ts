@@ -0,0 +1,159 @@
+/**
+ * Unit tests for on-type formatting
+ */
+
+import { FormattingOptions } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getOnTypeFormatting } from './onTypeFormatting';
+import { parseDocument } from '../language/incremental';
+import { DEFAULT_FORMAT_SETTINGS } from './formatting';
+
+describe('On-Type Formatting', () => {
+  const options: FormattingOptions = { tabSize: 2, insertSpaces: true };
+
+  /**
+   * Type a character at the '|' marker and return the document after the edits
+   */
+  function type(code: string, ch: string, settings = DEFAULT_FORMAT_SETTINGS): string {
+    const offset = code.indexOf('|');
+    const text = code.slice(0, offset) + code.slice(offset + 1);
+    const document = TextDocument.create('file:///test.mod', 'modsim', 1, text);
+    const edits = getOnTypeFormatting(text, parseDocument(text).ast, document.positionAt(offset), ch, options, settings);
+    return TextDocument.applyEdits(document, edits);
+  }
+
+  describe('Newline', () => {
+    it('should indent after IF and insert END IF', () => {
+      const code = `MAIN MODULE Test;
+BEGIN
+  IF x > 0 THEN
+|
+END MODULE.`;
+
+      expect(type(code, '\n')).toBe('MAIN MODULE Test;\nBEGIN\n  IF x > 0 THEN\n    \n  END IF;\nEND MODULE.');
+    });
+
+    it('should insert END WHILE, END FOR and END FOREACH', () => {
+      const code = (opener: string) => `MAIN MODULE Test;
+BEGIN
+  ${opener}
+  |
+END MODULE.`;
+
+      expect(type(code('WHILE x > 0 DO'), '\n')).toContain('  WHILE x > 0 DO\n    \n  END WHILE;\n');
+      expect(type(code('FOR i := 1 TO 10 DO'), '\n')).toContain('  FOR i := 1 TO 10 DO\n    \n  END FOR;\n');
+      expect(type(code('FOREACH item IN list DO'), '\n')).toContain('\n  END FOREACH;\n');
+    });
+
+    it('should only indent when the block is already closed', () => {
+      const code = `MAIN MODULE Test;
+BEGIN
+  IF x > 0 THEN
+|  y := 1;
+  END IF;
+END MODULE.`;
+
+      expect(type(code, '\n')).toBe(`MAIN MODULE Test;
+BEGIN
+  IF x > 0 THEN
+    y := 1;
+  END IF;
+END MODULE.`);
+    });
+
+    it('should close a nested block whose END belongs to an outer block', () => {
+      const code = `MAIN MODULE Test;
+BEGIN
+  IF x > 0 THEN
+    IF y > 0 THEN
+|
+  END IF;
+END MODULE.`;
+
+      expect(type(code, '\n')).toContain('    IF y > 0 THEN\n      \n    END IF;\n  END IF;');
+    });
+
+    it('should close methods in object implementations but not method declarations', () => {
+      const declaration = `IMPLEMENTATION MODULE Test;
+TYPE
+  Counter = OBJECT
+    ASK METHOD Next() : INTEGER;
+|
+  END OBJECT;
+END MODULE.`;
+      const implementation = `IMPLEMENTATION MODULE Test;
+OBJECT Counter;
+  ASK METHOD Next() : INTEGER;
+|
+END OBJECT;
+END MODULE.`;
+
+      expect(type(declaration, '\n')).toBe(declaration.replace('|', ''));
+      expect(type(implementation, '\n')).toContain('  ASK METHOD Next() : INTEGER;\n    \n  END METHOD;\nEND OBJECT;');
+    });
+
+    it('should close new object types', () => {
+      const code = `IMPLEMENTATION MODULE Test;
+TYPE
+  Counter = OBJECT
+|
+END MODULE.`;
+
+      expect(type(code, '\n')).toContain('  Counter = OBJECT\n    \n  END OBJECT;\n');
+
+      const closed = 'IMPLEMENTATION MODULE Test;\nTYPE\n  Counter = OBJECT\n|\n  END OBJECT;\nEND MODULE.';
+      expect(type(closed, '\n')).toBe(closed.replace('|', '    '));
+    });
+
+    it('should not insert END when disabled', () => {
+      const code = 'MAIN MODULE Test;\nBEGIN\n  IF x THEN\n|\nEND MODULE.';
+
+      expect(type(code, '\n', { ...DEFAULT_FORMAT_SETTINGS, insertEndKeywords: false })).toBe(
+        'MAIN MODULE Test;\nBEGIN\n  IF x THEN\n    \nEND MODULE.'
+      );
+    });
+
+    it('should only indent after BEGIN and ELSE', () => {
+      const code = 'MAIN MODULE Test;\nBEGIN\n|\nEND MODULE.';
+
+      expect(type(code, '\n')).toBe('MAIN MODULE Test;\nBEGIN\n  \nEND MODULE.');
+    });
+
+    it('should leave other lines alone', () => {
+      const code = 'MAIN MODULE Test;\nBEGIN\n  x := 1;\n  |\nEND MODULE.';
+
+      expect(type(code, '\n')).toBe(code.replace('|', ''));
+    });
+  });
+
+  describe('END', () => {
+    it('should outdent END to its opener when the semicolon is typed', () => {
+      const code = `MAIN MODULE Test;
+BEGIN
+  WHILE x > 0 DO
+    DEC(x);
+    END WHILE;|
+END MODULE.`;
+
+      expect(type(code, ';')).toContain('    DEC(x);\n  END WHILE;\n');
+    });
+
+    it('should outdent END and follow it on a new line', () => {
+      const code = `IMPLEMENTATION MODULE Test;
+PROCEDURE Run;
+BEGIN
+  x := 1;
+  END PROCEDURE;
+  |
+END MODULE.`;
+
+      expect(type(code, '\n')).toContain('  x := 1;\nEND PROCEDURE;\n\nEND MODULE.');
+    });
+
+    it('should ignore other semicolons', () => {
+      const code = 'MAIN MODULE Test;\nBEGIN\n      x := 1;|\nEND MODULE.';
+
+      expect(type(code, ';')).toBe(code.replace('|', ''));
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * On-Type Formatting Provider
+ * Indents after block openers, closes new blocks and outdents END lines as the user types
+ */
+
+import { FoldingRange, FormattingOptions, Position, TextEdit } from 'vscode-languageserver/node';
+import { Lexer } from '../language/lexer';
+import { TokenType } from '../language/ast';
+import type { Module, Token } from '../language/ast';
+import { getFoldingRanges } from './foldingRanges';
+import { FormatSettings, DEFAULT_FORMAT_SETTINGS, getIndentUnit } from './formatting';
+
+export const ON_TYPE_FORMATTING_TRIGGER = '\n';
+export const ON_TYPE_FORMATTING_MORE_TRIGGERS = [';'];
+
+/**
+ * Block opened at the end of a line
+ */
+interface OpenedBlock {
+  keyword?: string; // Keyword after END, if the block should be closed automatically
+}
+
+/**
+ * Get the edits for a character typed at a position
+ * On '\n' the position is the start of the new line; on ';' it is just after the ';'.
+ * The AST must be that of the current text, including the typed character.
+ */
+export function getOnTypeFormatting(
+  text: string,
+  ast: Module | undefined,
+  position: Position,
+  ch: string,
+  options: FormattingOptions,
+  settings: FormatSettings = DEFAULT_FORMAT_SETTINGS
+): TextEdit[] {
+  const lines = text.split(/\r?\n/);
+  const ranges = ast ? getFoldingRanges(ast) : [];
+
+  if (ch === ';') {
+    const outdent = outdentEnd(lines, position.line, ranges);
+    return outdent ? [outdent] : [];
+  }
+
+  if (ch !== '\n' || position.line === 0) {
+    return [];
+  }
+
+  const previousLine = position.line - 1;
+
+  // Typing END ... and pressing Enter outdents the END line, and the new line follows it
+  const outdent = outdentEnd(lines, previousLine, ranges);
+  if (outdent) {
+    return [outdent, setIndent(lines, position.line, outdent.newText)];
+  }
+
+  const block = getOpenedBlock(lines[previousLine], previousLine, ast);
+  if (!block) {
+    return [];
+  }
+
+  const indent = getIndent(lines[previousLine]);
+  const edits = [setIndent(lines, position.line, indent + getIndentUnit(options, settings))];
+
+  if (settings.insertEndKeywords && block.keyword && !isClosed(lines, previousLine, block.keyword, ranges)) {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const end = `${indent}END ${block.keyword};`;
+    edits.push(position.line + 1 < lines.length
+      ? TextEdit.insert({ line: position.line + 1, character: 0 }, end + eol)
+      : TextEdit.insert({ line: position.line, character: lines[position.line].length }, eol + end));
+  }
+
+  return edits;
+}
+
+/**
+ * The block opened by a line, if any
+ */
+function getOpenedBlock(lineText: string, line: number, ast: Module | undefined): OpenedBlock | undefined {
+  const tokens = new Lexer(lineText).tokenize().filter(token => token.type !== TokenType.EOF);
+  const first = tokens[0]?.type;
+  const last = tokens[tokens.length - 1]?.type;
+  if (first === undefined || first === TokenType.END) {
+    return undefined;
+  }
+
+  if (last === TokenType.THEN) {
+    return first === TokenType.IF ? { keyword: 'IF' } : {};
+  }
+
+  if (last === TokenType.DO) {
+    switch (first) {
+      case TokenType.WHILE:
+        return { keyword: 'WHILE' };
+      case TokenType.FOR:
+        return { keyword: 'FOR' };
+      case TokenType.FOREACH:
+        return { keyword: 'FOREACH' };
+      default:
+        return {};
+    }
+  }
+
+  if (hasToken(tokens, TokenType.OBJECT)) {
+    return { keyword: 'OBJECT' };
+  }
+
+  // Method headers only have a body in object implementations
+  if (hasToken(tokens, TokenType.METHOD) && last === TokenType.SEMICOLON) {
+    return ast && ast.kind !== 'DEFINITION' && !isInTypeDefinition(ast, line) ? { keyword: 'METHOD' } : undefined;
+  }
+
+  const indentsAfter = [TokenType.BEGIN, TokenType.ELSE, TokenType.LOOP, TokenType.REPEAT, TokenType.OTHERWISE];
+  if (tokens.length === 1 && indentsAfter.includes(first)) {
+    return {};
+  }
+
+  return undefined;
+}
+
+function hasToken(tokens: Token[], type: TokenType): boolean {
+  return tokens.some((token, i) => token.type === type && tokens[i - 1]?.type !== TokenType.END);
+}
+
+/**
+ * Whether a (0-based) line is inside a TYPE definition such as `Foo = OBJECT ... END OBJECT`
+ */
+function isInTypeDefinition(ast: Module, line: number): boolean {
+  return ast.declarations.some(
+    declaration => declaration.type === 'TypeDeclaration'
+      && declaration.start.line - 1 <= line
+      && line <= declaration.end.line - 1
+  );
+}
+
+/**
+ * Whether the block opened on a line already has its END at the same indentation
+ * The matching range may start earlier, e.g. at the TYPE keyword of a type definition.
+ */
+function isClosed(lines: string[], line: number, keyword: string, ranges: FoldingRange[]): boolean {
+  const indent = getIndent(lines[line]);
+  const end = new RegExp(`^\\s*END\\s+${keyword}\\b`);
+
+  return ranges.some(
+    range => range.startLine <= line
+      && range.endLine > line
+      && end.test(lines[range.endLine])
+      && getIndent(lines[range.endLine]) === indent
+  );
+}
+
+/**
+ * Move an END line to the indentation of the line that opened its block
+ */
+function outdentEnd(lines: string[], line: number, ranges: FoldingRange[]): TextEdit | undefined {
+  const match = /^\s*END\s+(\w+)/.exec(lines[line] ?? '');
+  if (!match) {
+    return undefined;
+  }
+
+  // The innermost block ending here that was opened by the same keyword
+  const opener = new RegExp(`\\b${match[1]}\\b`);
+  const block = ranges
+    .filter(range => range.endLine === line && range.startLine < line && opener.test(lines[range.startLine]))
+    .sort((a, b) => b.startLine - a.startLine)[0];
+  if (!block) {
+    return undefined;
+  }
+
+  const indent = getIndent(lines[block.startLine]);
+  return indent === getIndent(lines[line]) ? undefined : setIndent(lines, line, indent);
+}
+
+function getIndent(lineText: string): string {
+  return /^\s*/.exec(lineText)![0];
+}
+
+/**
+ * Replace the leading whitespace of a line
+ */
+function setIndent(lines: string[], line: number, indent: string): TextEdit {
+  return TextEdit.replace(
+    { start: { line, character: 0 }, end: { line, character: getIndent(lines[line] ?? '').length } },
+    indent
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for pull diagnostics
+ */
+
+import { DiagnosticSeverity, DocumentDiagnosticReportKind } from 'vscode-languageserver/node';
+import {
+  toLspDiagnostics,
+  getResultId,
+  getDocumentDiagnosticReport,
+  getWorkspaceDiagnosticReport,
+  OpenDocumentDiagnostics,
+} from './pullDiagnostics';
+import { useWorkspace } from '../../test/helpers/workspace';
+
+describe('Pull Diagnostics', () => {
+  const workspace = useWorkspace({
+    'file:///queue.mod': `DEFINITION MODULE Queue;
+TYPE QueueObj = OBJECT
+  ASK METHOD Size() : INTEGER;
+END OBJECT;
+END MODULE.`,
+    'file:///app.mod': `MAIN MODULE App;
+FROM Queue IMPORT QueueObj, StackObj;
+VAR q : QueueObj;
+END MODULE.`,
+  });
+
+  const messagesOf = (uri: string) => toLspDiagnostics(workspace.manager.getDiagnostics(uri)).map(d => d.message);
+
+  it('should convert diagnostics to 0-based LSP diagnostics', () => {
+    const [diagnostic] = toLspDiagnostics(workspace.manager.getDiagnostics('file:///app.mod'));
+
+    expect(diagnostic.severity).toBe(DiagnosticSeverity.Error);
+    expect(diagnostic.range.start.line).toBe(1);
+    expect(diagnostic.source).toBe('modsim-lsp');
+  });
+
+  it('should resolve imports across the workspace, reporting only broken ones', () => {
+    expect(messagesOf('file:///app.mod')).toEqual(["Symbol 'StackObj' not found in module 'Queue'"]);
+    expect(messagesOf('file:///queue.mod')).toEqual([]);
+  });
+
+  it('should report a document unchanged when the client has its result ID', () => {
+    const diagnostics = toLspDiagnostics(workspace.manager.getDiagnostics('file:///app.mod'));
+    const first = getDocumentDiagnosticReport(diagnostics);
+    expect(first.kind).toBe(DocumentDiagnosticReportKind.Full);
+
+    const second = getDocumentDiagnosticReport(diagnostics, first.resultId);
+    expect(second).toEqual({ kind: DocumentDiagnosticReportKind.Unchanged, resultId: first.resultId });
+    expect(getResultId([])).not.toBe(first.resultId);
+  });
+
+  it('should report every workspace document, with open ones at their version', () => {
+    const openDocuments = new Map<string, OpenDocumentDiagnostics>([['file:///queue.mod', { version: 7, diagnostics: [] }]]);
+    const report = getWorkspaceDiagnosticReport(workspace.manager, openDocuments, []);
+
+    expect(report.items.map(item => [item.uri, item.version, item.kind])).toEqual([
+      ['file:///queue.mod', 7, 'full'],
+      ['file:///app.mod', null, 'full'],
+    ]);
+  });
+
+  it('should only send the diagnostics of files whose result ID changed', async () => {
+    const first = getWorkspaceDiagnosticReport(workspace.manager, new Map(), []);
+    const previousResultIds = first.items.map(item => ({ uri: item.uri, value: item.resultId! }));
+
+    await workspace.manager.updateDocument('file:///queue.mod', `DEFINITION MODULE Queue;
+TYPE QueueObj = OBJECT
+  ASK METHOD Size() : INTEGER;
+END OBJECT;
+TYPE StackObj = OBJECT
+END OBJECT;
+END MODULE.`, 2);
+    const second = getWorkspaceDiagnosticReport(workspace.manager, new Map(), previousResultIds);
+
+    expect(second.items.map(item => [item.uri, item.kind])).toEqual([
+      ['file:///queue.mod', 'unchanged'],
+      ['file:///app.mod', 'full'],
+    ]);
+  });
+
+  it('should return no items once cancelled', () => {
+    const token = { isCancellationRequested: true, onCancellationRequested: jest.fn() };
+    expect(getWorkspaceDiagnosticReport(workspace.manager, new Map(), [], token).items).toEqual([]);
+  });
+});
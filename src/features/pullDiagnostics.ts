@@ -0,0 +1,114 @@
+/**
+ * Pull Diagnostics Provider
+ * Document and workspace diagnostic reports, with result IDs so the client
+ * is only sent the diagnostics of files that changed
+ */
+
+import { createHash } from 'crypto';
+import {
+  CancellationToken,
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticTag,
+  DocumentDiagnosticReport,
+  DocumentDiagnosticReportKind,
+  PreviousResultId,
+  WorkspaceDiagnosticReport,
+  WorkspaceDocumentDiagnosticReport,
+} from 'vscode-languageserver/node';
+
+import { DiagnosticTag as ModsimDiagnosticTag } from '../language/diagnostics';
+import type { Diagnostic as ModsimDiagnostic } from '../language/diagnostics';
+import type { WorkspaceManager } from '../utils/workspace';
+
+/**
+ * Diagnostics of an open document, with the version they were computed for
+ */
+export interface OpenDocumentDiagnostics {
+  version: number;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Convert diagnostics to LSP format
+ */
+export function toLspDiagnostics(diagnostics: ModsimDiagnostic[]): Diagnostic[] {
+  return diagnostics.map((d) => ({
+    severity: toLspSeverity(d.severity),
+    range: {
+      start: { line: d.start.line - 1, character: d.start.column - 1 }, // LSP is 0-based
+      end: { line: d.end.line - 1, character: d.end.column - 1 },
+    },
+    message: d.message,
+    code: d.code,
+    source: 'modsim-lsp',
+    tags: d.tags?.map(toLspTag),
+    data: d.data,
+  }));
+}
+
+/**
+ * Result ID of a set of diagnostics: equal diagnostics always get the same ID
+ */
+export function getResultId(diagnostics: Diagnostic[]): string {
+  return createHash('sha1').update(JSON.stringify(diagnostics)).digest('hex');
+}
+
+/**
+ * Get the diagnostic report of a document, unchanged if the client already has its diagnostics
+ */
+export function getDocumentDiagnosticReport(
+  diagnostics: Diagnostic[],
+  previousResultId?: string
+): DocumentDiagnosticReport {
+  const resultId = getResultId(diagnostics);
+  if (resultId === previousResultId) {
+    return { kind: DocumentDiagnosticReportKind.Unchanged, resultId };
+  }
+  return { kind: DocumentDiagnosticReportKind.Full, resultId, items: diagnostics };
+}
+
+/**
+ * Get the diagnostic report of every document in the workspace
+ * Open documents report the diagnostics of their editor contents, closed ones those of the file on disk.
+ */
+export function getWorkspaceDiagnosticReport(
+  workspaceManager: WorkspaceManager,
+  openDocuments: Map<string, OpenDocumentDiagnostics>,
+  previousResultIds: PreviousResultId[],
+  token?: CancellationToken
+): WorkspaceDiagnosticReport {
+  const previous = new Map(previousResultIds.map(({ uri, value }) => [uri, value]));
+  const uris = new Set([...workspaceManager.getAllDocuments().map((doc) => doc.uri), ...openDocuments.keys()]);
+
+  const items: WorkspaceDocumentDiagnosticReport[] = [];
+  for (const uri of uris) {
+    if (token?.isCancellationRequested) {
+      return { items: [] };
+    }
+
+    const open = openDocuments.get(uri);
+    const version = open ? open.version : null;
+    const diagnostics = open ? open.diagnostics : toLspDiagnostics(workspaceManager.getDiagnostics(uri));
+    items.push({ uri, version, ...getDocumentDiagnosticReport(diagnostics, previous.get(uri)) });
+  }
+
+  return { items };
+}
+
+function toLspSeverity(severity: ModsimDiagnostic['severity']): DiagnosticSeverity {
+  switch (severity) {
+    case 'Error':
+      return DiagnosticSeverity.Error;
+    case 'Warning':
+      return DiagnosticSeverity.Warning;
+    case 'Information':
+      return DiagnosticSeverity.Information;
+    default:
+      return DiagnosticSeverity.Hint;
+  }
+}
+
+function toLspTag(tag: ModsimDiagnosticTag): DiagnosticTag {
+  return tag === ModsimDiagnosticTag.Unnecessary ? DiagnosticTag.Unnecessary : DiagnosticTag.Deprecated;
+}
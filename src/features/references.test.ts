@@ -7,7 +7,8 @@ import { Lexer } from '../language/lexer';
 import { Parser } from '../language/parser';
 import { SemanticAnalyzer } from '../language/analyzer';
 import type { Module } from '../language/ast';
-import { Location } from 'vscode-languageserver/node';
+import { Location, CancellationTokenSource } from 'vscode-languageserver/node';
+import { WorkspaceManager } from '../utils/workspace';
 
 describe('References', () => {
   const testUri = 'file:///test.mod';
@@ -313,6 +314,136 @@ END MODULE;
     });
   });
 
+  describe('Cancellation', () => {
+    const code = `
+IMPLEMENTATION MODULE Test;
+
+VAR globalCount: INTEGER;
+
+PROCEDURE Increment;
+BEGIN
+  globalCount := globalCount + 1;
+END PROCEDURE;
+
+END MODULE;
+    `;
+
+    async function createWorkspace(): Promise<WorkspaceManager> {
+      const workspaceManager = new WorkspaceManager();
+      await workspaceManager.updateDocument(testUri, code.trim(), 1);
+      await workspaceManager.updateDocument('file:///other.mod', `
+IMPLEMENTATION MODULE Other;
+FROM Test IMPORT globalCount;
+PROCEDURE Reset;
+BEGIN
+  globalCount := 0;
+END PROCEDURE;
+END MODULE;
+      `.trim(), 1);
+      return workspaceManager;
+    }
+
+    it('should search other workspace documents when not cancelled', async () => {
+      const { ast, analyzer } = parseAndAnalyze(code);
+      const workspaceManager = await createWorkspace();
+      const source = new CancellationTokenSource();
+
+      const references = findReferences(ast, analyzer.getSymbolTable(), 2, 4, testUri, false, workspaceManager, source.token);
+
+      expect(references.some(ref => ref.uri === 'file:///other.mod')).toBe(true);
+    });
+
+    it('should return no references once the request is cancelled', async () => {
+      const { ast, analyzer } = parseAndAnalyze(code);
+      const workspaceManager = await createWorkspace();
+      const source = new CancellationTokenSource();
+      source.cancel();
+
+      const references = findReferences(ast, analyzer.getSymbolTable(), 2, 4, testUri, false, workspaceManager, source.token);
+
+      expect(references).toEqual([]);
+    });
+  });
+
+  describe('Scope Resolution', () => {
+    const shopUri = 'file:///shop.mod';
+    const shop = `MAIN MODULE Shop;
+TYPE
+  Point = RECORD
+    x : INTEGER;
+    count : INTEGER;
+  END RECORD;
+  Counter = OBJECT
+    count : INTEGER;
+    ASK METHOD Bump(IN count : INTEGER);
+    ASK METHOD Get() : INTEGER;
+  END OBJECT;
+  Tally = OBJECT
+    count : INTEGER;
+    ASK METHOD Reset;
+  END OBJECT;
+VAR count : INTEGER;
+VAR p : Point;
+VAR c : Counter;
+OBJECT Counter;
+  ASK METHOD Bump(IN count : INTEGER);
+  BEGIN
+    SELF.count := SELF.count + count;
+  END METHOD;
+  ASK METHOD Get() : INTEGER;
+  BEGIN
+    RETURN count;
+  END METHOD;
+END OBJECT;
+OBJECT Tally;
+  ASK METHOD Reset;
+  VAR count : INTEGER;
+  BEGIN
+    count := 0;
+  END METHOD;
+END OBJECT;
+BEGIN
+  count := c.count;
+  WITH p DO
+    count := x;
+  END WITH;
+END MODULE.`;
+
+    let workspaceManager: WorkspaceManager;
+
+    beforeEach(async () => {
+      workspaceManager = new WorkspaceManager();
+      await workspaceManager.updateDocument(shopUri, shop, 1);
+    });
+
+    function referencesAt(line: number, character: number): number[][] {
+      const doc = workspaceManager.getDocument(shopUri)!;
+      return findReferences(doc.ast!, doc.symbolTable!, line, character, shopUri, true, workspaceManager)
+        .map(ref => [ref.range.start.line, ref.range.start.character]);
+    }
+
+    it('should bind SELF and unqualified members to the field of their object', () => {
+      // On count in "count : INTEGER;" of Counter
+      expect(referencesAt(7, 4)).toEqual([[7, 4], [21, 9], [21, 23], [25, 11], [36, 13]]);
+    });
+
+    it('should keep a parameter apart from the field it shadows', () => {
+      // On count in "SELF.count + count"
+      expect(referencesAt(21, 31)).toEqual([[19, 21], [21, 31]]);
+    });
+
+    it('should keep a method local apart from the field of its object', () => {
+      expect(referencesAt(32, 4)).toEqual([[30, 6], [32, 4]]);
+      expect(referencesAt(12, 4)).toEqual([[12, 4]]);
+    });
+
+    it('should bind names in a WITH statement to the fields of its record', () => {
+      // On count in "count := x;" within WITH p
+      expect(referencesAt(38, 4)).toEqual([[4, 4], [38, 4]]);
+      expect(referencesAt(15, 4)).toEqual([[15, 4], [36, 2]]);
+    });
+  });
+
   describe('Group References By File', () => {
     it('should group references by URI', () => {
       const locations: Location[] = [
@@ -2,12 +2,13 @@
  * Unit tests for rename provider
  */
 
-import { ResponseError } from 'vscode-languageserver/node';
+import { ResponseError, TextDocumentEdit, RenameFile } from 'vscode-languageserver/node';
 import { Lexer } from '../language/lexer';
 import { Parser } from '../language/parser';
 import { SemanticAnalyzer } from '../language/analyzer';
 import { prepareRename, getRename } from './rename';
 import { WorkspaceManager } from '../utils/workspace';
+import { useWorkspace } from '../../test/helpers/workspace';
 
 function parseAndAnalyze(code: string) {
   const lexer = new Lexer(code);
@@ -39,7 +40,7 @@ END MODULE;
       const symbolTable = analyzer.getSymbolTable();
 
       // Position on "count" in the assignment (line 4, char 2)
-      const result = prepareRename(ast, symbolTable, 4, 2);
+      const result = prepareRename(ast, symbolTable, 4, 2, documentUri);
 
       expect(result).not.toBeNull();
       if (result && 'placeholder' in result) {
@@ -69,7 +70,7 @@ END MODULE;
       const symbolTable = analyzer.getSymbolTable();
 
       // Position on "Calculate" in the call (line 9, char 12)
-      const result = prepareRename(ast, symbolTable, 9, 12);
+      const result = prepareRename(ast, symbolTable, 9, 12, documentUri);
 
       expect(result).not.toBeNull();
       if (result && 'placeholder' in result) {
@@ -91,7 +92,7 @@ END MODULE;
       const symbolTable = analyzer.getSymbolTable();
 
       // Position on "a" in the return statement (line 3, char 9)
-      const result = prepareRename(ast, symbolTable, 3, 9);
+      const result = prepareRename(ast, symbolTable, 3, 9, documentUri);
 
       expect(result).not.toBeNull();
       if (result && 'placeholder' in result) {
@@ -113,7 +114,7 @@ END MODULE;
       const symbolTable = analyzer.getSymbolTable();
 
       // Position on "INTEGER" (line 2, char 7)
-      const result = prepareRename(ast, symbolTable, 2, 7);
+      const result = prepareRename(ast, symbolTable, 2, 7, documentUri);
 
       expect(result).toBeNull();
     });
@@ -131,7 +132,7 @@ END MODULE;
       const symbolTable = analyzer.getSymbolTable();
 
       // Position on "BEGIN" keyword (line 2, char 0)
-      const result = prepareRename(ast, symbolTable, 2, 0);
+      const result = prepareRename(ast, symbolTable, 2, 0, documentUri);
 
       expect(result).toBeNull();
     });
@@ -457,6 +458,30 @@ END MODULE;
       }).toThrow(ResponseError);
     });
 
+    it('should allow a name declared only in another routine', () => {
+      const code = `
+IMPLEMENTATION MODULE Test;
+PROCEDURE Main();
+VAR x: INTEGER;
+BEGIN
+  x := 1;
+END PROCEDURE;
+
+PROCEDURE Other();
+VAR y: INTEGER;
+BEGIN
+END PROCEDURE;
+END MODULE;
+      `.trim();
+
+      const { ast, analyzer } = parseAndAnalyze(code);
+
+      // Rename x to y, which only Other declares
+      const edit = getRename(ast, analyzer.getSymbolTable(), 4, 2, 'y', documentUri, workspaceManager);
+
+      expect(edit?.changes![documentUri]).toHaveLength(2);
+    });
+
     it('should reject rename of built-in type', () => {
       const code = `
 IMPLEMENTATION MODULE Test;
@@ -641,10 +666,8 @@ END MODULE;
       expect(edit?.changes![documentUri]).toBeDefined();
 
       const edits = edit?.changes![documentUri];
-      // NOTE: Current implementation renames ALL identifiers with the same name,
-      // not just those in the same scope. This is a known limitation.
-      // It should be 2 (declaration + usage in Outer), but it's 3 (includes Inner's x)
-      expect(edits?.length).toBe(3);
+      // Declaration + usage in Outer, not Inner's x
+      expect(edits?.map(e => e.range.start.line)).toEqual([2, 4]);
     });
 
     it('should handle multiple procedures with same parameter name', () => {
@@ -680,10 +703,153 @@ END MODULE;
       expect(edit?.changes![documentUri]).toBeDefined();
 
       const edits = edit?.changes![documentUri];
-      // NOTE: Current implementation renames ALL identifiers with the same name,
-      // not just those in the same scope. This is a known limitation.
-      // It should be 2 (parameter + usage in ProcOne), but it's 3 (includes ProcTwo's value)
-      expect(edits?.length).toBe(3);
+      // Parameter + usage in ProcOne, not ProcTwo's
+      expect(edits?.map(e => e.range.start.line)).toEqual([1, 3]);
+    });
+
+    it('should rename a field without touching same-named fields, locals and globals', () => {
+      const code = `
+MAIN MODULE Test;
+TYPE
+  Counter = OBJECT
+    count : INTEGER;
+  END OBJECT;
+  Tally = OBJECT
+    count : INTEGER;
+  END OBJECT;
+VAR count : INTEGER;
+VAR c : Counter;
+VAR t : Tally;
+OBJECT Counter;
+  ASK METHOD Reset;
+  VAR total : INTEGER;
+  BEGIN
+    count := total;
+  END METHOD;
+END OBJECT;
+BEGIN
+  count := c.count + t.count;
+END MODULE.
+      `.trim();
+
+      const { ast, analyzer } = parseAndAnalyze(code);
+      const symbolTable = analyzer.getSymbolTable();
+
+      // On count in "c.count"
+      const edit = getRename(ast, symbolTable, 19, 13, 'hits', documentUri, workspaceManager);
+
+      const edits = edit?.changes![documentUri];
+      expect(edits?.map(e => [e.range.start.line, e.range.start.character])).toEqual([[3, 4], [15, 4], [19, 13]]);
+    });
+  });
+
+  describe('Workspace Rename', () => {
+    const workspace = useWorkspace({
+      'file:///queue.mod': `DEFINITION MODULE Queue;
+TYPE
+  Color = (Red, Green);
+  QueueObj = OBJECT
+    size : INTEGER;
+    ASK METHOD Size() : INTEGER;
+  END OBJECT;
+END MODULE.`,
+      'file:///iqueue.mod': `IMPLEMENTATION MODULE Queue;
+OBJECT QueueObj;
+  ASK METHOD Size() : INTEGER;
+  BEGIN
+    RETURN size;
+  END METHOD;
+END OBJECT;
+END MODULE.`,
+      'file:///app.mod': `MAIN MODULE App;
+FROM Queue IMPORT QueueObj, Color;
+VAR q : QueueObj;
+VAR c : Color;
+BEGIN
+  c := Red;
+  c := Queue.Green;
+END MODULE.`,
+    });
+
+    function renameAt(
+      uri: string,
+      line: number,
+      character: number,
+      newName: string,
+      renameFiles = false,
+      getOpenVersion?: (uri: string) => number | undefined
+    ) {
+      const { ast, symbolTable } = workspace.document(uri);
+      return getRename(ast, symbolTable, line, character, newName, uri, workspace.manager, { renameFiles, getOpenVersion });
+    }
+
+    const editedLines = (edit: ReturnType<typeof getRename>) => Object.fromEntries(
+      Object.entries(edit!.changes!).map(([uri, edits]) => [uri, edits.map(e => e.range.start.line)])
+    );
+
+    it('should rename a module in both headers, import clauses and qualified references', () => {
+      // On Queue in "FROM Queue IMPORT"
+      const edit = renameAt('file:///app.mod', 1, 6, 'Fifo');
+
+      expect(editedLines(edit)).toEqual({
+        'file:///queue.mod': [0],
+        'file:///iqueue.mod': [0],
+        'file:///app.mod': [1, 6],
+      });
+    });
+
+    it('should rename the files of a module when the client supports it', () => {
+      // On Queue in "IMPLEMENTATION MODULE Queue;", with only that document open in the client
+      const openVersions = new Map([['file:///iqueue.mod', 7]]);
+      const edit = renameAt('file:///iqueue.mod', 0, 22, 'Fifo', true, uri => openVersions.get(uri));
+      const changes = edit!.documentChanges!;
+
+      // Documents that aren't open are edited unversioned, as the client reads them from disk
+      const textEdits = changes.filter(TextDocumentEdit.is);
+      expect(textEdits.map(e => [e.textDocument.uri, e.textDocument.version])).toEqual([
+        ['file:///queue.mod', null],
+        ['file:///iqueue.mod', 7],
+        ['file:///app.mod', null],
+      ]);
+      expect(textEdits.every(e => e.edits.every(textEdit => (textEdit as { newText: string }).newText === 'Fifo'))).toBe(true);
+
+      // File renames come after the text edits that refer to the old names
+      expect(changes.slice(textEdits.length)).toEqual([
+        RenameFile.create('file:///queue.mod', 'file:///fifo.mod'),
+        RenameFile.create('file:///iqueue.mod', 'file:///ififo.mod'),
+      ]);
+    });
+
+    it('should reject renaming a module to an existing module name', () => {
+      expect(() => renameAt('file:///app.mod', 1, 6, 'App')).toThrow(ResponseError);
+    });
+
+    it('should rename an object type across its declaration, implementation and imports', () => {
+      // On QueueObj in "VAR q : QueueObj;"
+      expect(editedLines(renameAt('file:///app.mod', 2, 10, 'FifoObj'))).toEqual({
+        'file:///queue.mod': [3],
+        'file:///iqueue.mod': [1],
+        'file:///app.mod': [1, 2],
+      });
+    });
+
+    it('should rename enum values and fields', () => {
+      // On Red in "c := Red;"
+      expect(editedLines(renameAt('file:///app.mod', 5, 7, 'Crimson'))).toEqual({
+        'file:///queue.mod': [2],
+        'file:///app.mod': [5],
+      });
+
+      // On size in "size : INTEGER;"
+      const edit = renameAt('file:///queue.mod', 4, 4, 'count');
+      expect(editedLines(edit)).toEqual({
+        'file:///queue.mod': [4],
+        'file:///iqueue.mod': [4],
+      });
+      expect(edit!.changes!['file:///queue.mod'][0].range).toEqual({
+        start: { line: 4, character: 4 },
+        end: { line: 4, character: 8 },
+      });
     });
   });
 });
@@ -1,22 +1,41 @@
 /**
  * Rename Provider
- * Provides symbol renaming with validation and cross-file support
+ * Provides symbol and module renaming with validation and cross-file support
  */
 
 import {
   WorkspaceEdit,
   TextEdit,
+  TextDocumentEdit,
+  RenameFile,
   Range,
   ResponseError,
   ErrorCodes,
 } from 'vscode-languageserver/node';
 
 import type { Module } from '../language/ast';
-import { SymbolTable } from '../language/symbols';
-import { findNodeAtPosition } from '../utils/astPosition';
-import { findReferences } from './references';
+import { SymbolTable, Scope } from '../language/symbols';
 import { WorkspaceManager } from '../utils/workspace';
-import { extractSymbolInfo } from '../utils/symbolExtraction';
+import { ModuleContext, getWorkspaceContexts } from '../utils/declarations';
+import { NameOccurrence, collectNameOccurrences, findOccurrenceAt } from '../utils/nameOccurrences';
+import { Binding, bindOccurrence, findBoundOccurrences } from '../utils/symbolBinding';
+
+/**
+ * Options for a rename
+ */
+export interface RenameOptions {
+  renameFiles?: boolean; // The client accepts file renames in workspace edits
+  getOpenVersion?: (uri: string) => number | undefined; // Version of a document open in the client
+}
+
+/**
+ * The name occurrences of a workspace module
+ */
+interface DocumentOccurrences {
+  uri: string;
+  moduleName: string;
+  occurrences: NameOccurrence[];
+}
 
 /**
  * Prepare rename - check if rename is valid at this position
@@ -25,35 +44,25 @@ export function prepareRename(
   ast: Module,
   symbolTable: SymbolTable,
   line: number,
-  character: number
+  character: number,
+  documentUri: string,
+  workspaceManager?: WorkspaceManager
 ): Range | { range: Range; placeholder: string } | null {
-  const node = findNodeAtPosition(ast, { line, character });
-  if (!node) {
-    return null;
-  }
-
-  // Extract symbol name and range based on node type
-  const symbolInfo = extractSymbolInfo(node, line, character);
-  if (!symbolInfo) {
+  const occurrences = collectNameOccurrences(ast);
+  const occurrence = findOccurrenceAt(occurrences, line, character);
+  if (!occurrence) {
     return null;
   }
 
-  const { name, range } = symbolInfo;
-
-  // Look up the symbol to verify it exists
-  // Note: Methods may not be in the symbol table, but we can verify from the AST node
-  const allSymbols = symbolTable.getAllSymbols();
-  const symbol = allSymbols.find(s => s.name === name);
+  const { name, range } = occurrence;
 
-  // For methods, skip symbol table check since they might not be tracked
-  const isMethod = node.type === 'MethodDeclaration';
-
-  if (!symbol && !isMethod) {
+  // Don't allow renaming built-in types
+  if (isBuiltInType(name)) {
     return null;
   }
 
-  // Don't allow renaming built-in types
-  if (isBuiltInType(name)) {
+  // Only names bound to a declaration can be renamed
+  if (occurrence.site.kind !== 'module' && !bindOccurrence({ uri: documentUri, ast, symbolTable }, occurrence, workspaceManager)) {
     return null;
   }
 
@@ -65,6 +74,8 @@ export function prepareRename(
 
 /**
  * Perform rename
+ * Every occurrence across the workspace bound to the same declaration is renamed. Renaming a
+ * module also renames the files of both its halves when the client supports file renames.
  */
 export function getRename(
   ast: Module,
@@ -73,31 +84,29 @@ export function getRename(
   character: number,
   newName: string,
   documentUri: string,
-  workspaceManager: WorkspaceManager
+  workspaceManager: WorkspaceManager,
+  options: RenameOptions = {}
 ): WorkspaceEdit | null {
-  const node = findNodeAtPosition(ast, { line, character });
-  if (!node) {
+  const occurrences = collectNameOccurrences(ast);
+  const occurrence = findOccurrenceAt(occurrences, line, character);
+  if (!occurrence) {
     throw new ResponseError(
       ErrorCodes.InvalidParams,
       'Cannot rename at this position'
     );
   }
 
-  // Extract symbol name from node
-  const symbolInfo = extractSymbolInfo(node, line, character);
-  if (!symbolInfo) {
-    throw new ResponseError(
-      ErrorCodes.InvalidParams,
-      'Cannot rename at this position'
-    );
-  }
+  const oldName = occurrence.name;
+  const current: ModuleContext = { uri: documentUri, ast, symbolTable };
 
-  const oldName = symbolInfo.name;
+  if (occurrence.site.kind === 'module') {
+    const documents = getDocumentOccurrences(current, occurrences, workspaceManager);
+    return getModuleRename(oldName, newName, documents, workspaceManager, options);
+  }
 
-  // Validate new name
-  const validationError = validateNewName(newName, oldName, symbolTable);
-  if (validationError) {
-    throw new ResponseError(ErrorCodes.InvalidParams, validationError);
+  const identifierError = validateIdentifier(newName, oldName);
+  if (identifierError) {
+    throw new ResponseError(ErrorCodes.InvalidParams, identifierError);
   }
 
   // Don't allow renaming built-in types
@@ -108,61 +117,151 @@ export function getRename(
     );
   }
 
-  // Look up the symbol to verify it exists
-  // Note: Methods may not be in the symbol table, but we can verify from the AST node
-  const allSymbols = symbolTable.getAllSymbols();
-  const symbol = allSymbols.find(s => s.name === oldName);
-
-  // For methods, skip symbol table check since they might not be tracked
-  const isMethod = node.type === 'MethodDeclaration';
-
-  if (!symbol && !isMethod) {
+  const binding = bindOccurrence(current, occurrence, workspaceManager);
+  if (!binding) {
     throw new ResponseError(
       ErrorCodes.InvalidParams,
       `Symbol '${oldName}' not found`
     );
   }
 
-  // Find all references to this symbol
-  const references = findReferences(
-    ast,
-    symbolTable,
-    line,
-    character,
-    documentUri,
-    true, // includeDeclaration
-    workspaceManager
-  );
+  const conflictError = validateNoConflict(newName, oldName, binding);
+  if (conflictError) {
+    throw new ResponseError(ErrorCodes.InvalidParams, conflictError);
+  }
 
-  if (!references || references.length === 0) {
-    return null;
+  const found = findBoundOccurrences(current, binding, workspaceManager, undefined, occurrences);
+  return { changes: groupEdits(found.map(({ context, occurrence: o }) => ({ uri: context.uri, range: o.range })), newName) };
+}
+
+/**
+ * Rename a module in its headers, import clauses and qualified references,
+ * followed by the files of its DEFINITION and IMPLEMENTATION halves
+ */
+function getModuleRename(
+  oldName: string,
+  newName: string,
+  documents: DocumentOccurrences[],
+  workspaceManager: WorkspaceManager,
+  options: RenameOptions
+): WorkspaceEdit {
+  const validationError = validateNewModuleName(newName, oldName, workspaceManager);
+  if (validationError) {
+    throw new ResponseError(ErrorCodes.InvalidParams, validationError);
   }
 
-  // Group edits by document URI
-  const changes: { [uri: string]: TextEdit[] } = {};
+  const changes = groupEdits(documents.flatMap(({ uri, occurrences }) => occurrences
+    .filter(o => o.site.kind === 'module' && o.name === oldName)
+    .map(o => ({ uri, range: o.range }))
+  ), newName);
+  if (!options.renameFiles) {
+    return { changes };
+  }
 
-  for (const ref of references) {
-    if (!changes[ref.uri]) {
-      changes[ref.uri] = [];
+  // Text edits refer to the old file names, so they come before the file renames. Only
+  // documents open in the client have a version; files indexed from disk are edited as they are.
+  const documentChanges: Array<TextDocumentEdit | RenameFile> = Object.entries(changes).map(([uri, edits]) =>
+    TextDocumentEdit.create({ uri, version: options.getOpenVersion?.(uri) ?? null }, edits)
+  );
+  for (const { uri, moduleName } of documents) {
+    const newUri = moduleName === oldName ? renameModuleUri(uri, oldName, newName) : undefined;
+    if (newUri && newUri !== uri) {
+      documentChanges.push(RenameFile.create(uri, newUri));
     }
+  }
+
+  return { documentChanges };
+}
+
+/**
+ * Get the name occurrences of every workspace module, with the current document's own
+ */
+function getDocumentOccurrences(
+  current: ModuleContext,
+  currentOccurrences: NameOccurrence[],
+  workspaceManager: WorkspaceManager | undefined
+): DocumentOccurrences[] {
+  return getWorkspaceContexts(workspaceManager, current).map(context => ({
+    uri: context.uri,
+    moduleName: context.ast.name,
+    occurrences: context === current ? currentOccurrences : collectNameOccurrences(context.ast),
+  }));
+}
+
+/**
+ * Replace the name at each location, grouped by document URI
+ */
+function groupEdits(locations: Array<{ uri: string; range: Range }>, newName: string): { [uri: string]: TextEdit[] } {
+  const changes: { [uri: string]: TextEdit[] } = {};
+
+  for (const { uri, range } of locations) {
+    changes[uri] = [...(changes[uri] ?? []), TextEdit.replace(range, newName)];
+  }
+
+  return changes;
+}
+
+/**
+ * Rename the module name within a file name, keeping it lowercase if it is written in lowercase
+ * Files whose name doesn't contain the module name keep their name.
+ */
+function renameModuleUri(uri: string, oldName: string, newName: string): string | undefined {
+  const nameStart = uri.lastIndexOf('/') + 1;
+  const fileName = uri.slice(nameStart);
+  const index = fileName.toLowerCase().indexOf(oldName.toLowerCase());
+  if (index < 0) {
+    return undefined;
+  }
+
+  const written = fileName.slice(index, index + oldName.length);
+  const replacement = written !== oldName && written === written.toLowerCase() ? newName.toLowerCase() : newName;
+  return uri.slice(0, nameStart) + fileName.slice(0, index) + replacement + fileName.slice(index + oldName.length);
+}
+
+/**
+ * Check that the new name isn't visible where the renamed symbol is declared
+ * The scope chain is followed from the scope declaring the symbol, so names declared in
+ * other routines don't conflict.
+ */
+function validateNoConflict(newName: string, oldName: string, binding: Binding): string | null {
+  const { symbolTable } = binding.context;
+  const innermost = symbolTable.findScopeAt(binding.node.start);
+  let declaring: Scope | undefined = innermost;
+  while (declaring && !declaring.lookupLocal(oldName)) {
+    declaring = declaring.parent;
+  }
 
-    changes[ref.uri].push({
-      range: ref.range,
-      newText: newName
-    });
+  if ((declaring ?? innermost).lookup(newName)) {
+    return `A symbol named '${newName}' already exists`;
   }
 
-  return { changes };
+  return null;
 }
 
 /**
- * Validate new name
+ * Validate new module name
  */
-function validateNewName(
+function validateNewModuleName(
   newName: string,
   oldName: string,
-  symbolTable: SymbolTable
+  workspaceManager: WorkspaceManager
 ): string | null {
+  const identifierError = validateIdentifier(newName, oldName);
+  if (identifierError) {
+    return identifierError;
+  }
+
+  if (workspaceManager.resolveModule(newName)) {
+    return `A module named '${newName}' already exists`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate that a new name is a usable identifier
+ */
+function validateIdentifier(newName: string, oldName: string): string | null {
   // Check if new name is the same as old name
   if (newName === oldName) {
     return 'New name is the same as the old name';
@@ -188,16 +287,6 @@ function validateNewName(
     return `'${newName}' is a built-in type and cannot be used as an identifier`;
   }
 
-  // Check for naming conflicts in current scope
-  // Note: This is a simplified check. A full implementation would check
-  // if the new name conflicts with any symbol in the same scope.
-  const allSymbols = symbolTable.getAllSymbols();
-  const conflict = allSymbols.find(s => s.name === newName);
-
-  if (conflict) {
-    return `A symbol named '${newName}' already exists`;
-  }
-
   return null;
 }
 
@@ -6,6 +6,7 @@ import { getSignatureHelp } from './signatureHelp';
 import { Lexer } from '../language/lexer';
 import { Parser } from '../language/parser';
 import { SemanticAnalyzer } from '../language/analyzer';
+import { DocComments } from '../language/docComments';
 import type { Module } from '../language/ast';
 
 describe('Signature Help', () => {
@@ -337,6 +338,36 @@ END MODULE;
         expect(tellHelp.signatures[0].label).toContain('TELL METHOD');
       }
     });
+
+    it('should find methods inherited by the object a field holds', () => {
+      const code = `
+MAIN MODULE Test;
+TYPE
+  PartObj = OBJECT
+    TELL METHOD Repair(IN hours : REAL);
+  END OBJECT;
+  PumpObj = OBJECT(PartObj)
+  END OBJECT;
+  Plant = RECORD
+    pump : PumpObj;
+  END RECORD;
+PROCEDURE Main();
+VAR plant : Plant;
+BEGIN
+  TELL plant.pump TO Repair(2.0);
+END PROCEDURE;
+END MODULE.
+      `;
+
+      const { ast, analyzer } = parseAndAnalyze(code);
+
+      // On 2.0 in "TELL plant.pump TO Repair(2.0);" - line 14 (1-based) = line 13 (0-based)
+      const help = getSignatureHelp(ast, analyzer.getSymbolTable(), 13, 28);
+
+      expect(help).not.toBeNull();
+      expect(help!.signatures[0].label).toContain('TELL METHOD Repair');
+      expect(help!.activeParameter).toBe(0);
+    });
   });
 
   describe('Parameter Modes', () => {
@@ -615,6 +646,76 @@ END MODULE;
     });
   });
 
+  describe('Doc Comments', () => {
+    function parseWithDocs(code: string): { ast: Module; analyzer: SemanticAnalyzer } {
+      const text = code.trim();
+      const ast = new Parser(new Lexer(text).tokenize()).parse();
+      const analyzer = new SemanticAnalyzer();
+      analyzer.setDocComments(new DocComments(text));
+      analyzer.analyze(ast);
+      return { ast, analyzer };
+    }
+
+    function markdown(doc: unknown): string {
+      return (doc as { value: string }).value;
+    }
+
+    it('should show procedure and parameter doc comments', () => {
+      const code = `
+IMPLEMENTATION MODULE Test;
+{ Scales a value }
+PROCEDURE Scale(IN value: REAL; { Value to scale }
+                IN factor: REAL): REAL;
+BEGIN
+  RETURN value * factor;
+END PROCEDURE;
+
+PROCEDURE Main();
+BEGIN
+  Scale(3.14, 2.0);
+END PROCEDURE;
+END MODULE;
+      `;
+
+      const { ast, analyzer } = parseWithDocs(code);
+      const help = getSignatureHelp(ast, analyzer.getSymbolTable(), 10, 9);
+
+      expect(help).not.toBeNull();
+      const signature = help!.signatures[0];
+      expect(markdown(signature.documentation)).toContain('Scales a value');
+      expect(markdown(signature.parameters![0].documentation)).toContain('Value to scale');
+      expect(markdown(signature.parameters![1].documentation)).not.toContain('Value to scale');
+    });
+
+    it('should show method and parameter doc comments', () => {
+      const code = `
+IMPLEMENTATION MODULE Test;
+OBJECT Counter;
+  VAR count: INTEGER;
+  { Sets the count }
+  TELL METHOD SetCount(IN value: INTEGER); { New count }
+  BEGIN
+    count := value;
+  END METHOD;
+END OBJECT;
+
+PROCEDURE Main();
+VAR c: Counter;
+BEGIN
+  TELL c TO SetCount(42);
+END PROCEDURE;
+END MODULE;
+      `;
+
+      const { ast, analyzer } = parseWithDocs(code);
+      const help = getSignatureHelp(ast, analyzer.getSymbolTable(), 13, 22);
+
+      expect(help).not.toBeNull();
+      const signature = help!.signatures[0];
+      expect(markdown(signature.documentation)).toContain('Sets the count');
+    });
+  });
+
   describe('Complex Parameter Types', () => {
     it('should handle array parameters', () => {
       const code = `
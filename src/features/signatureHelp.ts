@@ -12,6 +12,7 @@ import {
 
 import type { Module, ASTNode } from '../language/ast';
 import { SymbolTable, SymbolKind } from '../language/symbols';
+import { Type, TypeKind, PointerType, findMember, getMemberType } from '../language/types';
 import { findNodeAtPosition } from '../utils/astPosition';
 
 /**
@@ -41,19 +42,17 @@ export function getSignatureHelp(
     return null;
   }
 
-  // Handle ASK/TELL statements differently - need to look up the method in the object's type
-  if (callNode.type === 'AskStatement' || callNode.type === 'TellStatement') {
-    const askOrTellNode = callNode as any;
-    const objectExpr = askOrTellNode.object;
-
+  // Handle ASK/TELL differently - need to look up the method in the object's type
+  const objectExpr = getMethodReceiver(callNode);
+  if (objectExpr) {
     // Infer the type of the object
     const objectType = inferExpressionType(objectExpr, symbolTable);
-    if (!objectType || objectType.kind !== 'OBJECT') {
+    if (!objectType || objectType.kind !== TypeKind.OBJECT) {
       return null;
     }
 
-    // Find the method in the object type
-    const methodInfo = (objectType as any).methods?.get(calleeName);
+    // Find the method in the object type or its base types
+    const methodInfo = findMember(objectType, calleeName)?.method;
     if (!methodInfo) {
       return null;
     }
@@ -164,6 +163,9 @@ function getCalleeName(node: ASTNode): string | null {
     if (callee && callee.type === 'IdentifierExpression') {
       return callee.name;
     }
+    if (callee && callee.type === 'FieldAccessExpression') {
+      return callee.field;
+    }
   }
 
   if (node.type === 'AskStatement' || node.type === 'TellStatement') {
@@ -173,6 +175,18 @@ function getCalleeName(node: ASTNode): string | null {
   return null;
 }
 
+/**
+ * Get the object a method is called on, for ASK/TELL statements and expressions
+ */
+function getMethodReceiver(node: ASTNode): ASTNode | null {
+  if (node.type === 'AskStatement' || node.type === 'TellStatement') {
+    return (node as any).object;
+  }
+
+  const callee = node.type === 'CallExpression' ? (node as any).callee : undefined;
+  return callee?.type === 'FieldAccessExpression' ? callee.object : null;
+}
+
 /**
  * Determine which parameter is currently active based on cursor position
  */
@@ -245,7 +259,7 @@ function buildSignature(symbol: any): SignatureInformation {
         label: paramStr,
         documentation: {
           kind: MarkupKind.Markdown,
-          value: `**${p.mode}** parameter of type \`${formatType(p.type)}\``,
+          value: withDocumentation(`**${p.mode}** parameter of type \`${formatType(p.type)}\``, p.documentation),
         },
       });
 
@@ -278,6 +292,11 @@ function buildSignature(symbol: any): SignatureInformation {
 function buildSignatureDocumentation(symbol: any): string {
   const lines: string[] = [];
 
+  if (symbol.documentation) {
+    lines.push(symbol.documentation);
+    lines.push('');
+  }
+
   if (symbol.kind === SymbolKind.METHOD) {
     lines.push(`${symbol.methodType} method of an object`);
   } else {
@@ -292,6 +311,13 @@ function buildSignatureDocumentation(symbol: any): string {
   return lines.join('\n');
 }
 
+/**
+ * Append a doc comment, if any, as its own paragraph
+ */
+function withDocumentation(text: string, documentation?: string): string {
+  return documentation ? `${text}\n\n${documentation}` : text;
+}
+
 /**
  * Format a type for display
  */
@@ -306,17 +332,28 @@ function formatType(type: any): string {
 /**
  * Infer the type of an expression
  */
-function inferExpressionType(expr: ASTNode, symbolTable: SymbolTable): any {
+function inferExpressionType(expr: ASTNode, symbolTable: SymbolTable): Type | null {
   if (expr.type === 'IdentifierExpression') {
     const symbol = symbolTable.getAllSymbols().find(s => s.name === (expr as any).name);
     if (symbol && 'type' in symbol) {
-      return (symbol as any).type;
+      return dereference((symbol as any).type);
     }
   }
+
+  if (expr.type === 'FieldAccessExpression') {
+    const objectType = inferExpressionType((expr as any).object, symbolTable);
+    const member = objectType ? findMember(objectType, (expr as any).field) : undefined;
+    return member ? dereference(getMemberType(member)) : null;
+  }
+
   // Add more expression types as needed
   return null;
 }
 
+function dereference(type: Type): Type {
+  return type.kind === TypeKind.POINTER ? (type as PointerType).baseType : type;
+}
+
 /**
  * Build signature information from a method info
  */
@@ -337,7 +374,7 @@ function buildMethodSignature(methodName: string, methodInfo: any): SignatureInf
         label: paramStr,
         documentation: {
           kind: MarkupKind.Markdown,
-          value: `**${p.mode}** parameter of type \`${formatType(p.type)}\``,
+          value: withDocumentation(`**${p.mode}** parameter of type \`${formatType(p.type)}\``, p.documentation),
         },
       });
 
@@ -358,7 +395,7 @@ function buildMethodSignature(methodName: string, methodInfo: any): SignatureInf
     label,
     documentation: {
       kind: MarkupKind.Markdown,
-      value: `${methodInfo.methodType} method`,
+      value: withDocumentation(`${methodInfo.methodType} method`, methodInfo.documentation),
     },
     parameters,
   };
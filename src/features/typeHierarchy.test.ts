@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the type hierarchy and inheritance graph
+ */
+
+import { TypeHierarchyItem } from 'vscode-languageserver/node';
+import { prepareTypeHierarchy, getSupertypes, getSubtypes, getInheritanceGraph } from './typeHierarchy';
+import { useWorkspace } from '../../test/helpers/workspace';
+
+describe('Type Hierarchy', () => {
+  const workspace = useWorkspace({
+    'file:///base.mod': `DEFINITION MODULE Base;
+TYPE
+  Entity = OBJECT
+    ASK METHOD Name() : STRING;
+    TELL METHOD Start;
+  END OBJECT;
+END MODULE.`,
+    'file:///vehicles.mod': `DEFINITION MODULE Vehicles;
+FROM Base IMPORT Entity;
+TYPE
+  Vehicle = OBJECT(Entity)
+    OVERRIDE
+      TELL METHOD Start;
+  END OBJECT;
+  Loggable = OBJECT
+    ASK METHOD Log() : STRING;
+  END OBJECT;
+  Truck = OBJECT(Vehicle, Loggable)
+    ASK METHOD Load() : INTEGER;
+  END OBJECT;
+END MODULE.`,
+    'file:///app.mod': `MAIN MODULE App;
+FROM Vehicles IMPORT Truck, Vehicle;
+VAR t : Truck;
+VAR v : Vehicle;
+BEGIN
+END MODULE.`,
+  });
+
+  const prepareAt = workspace.at(prepareTypeHierarchy);
+
+  const names = (items: TypeHierarchyItem[]) => items.map(item => [item.name, item.uri]);
+
+  it('should prepare an item for an object type referenced in another module', () => {
+    // On Truck in "VAR t : Truck;"
+    const items = prepareAt('file:///app.mod', 2, 10);
+
+    expect(items).toHaveLength(1);
+    expect(items![0]).toMatchObject({ name: 'Truck', detail: 'Vehicles', uri: 'file:///vehicles.mod' });
+  });
+
+  it('should return null for anything but object types', () => {
+    expect(prepareAt('file:///app.mod', 2, 4)).toBeNull();
+  });
+
+  it('should list every base type of a type with multiple inheritance', () => {
+    const [truck] = prepareAt('file:///app.mod', 2, 10)!;
+    const [vehicle] = prepareAt('file:///app.mod', 3, 10)!;
+
+    expect(names(getSupertypes(truck, workspace.manager))).toEqual([
+      ['Vehicle', 'file:///vehicles.mod'],
+      ['Loggable', 'file:///vehicles.mod'],
+    ]);
+    expect(names(getSupertypes(vehicle, workspace.manager))).toEqual([['Entity', 'file:///base.mod']]);
+  });
+
+  it('should find subtypes across modules', () => {
+    // On "Entity = OBJECT"
+    const [entity] = prepareAt('file:///base.mod', 2, 4)!;
+    const [vehicle] = getSubtypes(entity, workspace.manager);
+
+    expect(vehicle.name).toBe('Vehicle');
+    expect(names(getSubtypes(vehicle, workspace.manager))).toEqual([['Truck', 'file:///vehicles.mod']]);
+  });
+
+  describe('Inheritance Graph', () => {
+    const graphAt = workspace.at(getInheritanceGraph);
+
+    it('should include descendants and the ancestors of every node', () => {
+      // On Vehicle in "VAR v : Vehicle;"
+      const graph = graphAt('file:///app.mod', 3, 10)!;
+
+      expect(graph.root).toBe('Vehicles.Vehicle');
+      expect(graph.nodes.map(node => node.id).sort()).toEqual([
+        'Base.Entity',
+        'Vehicles.Loggable',
+        'Vehicles.Truck',
+        'Vehicles.Vehicle',
+      ]);
+      expect(graph.edges).toEqual(expect.arrayContaining([
+        { subtype: 'Vehicles.Vehicle', supertype: 'Base.Entity' },
+        { subtype: 'Vehicles.Truck', supertype: 'Vehicles.Vehicle' },
+        { subtype: 'Vehicles.Truck', supertype: 'Vehicles.Loggable' },
+      ]));
+      expect(graph.edges).toHaveLength(3);
+    });
+
+    it('should mark methods as declared, OVERRIDEn or inherited', () => {
+      const graph = graphAt('file:///app.mod', 3, 10)!;
+      const methods = (id: string) => graph.nodes.find(node => node.id === id)!.methods
+        .map(method => [method.name, method.origin, method.declaredBy]);
+
+      expect(methods('Vehicles.Vehicle')).toEqual(expect.arrayContaining([
+        ['Name', 'inherited', 'Base.Entity'],
+        ['Start', 'override', 'Vehicles.Vehicle'],
+      ]));
+      expect(methods('Vehicles.Truck')).toEqual(expect.arrayContaining([
+        ['Name', 'inherited', 'Base.Entity'],
+        ['Start', 'inherited', 'Vehicles.Vehicle'],
+        ['Log', 'inherited', 'Vehicles.Loggable'],
+        ['Load', 'declared', 'Vehicles.Truck'],
+      ]));
+      expect(methods('Vehicles.Truck')).toHaveLength(4);
+    });
+  });
+});
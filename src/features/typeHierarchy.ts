@@ -0,0 +1,331 @@
+/**
+ * Type Hierarchy Provider
+ * Supertypes and subtypes of OBJECT types across the workspace, and the full
+ * inheritance graph of a type for the modsim/inheritanceGraph request
+ */
+
+import {
+  CancellationToken,
+  Range,
+  RequestType,
+  SymbolKind,
+  TextDocumentPositionParams,
+  TypeHierarchyItem,
+} from 'vscode-languageserver/node';
+
+import type { Module, ObjectType, TypeDeclaration } from '../language/ast';
+import { SymbolTable } from '../language/symbols';
+import type { WorkspaceManager } from '../utils/workspace';
+import { toRange } from '../utils/astPosition';
+import {
+  ModuleContext,
+  resolveDeclaration,
+  getWorkspaceContexts,
+  toDeclarationLocation,
+} from '../utils/declarations';
+import { findTargetAtPosition } from '../utils/symbolBinding';
+
+/**
+ * Custom request for the inheritance graph of the object type at a position
+ */
+export const InheritanceGraphRequest = new RequestType<TextDocumentPositionParams, InheritanceGraph | null, void>(
+  'modsim/inheritanceGraph'
+);
+
+/**
+ * Every ancestor and descendant of an object type, and the ancestors of those descendants
+ */
+export interface InheritanceGraph {
+  root: string; // Id of the requested type
+  nodes: InheritanceNode[];
+  edges: Array<{ subtype: string; supertype: string }>;
+}
+
+export interface InheritanceNode {
+  id: string; // Module.Type
+  name: string;
+  module: string;
+  uri: string;
+  range: Range;
+  methods: InheritanceMethod[];
+}
+
+/**
+ * A method of a type: declared by it, OVERRIDEn by it, or inherited unchanged
+ */
+export interface InheritanceMethod {
+  name: string;
+  methodType: 'ASK' | 'TELL' | 'LMONITOR' | 'RMONITOR' | 'WAITFOR';
+  origin: 'declared' | 'override' | 'inherited';
+  declaredBy: string; // Id of the type whose declaration applies
+}
+
+/**
+ * An object type declaration with its base types resolved
+ */
+interface TypeEntry {
+  id: string;
+  context: ModuleContext;
+  declaration: TypeDeclaration & { typeSpec: ObjectType };
+  supertypes: string[];
+}
+
+/**
+ * The object types of the workspace and who inherits from whom
+ */
+interface TypeIndex {
+  types: Map<string, TypeEntry>;
+  subtypes: Map<string, string[]>;
+}
+
+/**
+ * Get the type hierarchy item for the object type at a position
+ */
+export function prepareTypeHierarchy(
+  ast: Module,
+  symbolTable: SymbolTable,
+  line: number,
+  character: number,
+  documentUri: string,
+  workspaceManager?: WorkspaceManager
+): TypeHierarchyItem[] | null {
+  const context: ModuleContext = { uri: documentUri, ast, symbolTable };
+  const id = findTypeAtPosition(context, line, character, workspaceManager);
+  const entry = id ? indexTypes(getWorkspaceContexts(workspaceManager, context), workspaceManager).types.get(id) : undefined;
+  return entry ? [createItem(entry)] : null;
+}
+
+/**
+ * Get the direct base types of an item
+ */
+export function getSupertypes(
+  item: TypeHierarchyItem,
+  workspaceManager: WorkspaceManager,
+  token?: CancellationToken
+): TypeHierarchyItem[] {
+  const index = indexTypes(getWorkspaceContexts(workspaceManager), workspaceManager, token);
+  return resolveItems(index, index.types.get(getItemId(item))?.supertypes ?? []);
+}
+
+/**
+ * Get the types that inherit directly from an item
+ */
+export function getSubtypes(
+  item: TypeHierarchyItem,
+  workspaceManager: WorkspaceManager,
+  token?: CancellationToken
+): TypeHierarchyItem[] {
+  const index = indexTypes(getWorkspaceContexts(workspaceManager), workspaceManager, token);
+  return resolveItems(index, index.subtypes.get(getItemId(item)) ?? []);
+}
+
+/**
+ * Get the inheritance graph of the object type at a position
+ */
+export function getInheritanceGraph(
+  ast: Module,
+  symbolTable: SymbolTable,
+  line: number,
+  character: number,
+  documentUri: string,
+  workspaceManager?: WorkspaceManager
+): InheritanceGraph | null {
+  const context: ModuleContext = { uri: documentUri, ast, symbolTable };
+  const root = findTypeAtPosition(context, line, character, workspaceManager);
+  if (!root) {
+    return null;
+  }
+
+  const index = indexTypes(getWorkspaceContexts(workspaceManager, context), workspaceManager);
+  if (!index.types.has(root)) {
+    return null;
+  }
+
+  // Descendants first, then the ancestors of everything found so far
+  const ids = collect([root], id => index.subtypes.get(id) ?? []);
+  for (const id of collect(Array.from(ids), id => index.types.get(id)?.supertypes ?? [])) {
+    ids.add(id);
+  }
+
+  const methods = new Map<string, Map<string, InheritanceMethod>>();
+  const nodes: InheritanceNode[] = [];
+  const edges: InheritanceGraph['edges'] = [];
+
+  for (const id of ids) {
+    const entry = index.types.get(id);
+    if (!entry) {
+      continue;
+    }
+
+    nodes.push({
+      id,
+      name: entry.declaration.name,
+      module: entry.context.ast.name,
+      uri: entry.context.uri,
+      range: toRange(entry.declaration),
+      methods: Array.from(getMethods(index, id, methods, new Set()).values()),
+    });
+    for (const supertype of entry.supertypes) {
+      edges.push({ subtype: id, supertype });
+    }
+  }
+
+  return { root, nodes, edges };
+}
+
+/**
+ * Get the id of the object type at a position
+ */
+function findTypeAtPosition(
+  context: ModuleContext,
+  line: number,
+  character: number,
+  workspaceManager?: WorkspaceManager
+): string | undefined {
+  const target = findTargetAtPosition(context, { line, character }, workspaceManager);
+  if (target?.kind !== 'declaration') {
+    return undefined;
+  }
+
+  const { context: declaringContext, declaration } = target.resolved;
+  return declaration.type === 'TypeDeclaration' && declaration.typeSpec.type === 'ObjectType'
+    ? getTypeId(declaringContext, declaration.name)
+    : undefined;
+}
+
+/**
+ * Index the object types of a set of modules
+ * A type declared in both halves of a module is taken from the DEFINITION module.
+ */
+function indexTypes(
+  contexts: ModuleContext[],
+  workspaceManager?: WorkspaceManager,
+  token?: CancellationToken
+): TypeIndex {
+  const types = new Map<string, TypeEntry>();
+  const subtypes = new Map<string, string[]>();
+
+  for (const context of contexts) {
+    if (token?.isCancellationRequested) {
+      break;
+    }
+
+    for (const decl of context.ast.declarations) {
+      if (decl.type !== 'TypeDeclaration' || decl.typeSpec.type !== 'ObjectType') {
+        continue;
+      }
+
+      const id = getTypeId(context, decl.name);
+      if (types.get(id)?.context.ast.kind === 'DEFINITION') {
+        continue;
+      }
+
+      const supertypes: string[] = [];
+      for (const baseType of decl.typeSpec.baseTypes ?? []) {
+        const base = resolveDeclaration(context, baseType, workspaceManager);
+        if (base?.declaration.type === 'TypeDeclaration') {
+          supertypes.push(getTypeId(base.context, base.declaration.name));
+        }
+      }
+
+      types.set(id, { id, context, declaration: decl as TypeEntry['declaration'], supertypes });
+    }
+  }
+
+  for (const entry of types.values()) {
+    for (const supertype of entry.supertypes) {
+      subtypes.set(supertype, [...(subtypes.get(supertype) ?? []), entry.id]);
+    }
+  }
+
+  return { types, subtypes };
+}
+
+/**
+ * Get the methods of a type, including inherited ones
+ * As in semantic analysis, a later base type wins when two declare the same method.
+ */
+function getMethods(
+  index: TypeIndex,
+  id: string,
+  memo: Map<string, Map<string, InheritanceMethod>>,
+  visiting: Set<string>
+): Map<string, InheritanceMethod> {
+  const cached = memo.get(id);
+  if (cached) {
+    return cached;
+  }
+
+  const methods = new Map<string, InheritanceMethod>();
+  const entry = index.types.get(id);
+  if (!entry || visiting.has(id)) {
+    return methods; // Unknown type or inheritance cycle
+  }
+  visiting.add(id);
+
+  for (const supertype of entry.supertypes) {
+    for (const method of getMethods(index, supertype, memo, visiting).values()) {
+      methods.set(method.name, { ...method, origin: 'inherited' });
+    }
+  }
+
+  for (const method of entry.declaration.typeSpec.methods) {
+    methods.set(method.name, {
+      name: method.name,
+      methodType: method.methodType,
+      origin: method.isOverride ? 'override' : 'declared',
+      declaredBy: id,
+    });
+  }
+
+  visiting.delete(id);
+  memo.set(id, methods);
+  return methods;
+}
+
+/**
+ * Collect the ids reachable from a set of ids, including the ids themselves
+ */
+function collect(start: string[], next: (id: string) => string[]): Set<string> {
+  const seen = new Set<string>(start);
+  const queue = [...start];
+  while (queue.length > 0) {
+    for (const id of next(queue.shift()!)) {
+      if (!seen.has(id)) {
+        seen.add(id);
+        queue.push(id);
+      }
+    }
+  }
+  return seen;
+}
+
+function resolveItems(index: TypeIndex, ids: string[]): TypeHierarchyItem[] {
+  return ids
+    .map(id => index.types.get(id))
+    .filter((entry): entry is TypeEntry => entry !== undefined)
+    .map(createItem);
+}
+
+function createItem(entry: TypeEntry): TypeHierarchyItem {
+  return {
+    name: entry.declaration.name,
+    kind: SymbolKind.Class,
+    detail: entry.context.ast.name,
+    uri: entry.context.uri,
+    range: toRange(entry.declaration),
+    selectionRange: toDeclarationLocation(entry.context.uri, entry.declaration.start, entry.declaration.name).range,
+    data: { id: entry.id },
+  };
+}
+
+function getItemId(item: TypeHierarchyItem): string {
+  return (item.data as { id: string }).id;
+}
+
+/**
+ * Identify a type by the module that declares it
+ */
+function getTypeId(context: ModuleContext, typeName: string): string {
+  return `${context.ast.name}.${typeName}`;
+}
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for workspace symbol search
+ */
+
+import { CancellationTokenSource, SymbolKind } from 'vscode-languageserver/node';
+import { getWorkspaceSymbols, fuzzyScore, MAX_WORKSPACE_SYMBOLS } from './workspaceSymbols';
+import { WorkspaceManager } from '../utils/workspace';
+
+describe('Workspace Symbols', () => {
+  async function createWorkspace(): Promise<WorkspaceManager> {
+    const workspaceManager = new WorkspaceManager();
+    await workspaceManager.updateDocument('file:///queue.mod', `DEFINITION MODULE Queue;
+CONST MAX_QUEUE_SIZE = 100;
+TYPE
+  QueueObj = OBJECT
+    ASK METHOD GetSize() : INTEGER;
+    TELL METHOD Enqueue(IN item : INTEGER);
+  END OBJECT;
+PROCEDURE ClearQueue();
+VAR queueCount : INTEGER;
+END MODULE.`, 1);
+    await workspaceManager.updateDocument('file:///server.mod', `IMPLEMENTATION MODULE Server;
+OBJECT ServerObj;
+  ASK METHOD GetSize() : INTEGER;
+  BEGIN
+    RETURN 0;
+  END METHOD;
+END OBJECT;
+END MODULE.`, 1);
+    return workspaceManager;
+  }
+
+  it('should find declarations across modules with their file and container', async () => {
+    const workspaceManager = await createWorkspace();
+    const symbols = getWorkspaceSymbols('GetSize', workspaceManager.getAllDocuments());
+
+    expect(symbols.map(s => [s.name, s.kind, s.containerName, s.location.uri])).toEqual(expect.arrayContaining([
+      ['GetSize', SymbolKind.Method, 'QueueObj', 'file:///queue.mod'],
+      ['GetSize', SymbolKind.Method, 'ServerObj', 'file:///server.mod'],
+    ]));
+    expect(symbols).toHaveLength(2);
+  });
+
+  it('should include modules, object types, procedures, types, constants and variables', async () => {
+    const workspaceManager = await createWorkspace();
+    const symbols = getWorkspaceSymbols('', workspaceManager.getAllDocuments());
+    const byName = new Map(symbols.map(s => [s.name, s]));
+
+    expect(byName.get('Queue')?.kind).toBe(SymbolKind.Module);
+    expect(byName.get('QueueObj')?.kind).toBe(SymbolKind.Class);
+    expect(byName.get('QueueObj')?.containerName).toBe('Queue');
+    expect(byName.get('ServerObj')?.kind).toBe(SymbolKind.Class);
+    expect(byName.get('ClearQueue')?.kind).toBe(SymbolKind.Function);
+    expect(byName.get('MAX_QUEUE_SIZE')?.kind).toBe(SymbolKind.Constant);
+    expect(byName.get('queueCount')?.kind).toBe(SymbolKind.Variable);
+    expect(byName.get('queueCount')?.containerName).toBe('Queue');
+  });
+
+  it('should list the methods of an implemented object type once, where they are declared', async () => {
+    const workspaceManager = await createWorkspace();
+    await workspaceManager.updateDocument('file:///queue_impl.mod', `IMPLEMENTATION MODULE Queue;
+OBJECT QueueObj;
+  ASK METHOD GetSize() : INTEGER;
+  BEGIN
+    RETURN 0;
+  END METHOD;
+  TELL METHOD Enqueue(IN item : INTEGER);
+  BEGIN
+  END METHOD;
+END OBJECT;
+END MODULE.`, 1);
+    const symbols = getWorkspaceSymbols('', workspaceManager.getAllDocuments());
+    const locations = (name: string) => symbols.filter(s => s.name === name).map(s => s.location.uri);
+
+    expect(locations('QueueObj')).toEqual(['file:///queue.mod']);
+    expect(locations('Enqueue')).toEqual(['file:///queue.mod']);
+    expect(locations('GetSize').sort()).toEqual(['file:///queue.mod', 'file:///server.mod']);
+  });
+
+  it('should rank prefix and word-start matches first', async () => {
+    const workspaceManager = await createWorkspace();
+    const names = getWorkspaceSymbols('que', workspaceManager.getAllDocuments()).map(s => s.name);
+
+    expect(names[0]).toBe('Queue');
+    expect(names).toEqual(expect.arrayContaining(['QueueObj', 'ClearQueue', 'MAX_QUEUE_SIZE', 'Enqueue']));
+    expect(names.indexOf('ClearQueue')).toBeLessThan(names.indexOf('Enqueue'));
+  });
+
+  it('should match camelCase abbreviations', () => {
+    expect(fuzzyScore('cq', 'ClearQueue')).toBeDefined();
+    expect(fuzzyScore('mqs', 'MAX_QUEUE_SIZE')).toBeDefined();
+    expect(fuzzyScore('qc', 'ClearQueue')).toBeUndefined();
+    expect(fuzzyScore('cq', 'ClearQueue')!).toBeGreaterThan(fuzzyScore('cu', 'ClearQueue')!);
+  });
+
+  it('should limit the number of results', async () => {
+    const workspaceManager = new WorkspaceManager();
+    const constants = Array.from({ length: 60 }, (_, i) => `CONST Value${i} = ${i};`).join('\n');
+    for (let i = 0; i < 10; i++) {
+      await workspaceManager.updateDocument(`file:///m${i}.mod`, `DEFINITION MODULE M${i};\n${constants}\nEND MODULE.`, 1);
+    }
+
+    expect(getWorkspaceSymbols('val', workspaceManager.getAllDocuments())).toHaveLength(MAX_WORKSPACE_SYMBOLS);
+  });
+
+  it('should return nothing once cancelled', async () => {
+    const workspaceManager = await createWorkspace();
+    const source = new CancellationTokenSource();
+    source.cancel();
+
+    expect(getWorkspaceSymbols('', workspaceManager.getAllDocuments(), source.token)).toEqual([]);
+  });
+});
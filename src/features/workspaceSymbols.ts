@@ -0,0 +1,192 @@
+/**
+ * Workspace Symbols Provider
+ * Fuzzy search for declarations across every indexed module
+ */
+
+import { CancellationToken, SymbolInformation, SymbolKind } from 'vscode-languageserver/node';
+import type { Module, MethodDeclaration, Position } from '../language/ast';
+import type { WorkspaceDocument } from '../utils/workspace';
+import { toRange } from '../utils/astPosition';
+import { getTypeSymbolKind } from './documentSymbols';
+
+/**
+ * Maximum number of symbols returned for a query
+ */
+export const MAX_WORKSPACE_SYMBOLS = 500;
+
+/**
+ * Searchable declarations of a module
+ */
+interface ModuleSymbols {
+  symbols: SymbolInformation[];
+  declaredObjects: Set<string>; // Keys of object types and their methods
+  objectBlocks: Array<{ key: string; symbol: SymbolInformation }>; // OBJECT blocks and their methods
+}
+
+// Symbols of each parsed module; a new parse gives a new AST, so entries never go stale
+const symbolCache = new WeakMap<Module, ModuleSymbols>();
+
+/**
+ * Search the declarations of all workspace documents
+ * Results are ordered from best to worst match.
+ */
+export function getWorkspaceSymbols(
+  query: string,
+  documents: WorkspaceDocument[],
+  token?: CancellationToken
+): SymbolInformation[] {
+  const matches: Array<{ symbol: SymbolInformation; score: number }> = [];
+  const modules: ModuleSymbols[] = [];
+  const declaredObjects = new Set<string>();
+
+  for (const doc of documents) {
+    if (token?.isCancellationRequested) {
+      return [];
+    }
+    if (doc.ast) {
+      const moduleSymbols = getModuleSymbols(doc.uri, doc.ast);
+      moduleSymbols.declaredObjects.forEach(key => declaredObjects.add(key));
+      modules.push(moduleSymbols);
+    }
+  }
+
+  const addMatch = (symbol: SymbolInformation) => {
+    const score = fuzzyScore(query, symbol.name);
+    if (score !== undefined) {
+      matches.push({ symbol, score });
+    }
+  };
+
+  for (const { symbols, objectBlocks } of modules) {
+    symbols.forEach(addMatch);
+    // OBJECT blocks implement object types, which are listed already where they are declared
+    for (const { key, symbol } of objectBlocks) {
+      if (!declaredObjects.has(key)) {
+        addMatch(symbol);
+      }
+    }
+  }
+
+  matches.sort((a, b) =>
+    b.score - a.score
+    || a.symbol.name.length - b.symbol.name.length
+    || a.symbol.name.localeCompare(b.symbol.name)
+  );
+
+  return matches.slice(0, MAX_WORKSPACE_SYMBOLS).map(match => match.symbol);
+}
+
+/**
+ * Score how well a query matches a name, or undefined if it doesn't
+ * Every query character must appear in order; matches at the start of the name,
+ * at word starts (camelCase or after '_') and runs of consecutive characters score higher.
+ */
+export function fuzzyScore(query: string, name: string): number | undefined {
+  if (query.length === 0) {
+    return 0;
+  }
+
+  const lowerQuery = query.toLowerCase();
+  const lowerName = name.toLowerCase();
+  let score = 0;
+  let matched = 0;
+  let previous = -2;
+
+  for (let i = 0; i < name.length && matched < lowerQuery.length; i++) {
+    if (lowerName[i] !== lowerQuery[matched]) {
+      continue;
+    }
+
+    score += 1;
+    if (i === 0) {
+      score += 8;
+    } else if (isWordStart(name, i)) {
+      score += 6;
+    }
+    if (i === previous + 1) {
+      score += 4;
+    }
+
+    previous = i;
+    matched++;
+  }
+
+  if (matched < lowerQuery.length) {
+    return undefined;
+  }
+  return lowerName === lowerQuery ? score + 20 : score;
+}
+
+function isWordStart(name: string, index: number): boolean {
+  const current = name[index];
+  const previous = name[index - 1];
+  return previous === '_'
+    || (current >= 'A' && current <= 'Z' && previous >= 'a' && previous <= 'z')
+    || (current >= '0' && current <= '9' && !(previous >= '0' && previous <= '9'));
+}
+
+/**
+ * Get the searchable declarations of a module
+ */
+function getModuleSymbols(uri: string, ast: Module): ModuleSymbols {
+  const cached = symbolCache.get(ast);
+  if (cached) {
+    return cached;
+  }
+
+  const result: ModuleSymbols = { symbols: [], declaredObjects: new Set(), objectBlocks: [] };
+  const create = (name: string, kind: SymbolKind, node: { start: Position; end: Position }, containerName?: string) =>
+    SymbolInformation.create(name, kind, toRange(node), uri, containerName);
+  const add = (name: string, kind: SymbolKind, node: { start: Position; end: Position }, containerName?: string) => {
+    result.symbols.push(create(name, kind, node, containerName));
+  };
+  // DEFINITION and IMPLEMENTATION modules share their name, so it tells object types apart
+  const objectKey = (objectName: string, methodName?: string) =>
+    methodName === undefined ? `${ast.name}.${objectName}` : `${ast.name}.${objectName}.${methodName}`;
+  const addMethods = (methods: MethodDeclaration[], objectName: string) => {
+    for (const method of methods) {
+      add(method.name, SymbolKind.Method, method, objectName);
+      result.declaredObjects.add(objectKey(objectName, method.name));
+    }
+  };
+
+  add(ast.name, SymbolKind.Module, ast);
+
+  for (const decl of ast.declarations) {
+    switch (decl.type) {
+      case 'TypeDeclaration':
+        add(decl.name, getTypeSymbolKind(decl.typeSpec.type), decl, ast.name);
+        if (decl.typeSpec.type === 'ObjectType') {
+          result.declaredObjects.add(objectKey(decl.name));
+          addMethods(decl.typeSpec.methods, decl.name);
+        }
+        break;
+      case 'ConstDeclaration':
+        add(decl.name, SymbolKind.Constant, decl, ast.name);
+        break;
+      case 'VarDeclaration':
+        for (const name of decl.names) {
+          add(name, SymbolKind.Variable, decl, ast.name);
+        }
+        break;
+      case 'ProcedureDeclaration':
+        add(decl.name, SymbolKind.Function, decl, ast.name);
+        break;
+      case 'ObjectDeclaration':
+        result.objectBlocks.push({
+          key: objectKey(decl.name),
+          symbol: create(decl.name, SymbolKind.Class, decl, ast.name),
+        });
+        for (const method of [...decl.methods, ...(decl.privateSection?.methods ?? [])]) {
+          result.objectBlocks.push({
+            key: objectKey(decl.name, method.name),
+            symbol: create(method.name, SymbolKind.Method, method, decl.name),
+          });
+        }
+        break;
+    }
+  }
+
+  symbolCache.set(ast, result);
+  return result;
+}
@@ -57,7 +57,7 @@ describe('Advanced Features Integration Tests', () => {
       const { ast, symbolTable } = parseAndAnalyze();
 
       // Position on "itemCount" in the var declaration (line 16)
-      const renamePrep = prepareRename(ast, symbolTable, 15, 6);
+      const renamePrep = prepareRename(ast, symbolTable, 15, 6, documentUri);
       expect(renamePrep).not.toBeNull();
 
       // Perform rename
@@ -80,12 +80,11 @@ describe('Advanced Features Integration Tests', () => {
       expect(edits.length).toBeGreaterThan(5); // Used in multiple methods
     });
 
-    it.skip('should rename constant "MAX_CAPACITY"', () => {
-      // Note: Rename for constants is not yet implemented
+    it('should rename constant "MAX_CAPACITY"', () => {
       const { ast, symbolTable } = parseAndAnalyze();
 
       // Position on MAX_CAPACITY declaration (line 9)
-      const renamePrep = prepareRename(ast, symbolTable, 8, 2);
+      const renamePrep = prepareRename(ast, symbolTable, 8, 2, documentUri);
       expect(renamePrep).not.toBeNull();
 
       const edit = getRename(
@@ -107,7 +106,7 @@ describe('Advanced Features Integration Tests', () => {
       const { ast, symbolTable } = parseAndAnalyze();
 
       // Position on Enqueue method declaration (line 26)
-      const renamePrep = prepareRename(ast, symbolTable, 25, 14);
+      const renamePrep = prepareRename(ast, symbolTable, 25, 14, documentUri);
       expect(renamePrep).not.toBeNull();
 
       const edit = getRename(
@@ -125,18 +124,17 @@ describe('Advanced Features Integration Tests', () => {
       expect(edits.length).toBeGreaterThan(0); // Method declaration + call in ProcessItems
     });
 
-    it.skip('should rename procedure "ProcessItems"', () => {
-      // Note: Rename for procedures is not yet implemented
+    it('should rename procedure "ProcessItems"', () => {
       const { ast, symbolTable } = parseAndAnalyze();
 
-      // Position on ProcessItems declaration (line 62)
-      const renamePrep = prepareRename(ast, symbolTable, 61, 10);
+      // Position on ProcessItems declaration (line 58)
+      const renamePrep = prepareRename(ast, symbolTable, 57, 10, documentUri);
       expect(renamePrep).not.toBeNull();
 
       const edit = getRename(
         ast,
         symbolTable,
-        61,
+        57,
         10,
         'HandleItems',
         documentUri,
@@ -148,12 +146,11 @@ describe('Advanced Features Integration Tests', () => {
       expect(edits.length).toBeGreaterThan(0); // Declaration + call in RunSimulation
     });
 
-    it.skip('should rename type "ItemCount"', () => {
-      // Note: Rename for types is not yet implemented
+    it('should rename type "ItemCount"', () => {
       const { ast, symbolTable } = parseAndAnalyze();
 
       // Position on ItemCount type declaration (line 12)
-      const renamePrep = prepareRename(ast, symbolTable, 11, 2);
+      const renamePrep = prepareRename(ast, symbolTable, 11, 2, documentUri);
       expect(renamePrep).not.toBeNull();
 
       const edit = getRename(
@@ -296,7 +293,7 @@ describe('Advanced Features Integration Tests', () => {
       const { ast, symbolTable } = parseAndAnalyze();
 
       // First, verify we can prepare rename on capacity
-      const renamePrep = prepareRename(ast, symbolTable, 14, 6);
+      const renamePrep = prepareRename(ast, symbolTable, 14, 6, documentUri);
       expect(renamePrep).not.toBeNull();
 
       // Then verify highlights work on the same symbol
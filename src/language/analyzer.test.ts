@@ -5,7 +5,7 @@
 import { Lexer } from './lexer';
 import { Parser } from './parser';
 import { SemanticAnalyzer } from './analyzer';
-import { DiagnosticSeverity } from './diagnostics';
+import { DiagnosticSeverity, DiagnosticTag } from './diagnostics';
 
 describe('SemanticAnalyzer', () => {
   function analyze(source: string) {
@@ -59,6 +59,24 @@ END MODULE;
       expect(colorSymbol?.kind).toBe('TYPE');
     });
 
+    it('should define the values of enumeration types', () => {
+      const source = `
+MAIN MODULE Test;
+TYPE Color = (RED, GREEN, BLUE);
+VAR c: Color;
+BEGIN
+  c := GREEN;
+END MODULE.
+      `.trim();
+
+      const { analyzer, diagnostics } = analyze(source);
+      const greenSymbol = analyzer.getSymbolTable().getScope('Test')?.lookupLocal('GREEN');
+
+      expect(greenSymbol?.kind).toBe('ENUM_VALUE');
+      expect(greenSymbol?.type).toBe(analyzer.getSymbolTable().lookupGlobal('Color')?.type);
+      expect(diagnostics).toEqual([]);
+    });
+
     it('should define procedures in symbol table', () => {
       const source = `
 IMPLEMENTATION MODULE Test;
@@ -140,6 +158,585 @@ END MODULE;
     });
   });
 
+  describe('Statements', () => {
+    function errorsIn(body: string, declarations = '') {
+      const source = `
+MAIN MODULE Test;
+TYPE
+  Color = (Red, Green, Blue);
+  Point = RECORD
+    x : INTEGER;
+  END RECORD;
+VAR
+  n : INTEGER;
+  r : REAL;
+  s : STRING;
+  c : Color;
+  p : Point;
+  values : ARRAY [1..3] OF INTEGER;
+${declarations}
+BEGIN
+${body}
+END MODULE.
+      `.trim();
+
+      const { diagnostics } = analyze(source);
+      return diagnostics.filter((d) => d.severity === DiagnosticSeverity.Error).map((d) => d.message);
+    }
+
+    it('should check the statements in CASE arms', () => {
+      expect(errorsIn(`
+  CASE n
+    WHEN 1: r := TRUE;
+    OTHERWISE s := 1;
+  END CASE;`)).toEqual(['Cannot assign BOOLEAN to REAL', 'Cannot assign INTEGER to STRING']);
+    });
+
+    it('should check CASE labels and label ranges against the selector type', () => {
+      expect(errorsIn(`
+  CASE n
+    WHEN 1, 2..4: n := 0;
+    WHEN "five": n := 5;
+  END CASE;
+  CASE c
+    WHEN Red, Green: n := 0;
+    WHEN 3: n := 3;
+  END CASE;`)).toEqual([
+        'CASE label of type STRING does not match selector of type INTEGER',
+        'CASE label of type INTEGER does not match selector of type ENUM',
+      ]);
+    });
+
+    it('should report duplicate and overlapping CASE labels', () => {
+      expect(errorsIn(`
+  CASE n
+    WHEN 1, 2..4: n := 0;
+    WHEN 3, 1: n := 1;
+    WHEN 5..6, -1, 6: n := 2;
+  END CASE;
+  CASE c
+    WHEN Red..Green: n := 0;
+    WHEN Green: n := 1;
+    OTHERWISE n := 2;
+  END CASE;`)).toEqual([
+        "CASE label '3' overlaps '2..4'",
+        "Duplicate CASE label '1'",
+        "CASE label '6' overlaps '5..6'",
+        "CASE label 'Green' overlaps 'Red..Green'",
+      ]);
+    });
+
+    it('should report empty CASE label ranges instead of overlaps, and show characters unquoted', () => {
+      expect(errorsIn(`
+  CASE n
+    WHEN 1..5: n := 0;
+    WHEN 5..1: n := 1;
+  END CASE;
+  CASE ch
+    WHEN 'a'..'c': n := 0;
+    WHEN 'b': n := 1;
+  END CASE;`, 'VAR ch : CHAR;')).toEqual([
+        "CASE label range '5..1' is empty",
+        "CASE label 'b' overlaps 'a..c'",
+      ]);
+    });
+
+    it('should warn about the enumeration values a CASE without OTHERWISE does not handle', () => {
+      const { diagnostics } = analyze(`
+MAIN MODULE Test;
+TYPE State = (Idle, Running, Failed, Repaired);
+VAR s : State;
+BEGIN
+  CASE s
+    WHEN Idle, Running: s := Failed;
+    WHEN Failed..Repaired: s := Idle;
+  END CASE;
+  CASE s
+    WHEN Running: s := Failed;
+    OTHERWISE s := Idle;
+  END CASE;
+  CASE s
+    WHEN Running: s := Failed;
+  END CASE;
+END MODULE.
+      `.trim());
+
+      const warnings = diagnostics.filter((d) => d.severity === DiagnosticSeverity.Warning);
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatchObject({
+        message: 'CASE does not handle State values: Idle, Failed, Repaired',
+        code: 'non-exhaustive-case',
+        start: { line: 13, column: 3 },
+        end: { line: 13, column: 9 },
+      });
+    });
+
+    it('should check the FOREACH variable against the element type', () => {
+      expect(errorsIn(`
+  FOREACH n IN values DO
+    r := n;
+  END FOREACH;
+  FOREACH s IN values DO
+  END FOREACH;
+  FOREACH n IN r DO
+  END FOREACH;`)).toEqual([
+        "FOREACH variable 's' of type STRING cannot hold elements of type INTEGER",
+        'FOREACH requires an array or collection object but got REAL',
+      ]);
+    });
+
+    it('should check the FOREACH variable against the element type of a collection object', () => {
+      expect(errorsIn(`
+  FOREACH job IN jobs DO
+  END FOREACH;
+  FOREACH member IN jobs DO
+  END FOREACH;
+  FOREACH n IN jobs DO
+  END FOREACH;`, `TYPE
+  Job = OBJECT
+  END OBJECT;
+  QueueObj = OBJECT
+  END OBJECT;
+  JobQueue = OBJECT(QueueObj[ANYOBJ:Job])
+  END OBJECT;
+VAR
+  jobs : JobQueue;
+  job : Job;
+  member : ANYOBJ;`)).toEqual([
+        "FOREACH variable 'n' of type INTEGER cannot hold elements of type Job",
+      ]);
+    });
+
+    it('should check FOR variables, bounds and steps', () => {
+      expect(errorsIn(`
+  FOR n := 1 TO 10 BY 2
+  END FOR;
+  FOR c := Red TO Blue
+  END FOR;
+  FOR r := 1 TO 10
+  END FOR;
+  FOR n := 1 TO 2.5
+  END FOR;
+  FOR c := Red TO 3
+  END FOR;
+  FOR n := 10 DOWNTO 1 BY r
+  END FOR;`)).toEqual([
+        "FOR variable 'r' must be INTEGER, CHAR or an enumeration but got REAL",
+        'FOR bound must be INTEGER but got REAL',
+        'FOR bound must be ENUM but got INTEGER',
+        'FOR step must be INTEGER but got REAL',
+      ]);
+    });
+
+    it('should check INC and DEC operands and amounts', () => {
+      expect(errorsIn(`
+  INC(n);
+  DEC(r, 2);
+  INC(s);
+  DEC(n, 1.5);`)).toEqual([
+        'INC requires a numeric variable but got STRING',
+        'DEC amount must be INTEGER but got REAL',
+      ]);
+    });
+
+    it('should only allow EXIT inside a loop', () => {
+      expect(errorsIn(`
+  LOOP
+    IF n > 3 THEN
+      EXIT;
+    END IF;
+  END LOOP;
+  EXIT;`)).toEqual(['EXIT statement outside of a loop']);
+    });
+
+    it('should check REPEAT bodies and UNTIL conditions', () => {
+      expect(errorsIn(`
+  REPEAT
+    n := "x";
+  UNTIL n;`)).toEqual(['Cannot assign STRING to INTEGER', 'UNTIL condition must be BOOLEAN']);
+    });
+
+    it('should only WITH records and objects', () => {
+      expect(errorsIn(`
+  WITH p DO
+    x := 1;
+  END WITH;
+  WITH n DO
+  END WITH;`)).toEqual(['WITH requires a record or object but got INTEGER']);
+    });
+
+    it('should not allow TERMINATE in ASK methods', () => {
+      const source = `
+IMPLEMENTATION MODULE Test;
+TYPE
+  Worker = OBJECT
+    ASK METHOD Stop;
+    TELL METHOD Run;
+  END OBJECT;
+OBJECT Worker;
+  ASK METHOD Stop;
+  BEGIN
+    TERMINATE;
+  END METHOD;
+  TELL METHOD Run;
+  BEGIN
+    TERMINATE;
+  END METHOD;
+END OBJECT;
+END MODULE.
+      `.trim();
+
+      const { diagnostics } = analyze(source);
+      const errors = diagnostics.filter((d) => d.severity === DiagnosticSeverity.Error).map((d) => d.message);
+      expect(errors).toEqual(['TERMINATE statement is not allowed in ASK methods']);
+    });
+  });
+
+  describe('Member Access', () => {
+    function errorsIn(body: string) {
+      const source = `
+MAIN MODULE Test;
+TYPE
+  Point = RECORD
+    x, y : INTEGER;
+  END RECORD;
+  PointPtr = POINTER TO Point;
+  PartObj = OBJECT
+    failureRate : REAL;
+    origin : Point;
+    ASK METHOD Name() : STRING;
+    TELL METHOD Fail;
+  PRIVATE
+    serial : INTEGER;
+  END OBJECT;
+  PumpObj = OBJECT(PartObj)
+    flow : REAL;
+  END OBJECT;
+OBJECT PartObj;
+  ASK METHOD Name() : STRING;
+  BEGIN
+    serial := 1;
+    RETURN "part";
+  END METHOD;
+  TELL METHOD Fail;
+  BEGIN
+    SELF.serial := SELF.serial + 1;
+    failureRate := 0.0;
+  END METHOD;
+END OBJECT;
+VAR
+  n : INTEGER;
+  r : REAL;
+  s : STRING;
+  pt : Point;
+  ptr : PointPtr;
+  part : PartObj;
+  pump : PumpObj;
+BEGIN
+${body}
+END MODULE.
+      `.trim();
+
+      const { diagnostics } = analyze(source);
+      return diagnostics.filter((d) => d.severity === DiagnosticSeverity.Error).map((d) => d.message);
+    }
+
+    it('should resolve the types of record and object fields', () => {
+      expect(errorsIn(`
+  r := part.failureRate * 2.0;
+  n := part.origin.x + ptr.y;
+  s := part.failureRate;
+  n := pt.x * 2.5;`)).toEqual(['Cannot assign REAL to STRING', 'Cannot assign REAL to INTEGER']);
+    });
+
+    it('should resolve fields and methods inherited from base types', () => {
+      expect(errorsIn(`
+  r := pump.failureRate + pump.flow;
+  s := ASK pump Name;
+  n := ASK pump Name;
+  TELL pump TO Fail;`)).toEqual(['Cannot assign STRING to INTEGER']);
+    });
+
+    it('should report fields missing from the type', () => {
+      expect(errorsIn(`
+  n := pt.z;
+  r := pump.pressure;
+  ASK part TO Repair;`)).toEqual([
+        "No field 'z' on type Point",
+        "No field 'pressure' on type PumpObj",
+        "Method 'Repair' not found in object type",
+      ]);
+    });
+
+    it('should block PRIVATE members outside their object', () => {
+      expect(errorsIn(`
+  n := part.serial;
+  pump.serial := 2;`)).toEqual([
+        "'serial' is PRIVATE to PartObj and cannot be accessed here",
+        "'serial' is PRIVATE to PartObj and cannot be accessed here",
+      ]);
+    });
+  });
+
+  describe('Control Flow', () => {
+    function diagnosticsOf(declarations: string) {
+      const source = `
+IMPLEMENTATION MODULE Test;
+TYPE
+  CounterObj = OBJECT
+    count : INTEGER;
+    ASK METHOD Read(OUT value : INTEGER);
+    ASK METHOD Total() : INTEGER;
+  END OBJECT;
+PROCEDURE Fill(OUT value : INTEGER; IN limit : INTEGER);
+BEGIN
+  value := limit;
+END PROCEDURE;
+${declarations}
+END MODULE.
+      `.trim();
+
+      const { diagnostics } = analyze(source);
+      return diagnostics
+        .filter((d) => !d.message.includes('never used'))
+        .map((d) => `${d.severity === DiagnosticSeverity.Error ? 'error' : 'warning'}: ${d.message}`);
+    }
+
+    it('should report procedures and ASK methods that can end without a RETURN', () => {
+      expect(diagnosticsOf(`
+PROCEDURE Sign(IN n : INTEGER) : INTEGER;
+BEGIN
+  IF n > 0
+    RETURN 1;
+  ELSIF n < 0
+    RETURN -1;
+  END IF;
+END PROCEDURE;
+PROCEDURE Abs(IN n : INTEGER) : INTEGER;
+BEGIN
+  IF n < 0
+    RETURN -n;
+  ELSE
+    RETURN n;
+  END IF;
+END PROCEDURE;
+OBJECT CounterObj;
+  ASK METHOD Read(OUT value : INTEGER);
+  BEGIN
+    value := count;
+  END METHOD;
+  ASK METHOD Total() : INTEGER;
+  BEGIN
+    count := 0;
+  END METHOD;
+END OBJECT;`)).toEqual([
+        "error: Procedure 'Sign' can reach its end without a RETURN",
+        "error: ASK method 'Total' can reach its end without a RETURN",
+      ]);
+    });
+
+    it('should report empty bodies but not forward or NONMODSIM declarations', () => {
+      expect(diagnosticsOf(`
+PROCEDURE Later(IN n : INTEGER) : INTEGER;
+PROCEDURE Clock() : INTEGER; NONMODSIM "C";
+PROCEDURE Empty() : INTEGER;
+BEGIN
+END PROCEDURE;
+OBJECT CounterObj;
+  ASK METHOD Read(OUT value : INTEGER);
+  BEGIN
+    value := count;
+  END METHOD;
+  ASK METHOD Total() : INTEGER;
+  BEGIN
+  END METHOD;
+END OBJECT;`)).toEqual([
+        "error: Procedure 'Empty' can reach its end without a RETURN",
+        "error: ASK method 'Total' can reach its end without a RETURN",
+      ]);
+    });
+
+    it('should report unreachable statements', () => {
+      expect(diagnosticsOf(`
+PROCEDURE Find(IN n : INTEGER) : INTEGER;
+VAR i : INTEGER;
+BEGIN
+  LOOP
+    INC(i);
+    IF i = n
+      EXIT;
+      i := 0;
+    END IF;
+  END LOOP;
+  RETURN i;
+  i := 0;
+END PROCEDURE;`)).toEqual([
+        'warning: Unreachable code',
+        'warning: Unreachable code',
+        "warning: Variable 'i' is read before it is definitely assigned",
+      ]);
+    });
+
+    it('should report locals and OUT parameters read before they are assigned', () => {
+      expect(diagnosticsOf(`
+PROCEDURE Run(IN counter : CounterObj; OUT result : INTEGER);
+VAR a, b, c : INTEGER;
+BEGIN
+  Fill(a, b);
+  ASK counter TO Read(c);
+  result := result + a + c;
+END PROCEDURE;`)).toEqual([
+        "warning: Variable 'b' is read before it is definitely assigned",
+        "warning: OUT parameter 'result' is read before it is definitely assigned",
+      ]);
+    });
+  });
+
+  describe('Unused Declarations', () => {
+    const unusedOf = (source: string) =>
+      analyze(source.trim())
+        .diagnostics.filter((d) => d.severity === DiagnosticSeverity.Hint)
+        .map((d) => `${d.code} ${d.start.line}:${d.start.column}: ${d.message}`);
+
+    it('should hint at unused variables, parameters, constants and types', () => {
+      const source = `
+MAIN MODULE Test;
+CONST Limit = 10;
+CONST Unused = 0;
+TYPE Color = (Red, Green);
+TYPE Shade = INTEGER;
+PROCEDURE Count(IN start : INTEGER; IN step : INTEGER) : INTEGER;
+CONST Local = 1;
+VAR i, total, spare : INTEGER;
+BEGIN
+  total := start;
+  FOR i := 1 TO Limit
+    INC(total);
+  END FOR;
+  IF Green = Red
+    RETURN 0;
+  END IF;
+  RETURN total;
+END PROCEDURE;
+END MODULE.
+      `;
+
+      expect(unusedOf(source)).toEqual([
+        "unused-parameter 6:40: Parameter 'step' is declared but never used",
+        "unused-constant 7:7: Constant 'Local' is declared but never used",
+        "unused-variable 8:15: Variable 'spare' is declared but never used",
+        "unused-constant 3:7: Constant 'Unused' is declared but never used",
+        "unused-type 5:6: Type 'Shade' is declared but never used",
+      ]);
+
+      const hint = analyze(source.trim()).diagnostics.find((d) => d.severity === DiagnosticSeverity.Hint);
+      expect(hint?.tags).toEqual([DiagnosticTag.Unnecessary]);
+      expect(hint?.end.column).toBe(44);
+    });
+
+    it('should hint at PRIVATE fields and methods no method uses', () => {
+      expect(unusedOf(`
+MAIN MODULE Test;
+TYPE
+  PartObj = OBJECT
+    ASK METHOD Serial() : INTEGER;
+  PRIVATE
+    serial, spare, checked : INTEGER;
+    ASK METHOD Next() : INTEGER;
+    ASK METHOD Unused;
+  END OBJECT;
+OBJECT PartObj;
+  ASK METHOD Serial() : INTEGER;
+  BEGIN
+    checked := 1;
+    RETURN SELF.serial + ASK SELF TO Next();
+  END METHOD;
+  ASK METHOD Next() : INTEGER;
+  BEGIN
+    RETURN 1;
+  END METHOD;
+  ASK METHOD Unused;
+  BEGIN
+  END METHOD;
+END OBJECT;
+END MODULE.
+      `)).toEqual([
+        "unused-field 6:13: Private field 'spare' is declared but never used",
+        "unused-method 8:16: Private method 'Unused' is declared but never used",
+      ]);
+    });
+
+    it('should resolve and count PRIVATE methods called by bare name inside their object', () => {
+      const source = `
+MAIN MODULE Test;
+TYPE
+  PartObj = OBJECT
+    ASK METHOD Serial() : INTEGER;
+  PRIVATE
+    ASK METHOD Hidden(IN n : INTEGER) : INTEGER;
+    TELL METHOD Kick;
+  END OBJECT;
+OBJECT PartObj;
+  ASK METHOD Serial() : INTEGER;
+  BEGIN
+    Kick;
+    RETURN Hidden(1) + Hidden("one");
+  END METHOD;
+  ASK METHOD Hidden(IN n : INTEGER) : INTEGER;
+  BEGIN
+    RETURN n;
+  END METHOD;
+  TELL METHOD Kick;
+  BEGIN
+  END METHOD;
+END OBJECT;
+END MODULE.
+      `;
+      expect(unusedOf(source)).toEqual([]);
+      expect(analyze(source.trim()).diagnostics.map((d) => d.message)).toEqual([
+        "Argument 1 type mismatch in method 'Hidden': expected INTEGER but got STRING",
+      ]);
+    });
+
+    it('should hint at imports that are never used', () => {
+      expect(unusedOf(`
+MAIN MODULE Test;
+FROM Queues IMPORT QueueObj, StackObj;
+FROM Util IMPORT Log;
+VAR q : QueueObj;
+END MODULE.
+      `)).toEqual([
+        "unused-import 2:30: 'StackObj' is imported from Queues but never used",
+        "unused-import 3:18: 'Log' is imported from Util but never used",
+      ]);
+    });
+
+    it('should count the arguments of builtin and unresolved calls as used', () => {
+      expect(unusedOf(`
+MAIN MODULE Test;
+CONST MAXV = 10;
+PROCEDURE Report(IN x : INTEGER; IN z : INTEGER; IN w : INTEGER);
+BEGIN
+  OUTPUT(MAXV, z);
+  Log(x);
+  ASK monitor TO Show(w);
+END PROCEDURE;
+END MODULE.
+      `)).toEqual([]);
+    });
+
+    it('should not hint at the declarations of DEFINITION modules', () => {
+      expect(unusedOf(`
+DEFINITION MODULE Test;
+FROM Util IMPORT Log;
+CONST Limit = 10;
+TYPE Shade = INTEGER;
+PROCEDURE Count(IN start : INTEGER) : INTEGER;
+END MODULE.
+      `)).toEqual([]);
+    });
+  });
+
   describe('Error Detection', () => {
     it('should detect duplicate symbol definitions', () => {
       const source = `
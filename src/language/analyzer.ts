@@ -22,7 +22,11 @@ import type {
   EnumType,
   SubrangeType,
   PointerType,
+  ImportStatement,
+  ASTNode,
+  Position,
 } from './ast';
+import { TokenType, getDeclarationSignature } from './ast';
 
 import {
   Type,
@@ -37,13 +41,19 @@ import {
   MethodInfo,
   ParameterInfo,
   FieldInfo,
+  MemberInfo,
+  ImportedTypeReference,
   isAssignable,
+  isPrimitiveType,
+  getMembers,
+  getMemberType,
   getBinaryOpResultType,
   getUnaryOpResultType,
 } from './types';
 
 import {
   SymbolTable,
+  Scope,
   ScopeKind,
   SymbolKind,
   AnySymbol,
@@ -53,20 +63,63 @@ import {
   VarSymbol,
   ParameterSymbol,
   ProcedureSymbol,
+  MethodSymbol,
+  FieldSymbol,
+  EnumValueSymbol,
 } from './symbols';
 
-import { Diagnostic, DiagnosticSeverity } from './diagnostics';
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag } from './diagnostics';
+import { buildControlFlowGraph, findReadsBeforeAssignment, CallSite } from './controlFlow';
+import type { DocComments } from './docComments';
 
 /**
  * Semantic Analyzer - performs semantic analysis on AST
  */
 interface DeclaredSymbol {
-  name: string;
-  kind: SymbolKind;
-  declaration: { line: number; column: number; offset: number };
+  symbol: AnySymbol;
+  start: { line: number; column: number; offset: number }; // Span of the declared name
   end: { line: number; column: number; offset: number };
 }
 
+interface ImportedSymbol {
+  symbol: AnySymbol;
+  statement: ImportStatement;
+  index: number; // Position of the symbol in the import list
+}
+
+/**
+ * Analysis of a module, from which the analysis of its next version reuses the
+ * symbols, scopes and diagnostics of the top-level declarations left untouched
+ */
+export interface ModuleAnalysis {
+  module: Module;
+  resolvedModules: Map<string, SymbolTable | undefined>; // Workspace modules the analysis depended on
+  declarations: Map<Declaration, DeclarationAnalysis>;
+}
+
+/**
+ * What analyzing a top-level declaration added to the module
+ */
+interface DeclarationAnalysis {
+  origin: Position; // Start of the declaration when analyzed, which diagnostic positions are relative to
+  symbols: AnySymbol[]; // Defined in the module scope
+  scopes: Scope[]; // Opened in the module scope
+  diagnostics: Diagnostic[];
+  declared: DeclaredSymbol[]; // Module-level declarations tracked for unused warnings
+  usedSymbols: AnySymbol[]; // Symbols of the module scope, looked up again by name
+  usedMembers: Array<FieldInfo | MethodInfo>;
+}
+
+/**
+ * How unused declarations of each kind are reported
+ */
+const UNUSED_DECLARATIONS: Partial<Record<SymbolKind, { label: string; code: string }>> = {
+  [SymbolKind.VAR]: { label: 'Variable', code: 'unused-variable' },
+  [SymbolKind.PARAMETER]: { label: 'Parameter', code: 'unused-parameter' },
+  [SymbolKind.CONST]: { label: 'Constant', code: 'unused-constant' },
+  [SymbolKind.TYPE]: { label: 'Type', code: 'unused-type' },
+};
+
 export class SemanticAnalyzer {
   private symbolTable: SymbolTable;
   private diagnostics: Diagnostic[] = [];
@@ -79,9 +132,21 @@ export class SemanticAnalyzer {
     name: string;
     baseTypes: string[];
   };
-  private usedSymbols: Set<string> = new Set();
+  private loopDepth = 0; // Loops enclosing the current statement, which EXIT leaves
+  private importedModules = new Set<string>(); // Names usable as `Module.Symbol`
+  private unresolvedImports = new Map<string, string>(); // Module of each name imported without a workspace
+  private calledMethods = new Map<ASTNode, MethodInfo>(); // Methods of ASK/TELL statements and `obj.Method` callees
+  private usedSymbols = new Set<AnySymbol>();
+  private usedMembers = new Set<FieldInfo | MethodInfo>(); // PRIVATE fields and methods, by identity
+  private memberSymbols = new Map<AnySymbol, FieldInfo | MethodInfo>(); // Member of each symbol in an object scope
   private declaredSymbols: DeclaredSymbol[][] = []; // Stack of scopes
+  private importedSymbols: ImportedSymbol[] = [];
+  private definitionSymbols = new Set<AnySymbol>(); // Taken by an IMPLEMENTATION module from its DEFINITION module
   private workspaceResolver?: (moduleName: string) => SymbolTable | undefined;
+  private docComments?: DocComments;
+  private previousAnalysis?: ModuleAnalysis;
+  private analysis?: ModuleAnalysis;
+  private used?: { symbols: Set<AnySymbol>; members: Set<FieldInfo | MethodInfo> }; // Uses in the current top-level declaration
 
   constructor() {
     this.symbolTable = new SymbolTable();
@@ -95,6 +160,36 @@ export class SemanticAnalyzer {
     this.workspaceResolver = resolver;
   }
 
+  /**
+   * Set the doc comments of the analyzed source, attached to the symbols it declares
+   */
+  public setDocComments(docComments: DocComments): void {
+    this.docComments = docComments;
+  }
+
+  /**
+   * Set the analysis of the previous version of the module, whose untouched declarations
+   * are not analyzed again. Their scopes move to the new symbol table, so neither the
+   * previous analysis nor its symbol table may be used afterwards.
+   */
+  public setPreviousAnalysis(analysis: ModuleAnalysis): void {
+    this.previousAnalysis = analysis;
+  }
+
+  /**
+   * Get the analysis of the module, for reuse by the analysis of its next version
+   */
+  public getAnalysis(): ModuleAnalysis | undefined {
+    return this.analysis;
+  }
+
+  /**
+   * Get the doc comment of a declaration
+   */
+  private getDocumentation(node: ASTNode): string | undefined {
+    return this.docComments?.get(node);
+  }
+
   /**
    * Initialize built-in types in global scope
    */
@@ -115,9 +210,11 @@ export class SemanticAnalyzer {
    */
   public analyze(module: Module): Diagnostic[] {
     this.diagnostics = [];
+    this.analysis = { module, resolvedModules: new Map(), declarations: new Map() };
+    const reusable = this.getReusableDeclarations(module);
 
     // Enter module scope
-    this.symbolTable.enterScope(ScopeKind.MODULE, module.name);
+    this.symbolTable.enterScope(ScopeKind.MODULE, module.name, module);
 
     // Define module symbol
     const moduleSymbol: ModuleSymbol = {
@@ -125,15 +222,23 @@ export class SemanticAnalyzer {
       kind: SymbolKind.MODULE,
       type: { kind: TypeKind.VOID },
       declaration: module.start,
+      documentation: this.getDocumentation(module),
       moduleKind: module.kind,
       exports: new Set(),
     };
     this.symbolTable.globalScope.define(moduleSymbol);
 
+    // Declarations of DEFINITION modules are exported, so only those of others can be unused
+    if (module.kind !== 'DEFINITION') {
+      this.enterDeclarationScope();
+    }
+
     // For IMPLEMENTATION modules, automatically import all symbols from corresponding DEFINITION module
     if (module.kind === 'IMPLEMENTATION' && this.workspaceResolver) {
-      const defModuleSymbols = this.workspaceResolver(module.name);
-      if (defModuleSymbols) {
+      const defModuleSymbols = this.resolveModule(module.name);
+      // Without a DEFINITION module the name resolves to this module itself
+      const defModule = defModuleSymbols?.lookupGlobal(module.name);
+      if (defModuleSymbols && defModule?.kind === SymbolKind.MODULE && defModule.moduleKind === 'DEFINITION') {
         // Import all symbols from the DEFINITION module
         const allSymbols = defModuleSymbols.getAllSymbols();
         for (const symbol of allSymbols) {
@@ -141,6 +246,7 @@ export class SemanticAnalyzer {
           const builtins = ['INTEGER', 'REAL', 'BOOLEAN', 'STRING', 'CHAR', 'NUMBER', 'ANYOBJ'];
           if (!builtins.includes(symbol.name) && symbol.name !== module.name) {
             this.symbolTable.define(symbol);
+            this.definitionSymbols.add(symbol);
           }
         }
       }
@@ -149,9 +255,24 @@ export class SemanticAnalyzer {
     // Process imports
     this.analyzeImports(module);
 
-    // Process declarations
+    // Process declarations, reusing the analysis of those the edit left untouched
     for (const decl of module.declarations) {
-      this.analyzeDeclaration(decl);
+      const previous = reusable?.get(decl);
+      const analysis = previous ? this.reuseTopLevelDeclaration(decl, previous) : this.analyzeTopLevelDeclaration(decl);
+      this.analysis.declarations.set(decl, analysis);
+    }
+
+    // Process the main body
+    for (const stmt of module.mainBody ?? []) {
+      this.analyzeStatement(stmt);
+    }
+
+    // Every use has been seen: report what is never used. The imports of a DEFINITION
+    // module are also visible to its IMPLEMENTATION module.
+    if (module.kind !== 'DEFINITION') {
+      this.exitDeclarationScope();
+      this.checkUnusedImports();
+      this.checkUnusedPrivateMembers(module);
     }
 
     // Exit module scope
@@ -167,6 +288,177 @@ export class SemanticAnalyzer {
     return this.symbolTable;
   }
 
+  /**
+   * Get the previous analyses of the declarations that can be reused, if the module
+   * differs from the previous version only in PROCEDURE and OBJECT declarations
+   * with unchanged headings. Everything else can change what declarations mean.
+   */
+  private getReusableDeclarations(module: Module): Map<Declaration, DeclarationAnalysis> | undefined {
+    const previous = this.previousAnalysis;
+    if (
+      !previous ||
+      previous.module.kind !== module.kind ||
+      previous.module.name !== module.name ||
+      previous.module.imports !== module.imports ||
+      previous.module.declarations.length !== module.declarations.length
+    ) {
+      return undefined;
+    }
+
+    for (const [moduleName, symbols] of previous.resolvedModules) {
+      if (this.getStableResolution(moduleName, this.workspaceResolver?.(moduleName)) !== symbols) {
+        return undefined;
+      }
+    }
+
+    const reusable = new Map<Declaration, DeclarationAnalysis>();
+    for (const [i, decl] of module.declarations.entries()) {
+      const previousDecl = previous.module.declarations[i];
+      const analysis = previous.declarations.get(previousDecl);
+      if (!analysis) {
+        return undefined;
+      }
+
+      if (decl === previousDecl) {
+        reusable.set(decl, analysis);
+      } else if (
+        !(decl.type === 'ProcedureDeclaration' || decl.type === 'ObjectDeclaration') ||
+        decl.type !== previousDecl.type ||
+        getDeclarationSignature(decl) !== getDeclarationSignature(previousDecl) ||
+        // An OBJECT block without a TYPE defines one, which other declarations refer to
+        analysis.symbols.some((symbol) => symbol.kind !== SymbolKind.PROCEDURE)
+      ) {
+        return undefined;
+      }
+    }
+
+    return reusable;
+  }
+
+  /**
+   * Analyze a top-level declaration, recording what it adds to the module
+   */
+  private analyzeTopLevelDeclaration(decl: Declaration): DeclarationAnalysis {
+    const scope = this.symbolTable.currentScope;
+    const names = this.getDeclaredNames(decl);
+    const previousSymbols = names.map((name) => scope.lookupLocal(name));
+    const scopeCount = scope.children.length;
+    const diagnosticCount = this.diagnostics.length;
+    const declared = this.declaredSymbols[this.declaredSymbols.length - 1] ?? [];
+    const declaredCount = declared.length;
+
+    this.used = { symbols: new Set(), members: new Set() };
+    this.analyzeDeclaration(decl);
+    const used = this.used;
+    this.used = undefined;
+
+    const symbols: AnySymbol[] = [];
+    names.forEach((name, i) => {
+      const symbol = scope.lookupLocal(name);
+      if (symbol && symbol !== previousSymbols[i]) {
+        symbols.push(symbol);
+      }
+    });
+
+    return {
+      origin: { ...decl.start },
+      symbols,
+      scopes: scope.children.slice(scopeCount),
+      diagnostics: this.diagnostics.slice(diagnosticCount).map((d) => ({ ...d, start: { ...d.start }, end: { ...d.end } })),
+      declared: declared.slice(declaredCount).map((d) => ({ ...d, start: { ...d.start }, end: { ...d.end } })),
+      usedSymbols: [...used.symbols].filter((symbol) => scope.lookup(symbol.name) === symbol),
+      usedMembers: [...used.members],
+    };
+  }
+
+  /**
+   * Add the previous analysis of an untouched top-level declaration to the module,
+   * moving its diagnostics along with the declaration
+   */
+  private reuseTopLevelDeclaration(decl: Declaration, previous: DeclarationAnalysis): DeclarationAnalysis {
+    const scope = this.symbolTable.currentScope;
+    const move = (position: Position): Position => ({
+      line: position.line + decl.start.line - previous.origin.line,
+      column: position.line === previous.origin.line
+        ? position.column + decl.start.column - previous.origin.column
+        : position.column,
+      offset: position.offset + decl.start.offset - previous.origin.offset,
+    });
+
+    for (const symbol of previous.symbols) {
+      this.symbolTable.define(symbol);
+    }
+
+    for (const child of previous.scopes) {
+      child.parent = scope;
+      scope.children.push(child);
+      this.registerScopes(child);
+    }
+
+    const diagnostics = previous.diagnostics.map((d) => ({ ...d, start: move(d.start), end: move(d.end) }));
+    this.diagnostics.push(...diagnostics.map((d) => ({ ...d, start: { ...d.start }, end: { ...d.end } })));
+
+    const declared = previous.declared.map((d) => ({ ...d, start: move(d.start), end: move(d.end) }));
+    this.declaredSymbols[this.declaredSymbols.length - 1]?.push(...declared);
+
+    // Symbols of re-analyzed declarations are new, so uses are found again by name
+    for (const symbol of previous.usedSymbols) {
+      const current = scope.lookup(symbol.name);
+      if (current) {
+        this.markUsed(current);
+      }
+    }
+    for (const member of previous.usedMembers) {
+      this.usedMembers.add(member);
+    }
+
+    return { ...previous, origin: { ...decl.start }, diagnostics, declared };
+  }
+
+  /**
+   * Names a top-level declaration can define in the module scope
+   */
+  private getDeclaredNames(decl: Declaration): string[] {
+    switch (decl.type) {
+      case 'TypeDeclaration':
+        return decl.typeSpec.type === 'EnumType' ? [decl.name, ...decl.typeSpec.values] : [decl.name];
+      case 'VarDeclaration':
+        return decl.names;
+      default:
+        return [decl.name];
+    }
+  }
+
+  /**
+   * Make a reused scope and the scopes within it findable by name
+   */
+  private registerScopes(scope: Scope): void {
+    this.symbolTable.scopes.set(scope.name, scope);
+    for (const child of scope.children) {
+      this.registerScopes(child);
+    }
+  }
+
+  /**
+   * Resolve a module through the workspace, recording the result for the next analysis
+   */
+  private resolveModule(moduleName: string): SymbolTable | undefined {
+    const symbols = this.workspaceResolver?.(moduleName);
+    this.analysis?.resolvedModules.set(moduleName, this.getStableResolution(moduleName, symbols));
+    return symbols;
+  }
+
+  /**
+   * Without a DEFINITION module, the name of an IMPLEMENTATION module resolves to its own
+   * previous analysis, which changes every time but is never used
+   */
+  private getStableResolution(moduleName: string, symbols: SymbolTable | undefined): SymbolTable | undefined {
+    const module = symbols?.lookupGlobal(moduleName);
+    const isOwn = moduleName === this.analysis?.module.name
+      && !(module?.kind === SymbolKind.MODULE && module.moduleKind === 'DEFINITION');
+    return isOwn ? undefined : symbols;
+  }
+
   /**
    * Add a diagnostic
    */
@@ -174,13 +466,17 @@ export class SemanticAnalyzer {
     severity: DiagnosticSeverity,
     message: string,
     start: { line: number; column: number; offset: number },
-    end: { line: number; column: number; offset: number }
+    end: { line: number; column: number; offset: number },
+    code?: string,
+    data?: unknown
   ): void {
     this.diagnostics.push({
       severity,
       message,
       start,
       end,
+      code,
+      data,
     });
   }
 
@@ -194,8 +490,29 @@ export class SemanticAnalyzer {
   /**
    * Add a warning diagnostic
    */
-  private warning(message: string, start: any, end: any): void {
-    this.addDiagnostic(DiagnosticSeverity.Warning, message, start, end);
+  private warning(message: string, start: any, end: any, code?: string, data?: unknown): void {
+    this.addDiagnostic(DiagnosticSeverity.Warning, message, start, end, code, data);
+  }
+
+  /**
+   * Add a hint diagnostic for a declaration that is never used, which can be removed
+   */
+  private unnecessary(message: string, start: any, end: any, code: string): void {
+    this.diagnostics.push({
+      severity: DiagnosticSeverity.Hint,
+      message,
+      start,
+      end,
+      code,
+      tags: [DiagnosticTag.Unnecessary],
+    });
+  }
+
+  /**
+   * Get the end of a name starting at a position
+   */
+  private endOfName(start: Position, name: string): Position {
+    return { ...start, column: start.column + name.length, offset: start.offset + name.length };
   }
 
   /**
@@ -208,10 +525,10 @@ export class SemanticAnalyzer {
   /**
    * Track a declared symbol in the current scope
    */
-  private trackDeclaredSymbol(name: string, kind: SymbolKind, start: any, end: any): void {
+  private trackDeclaredSymbol(symbol: AnySymbol, start: Position): void {
     const currentScope = this.declaredSymbols[this.declaredSymbols.length - 1];
     if (currentScope) {
-      currentScope.push({ name, kind, declaration: start, end });
+      currentScope.push({ symbol, start, end: this.endOfName(start, symbol.name) });
     }
   }
 
@@ -222,24 +539,92 @@ export class SemanticAnalyzer {
     const currentScope = this.declaredSymbols.pop();
     if (!currentScope) return;
 
-    for (const symbol of currentScope) {
-      // Skip type declarations (they don't need to be "used")
-      if (symbol.kind === SymbolKind.TYPE || symbol.kind === SymbolKind.CONST) {
-        continue;
+    for (const { symbol, start, end } of currentScope) {
+      const unused = UNUSED_DECLARATIONS[symbol.kind];
+      if (unused && !this.usedSymbols.has(symbol)) {
+        this.unnecessary(`${unused.label} '${symbol.name}' is declared but never used`, start, end, unused.code);
       }
+    }
+  }
 
-      // Check if symbol was used
-      if (!this.usedSymbols.has(symbol.name)) {
-        const kindName = symbol.kind === SymbolKind.PARAMETER ? 'Parameter' : 'Variable';
-        this.warning(
-          `${kindName} '${symbol.name}' is declared but never used`,
-          symbol.declaration,
-          symbol.end
+  /**
+   * Report imported symbols that are never used
+   */
+  private checkUnusedImports(): void {
+    for (const { symbol, statement, index } of this.importedSymbols) {
+      const start = statement.symbolStarts?.[index];
+      if (start && !this.usedSymbols.has(symbol)) {
+        this.unnecessary(
+          `'${symbol.name}' is imported from ${statement.moduleName} but never used`,
+          start,
+          this.endOfName(start, symbol.name),
+          'unused-import'
         );
       }
     }
   }
 
+  /**
+   * Report PRIVATE fields and methods of the object types of the module that are never used
+   */
+  private checkUnusedPrivateMembers(module: Module): void {
+    for (const decl of module.declarations) {
+      if (decl.type !== 'TypeDeclaration' || decl.typeSpec.type !== 'ObjectType') continue;
+      const symbol = this.symbolTable.lookupLocal(decl.name);
+      if (symbol?.kind !== SymbolKind.TYPE || symbol.type.kind !== TypeKind.OBJECT) continue;
+      const objectType = symbol.type as SemanticObjectType;
+
+      for (const field of decl.typeSpec.fields.filter((f) => f.isPrivate)) {
+        field.names.forEach((name, i) => {
+          const info = objectType.privateFields?.get(name);
+          const start = field.nameStarts?.[i] ?? field.start;
+          if (info && !this.usedMembers.has(info)) {
+            this.unnecessary(`Private field '${name}' is declared but never used`, start, this.endOfName(start, name), 'unused-field');
+          }
+        });
+      }
+
+      for (const method of decl.typeSpec.methods.filter((m) => m.isPrivate)) {
+        const info = objectType.privateMethods?.get(method.name);
+        const start = method.nameStart ?? method.start;
+        if (info && !this.usedMembers.has(info)) {
+          this.unnecessary(
+            `Private method '${method.name}' is declared but never used`,
+            start,
+            this.endOfName(start, method.name),
+            'unused-method'
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Mark a symbol as used, along with the enumeration of a value and the member of an object-scope symbol
+   */
+  private markUsed(symbol: AnySymbol): void {
+    this.usedSymbols.add(symbol);
+    this.used?.symbols.add(symbol);
+    if (symbol.kind === SymbolKind.ENUM_VALUE) {
+      const enumType = this.symbolTable.lookup(symbol.enumType);
+      if (enumType) {
+        this.usedSymbols.add(enumType);
+      }
+    }
+    const member = this.memberSymbols.get(symbol);
+    if (member) {
+      this.markMemberUsed(member);
+    }
+  }
+
+  /**
+   * Mark a field or method as used, for reporting unused PRIVATE members
+   */
+  private markMemberUsed(member: FieldInfo | MethodInfo): void {
+    this.usedMembers.add(member);
+    this.used?.members.add(member);
+  }
+
   /**
    * Add a warning diagnostic
    */
@@ -252,19 +637,32 @@ export class SemanticAnalyzer {
    */
   private analyzeImports(module: Module): void {
     for (const importStmt of module.imports) {
+      this.importedModules.add(importStmt.moduleName);
+
       // Use workspace resolver to get symbols from imported module
       if (this.workspaceResolver && importStmt.moduleName) {
-        const importedModuleSymbols = this.workspaceResolver(importStmt.moduleName);
+        const importedModuleSymbols = this.resolveModule(importStmt.moduleName);
 
         if (importedModuleSymbols) {
           // Import the requested symbols from the module
-          for (const symbolImport of importStmt.symbols) {
+          for (const [index, symbolImport] of importStmt.symbols.entries()) {
             // Use lookupGlobal() because after analysis completes, currentScope
             // has exited the MODULE scope where symbols were defined
             const symbol = importedModuleSymbols.lookupGlobal(symbolImport.name);
             if (symbol) {
               // Add imported symbol to current scope
               this.symbolTable.define(symbol);
+              this.importedSymbols.push({ symbol, statement: importStmt, index });
+
+              // Importing an enumeration type imports its values
+              if (symbol.kind === SymbolKind.TYPE && symbol.type.kind === TypeKind.ENUM) {
+                for (const value of (symbol.type as SemanticEnumType).values) {
+                  const valueSymbol = importedModuleSymbols.lookupGlobal(value);
+                  if (valueSymbol?.kind === SymbolKind.ENUM_VALUE) {
+                    this.symbolTable.define(valueSymbol);
+                  }
+                }
+              }
             } else {
               // Symbol not found in imported module
               this.error(
@@ -284,7 +682,8 @@ export class SemanticAnalyzer {
         }
       } else {
         // No workspace resolver - create placeholder symbols
-        for (const symbol of importStmt.symbols) {
+        for (const [index, symbol] of importStmt.symbols.entries()) {
+          this.unresolvedImports.set(symbol.name, importStmt.moduleName);
           const importedSymbol: AnySymbol = {
             name: symbol.name,
             kind: SymbolKind.VAR,
@@ -292,6 +691,7 @@ export class SemanticAnalyzer {
             declaration: importStmt.start,
           };
           this.symbolTable.define(importedSymbol);
+          this.importedSymbols.push({ symbol: importedSymbol, statement: importStmt, index });
         }
       }
     }
@@ -326,6 +726,11 @@ export class SemanticAnalyzer {
   private analyzeTypeDeclaration(decl: TypeDeclaration): void {
     const type = this.resolveTypeSpec(decl.typeSpec);
 
+    // Records and objects are named by their declaration, for messages and assignability
+    if ((type.kind === TypeKind.RECORD || type.kind === TypeKind.OBJECT) && !type.name) {
+      type.name = decl.name;
+    }
+
     // Check if already defined
     if (this.symbolTable.lookupLocal(decl.name)) {
       this.error(`Type '${decl.name}' is already defined`, decl.start, decl.end);
@@ -338,8 +743,25 @@ export class SemanticAnalyzer {
       kind: SymbolKind.TYPE,
       type,
       declaration: decl.start,
+      documentation: this.getDocumentation(decl),
     };
     this.symbolTable.define(symbol);
+    this.trackDeclaredSymbol(symbol, decl.nameStart ?? decl.start);
+
+    // The values of an enumeration are visible alongside its type
+    if (decl.typeSpec.type === 'EnumType') {
+      decl.typeSpec.values.forEach((value, i) => {
+        const valueSymbol: EnumValueSymbol = {
+          name: value,
+          kind: SymbolKind.ENUM_VALUE,
+          type,
+          enumType: decl.name,
+          value: i,
+          declaration: (decl.typeSpec as EnumType).valueStarts?.[i] ?? decl.start,
+        };
+        this.symbolTable.define(valueSymbol);
+      });
+    }
   }
 
   /**
@@ -361,8 +783,10 @@ export class SemanticAnalyzer {
       kind: SymbolKind.CONST,
       type: valueType,
       declaration: decl.start,
+      documentation: this.getDocumentation(decl),
     };
     this.symbolTable.define(symbol);
+    this.trackDeclaredSymbol(symbol, decl.nameStart ?? decl.start);
   }
 
   /**
@@ -371,7 +795,7 @@ export class SemanticAnalyzer {
   private analyzeVarDeclaration(decl: VarDeclaration): void {
     const varType = this.resolveTypeSpec(decl.valueType);
 
-    for (const name of decl.names) {
+    for (const [i, name] of decl.names.entries()) {
       // Check if already defined in current scope
       if (this.symbolTable.lookupLocal(name)) {
         this.error(`Variable '${name}' is already defined`, decl.start, decl.end);
@@ -384,9 +808,14 @@ export class SemanticAnalyzer {
         kind: SymbolKind.VAR,
         type: varType,
         declaration: decl.start,
+        documentation: this.getDocumentation(decl),
       };
       this.symbolTable.define(symbol);
-      this.trackDeclaredSymbol(name, SymbolKind.VAR, decl.start, decl.end);
+
+      // Variables of the module and of objects can be used by other modules and methods
+      if (this.currentProcedure) {
+        this.trackDeclaredSymbol(symbol, decl.nameStarts?.[i] ?? decl.start);
+      }
     }
   }
 
@@ -394,8 +823,9 @@ export class SemanticAnalyzer {
    * Analyze a procedure declaration
    */
   private analyzeProcedureDeclaration(decl: ProcedureDeclaration): void {
-    // Check if already defined
-    if (this.symbolTable.lookupLocal(decl.name)) {
+    // Check if already defined, other than by the DEFINITION module whose procedure this implements
+    const existing = this.symbolTable.lookupLocal(decl.name);
+    if (existing && !(existing.kind === SymbolKind.PROCEDURE && this.definitionSymbols.has(existing))) {
       this.error(`Procedure '${decl.name}' is already defined`, decl.start, decl.end);
       return;
     }
@@ -411,7 +841,7 @@ export class SemanticAnalyzer {
     };
 
     // Enter procedure scope
-    const procScope = this.symbolTable.enterScope(ScopeKind.PROCEDURE, decl.name);
+    const procScope = this.symbolTable.enterScope(ScopeKind.PROCEDURE, decl.name, decl);
     this.enterDeclarationScope(); // Start tracking declarations for unused warnings
 
     // Analyze parameters
@@ -427,10 +857,15 @@ export class SemanticAnalyzer {
         mode: param.mode,
         index: i,
         declaration: param.start,
+        documentation: this.getDocumentation(param),
       };
       parameters.push(paramSymbol);
       this.symbolTable.define(paramSymbol);
-      this.trackDeclaredSymbol(param.name, SymbolKind.PARAMETER, param.start, param.end);
+
+      // Forward declarations and procedures of DEFINITION modules have no body to use them in
+      if (!decl.isForward) {
+        this.trackDeclaredSymbol(paramSymbol, param.nameStart ?? param.start);
+      }
     }
 
     // Analyze local declarations
@@ -444,6 +879,7 @@ export class SemanticAnalyzer {
     for (const stmt of decl.body) {
       this.analyzeStatement(stmt);
     }
+    this.analyzeControlFlow(decl, returnType);
 
     // Exit procedure scope and check for unused symbols
     this.exitDeclarationScope();
@@ -461,6 +897,7 @@ export class SemanticAnalyzer {
       returnType,
       localScope: procScope,
       declaration: decl.start,
+      documentation: this.getDocumentation(decl),
     };
     this.symbolTable.currentScope.define(procSymbol);
   }
@@ -475,8 +912,11 @@ export class SemanticAnalyzer {
     // Get base types from the AST node
     const baseTypes: string[] = decl.baseTypes || [];
 
-    // Look up the TYPE definition
+    // Look up the TYPE definition, which its implementation counts as a use of
     let typeSymbol = this.symbolTable.lookup(decl.name);
+    if (typeSymbol) {
+      this.markUsed(typeSymbol);
+    }
 
     // If no TYPE exists, create one from the OBJECT declaration
     if (!typeSymbol) {
@@ -485,7 +925,7 @@ export class SemanticAnalyzer {
       for (const field of decl.fields) {
         const fieldType = this.resolveTypeSpec(field.valueType);
         for (const name of field.names) {
-          fields.set(name, { type: fieldType });
+          fields.set(name, { type: fieldType, documentation: this.getDocumentation(field) });
         }
       }
 
@@ -496,6 +936,7 @@ export class SemanticAnalyzer {
           name: p.name,
           type: this.resolveTypeSpec(p.valueType),
           mode: p.mode,
+          documentation: this.getDocumentation(p),
         }));
         const returnType = method.returnType ? this.resolveTypeSpec(method.returnType) : undefined;
 
@@ -504,12 +945,14 @@ export class SemanticAnalyzer {
           parameters,
           returnType,
           isOverride: method.isOverride || false,
+          documentation: this.getDocumentation(method),
         });
       }
 
       // Create the object type
       const objectType: SemanticObjectType = {
         kind: TypeKind.OBJECT,
+        name: decl.name,
         fields,
         methods,
         baseTypes: [],
@@ -521,25 +964,53 @@ export class SemanticAnalyzer {
         kind: SymbolKind.TYPE,
         type: objectType,
         declaration: decl.start,
+        documentation: this.getDocumentation(decl),
       };
       this.symbolTable.define(typeSymbol);
     }
 
     // Enter object scope
-    this.symbolTable.enterScope(ScopeKind.OBJECT, decl.name);
+    this.symbolTable.enterScope(ScopeKind.OBJECT, decl.name, decl);
 
-    // Add fields from the type definition to the current scope
+    // Add fields and methods from the type definition to the current scope, so the methods
+    // can use them by bare name
     if (typeSymbol.kind === SymbolKind.TYPE && typeSymbol.type.kind === TypeKind.OBJECT) {
       const objectType = typeSymbol.type as SemanticObjectType;
 
-      for (const [fieldName, fieldInfo] of objectType.fields.entries()) {
-        const fieldSymbol: VarSymbol = {
-          name: fieldName,
-          kind: SymbolKind.VAR,
-          type: fieldInfo.type,
-          declaration: { line: 0, column: 0, offset: 0 }, // From type definition
-        };
-        this.symbolTable.define(fieldSymbol);
+      const { members } = getMembers(objectType, (reference) => this.resolveImportedType(reference));
+      for (const { name: memberName, field: fieldInfo, method: methodInfo } of members.values()) {
+        if (fieldInfo) {
+          const fieldSymbol: VarSymbol = {
+            name: memberName,
+            kind: SymbolKind.VAR,
+            type: fieldInfo.type,
+            declaration: { line: 0, column: 0, offset: 0 }, // From type definition
+          };
+          this.symbolTable.define(fieldSymbol);
+          this.memberSymbols.set(fieldSymbol, fieldInfo);
+        } else if (methodInfo) {
+          const methodSymbol: MethodSymbol = {
+            name: memberName,
+            kind: SymbolKind.METHOD,
+            type: methodInfo.returnType ?? { kind: TypeKind.VOID },
+            methodType: methodInfo.methodType,
+            parameters: methodInfo.parameters.map((param, index) => ({
+              name: param.name,
+              kind: SymbolKind.PARAMETER,
+              type: param.type,
+              mode: param.mode,
+              index,
+              declaration: { line: 0, column: 0, offset: 0 },
+              documentation: param.documentation,
+            })),
+            returnType: methodInfo.returnType,
+            isOverride: methodInfo.isOverride,
+            declaration: { line: 0, column: 0, offset: 0 }, // From type definition
+            documentation: methodInfo.documentation,
+          };
+          this.symbolTable.define(methodSymbol);
+          this.memberSymbols.set(methodSymbol, methodInfo);
+        }
       }
     }
 
@@ -641,7 +1112,7 @@ export class SemanticAnalyzer {
     };
 
     // Enter method scope
-    this.symbolTable.enterScope(ScopeKind.PROCEDURE, method.name);
+    this.symbolTable.enterScope(ScopeKind.PROCEDURE, method.name, method);
     this.enterDeclarationScope(); // Start tracking declarations for unused warnings
 
     // Analyze parameters
@@ -666,15 +1137,26 @@ export class SemanticAnalyzer {
         mode: param.mode,
         index: i,
         declaration: param.start,
+        documentation: this.getDocumentation(param),
       };
       this.symbolTable.define(paramSymbol);
-      this.trackDeclaredSymbol(param.name, SymbolKind.PARAMETER, param.start, param.end);
+      if (!method.isForward) {
+        this.trackDeclaredSymbol(paramSymbol, param.nameStart ?? param.start);
+      }
+    }
+
+    // Analyze local declarations
+    if (method.localDeclarations) {
+      for (const localDecl of method.localDeclarations) {
+        this.analyzeDeclaration(localDecl);
+      }
     }
 
     // Analyze method body
     for (const stmt of method.body) {
       this.analyzeStatement(stmt);
     }
+    this.analyzeControlFlow(method, returnType);
 
     // Exit method scope and check for unused symbols
     this.exitDeclarationScope();
@@ -684,6 +1166,51 @@ export class SemanticAnalyzer {
     this.currentProcedure = previousProcedure;
   }
 
+  /**
+   * Check the control flow of a procedure or method body, in its scope
+   * Reports unreachable statements, missing RETURNs, and local variables and OUT parameters
+   * read before they are definitely assigned.
+   */
+  private analyzeControlFlow(routine: ProcedureDeclaration | MethodDeclaration, returnType: Type): void {
+    // Forward declarations and NONMODSIM procedures have no body; an empty one still has to RETURN
+    if (routine.isForward) {
+      return;
+    }
+
+    const graph = buildControlFlowGraph(routine.body, (call) => this.getParameterModes(call));
+
+    for (const stmt of graph.unreachable) {
+      this.warning('Unreachable code', stmt.start, stmt.end);
+    }
+
+    const methodType = routine.type === 'MethodDeclaration' ? routine.methodType : undefined;
+    if (graph.fallsOffEnd && returnType.kind !== TypeKind.VOID && methodType !== 'TELL') {
+      const kindName = methodType ? `${methodType} method` : 'Procedure';
+      const start = routine.nameStart ?? routine.start;
+      this.error(`${kindName} '${routine.name}' can reach its end without a RETURN`, start, this.endOfName(start, routine.name));
+    }
+
+    const outParameters = routine.parameters.filter((p) => p.mode === 'OUT').map((p) => p.name);
+    const locals = (routine.localDeclarations ?? []).flatMap((d) => (d.type === 'VarDeclaration' ? d.names : []));
+    for (const read of findReadsBeforeAssignment(graph, new Set([...locals, ...outParameters]))) {
+      const kind = outParameters.includes(read.name) ? 'OUT parameter' : 'Variable';
+      this.warning(`${kind} '${read.name}' is read before it is definitely assigned`, read.start, read.end);
+    }
+  }
+
+  /**
+   * Get the parameter modes of a procedure or method call, if its callee is known
+   */
+  private getParameterModes(call: CallSite): Array<'IN' | 'OUT' | 'INOUT'> | undefined {
+    if (call.type === 'CallExpression' && call.callee.type === 'IdentifierExpression') {
+      const symbol = this.symbolTable.lookup(call.callee.name);
+      return symbol?.kind === SymbolKind.PROCEDURE ? symbol.parameters.map((p) => p.mode) : undefined;
+    }
+
+    const method = this.calledMethods.get(call.type === 'CallExpression' ? call.callee : call);
+    return method?.parameters.map((p) => p.mode);
+  }
+
   /**
    * Analyze a statement
    */
@@ -707,14 +1234,59 @@ export class SemanticAnalyzer {
       case 'ForStatement':
         this.analyzeForStatement(stmt as any);
         break;
+      case 'ForeachStatement':
+        this.analyzeForeachStatement(stmt as any);
+        break;
+      case 'CaseStatement':
+        this.analyzeCaseStatement(stmt as any);
+        break;
+      case 'LoopStatement':
+        this.analyzeLoopBody(stmt.body);
+        break;
+      case 'RepeatUntilStatement':
+        this.analyzeRepeatUntilStatement(stmt as any);
+        break;
       case 'WaitStatement':
         this.analyzeWaitStatement(stmt as any);
         break;
       case 'ReturnStatement':
         this.analyzeReturnStatement(stmt as any);
         break;
-      // TODO: Implement other statement types
+      case 'WithStatement':
+        this.analyzeWithStatement(stmt as any);
+        break;
+      case 'IncStatement':
+      case 'DecStatement':
+        this.analyzeIncDecStatement(stmt as any);
+        break;
+      case 'ExitStatement':
+        if (this.loopDepth === 0) {
+          this.error('EXIT statement outside of a loop', stmt.start, stmt.end);
+        }
+        break;
+      case 'TerminateStatement':
+        // TERMINATE ends the process running a TELL method, which ASK methods don't have
+        if (this.currentProcedure && this.currentProcedure.methodType === 'ASK') {
+          this.error('TERMINATE statement is not allowed in ASK methods', stmt.start, stmt.end);
+        }
+        break;
+      case 'BlockStatement':
+        for (const s of stmt.statements) {
+          this.analyzeStatement(s);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Analyze the body of a loop, where EXIT is allowed
+   */
+  private analyzeLoopBody(body: Statement[]): void {
+    this.loopDepth++;
+    for (const s of body) {
+      this.analyzeStatement(s);
     }
+    this.loopDepth--;
   }
 
   /**
@@ -724,7 +1296,7 @@ export class SemanticAnalyzer {
     const targetType = this.inferExpressionType(stmt.target);
     const valueType = this.inferExpressionType(stmt.value);
 
-    if (!isAssignable(targetType, valueType)) {
+    if (!this.isAssignable(targetType, valueType)) {
       this.error(
         `Cannot assign ${valueType.kind} to ${targetType.kind}`,
         stmt.start,
@@ -737,21 +1309,32 @@ export class SemanticAnalyzer {
    * Analyze an ASK statement
    */
   private analyzeAskStatement(stmt: any): void {
-    const objectType = this.inferExpressionType(stmt.object);
+    const objectType = this.inferReceiverType(stmt.object);
 
     if (objectType.kind === TypeKind.OBJECT) {
-      const objType = objectType as SemanticObjectType;
-      const method = objType.methods.get(stmt.method);
+      const { members, complete } = getMembers(objectType, (reference) => this.resolveImportedType(reference));
+      const member = members.get(stmt.method);
+      const method = member?.method;
 
-      if (!method) {
-        this.error(
-          `Method '${stmt.method}' not found in object type`,
-          stmt.start,
-          stmt.end
-        );
+      if (!member || !method) {
+        // Methods of base types from modules that could not be resolved may be the one
+        if (complete) {
+          this.error(
+            `Method '${stmt.method}' not found in object type`,
+            stmt.start,
+            stmt.end
+          );
+        }
+        this.inferArgumentTypes(stmt.arguments);
         return;
       }
 
+      if (member.isPrivate) {
+        this.findAccessibleMember(objectType, stmt.method, stmt.start, stmt.end);
+      }
+      this.calledMethods.set(stmt, method);
+      this.markMemberUsed(method);
+
       // Validate it's an ASK method
       if (method.methodType !== 'ASK') {
         this.error(
@@ -763,6 +1346,8 @@ export class SemanticAnalyzer {
 
       // Check argument count and types
       this.checkMethodArguments(stmt.method, method, stmt.arguments, stmt.start, stmt.end);
+    } else {
+      this.inferArgumentTypes(stmt.arguments);
     }
   }
 
@@ -770,21 +1355,32 @@ export class SemanticAnalyzer {
    * Analyze a TELL statement
    */
   private analyzeTellStatement(stmt: any): void {
-    const objectType = this.inferExpressionType(stmt.object);
+    const objectType = this.inferReceiverType(stmt.object);
 
     if (objectType.kind === TypeKind.OBJECT) {
-      const objType = objectType as SemanticObjectType;
-      const method = objType.methods.get(stmt.method);
+      const { members, complete } = getMembers(objectType, (reference) => this.resolveImportedType(reference));
+      const member = members.get(stmt.method);
+      const method = member?.method;
 
-      if (!method) {
-        this.error(
-          `Method '${stmt.method}' not found in object type`,
-          stmt.start,
-          stmt.end
-        );
+      if (!member || !method) {
+        // Methods of base types from modules that could not be resolved may be the one
+        if (complete) {
+          this.error(
+            `Method '${stmt.method}' not found in object type`,
+            stmt.start,
+            stmt.end
+          );
+        }
+        this.inferArgumentTypes(stmt.arguments);
         return;
       }
 
+      if (member.isPrivate) {
+        this.findAccessibleMember(objectType, stmt.method, stmt.start, stmt.end);
+      }
+      this.calledMethods.set(stmt, method);
+      this.markMemberUsed(method);
+
       // Validate it's a TELL method
       if (method.methodType !== 'TELL') {
         this.error(
@@ -796,6 +1392,8 @@ export class SemanticAnalyzer {
 
       // Check argument count and types
       this.checkMethodArguments(stmt.method, method, stmt.arguments, stmt.start, stmt.end);
+    } else {
+      this.inferArgumentTypes(stmt.arguments);
     }
   }
 
@@ -825,7 +1423,7 @@ export class SemanticAnalyzer {
       const argType = this.inferExpressionType(args[i]);
       const paramType = method.parameters[i].type;
 
-      if (!isAssignable(paramType, argType)) {
+      if (!this.isAssignable(paramType, argType)) {
         this.error(
           `Argument ${i + 1} type mismatch in method '${methodName}': expected ${this.formatType(paramType)} but got ${this.formatType(argType)}`,
           args[i].start,
@@ -833,6 +1431,17 @@ export class SemanticAnalyzer {
         );
       }
     }
+    this.inferArgumentTypes(args.slice(expectedCount));
+  }
+
+  /**
+   * Infer the types of arguments that are not checked against a parameter,
+   * so that the names they read still count as used
+   */
+  private inferArgumentTypes(args: Expression[]): void {
+    for (const arg of args) {
+      this.inferExpressionType(arg);
+    }
   }
 
   /**
@@ -865,6 +1474,44 @@ export class SemanticAnalyzer {
     }
   }
 
+  /**
+   * Analyze a WITH statement
+   * The fields of the record are visible unqualified in a scope of their own.
+   */
+  private analyzeWithStatement(stmt: any): void {
+    const recordType = this.inferExpressionType(stmt.record);
+
+    this.symbolTable.enterScope(ScopeKind.BLOCK, 'WITH', stmt);
+
+    let fields: Map<string, FieldInfo> | undefined;
+    if (recordType.kind === TypeKind.RECORD) {
+      fields = (recordType as SemanticRecordType).fields;
+    } else if (recordType.kind === TypeKind.OBJECT) {
+      fields = (recordType as SemanticObjectType).fields;
+    } else if (recordType.kind !== TypeKind.UNKNOWN && recordType.kind !== TypeKind.ERROR) {
+      this.error(`WITH requires a record or object but got ${this.formatType(recordType)}`, stmt.record.start, stmt.record.end);
+    }
+    for (const [fieldName, fieldInfo] of fields ?? []) {
+      const fieldSymbol: FieldSymbol = {
+        name: fieldName,
+        kind: SymbolKind.FIELD,
+        type: fieldInfo.type,
+        declaration: stmt.record.start,
+        documentation: fieldInfo.documentation,
+      };
+      this.symbolTable.define(fieldSymbol);
+    }
+
+    // Without the fields of the record, its body can't be checked
+    if (fields) {
+      for (const s of stmt.body) {
+        this.analyzeStatement(s);
+      }
+    }
+
+    this.symbolTable.exitScope();
+  }
+
   /**
    * Analyze a while statement
    */
@@ -874,19 +1521,285 @@ export class SemanticAnalyzer {
       this.error('WHILE condition must be BOOLEAN', stmt.start, stmt.end);
     }
 
-    for (const s of stmt.body) {
-      this.analyzeStatement(s);
-    }
+    this.analyzeLoopBody(stmt.body);
   }
 
   /**
    * Analyze a for statement
    */
   private analyzeForStatement(stmt: any): void {
-    // TODO: Full FOR statement analysis
-    for (const s of stmt.body) {
+    const variableType = this.inferIdentifierType({
+      name: stmt.variable,
+      start: stmt.variableStart ?? stmt.start,
+      end: stmt.variableStart ?? stmt.start,
+    });
+    const boundTypes = [stmt.from, stmt.to].map((bound) => this.inferExpressionType(bound));
+    const stepType = stmt.step ? this.inferExpressionType(stmt.step) : undefined;
+
+    if (!this.isOrdinalType(variableType)) {
+      this.error(
+        `FOR variable '${stmt.variable}' must be INTEGER, CHAR or an enumeration but got ${this.formatType(variableType)}`,
+        stmt.start,
+        stmt.end
+      );
+    } else {
+      [stmt.from, stmt.to].forEach((bound, i) => {
+        if (!this.isAssignable(variableType, boundTypes[i])) {
+          this.error(
+            `FOR bound must be ${this.formatType(variableType)} but got ${this.formatType(boundTypes[i])}`,
+            bound.start,
+            bound.end
+          );
+        }
+      });
+    }
+
+    // The step counts positions, whatever the type of the loop variable
+    if (stepType && !this.isAssignable(BUILTIN_TYPES.get('INTEGER')!, stepType)) {
+      this.error(`FOR step must be INTEGER but got ${this.formatType(stepType)}`, stmt.step.start, stmt.step.end);
+    }
+    this.analyzeLoopBody(stmt.body);
+  }
+
+  /**
+   * Analyze a FOREACH statement
+   * The loop variable must be able to hold the elements of an array, or of a collection object
+   * whose base type substitutes their type for ANYOBJ. The elements of other collection objects
+   * (queues, lists) are not typed, so any object variable will do.
+   */
+  private analyzeForeachStatement(stmt: any): void {
+    const collectionType = this.inferExpressionType(stmt.collection);
+    const variableType = this.inferIdentifierType({
+      name: stmt.variable,
+      start: stmt.variableStart ?? stmt.start,
+      end: stmt.variableStart ?? stmt.start,
+    });
+
+    const elementType = collectionType.kind === TypeKind.ARRAY
+      ? (collectionType as SemanticArrayType).elementType
+      : collectionType.kind === TypeKind.OBJECT ? (collectionType as SemanticObjectType).elementType : undefined;
+    if (elementType) {
+      if (!this.isAssignable(variableType, elementType)) {
+        this.error(
+          `FOREACH variable '${stmt.variable}' of type ${this.formatType(variableType)} cannot hold elements of type ${this.formatType(elementType)}`,
+          stmt.start,
+          stmt.end
+        );
+      }
+    } else if (isPrimitiveType(collectionType) || collectionType.kind === TypeKind.ENUM) {
+      this.error(
+        `FOREACH requires an array or collection object but got ${this.formatType(collectionType)}`,
+        stmt.collection.start,
+        stmt.collection.end
+      );
+    }
+
+    this.analyzeLoopBody(stmt.body);
+  }
+
+  /**
+   * Analyze a CASE statement
+   * Each label, or both ends of a label range, must match the type of the selector, and no two
+   * labels may select the same value. Without OTHERWISE, every value of an enumeration must have an arm.
+   */
+  private analyzeCaseStatement(stmt: any): void {
+    const selectorType = this.inferExpressionType(stmt.expression);
+    const labels: Array<{ label: Expression; low: number; high: number }> = [];
+    let allLabelsKnown = true;
+
+    for (const arm of stmt.cases) {
+      for (const label of arm.values) {
+        const bounds = label.type === 'BinaryExpression' && label.operator === TokenType.RANGE
+          ? [label.left, label.right]
+          : [label];
+        let matchesSelector = true;
+        for (const bound of bounds) {
+          const labelType = this.inferExpressionType(bound);
+          if (!this.isAssignable(selectorType, labelType)) {
+            this.error(
+              `CASE label of type ${this.formatType(labelType)} does not match selector of type ${this.formatType(selectorType)}`,
+              bound.start,
+              bound.end
+            );
+            matchesSelector = false;
+          }
+        }
+        if (!matchesSelector) {
+          continue;
+        }
+
+        // Labels whose values are not known here, such as constants, can't be compared
+        const low = this.evaluateCaseLabel(bounds[0]);
+        const high = this.evaluateCaseLabel(bounds[bounds.length - 1]);
+        if (low === undefined || high === undefined) {
+          allLabelsKnown = false;
+          continue;
+        }
+
+        // A range whose bounds are reversed covers no values, so it overlaps nothing
+        if (low > high) {
+          this.error(`CASE label range '${this.formatCaseLabel(label)}' is empty`, label.start, label.end);
+          continue;
+        }
+
+        const overlapped = labels.find((other) => low <= other.high && other.low <= high);
+        if (overlapped) {
+          const text = this.formatCaseLabel(label);
+          const otherText = this.formatCaseLabel(overlapped.label);
+          this.error(
+            text === otherText ? `Duplicate CASE label '${text}'` : `CASE label '${text}' overlaps '${otherText}'`,
+            label.start,
+            label.end
+          );
+        }
+        labels.push({ label, low, high });
+      }
+
+      for (const s of arm.block) {
+        this.analyzeStatement(s);
+      }
+    }
+
+    for (const s of stmt.otherwiseBlock ?? []) {
       this.analyzeStatement(s);
     }
+
+    if (selectorType.kind === TypeKind.ENUM && !stmt.otherwiseBlock && allLabelsKnown) {
+      const missing = (selectorType as SemanticEnumType).values
+        .filter((_, ordinal) => !labels.some((l) => l.low <= ordinal && ordinal <= l.high));
+      if (missing.length > 0) {
+        const valueSymbol = this.symbolTable.lookup(missing[0]);
+        const enumName = valueSymbol?.kind === SymbolKind.ENUM_VALUE ? valueSymbol.enumType : 'enumeration';
+        this.warning(
+          `CASE does not handle ${enumName} values: ${missing.join(', ')}`,
+          stmt.start,
+          stmt.expression.end,
+          'non-exhaustive-case',
+          { values: missing }
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the ordinal value of a CASE label: an integer or character literal, or an enumeration value
+   */
+  private evaluateCaseLabel(expr: any): number | undefined {
+    switch (expr.type) {
+      case 'LiteralExpression':
+        if (expr.literalType === 'INTEGER') {
+          return Number(expr.value);
+        }
+        if ((expr.literalType === 'CHAR' || expr.literalType === 'STRING') && String(expr.value).length === 1) {
+          return String(expr.value).charCodeAt(0);
+        }
+        return undefined;
+      case 'UnaryExpression': {
+        const value = expr.operator === TokenType.MINUS ? this.evaluateCaseLabel(expr.operand) : undefined;
+        return value === undefined ? undefined : -value;
+      }
+      case 'IdentifierExpression': {
+        const symbol = this.symbolTable.lookup(expr.name);
+        return symbol?.kind === SymbolKind.ENUM_VALUE ? symbol.value : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Format a CASE label for messages
+   */
+  private formatCaseLabel(label: any): string {
+    switch (label.type) {
+      case 'BinaryExpression':
+        return `${this.formatCaseLabel(label.left)}..${this.formatCaseLabel(label.right)}`;
+      case 'UnaryExpression':
+        return `-${this.formatCaseLabel(label.operand)}`;
+      case 'LiteralExpression':
+        return String(label.value);
+      default:
+        return label.name ?? '';
+    }
+  }
+
+  /**
+   * Analyze a REPEAT ... UNTIL statement
+   */
+  private analyzeRepeatUntilStatement(stmt: any): void {
+    this.analyzeLoopBody(stmt.body);
+
+    const condType = this.inferExpressionType(stmt.condition);
+    if (condType.kind !== TypeKind.BOOLEAN) {
+      this.error('UNTIL condition must be BOOLEAN', stmt.start, stmt.end);
+    }
+  }
+
+  /**
+   * Analyze an INC or DEC statement
+   * The operand must be a numeric variable, and the amount fit in it.
+   */
+  private analyzeIncDecStatement(stmt: any): void {
+    const keyword = stmt.type === 'IncStatement' ? 'INC' : 'DEC';
+    const operandType = this.inferExpressionType(stmt.variable);
+
+    if (!['IdentifierExpression', 'FieldAccessExpression', 'ArrayAccessExpression'].includes(stmt.variable.type)) {
+      this.error(`${keyword} requires a variable`, stmt.variable.start, stmt.variable.end);
+    } else if (!this.isNumericType(operandType)) {
+      this.error(
+        `${keyword} requires a numeric variable but got ${this.formatType(operandType)}`,
+        stmt.variable.start,
+        stmt.variable.end
+      );
+      return;
+    }
+
+    if (stmt.amount) {
+      const amountType = this.inferExpressionType(stmt.amount);
+      if (!this.isNumericType(amountType) || !this.isAssignable(operandType, amountType)) {
+        this.error(
+          `${keyword} amount must be ${this.formatType(operandType)} but got ${this.formatType(amountType)}`,
+          stmt.amount.start,
+          stmt.amount.end
+        );
+      }
+    }
+  }
+
+  /**
+   * Whether a value of one type can be assigned to another, following object base types
+   * imported from other modules
+   */
+  private isAssignable(target: Type, source: Type): boolean {
+    return isAssignable(target, source, (reference) => this.resolveImportedType(reference));
+  }
+
+  /**
+   * Whether a type is numeric, giving unresolved types the benefit of the doubt
+   */
+  private isNumericType(type: Type): boolean {
+    return [
+      TypeKind.INTEGER,
+      TypeKind.REAL,
+      TypeKind.NUMBER,
+      TypeKind.SUBRANGE,
+      TypeKind.UNKNOWN,
+      TypeKind.ERROR,
+    ].includes(type.kind);
+  }
+
+  /**
+   * Whether a type can count a FOR loop, giving unresolved types the benefit of the doubt
+   */
+  private isOrdinalType(type: Type): boolean {
+    return [
+      TypeKind.INTEGER,
+      TypeKind.CHAR,
+      TypeKind.ENUM,
+      TypeKind.SUBRANGE,
+      TypeKind.UNKNOWN,
+      TypeKind.ERROR,
+    ].includes(type.kind);
   }
 
   /**
@@ -903,6 +1816,11 @@ export class SemanticAnalyzer {
       this.inferExpressionType(stmt.expression);
     }
 
+    // Analyze the statements run when the wait completes
+    for (const s of stmt.body ?? []) {
+      this.analyzeStatement(s);
+    }
+
     // Analyze on-interrupt block if present
     if (stmt.onInterrupt) {
       for (const s of stmt.onInterrupt) {
@@ -926,7 +1844,7 @@ export class SemanticAnalyzer {
       const actualType = this.inferExpressionType(stmt.value);
 
       // Check if the return type matches
-      if (!isAssignable(expectedType, actualType)) {
+      if (!this.isAssignable(expectedType, actualType)) {
         this.error(
           `Return type mismatch: expected ${this.formatType(expectedType)} but got ${this.formatType(actualType)}`,
           stmt.start,
@@ -986,6 +1904,9 @@ export class SemanticAnalyzer {
 
     // Look up user-defined type
     const symbol = this.symbolTable.lookup(typeSpec.name);
+    if (symbol) {
+      this.markUsed(symbol);
+    }
     if (symbol && symbol.kind === SymbolKind.TYPE) {
       return symbol.type;
     }
@@ -1017,7 +1938,7 @@ export class SemanticAnalyzer {
     for (const field of typeSpec.fields) {
       const fieldType = this.resolveTypeSpec(field.valueType);
       for (const name of field.names) {
-        fields.set(name, { type: fieldType });
+        fields.set(name, { type: fieldType, documentation: this.getDocumentation(field) });
       }
     }
     const recordType: SemanticRecordType = {
@@ -1033,13 +1954,28 @@ export class SemanticAnalyzer {
   private resolveObjectType(typeSpec: ObjectType): Type {
     // Resolve base types and inherit their members
     const baseTypes: SemanticObjectType[] = [];
+    const importedBaseTypes: ImportedTypeReference[] = [];
     const fields = new Map<string, FieldInfo>();
     const methods = new Map<string, MethodInfo>();
+    const privateFields = new Map<string, FieldInfo>();
+    const privateMethods = new Map<string, MethodInfo>();
+    const inheritedMethods = new Set<string>();
 
     // Resolve base types
     if (typeSpec.baseTypes && typeSpec.baseTypes.length > 0) {
       for (const baseTypeName of typeSpec.baseTypes) {
         const baseSymbol = this.symbolTable.lookup(baseTypeName);
+        if (baseSymbol) {
+          this.markUsed(baseSymbol);
+        }
+
+        // Without a workspace, imported base types are resolved when the members are looked up
+        const moduleName = this.unresolvedImports.get(baseTypeName);
+        if (moduleName) {
+          importedBaseTypes.push({ name: baseTypeName, moduleName });
+          continue;
+        }
+
         if (!baseSymbol || baseSymbol.kind !== SymbolKind.TYPE) {
           this.error(`Base type '${baseTypeName}' not found`, typeSpec.start, typeSpec.end);
           continue;
@@ -1063,6 +1999,11 @@ export class SemanticAnalyzer {
         for (const [methodName, methodInfo] of baseObjType.methods.entries()) {
           methods.set(methodName, methodInfo);
         }
+
+        // Private members stay on the base type that declares them
+        for (const { name, method } of getMembers(baseObjType).members.values()) {
+          if (method) inheritedMethods.add(name);
+        }
       }
     }
 
@@ -1070,7 +2011,7 @@ export class SemanticAnalyzer {
     for (const field of typeSpec.fields) {
       const fieldType = this.resolveTypeSpec(field.valueType);
       for (const name of field.names) {
-        fields.set(name, { type: fieldType });
+        (field.isPrivate ? privateFields : fields).set(name, { type: fieldType, documentation: this.getDocumentation(field) });
       }
     }
 
@@ -1091,6 +2032,7 @@ export class SemanticAnalyzer {
         name: p.name,
         type: this.resolveTypeSpec(p.valueType),
         mode: p.mode,
+        documentation: this.getDocumentation(p),
       }));
       const returnType = method.returnType ? this.resolveTypeSpec(method.returnType) : undefined;
 
@@ -1104,11 +2046,12 @@ export class SemanticAnalyzer {
       }
 
       // Check if this is an override
-      const isOverriding = methods.has(method.name);
+      const isOverriding = methods.has(method.name) || inheritedMethods.has(method.name);
       if (method.isOverride && !isOverriding) {
-        // ObjInit and ObjTerminate are implicit methods all objects inherit
+        // ObjInit and ObjTerminate are implicit methods all objects inherit,
+        // and base types of modules that were not available may declare the method
         const implicitMethods = ['ObjInit', 'ObjTerminate'];
-        if (!implicitMethods.includes(method.name)) {
+        if (!implicitMethods.includes(method.name) && importedBaseTypes.length === 0) {
           this.error(
             `Method '${method.name}' is marked as OVERRIDE but does not override any base method`,
             method.start,
@@ -1123,19 +2066,29 @@ export class SemanticAnalyzer {
         );
       }
 
-      methods.set(method.name, {
+      (method.isPrivate ? privateMethods : methods).set(method.name, {
         methodType: method.methodType,
         parameters,
         returnType,
         isOverride: method.isOverride || false,
+        documentation: this.getDocumentation(method),
       });
     }
 
+    // Collection objects keep the element type their base types were parameterized with
+    const elementType = typeSpec.elementType
+      ? this.resolveTypeSpec(typeSpec.elementType)
+      : baseTypes.find(baseType => baseType.elementType)?.elementType;
+
     const objectType: SemanticObjectType = {
       kind: TypeKind.OBJECT,
       baseTypes,
       fields,
       methods,
+      elementType,
+      privateFields,
+      privateMethods,
+      importedBaseTypes,
     };
     return objectType;
   }
@@ -1230,7 +2183,7 @@ export class SemanticAnalyzer {
     const symbol = this.symbolTable.lookup(expr.name);
     if (symbol) {
       // Mark symbol as used
-      this.usedSymbols.add(expr.name);
+      this.markUsed(symbol);
       return symbol.type;
     }
     this.error(`Undefined identifier '${expr.name}'`, expr.start, expr.end);
@@ -1283,7 +2236,7 @@ export class SemanticAnalyzer {
           const argType = this.inferExpressionType(expr.arguments[i]);
           const paramType = procSymbol.parameters[i].type;
 
-          if (!isAssignable(paramType, argType)) {
+          if (!this.isAssignable(paramType, argType)) {
             this.error(
               `Argument ${i + 1} type mismatch: expected ${this.formatType(paramType)} but got ${this.formatType(argType)}`,
               expr.arguments[i].start,
@@ -1291,12 +2244,23 @@ export class SemanticAnalyzer {
             );
           }
         }
+        this.inferArgumentTypes(expr.arguments.slice(expectedCount));
 
         // Return the procedure's return type
         return procSymbol.returnType || { kind: TypeKind.VOID };
       }
+
+      // A method of the object being implemented, called by bare name
+      const method = symbol?.kind === SymbolKind.METHOD ? this.memberSymbols.get(symbol) as MethodInfo : undefined;
+      if (method) {
+        this.calledMethods.set(expr.callee, method);
+        this.checkMethodArguments(expr.callee.name, method, expr.arguments, expr.start, expr.end);
+        return method.returnType || { kind: TypeKind.VOID };
+      }
     }
 
+    // Builtins such as OUTPUT and callees that could not be resolved
+    this.inferArgumentTypes(expr.arguments);
     return calleeType;
   }
 
@@ -1305,7 +2269,7 @@ export class SemanticAnalyzer {
    */
   private formatType(type: Type): string {
     if (!type) return 'Unknown';
-    if (type.kind === TypeKind.OBJECT && 'name' in type && type.name) {
+    if ((type.kind === TypeKind.OBJECT || type.kind === TypeKind.RECORD) && type.name) {
       return type.name;
     }
     return type.kind;
@@ -1314,10 +2278,101 @@ export class SemanticAnalyzer {
   /**
    * Infer type from field access
    */
-  private inferFieldAccessType(_expr: any): Type {
-    // const objectType = this.inferExpressionType(expr.object);
-    // TODO: Look up field in object type
-    return { kind: TypeKind.UNKNOWN };
+  private inferFieldAccessType(expr: any): Type {
+    const { object, field } = expr;
+
+    // Module.Symbol refers to a symbol of an imported module
+    if (object.type === 'IdentifierExpression' && this.importedModules.has(object.name) &&
+        !this.symbolTable.lookup(object.name)) {
+      const symbol = this.resolveModule(object.name)?.lookupGlobal(field);
+      return symbol ? symbol.type : { kind: TypeKind.UNKNOWN };
+    }
+
+    let receiverType = this.inferReceiverType(object);
+    if (receiverType.kind === TypeKind.POINTER) {
+      receiverType = (receiverType as SemanticPointerType).baseType;
+    }
+    if (receiverType.kind !== TypeKind.RECORD && receiverType.kind !== TypeKind.OBJECT) {
+      return { kind: TypeKind.UNKNOWN };
+    }
+
+    const member = this.findAccessibleMember(receiverType, field, expr.start, expr.end);
+    if (member?.method) {
+      this.calledMethods.set(expr, member.method);
+    }
+    return member ? getMemberType(member) : { kind: TypeKind.UNKNOWN };
+  }
+
+  /**
+   * Infer the type of the receiver of a field access, ASK or TELL
+   * SELF is the object whose methods are being analyzed; the other special receivers are not checked.
+   */
+  private inferReceiverType(object: Expression): Type {
+    if (object.type === 'IdentifierExpression') {
+      switch ((object as any).name) {
+        case 'SELF':
+          return this.getCurrentObjectType() ?? { kind: TypeKind.UNKNOWN };
+        case 'INHERITED':
+        case 'OUTPUT':
+        case 'INPUT':
+        case 'ANYOBJ':
+          return { kind: TypeKind.UNKNOWN };
+      }
+    }
+    return this.inferExpressionType(object);
+  }
+
+  /**
+   * Look up a field or method of a record or object, including inherited ones
+   * Reports members that do not exist and PRIVATE members used outside their object.
+   */
+  private findAccessibleMember(type: Type, name: string, start: Position, end: Position): MemberInfo | undefined {
+    const { members, complete } = getMembers(type, (reference) => this.resolveImportedType(reference));
+    const member = members.get(name);
+    const info = member?.field ?? member?.method;
+    if (info) {
+      this.markMemberUsed(info);
+    }
+
+    if (!member) {
+      // Members of base types from modules that could not be resolved may be the one
+      if (complete) {
+        this.error(`No field '${name}' on type ${this.formatType(type)}`, start, end);
+      }
+      return undefined;
+    }
+
+    if (member.isPrivate) {
+      const currentType = this.getCurrentObjectType();
+      if (!currentType || !this.isAssignable(member.owner, currentType)) {
+        this.error(
+          `'${name}' is PRIVATE to ${this.formatType(member.owner)} and cannot be accessed here`,
+          start,
+          end
+        );
+      }
+    }
+
+    return member;
+  }
+
+  /**
+   * Resolve a base type imported from another module through the workspace
+   */
+  private resolveImportedType(reference: ImportedTypeReference): Type | undefined {
+    const symbol = this.resolveModule(reference.moduleName)?.lookupGlobal(reference.name);
+    return symbol?.kind === SymbolKind.TYPE ? symbol.type : undefined;
+  }
+
+  /**
+   * Get the type of the object whose methods are being analyzed
+   */
+  private getCurrentObjectType(): Type | undefined {
+    if (!this.currentObject) {
+      return undefined;
+    }
+    const symbol = this.symbolTable.lookup(this.currentObject.name);
+    return symbol?.kind === SymbolKind.TYPE ? symbol.type : undefined;
   }
 
   /**
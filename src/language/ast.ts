@@ -152,6 +152,17 @@ export interface Token {
   value: string;
   start: Position;
   end: Position;
+  leadingTrivia?: Trivia[]; // Only when lexing with trivia enabled
+  trailingTrivia?: Trivia[];
+}
+
+// Comment or whitespace between tokens. Stray '}' characters are kept as
+// COMMENT trivia, since the lexer treats them as dangling comment terminators.
+export interface Trivia {
+  type: TokenType.COMMENT | TokenType.WHITESPACE;
+  text: string;
+  start: Position;
+  end: Position;
 }
 
 // Keywords map (for quick lookup)
@@ -266,6 +277,7 @@ export interface Module extends ASTNode {
   type: 'Module';
   kind: 'DEFINITION' | 'IMPLEMENTATION' | 'MAIN';
   name: string;
+  nameStart?: Position; // Where the module name is written in the header
   imports: ImportStatement[];
   exports?: ExportStatement; // For DEFINITION MODULE only
   declarations: Declaration[];
@@ -275,7 +287,9 @@ export interface Module extends ASTNode {
 export interface ImportStatement extends ASTNode {
   type: 'ImportStatement';
   moduleName: string;
+  moduleNameStart?: Position;
   symbols: Array<{ name: string; alias?: string }>;
+  symbolStarts?: Position[]; // One per symbol
 }
 
 export interface ExportStatement extends ASTNode {
@@ -294,12 +308,14 @@ export type Declaration =
 export interface TypeDeclaration extends ASTNode {
   type: 'TypeDeclaration';
   name: string;
+  nameStart?: Position; // Declarations may start at their section keyword
   typeSpec: TypeSpec;
 }
 
 export interface ConstDeclaration extends ASTNode {
   type: 'ConstDeclaration';
   name: string;
+  nameStart?: Position;
   valueType?: TypeSpec;
   value: Expression;
 }
@@ -307,22 +323,28 @@ export interface ConstDeclaration extends ASTNode {
 export interface VarDeclaration extends ASTNode {
   type: 'VarDeclaration';
   names: string[];
+  nameStarts?: Position[]; // One per name
   valueType: TypeSpec;
+  isPrivate?: boolean; // Declared in the PRIVATE section of an object type
 }
 
 export interface ProcedureDeclaration extends ASTNode {
   type: 'ProcedureDeclaration';
   name: string;
+  nameStart?: Position;
   parameters: Parameter[];
   returnType?: TypeSpec;
   localDeclarations?: Declaration[]; // VAR, CONST, TYPE inside procedure
+  isForward?: boolean; // Forward or NONMODSIM declaration, which has no body
   body: Statement[];
 }
 
 export interface ObjectDeclaration extends ASTNode {
   type: 'ObjectDeclaration';
   name: string;
+  nameStart?: Position;
   baseTypes?: string[];
+  baseTypeStarts?: Position[]; // One per base type
   fields: VarDeclaration[];
   methods: MethodDeclaration[];
   privateSection?: {
@@ -335,10 +357,13 @@ export interface MethodDeclaration extends ASTNode {
   type: 'MethodDeclaration';
   methodType: 'ASK' | 'TELL' | 'LMONITOR' | 'RMONITOR' | 'WAITFOR';
   name: string;
+  nameStart?: Position;
   parameters: Parameter[];
   returnType?: TypeSpec;
   isOverride?: boolean;
+  isPrivate?: boolean; // Declared in the PRIVATE section of an object type
   localDeclarations?: Declaration[]; // VAR, CONST, TYPE inside method
+  isForward?: boolean; // Signature without a body, as in object types
   body: Statement[];
 }
 
@@ -346,6 +371,7 @@ export interface Parameter extends ASTNode {
   type: 'Parameter';
   mode: 'IN' | 'OUT' | 'INOUT';
   name: string;
+  nameStart?: Position;
   valueType: TypeSpec;
 }
 
@@ -382,6 +408,8 @@ export interface RecordType extends ASTNode {
 export interface ObjectType extends ASTNode {
   type: 'ObjectType';
   baseTypes?: string[];
+  baseTypeStarts?: Position[]; // One per base type
+  elementType?: SimpleType; // Replacement of ANYOBJ in a parameterized base type: QueueObj[ANYOBJ:Job]
   fields: VarDeclaration[];
   methods: MethodDeclaration[];
 }
@@ -395,6 +423,7 @@ export interface SubrangeType extends ASTNode {
 export interface EnumType extends ASTNode {
   type: 'EnumType';
   values: string[];
+  valueStarts?: Position[]; // One per value
 }
 
 export interface PointerType extends ASTNode {
@@ -445,6 +474,7 @@ export interface AskStatement extends ASTNode {
   type: 'AskStatement';
   object: Expression;
   method: string;
+  methodStart?: Position;
   arguments: Expression[];
   delay?: Expression; // optional delay for scheduled ASK
   result?: string; // variable name if result is captured
@@ -454,6 +484,7 @@ export interface TellStatement extends ASTNode {
   type: 'TellStatement';
   object: Expression;
   method: string;
+  methodStart?: Position;
   arguments: Expression[];
   delay?: Expression;
 }
@@ -475,6 +506,7 @@ export interface WhileStatement extends ASTNode {
 export interface ForStatement extends ASTNode {
   type: 'ForStatement';
   variable: string;
+  variableStart?: Position;
   from: Expression;
   to: Expression;
   step?: Expression;
@@ -485,6 +517,7 @@ export interface ForStatement extends ASTNode {
 export interface ForeachStatement extends ASTNode {
   type: 'ForeachStatement';
   variable: string;
+  variableStart?: Position;
   collection: Expression;
   body: Statement[];
 }
@@ -609,3 +642,16 @@ export interface ParenthesizedExpression extends ASTNode {
   type: 'ParenthesizedExpression';
   expression: Expression;
 }
+
+/**
+ * Signature of AST nodes without their bodies or source positions, which changes only
+ * when what they declare changes
+ */
+export function getDeclarationSignature(value: unknown): string {
+  return JSON.stringify(value, (key, item) =>
+    key === 'start' || key === 'end' || key.endsWith('Start') || key.endsWith('Starts')
+      || key === 'body' || key === 'localDeclarations'
+      ? undefined
+      : item
+  );
+}
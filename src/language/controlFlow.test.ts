@@ -0,0 +1,123 @@
+/**
+ * Unit tests for control-flow analysis
+ */
+
+import { Lexer } from './lexer';
+import { Parser } from './parser';
+import { buildControlFlowGraph, findReadsBeforeAssignment, ParameterModeResolver } from './controlFlow';
+import type { ProcedureDeclaration } from './ast';
+
+describe('Control Flow', () => {
+  function graphOf(body: string, resolveParameterModes?: ParameterModeResolver) {
+    const source = `
+IMPLEMENTATION MODULE Test;
+PROCEDURE Run;
+VAR a, b, c : INTEGER;
+BEGIN
+${body}
+END PROCEDURE;
+END MODULE.
+    `.trim();
+
+    const ast = new Parser(new Lexer(source).tokenize()).parse();
+    const procedure = ast.declarations.find((d) => d.type === 'ProcedureDeclaration') as ProcedureDeclaration;
+    return buildControlFlowGraph(procedure.body, resolveParameterModes);
+  }
+
+  const unreadBefore = (body: string, resolveParameterModes?: ParameterModeResolver) =>
+    findReadsBeforeAssignment(graphOf(body, resolveParameterModes), new Set(['a', 'b', 'c'])).map((use) => use.name);
+
+  describe('Reachability', () => {
+    it('should find the first statement after RETURN and EXIT', () => {
+      const graph = graphOf(`
+  LOOP
+    EXIT;
+    a := 1;
+    b := 2;
+  END LOOP;
+  RETURN;
+  c := 3;`);
+
+      expect(graph.unreachable.map((stmt) => stmt.start.line)).toEqual([8, 12]);
+      expect(graph.fallsOffEnd).toBe(false);
+    });
+
+    it('should treat code after a LOOP without EXIT as unreachable', () => {
+      const graph = graphOf(`
+  LOOP
+    a := 1;
+  END LOOP;
+  a := 2;`);
+
+      expect(graph.unreachable.map((stmt) => stmt.start.line)).toEqual([9]);
+    });
+
+    it('should only fall off the end when some branch does not return', () => {
+      expect(graphOf(`
+  IF a > 0
+    RETURN;
+  ELSE
+    TERMINATE;
+  END IF;`).fallsOffEnd).toBe(false);
+
+      expect(graphOf(`
+  IF a > 0
+    RETURN;
+  ELSIF a < 0
+    RETURN;
+  END IF;`).fallsOffEnd).toBe(true);
+
+      expect(graphOf(`
+  CASE a
+    WHEN 1: RETURN;
+    OTHERWISE RETURN;
+  END CASE;`).fallsOffEnd).toBe(false);
+    });
+  });
+
+  describe('Definite Assignment', () => {
+    it('should find reads of variables no path has assigned', () => {
+      expect(unreadBefore(`
+  a := b + 1;
+  c := a;`)).toEqual(['b']);
+    });
+
+    it('should require an assignment on every branch', () => {
+      expect(unreadBefore(`
+  IF TRUE
+    a := 1;
+    b := 1;
+  ELSE
+    a := 2;
+  END IF;
+  c := a + b;`)).toEqual(['b']);
+    });
+
+    it('should not count assignments in a loop body that may not run', () => {
+      expect(unreadBefore(`
+  WHILE FALSE
+    a := 1;
+  END WHILE;
+  REPEAT
+    b := 1;
+  UNTIL b > 0;
+  c := a + b;`)).toEqual(['a']);
+    });
+
+    it('should read INC variables before assigning them', () => {
+      expect(unreadBefore(`
+  INC(a);`)).toEqual(['a']);
+    });
+
+    it('should assign variables passed to OUT parameters', () => {
+      expect(unreadBefore(`
+  Fill(a, b, c);
+  a := a + b + c;`, () => ['OUT', 'IN', 'INOUT'])).toEqual(['b', 'c']);
+
+      // An unknown callee may assign any variable passed to it
+      expect(unreadBefore(`
+  Fill(a);
+  b := a;`)).toEqual([]);
+    });
+  });
+});
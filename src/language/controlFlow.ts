@@ -0,0 +1,411 @@
+/**
+ * Control-Flow Analysis
+ *
+ * Builds the control-flow graph of a PROCEDURE or METHOD body from its
+ * statements, one node per statement or condition. RETURN and TERMINATE jump
+ * to the exit node and EXIT to the statement after its loop; conditions are
+ * not evaluated, so both branches are always taken to be possible.
+ */
+
+import type {
+  Statement,
+  Expression,
+  CallExpression,
+  AskStatement,
+  TellStatement,
+  IfStatement,
+  CaseStatement,
+  Position,
+} from './ast';
+
+/**
+ * A call whose arguments may be assigned by OUT and INOUT parameters
+ */
+export type CallSite = CallExpression | AskStatement | TellStatement;
+
+/**
+ * Get the parameter modes of a call, or undefined if the callee is unknown
+ */
+export type ParameterModeResolver = (call: CallSite) => Array<'IN' | 'OUT' | 'INOUT'> | undefined;
+
+/**
+ * A variable read or assigned by a node, in evaluation order
+ */
+export interface VariableUse {
+  name: string;
+  kind: 'read' | 'write';
+  start: Position;
+  end: Position;
+}
+
+/**
+ * A statement, or the condition or header of a compound statement
+ */
+export interface FlowNode {
+  id: number;
+  statement?: Statement; // Undefined for the entry and exit nodes
+  uses: VariableUse[];
+  successors: FlowNode[];
+  predecessors: FlowNode[];
+}
+
+/**
+ * Control-flow graph of a routine body
+ */
+export interface ControlFlowGraph {
+  entry: FlowNode;
+  exit: FlowNode;
+  nodes: FlowNode[];
+  unreachable: Statement[]; // The first statement of each run of statements control cannot reach
+  fallsOffEnd: boolean; // Whether control can reach the end of the body without a RETURN or TERMINATE
+}
+
+/**
+ * Build the control-flow graph of a routine body
+ * Without a resolver for parameter modes, variables passed to a call are taken to be assigned by it.
+ */
+export function buildControlFlowGraph(body: Statement[], resolveParameterModes?: ParameterModeResolver): ControlFlowGraph {
+  return new GraphBuilder(resolveParameterModes).build(body);
+}
+
+/**
+ * Find the reads of variables before they are definitely assigned, the first one of each variable
+ * A variable is definitely assigned at a node when every path from the entry to it assigns the variable.
+ */
+export function findReadsBeforeAssignment(graph: ControlFlowGraph, variables: Set<string>): VariableUse[] {
+  // Variables definitely assigned on leaving each node; unreachable nodes keep every variable
+  const assignedOut = new Map<FlowNode, Set<string>>(graph.nodes.map(node => [node, new Set(variables)]));
+  const assignedIn = (node: FlowNode): Set<string> => {
+    if (node === graph.entry) {
+      return new Set();
+    }
+    const [first, ...rest] = node.predecessors.map(predecessor => assignedOut.get(predecessor)!);
+    const assigned = new Set(first ?? variables);
+    rest.forEach(other => assigned.forEach(name => !other.has(name) && assigned.delete(name)));
+    return assigned;
+  };
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const node of graph.nodes) {
+      const assigned = assignedIn(node);
+      node.uses.forEach(use => use.kind === 'write' && assigned.add(use.name));
+      if (assigned.size !== assignedOut.get(node)!.size) {
+        assignedOut.set(node, assigned);
+        changed = true;
+      }
+    }
+  }
+
+  const reads = new Map<string, VariableUse>();
+  for (const node of graph.nodes) {
+    const assigned = assignedIn(node);
+    for (const use of node.uses) {
+      if (use.kind === 'write') {
+        assigned.add(use.name);
+      } else if (variables.has(use.name) && !assigned.has(use.name) && !reads.has(use.name)) {
+        reads.set(use.name, use);
+      }
+    }
+  }
+  return [...reads.values()];
+}
+
+/**
+ * Builds a graph by walking the statements with the nodes control can leave them from
+ */
+class GraphBuilder {
+  private nodes: FlowNode[] = [];
+  private unreachable: Statement[] = [];
+  private exit!: FlowNode;
+  private loopExits: FlowNode[][] = []; // EXIT statements of each enclosing loop
+
+  constructor(private resolveParameterModes?: ParameterModeResolver) {}
+
+  build(body: Statement[]): ControlFlowGraph {
+    const entry = this.createNode();
+    this.exit = { id: -1, uses: [], successors: [], predecessors: [] };
+
+    const ends = this.buildStatements(body, [entry]);
+    this.link(ends, this.exit);
+
+    this.exit.id = this.nodes.length;
+    this.nodes.push(this.exit);
+
+    return {
+      entry,
+      exit: this.exit,
+      nodes: this.nodes,
+      unreachable: this.unreachable,
+      fallsOffEnd: ends.length > 0,
+    };
+  }
+
+  /**
+   * Add the nodes of a statement list after the given nodes, returning those control leaves it from
+   */
+  private buildStatements(statements: Statement[], predecessors: FlowNode[]): FlowNode[] {
+    let current = predecessors;
+    let reported = predecessors.length === 0; // Only the first statement of an unreachable run is reported
+
+    for (const statement of statements) {
+      if (current.length > 0) {
+        current = this.buildStatement(statement, current);
+        continue;
+      }
+
+      if (!reported) {
+        this.unreachable.push(statement);
+        reported = true;
+      }
+      // Control cannot leave a statement it cannot reach
+      this.buildStatement(statement, current);
+    }
+    return current;
+  }
+
+  private buildStatement(statement: Statement, predecessors: FlowNode[]): FlowNode[] {
+    switch (statement.type) {
+      case 'AssignmentStatement': {
+        const uses: VariableUse[] = [];
+        this.collectReads(statement.value, uses);
+        // Expression statements such as procedure calls have the expression as both sides
+        if (statement.target !== statement.value) {
+          this.collectWrite(statement.target, uses);
+        }
+        return [this.addNode(statement, predecessors, uses)];
+      }
+
+      case 'AskStatement':
+      case 'TellStatement': {
+        const uses: VariableUse[] = [];
+        this.collectReads(statement.object, uses);
+        this.collectArguments(statement, uses);
+        if (statement.delay) this.collectReads(statement.delay, uses);
+        if (statement.type === 'AskStatement' && statement.result) {
+          uses.push({ name: statement.result, kind: 'write', start: statement.start, end: statement.end });
+        }
+        return [this.addNode(statement, predecessors, uses)];
+      }
+
+      case 'IfStatement':
+        return this.buildIf(statement, predecessors);
+
+      case 'CaseStatement':
+        return this.buildCase(statement, predecessors);
+
+      case 'WhileStatement': {
+        const condition = this.addNode(statement, predecessors, this.readsOf(statement.condition));
+        return this.buildLoop(statement.body, condition, [condition]);
+      }
+
+      case 'ForStatement':
+      case 'ForeachStatement': {
+        const uses = statement.type === 'ForStatement'
+          ? [statement.from, statement.to, statement.step].flatMap(expr => expr ? this.readsOf(expr) : [])
+          : this.readsOf(statement.collection);
+        const start = statement.variableStart ?? statement.start;
+        uses.push({ name: statement.variable, kind: 'write', start, end: start });
+        const header = this.addNode(statement, predecessors, uses);
+        return this.buildLoop(statement.body, header, [header]);
+      }
+
+      case 'LoopStatement': {
+        // Only EXIT leaves a LOOP
+        const header = this.addNode(statement, predecessors, []);
+        return this.buildLoop(statement.body, header, []);
+      }
+
+      case 'RepeatUntilStatement': {
+        const header = this.addNode(statement, predecessors, []);
+        this.loopExits.push([]);
+        const bodyEnds = this.buildStatements(statement.body, [header]);
+        const condition = this.createNode(statement, this.readsOf(statement.condition));
+        this.link(bodyEnds, condition);
+        this.link([condition], header);
+        return [...(bodyEnds.length > 0 ? [condition] : []), ...this.loopExits.pop()!];
+      }
+
+      case 'WaitStatement': {
+        const wait = this.addNode(statement, predecessors, this.readsOf(statement.expression));
+        if (!statement.body && !statement.onInterrupt) {
+          return [wait];
+        }
+        return [
+          ...this.buildStatements(statement.body ?? [], [wait]),
+          ...this.buildStatements(statement.onInterrupt ?? [], [wait]),
+        ];
+      }
+
+      case 'ReturnStatement': {
+        const node = this.addNode(statement, predecessors, statement.value ? this.readsOf(statement.value) : []);
+        this.link([node], this.exit);
+        return [];
+      }
+
+      case 'TerminateStatement': {
+        this.link([this.addNode(statement, predecessors, [])], this.exit);
+        return [];
+      }
+
+      case 'ExitStatement': {
+        const node = this.addNode(statement, predecessors, []);
+        this.loopExits[this.loopExits.length - 1]?.push(node);
+        return [];
+      }
+
+      case 'IncStatement':
+      case 'DecStatement': {
+        const uses = this.readsOf(statement.variable);
+        if (statement.amount) this.collectReads(statement.amount, uses);
+        this.collectWrite(statement.variable, uses);
+        return [this.addNode(statement, predecessors, uses)];
+      }
+
+      case 'WithStatement': {
+        const node = this.addNode(statement, predecessors, this.readsOf(statement.record));
+        return this.buildStatements(statement.body, [node]);
+      }
+
+      case 'BlockStatement':
+        return this.buildStatements(statement.statements, predecessors);
+
+      default:
+        return [this.addNode(statement, predecessors, [])];
+    }
+  }
+
+  private buildIf(statement: IfStatement, predecessors: FlowNode[]): FlowNode[] {
+    let condition = this.addNode(statement, predecessors, this.readsOf(statement.condition));
+    const ends = this.buildStatements(statement.thenBlock, [condition]);
+
+    for (const clause of statement.elsifClauses) {
+      condition = this.addNode(statement, [condition], this.readsOf(clause.condition));
+      ends.push(...this.buildStatements(clause.block, [condition]));
+    }
+
+    ends.push(...(statement.elseBlock ? this.buildStatements(statement.elseBlock, [condition]) : [condition]));
+    return ends;
+  }
+
+  private buildCase(statement: CaseStatement, predecessors: FlowNode[]): FlowNode[] {
+    const selector = this.addNode(statement, predecessors, this.readsOf(statement.expression));
+    const ends = statement.cases.flatMap(arm => this.buildStatements(arm.block, [selector]));
+
+    // Without OTHERWISE a value matching no label skips the CASE
+    ends.push(...(statement.otherwiseBlock ? this.buildStatements(statement.otherwiseBlock, [selector]) : [selector]));
+    return ends;
+  }
+
+  /**
+   * Add a loop body that returns to its header, returning the nodes leaving the loop
+   */
+  private buildLoop(body: Statement[], header: FlowNode, leaving: FlowNode[]): FlowNode[] {
+    this.loopExits.push([]);
+    this.link(this.buildStatements(body, [header]), header);
+    return [...leaving, ...this.loopExits.pop()!];
+  }
+
+  private createNode(statement?: Statement, uses: VariableUse[] = []): FlowNode {
+    const node: FlowNode = { id: this.nodes.length, statement, uses, successors: [], predecessors: [] };
+    this.nodes.push(node);
+    return node;
+  }
+
+  private addNode(statement: Statement, predecessors: FlowNode[], uses: VariableUse[]): FlowNode {
+    const node = this.createNode(statement, uses);
+    this.link(predecessors, node);
+    return node;
+  }
+
+  private link(from: FlowNode[], to: FlowNode): void {
+    for (const node of from) {
+      node.successors.push(to);
+      to.predecessors.push(node);
+    }
+  }
+
+  private readsOf(expr: Expression): VariableUse[] {
+    const uses: VariableUse[] = [];
+    this.collectReads(expr, uses);
+    return uses;
+  }
+
+  /**
+   * Collect the variables an expression reads, and those its calls assign through OUT parameters
+   */
+  private collectReads(expr: Expression, uses: VariableUse[]): void {
+    switch (expr.type) {
+      case 'IdentifierExpression':
+        uses.push({ name: expr.name, kind: 'read', start: expr.start, end: expr.end });
+        break;
+      case 'FieldAccessExpression':
+        this.collectReads(expr.object, uses);
+        break;
+      case 'ArrayAccessExpression':
+        this.collectReads(expr.array, uses);
+        this.collectReads(expr.index, uses);
+        break;
+      case 'BinaryExpression':
+        this.collectReads(expr.left, uses);
+        this.collectReads(expr.right, uses);
+        break;
+      case 'UnaryExpression':
+        this.collectReads(expr.operand, uses);
+        break;
+      case 'ParenthesizedExpression':
+        this.collectReads(expr.expression, uses);
+        break;
+      case 'CallExpression':
+        // The name of a called procedure is not a variable read
+        if (expr.callee.type !== 'IdentifierExpression') {
+          this.collectReads(expr.callee, uses);
+        }
+        this.collectArguments(expr, uses);
+        if (expr.delay) this.collectReads(expr.delay, uses);
+        break;
+    }
+  }
+
+  private collectArguments(call: CallSite, uses: VariableUse[]): void {
+    const modes = this.resolveParameterModes?.(call);
+    call.arguments.forEach((arg, i) => {
+      const mode = modes ? modes[i] ?? 'IN' : undefined;
+      if (mode === 'IN' || mode === 'INOUT' || !isAssignable(arg)) {
+        this.collectReads(arg, uses);
+      }
+      if (mode !== 'IN' && isAssignable(arg)) {
+        this.collectWrite(arg, uses);
+      }
+    });
+  }
+
+  /**
+   * Collect the variable an assignment target writes, after the index expressions it reads
+   * Assigning a field or element counts as assigning the whole variable.
+   */
+  private collectWrite(target: Expression, uses: VariableUse[]): void {
+    switch (target.type) {
+      case 'IdentifierExpression':
+        uses.push({ name: target.name, kind: 'write', start: target.start, end: target.end });
+        break;
+      case 'FieldAccessExpression':
+        this.collectWrite(target.object, uses);
+        break;
+      case 'ArrayAccessExpression':
+        this.collectReads(target.index, uses);
+        this.collectWrite(target.array, uses);
+        break;
+      case 'ParenthesizedExpression':
+        this.collectWrite(target.expression, uses);
+        break;
+      default:
+        this.collectReads(target, uses);
+    }
+  }
+}
+
+function isAssignable(expr: Expression): boolean {
+  return expr.type === 'IdentifierExpression' || expr.type === 'FieldAccessExpression' || expr.type === 'ArrayAccessExpression';
+}
@@ -6,7 +6,12 @@ import { Lexer } from './lexer';
 import { Parser } from './parser';
 import { SemanticAnalyzer } from './analyzer';
 import type { Module } from './ast';
-import { DiagnosticSeverity } from './diagnostics';
+import {
+  DiagnosticSeverity,
+  SyntaxErrorCode,
+  createLexicalError,
+  createSyntaxError,
+} from './diagnostics';
 
 describe('Diagnostics', () => {
   function parseAndAnalyze(code: string): { ast: Module; diagnostics: any[] } {
@@ -628,6 +633,73 @@ END MODULE;
         expect(errorTokens.length).toBe(0);
       });
     });
+
+    describe('Parse Errors', () => {
+      function syntaxDiagnostics(code: string) {
+        const parser = new Parser(new Lexer(code.trim()).tokenize(), { errorRecovery: true });
+        parser.parse();
+        return parser.getErrors().map(createSyntaxError);
+      }
+
+      it('should locate each parse error at its token', () => {
+        const code = `
+IMPLEMENTATION MODULE Test;
+PROCEDURE Run;
+VAR x : INTEGER;
+BEGIN
+  x := ;
+  x := 1 +;
+END PROCEDURE;
+END MODULE.
+        `;
+        const diagnostics = syntaxDiagnostics(code);
+
+        expect(diagnostics).toHaveLength(2);
+        expect(diagnostics[0].severity).toBe(DiagnosticSeverity.Error);
+        expect(diagnostics[0].start).toMatchObject({ line: 5, column: 8 });
+        expect(diagnostics[0].end).toMatchObject({ line: 5, column: 9 });
+        expect(diagnostics[1].start).toMatchObject({ line: 6, column: 11 });
+      });
+
+      it('should assign stable codes to parse errors', () => {
+        const code = `
+IMPLEMENTATION MODULE Test;
+PROCEDURE Run;
+BEGIN
+  x := ;
+        `;
+        const diagnostics = syntaxDiagnostics(code);
+
+        expect(diagnostics.map(d => d.code)).toEqual([
+          SyntaxErrorCode.ExpectedExpression,
+          SyntaxErrorCode.MissingEnd,
+        ]);
+        expect(diagnostics[0].source).toBe('modsim-parser');
+      });
+
+      it('should assign codes where errors are raised, not from message text', () => {
+        const code = `
+IMPLEMENTATION MODULE Test;
+VAR x : INTEGER;
+BEGIN
+END MODULE.
+        `;
+        const diagnostics = syntaxDiagnostics(code);
+
+        expect(diagnostics.map(d => d.code)).toEqual([SyntaxErrorCode.UnexpectedToken]);
+        expect(diagnostics[0].message).toMatch(/^Unexpected BEGIN/);
+      });
+
+      it('should report lexer ERROR tokens with a lexical error code', () => {
+        const tokens = new Lexer('x := "unterminated').tokenize();
+        const errorToken = tokens.find(t => t.type === 'ERROR');
+        expect(errorToken).toBeDefined();
+
+        const diagnostic = createLexicalError(errorToken!);
+        expect(diagnostic.code).toBe(SyntaxErrorCode.LexicalError);
+        expect(diagnostic.start).toEqual(errorToken!.start);
+      });
+    });
   });
 
   describe('Diagnostic Structure', () => {
@@ -694,7 +766,7 @@ END MODULE;
 
   describe('Warnings', () => {
     describe('Unused Variables', () => {
-      it('should warn about unused local variables', () => {
+      it('should hint at unused local variables', () => {
         const code = `
 IMPLEMENTATION MODULE Test;
 PROCEDURE TestProc;
@@ -710,7 +782,7 @@ END MODULE;
 
         const unusedWarning = diagnostics.find(d =>
           d.message.includes("Variable 'y' is declared but never used") &&
-          d.severity === DiagnosticSeverity.Warning
+          d.severity === DiagnosticSeverity.Hint
         );
         expect(unusedWarning).toBeDefined();
 
@@ -721,7 +793,7 @@ END MODULE;
         expect(xWarning).toBeUndefined();
       });
 
-      it('should warn about unused parameters', () => {
+      it('should hint at unused parameters', () => {
         const code = `
 IMPLEMENTATION MODULE Test;
 PROCEDURE TestProc(IN x: INTEGER; IN y: INTEGER);
@@ -735,7 +807,7 @@ END MODULE;
 
         const unusedParam = diagnostics.find(d =>
           d.message.includes("Parameter 'y' is declared but never used") &&
-          d.severity === DiagnosticSeverity.Warning
+          d.severity === DiagnosticSeverity.Hint
         );
         expect(unusedParam).toBeDefined();
       });
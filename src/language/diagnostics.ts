@@ -2,6 +2,10 @@
  * Diagnostic messages for MODSIM III semantic analysis
  */
 
+import { TokenType } from './ast';
+import type { Token } from './ast';
+import type { ParseError } from './parser';
+
 export enum DiagnosticSeverity {
   Error = 'Error',
   Warning = 'Warning',
@@ -9,6 +13,11 @@ export enum DiagnosticSeverity {
   Hint = 'Hint',
 }
 
+export enum DiagnosticTag {
+  Unnecessary = 'Unnecessary', // Unused code, which clients render faded out
+  Deprecated = 'Deprecated',
+}
+
 export interface Diagnostic {
   severity: DiagnosticSeverity;
   message: string;
@@ -24,6 +33,8 @@ export interface Diagnostic {
   };
   code?: string; // Optional error code
   source?: string; // Optional source (e.g., "modsim-analyzer")
+  tags?: DiagnosticTag[];
+  data?: unknown; // Sent back with the diagnostic in code action requests
 }
 
 /**
@@ -101,3 +112,55 @@ export function createHint(
     source: 'modsim-analyzer',
   };
 }
+
+/**
+ * Stable codes for syntax diagnostics, so clients and code actions can
+ * recognize them without matching on message text. The parser assigns
+ * them where each error is raised.
+ */
+export enum SyntaxErrorCode {
+  LexicalError = 'lexical-error',
+  MissingEnd = 'missing-end',
+  ExpectedExpression = 'expected-expression',
+  ExpectedToken = 'expected-token',
+  UnexpectedToken = 'unexpected-token',
+  SyntaxError = 'syntax-error',
+}
+
+/**
+ * Create an error diagnostic for a parse error, located at the offending token
+ */
+export function createSyntaxError(error: ParseError): Diagnostic {
+  return {
+    severity: DiagnosticSeverity.Error,
+    message: error.message,
+    start: error.token.start,
+    end: error.token.end,
+    code: error.code,
+    source: 'modsim-parser',
+  };
+}
+
+/**
+ * Create an error diagnostic for an ERROR token produced by the lexer
+ */
+export function createLexicalError(token: Token): Diagnostic {
+  return {
+    severity: DiagnosticSeverity.Error,
+    message: token.value,
+    start: token.start,
+    end: token.end,
+    code: SyntaxErrorCode.LexicalError,
+    source: 'modsim-lexer',
+  };
+}
+
+/**
+ * Create the diagnostics of a parse: its syntax errors, then the lexer's ERROR tokens
+ */
+export function createParseDiagnostics(tokens: Token[], errors: ParseError[]): Diagnostic[] {
+  return [
+    ...errors.map(createSyntaxError),
+    ...tokens.filter((token) => token.type === TokenType.ERROR).map(createLexicalError),
+  ];
+}
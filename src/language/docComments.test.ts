@@ -0,0 +1,93 @@
+/**
+ * Unit tests for doc comment extraction
+ */
+
+import { DocComments } from './docComments';
+import { Lexer } from './lexer';
+import { Parser } from './parser';
+import type { Module, ProcedureDeclaration, VarDeclaration, ObjectDeclaration } from './ast';
+
+describe('Doc Comments', () => {
+  function parse(code: string): { ast: Module; docs: DocComments } {
+    const ast = new Parser(new Lexer(code).tokenize()).parse();
+    return { ast, docs: new DocComments(code) };
+  }
+
+  it('should find the brace comment block above a declaration', () => {
+    const { ast, docs } = parse(`DEFINITION MODULE Queue;
+
+{ Adds an item to the back of the queue.
+  Fails when the queue is full. }
+PROCEDURE Push(IN item : INTEGER);
+
+PROCEDURE Clear;
+END MODULE.`);
+
+    expect(docs.get(ast.declarations[0])).toBe('Adds an item to the back of the queue.\nFails when the queue is full.');
+    expect(docs.get(ast.declarations[1])).toBeUndefined();
+  });
+
+  it('should join consecutive comments and strip decorations', () => {
+    const { ast, docs } = parse(`DEFINITION MODULE Queue;
+(*
+ * Removes the front item.
+ *
+ * Returns 0 when empty.
+ *)
+{ See also Push. }
+PROCEDURE Pop() : INTEGER;
+END MODULE.`);
+
+    expect(docs.get(ast.declarations[0])).toBe('Removes the front item.\n\nReturns 0 when empty.\nSee also Push.');
+  });
+
+  it('should ignore comments separated from the declaration by a blank line', () => {
+    const { ast, docs } = parse(`DEFINITION MODULE Queue;
+{ Section: queue operations }
+
+{ Empties the queue }
+PROCEDURE Clear;
+
+{ Unrelated note }
+
+PROCEDURE Size() : INTEGER;
+END MODULE.`);
+
+    expect(docs.get(ast.declarations[0])).toBe('Empties the queue');
+    expect(docs.get(ast.declarations[1])).toBeUndefined();
+  });
+
+  it('should use a comment trailing a single-line declaration', () => {
+    const { ast, docs } = parse(`IMPLEMENTATION MODULE Queue;
+VAR count : INTEGER; { Number of queued items }
+VAR other : INTEGER;
+
+PROCEDURE Clear;
+BEGIN
+  count := 0;
+END PROCEDURE; { not documentation }
+END MODULE.`);
+
+    const [count, other, clear] = ast.declarations as [VarDeclaration, VarDeclaration, ProcedureDeclaration];
+    expect(docs.get(count)).toBe('Number of queued items');
+    expect(docs.get(other)).toBeUndefined();
+    expect(docs.get(clear)).toBeUndefined();
+  });
+
+  it('should find comments on parameters and methods', () => {
+    const { ast, docs } = parse(`IMPLEMENTATION MODULE Shop;
+OBJECT CartObj;
+  { Adds items to the cart }
+  ASK METHOD Add(IN item : INTEGER; { Item number }
+                 IN count : INTEGER);
+  BEGIN
+  END METHOD;
+END OBJECT;
+END MODULE.`);
+
+    const method = (ast.declarations[0] as ObjectDeclaration).methods[0];
+    expect(docs.get(method)).toBe('Adds items to the cart');
+    expect(docs.get(method.parameters[0])).toBe('Item number');
+    expect(docs.get(method.parameters[1])).toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Doc Comments
+ *
+ * Finds the comment documenting a declaration: the block of comments directly
+ * above it, or failing that, a comment trailing a single-line declaration.
+ */
+
+import { Lexer } from './lexer';
+import { TokenType } from './ast';
+import type { Token, Trivia, Position } from './ast';
+
+/**
+ * Doc comments of a document, looked up by declaration range
+ */
+export class DocComments {
+  private tokens: Token[];
+  private byStart = new Map<number, number>();
+  private byEnd = new Map<number, number>();
+
+  /**
+   * Takes the document text, or its tokens when they were lexed with trivia
+   */
+  constructor(source: string | Token[]) {
+    this.tokens = typeof source === 'string' ? new Lexer(source, { trivia: true }).tokenize() : source;
+    this.tokens.forEach((token, index) => {
+      this.byStart.set(token.start.offset, index);
+      this.byEnd.set(token.end.offset, index);
+    });
+  }
+
+  /**
+   * Get the doc comment of a declaration, as Markdown
+   */
+  get(node: { start: Position; end: Position }): string | undefined {
+    const first = this.byStart.get(node.start.offset);
+    if (first === undefined) {
+      return undefined;
+    }
+
+    const leading = getLeadingComments(this.tokens[first].leadingTrivia ?? []);
+    if (leading.length > 0) {
+      return formatDocComment(leading);
+    }
+
+    // A trailing comment only documents a declaration that fits on one line;
+    // after a multi-line one it belongs to the last statement
+    const last = this.byEnd.get(node.end.offset);
+    if (last === undefined || this.tokens[last].end.line !== node.start.line) {
+      return undefined;
+    }
+
+    let trailing = getComments(this.tokens[last].trailingTrivia ?? []);
+    const next = this.tokens[last + 1];
+    if (trailing.length === 0 && (next?.type === TokenType.SEMICOLON || next?.type === TokenType.COMMA)) {
+      trailing = getComments(next.trailingTrivia ?? []);
+    }
+
+    return trailing.length > 0 ? formatDocComment(trailing) : undefined;
+  }
+}
+
+/**
+ * Comments directly above a token, not separated from it by a blank line
+ */
+function getLeadingComments(trivia: Trivia[]): Trivia[] {
+  const comments: Trivia[] = [];
+
+  for (let i = trivia.length - 1; i >= 0; i--) {
+    const piece = trivia[i];
+    if (isComment(piece)) {
+      comments.unshift(piece);
+    } else if (piece.type === TokenType.WHITESPACE && piece.text.split('\n').length > 2) {
+      break; // Blank line
+    }
+  }
+
+  return comments;
+}
+
+function getComments(trivia: Trivia[]): Trivia[] {
+  return trivia.filter(isComment);
+}
+
+function isComment(piece: Trivia): boolean {
+  // Stray '}' characters are kept as comment trivia but document nothing
+  return piece.type === TokenType.COMMENT && piece.text !== '}';
+}
+
+/**
+ * Strip comment delimiters and common indentation
+ */
+function formatDocComment(comments: Trivia[]): string | undefined {
+  const lines: string[] = [];
+
+  for (const comment of comments) {
+    let text = comment.text;
+    if (text.startsWith('(*')) {
+      text = text.slice(2, text.endsWith('*)') ? -2 : undefined);
+    } else if (text.startsWith('{')) {
+      text = text.slice(1, text.endsWith('}') ? -1 : undefined);
+    }
+
+    const commentLines = text.replace(/\r/g, '').split('\n').map(line => line.trimEnd());
+
+    // Drop ' * ' decorations when every continuation line has one
+    const rest = commentLines.slice(1).filter(line => line.trim() !== '');
+    if (rest.length > 0 && rest.every(line => /^\s*\*/.test(line))) {
+      for (let i = 1; i < commentLines.length; i++) {
+        commentLines[i] = commentLines[i].replace(/^\s*\* ?/, '');
+      }
+    }
+
+    const indents = commentLines
+      .slice(1)
+      .filter(line => line.trim() !== '')
+      .map(line => line.length - line.trimStart().length);
+    const indent = indents.length > 0 ? Math.min(...indents) : 0;
+
+    const body = [commentLines[0].trim(), ...commentLines.slice(1).map(line => line.slice(indent))];
+    while (body.length > 0 && body[0] === '') {
+      body.shift();
+    }
+    while (body.length > 0 && body[body.length - 1] === '') {
+      body.pop();
+    }
+    lines.push(...body);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
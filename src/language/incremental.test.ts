@@ -0,0 +1,236 @@
+/**
+ * Unit tests for incremental reparsing
+ */
+
+import { parseDocument, reparseDocument, ParseResult } from './incremental';
+import { SemanticAnalyzer } from './analyzer';
+import { DocComments } from './docComments';
+import type { Module, ObjectDeclaration, ProcedureDeclaration } from './ast';
+
+describe('Incremental Reparsing', () => {
+  const source = `
+IMPLEMENTATION MODULE Shop;
+FROM Util IMPORT Log;
+
+VAR total : INTEGER;
+
+PROCEDURE First;
+VAR x : INTEGER;
+BEGIN
+  x := 1;
+END PROCEDURE;
+
+(* Comment between declarations *)
+PROCEDURE Second(IN n : INTEGER) : INTEGER;
+BEGIN
+  RETURN n * 2;
+END PROCEDURE;
+
+OBJECT CartObj;
+  ASK METHOD Add(IN n : INTEGER);
+  BEGIN
+    total := total + n;
+  END METHOD;
+
+  TELL METHOD Checkout;
+  BEGIN
+    WAIT DURATION 1.0;
+  END METHOD;
+END OBJECT;
+
+PROCEDURE Third;
+BEGIN
+END PROCEDURE;
+END MODULE.
+`.trim();
+
+  function edit(text: string, search: string, replacement: string): string {
+    const index = text.indexOf(search);
+    expect(index).toBeGreaterThanOrEqual(0);
+    return text.slice(0, index) + replacement + text.slice(index + search.length);
+  }
+
+  function expectSameAsFullParse(result: ParseResult, text: string): void {
+    const full = parseDocument(text);
+    expect(result.ast).toEqual(full.ast);
+    expect(result.tokens).toEqual(full.tokens);
+    expect(result.errors.map(e => e.message)).toEqual(full.errors.map(e => e.message));
+  }
+
+  it('should reparse only the edited procedure', () => {
+    const previous = parseDocument(source);
+    const [, first, second, object, third] = previous.ast.declarations;
+    const text = edit(source, 'x := 1;', 'x := 1;\n  x := x + 10;');
+
+    const result = reparseDocument(previous, text);
+
+    expect(result.incremental).toBe(true);
+    expectSameAsFullParse(result, text);
+    // Untouched declarations are reused, not rebuilt
+    expect(result.ast.declarations[1]).not.toBe(first);
+    expect(result.ast.declarations[2]).toBe(second);
+    expect(result.ast.declarations[3]).toBe(object);
+    expect(result.ast.declarations[4]).toBe(third);
+    expect((result.ast.declarations[1] as ProcedureDeclaration).body).toHaveLength(2);
+  });
+
+  it('should reparse a single method of an OBJECT block', () => {
+    const previous = parseDocument(source);
+    const object = previous.ast.declarations[3] as ObjectDeclaration;
+    const checkout = object.methods[1];
+    const text = edit(source, 'total := total + n;', 'total := total + n * 2;');
+
+    const result = reparseDocument(previous, text);
+
+    expect(result.incremental).toBe(true);
+    expectSameAsFullParse(result, text);
+    const updated = result.ast.declarations[3] as ObjectDeclaration;
+    expect(updated.methods[1]).toBe(checkout);
+  });
+
+  it('should handle edits that remove text and change line counts', () => {
+    const previous = parseDocument(source);
+    const text = edit(source, 'VAR x : INTEGER;\nBEGIN\n  x := 1;', 'BEGIN');
+
+    const result = reparseDocument(previous, text);
+
+    expect(result.incremental).toBe(true);
+    expectSameAsFullParse(result, text);
+  });
+
+  it('should handle edits in comments between declarations', () => {
+    const previous = parseDocument(source);
+    const text = edit(source, 'Comment between', 'A longer comment\nspanning lines between');
+
+    const result = reparseDocument(previous, text);
+
+    expect(result.incremental).toBe(true);
+    expectSameAsFullParse(result, text);
+  });
+
+  it('should keep syntax errors located correctly', () => {
+    const broken = edit(source, 'RETURN n * 2;', 'RETURN n * ;');
+    const previous = parseDocument(broken);
+    const text = edit(broken, 'x := 1;', 'x := ;\n\n  x := 2;');
+
+    const result = reparseDocument(previous, text);
+
+    expect(result.incremental).toBe(true);
+    expect(result.errors).toHaveLength(2);
+    expectSameAsFullParse(result, text);
+  });
+
+  it('should fall back to a full parse when an edit leaves a block open', () => {
+    const previous = parseDocument(source);
+    const text = edit(source, 'x := 1;\nEND PROCEDURE;', 'x := 1;');
+
+    const result = reparseDocument(previous, text);
+
+    expect(result.incremental).toBe(false);
+    expectSameAsFullParse(result, text);
+  });
+
+  it('should fall back to a full parse when an edit opens a comment', () => {
+    const previous = parseDocument(source);
+    const text = edit(source, 'x := 1;', 'x := 1; (*');
+
+    const result = reparseDocument(previous, text);
+
+    expect(result.incremental).toBe(false);
+    expectSameAsFullParse(result, text);
+  });
+
+  it('should fall back to a full parse for edits outside declarations', () => {
+    const previous = parseDocument(source);
+    const text = edit(source, 'FROM Util IMPORT Log;', 'FROM Util IMPORT Log, Warn;');
+
+    const result = reparseDocument(previous, text);
+
+    expect(result.incremental).toBe(false);
+    expectSameAsFullParse(result, text);
+  });
+
+  it('should support a sequence of edits', () => {
+    let result = parseDocument(source);
+    let text = source;
+    for (const statement of ['x := 2;', 'x := 3;', 'x := 4;']) {
+      text = edit(text, 'x := 1;', `x := 1;\n  ${statement}`);
+      result = reparseDocument(result, text);
+      expect(result.incremental).toBe(true);
+    }
+
+    expectSameAsFullParse(result, text);
+  });
+
+  it('should keep the comments around the reparsed region for doc comments', () => {
+    const previous = parseDocument(source);
+    const text = edit(source, 'RETURN n * 2;', 'RETURN n * 3;');
+
+    const result = reparseDocument(previous, text);
+
+    expect(result.incremental).toBe(true);
+    expect(new DocComments(result.tokens).get(result.ast.declarations[2])).toBe('Comment between declarations');
+  });
+
+  describe('Analysis reuse', () => {
+    const analyzed = edit(source, 'PROCEDURE Third;\nBEGIN', 'PROCEDURE Third;\nVAR unused : INTEGER;\nBEGIN');
+
+    function analyze(ast: Module, previous?: SemanticAnalyzer) {
+      const analyzer = new SemanticAnalyzer();
+      const analysis = previous?.getAnalysis();
+      if (analysis) {
+        analyzer.setPreviousAnalysis(analysis);
+      }
+      const diagnostics = analyzer.analyze(ast);
+      return { analyzer, diagnostics, symbolTable: analyzer.getSymbolTable() };
+    }
+
+    it('should reuse the symbols and scopes of untouched declarations', () => {
+      const previous = parseDocument(analyzed);
+      const before = analyze(previous.ast);
+      const first = before.symbolTable.lookupGlobal('First');
+      const second = before.symbolTable.lookupGlobal('Second');
+      const thirdScope = before.symbolTable.scopes.get('Third');
+      const text = edit(analyzed, 'x := 1;', 'x := 1;\n  x := x + 10;');
+
+      const after = analyze(reparseDocument(previous, text).ast, before.analyzer);
+
+      expect(after.symbolTable.lookupGlobal('First')).not.toBe(first);
+      expect(after.symbolTable.lookupGlobal('Second')).toBe(second);
+      expect(after.symbolTable.scopes.get('Third')).toBe(thirdScope);
+      const unused = after.diagnostics.find(d => d.code === 'unused-variable');
+      expect(after.symbolTable.findScopeAt(unused!.start)).toBe(thirdScope);
+      expect(after.diagnostics).toEqual(analyze(parseDocument(text).ast).diagnostics);
+    });
+
+    it('should move the diagnostics of untouched declarations over a sequence of edits', () => {
+      let result = parseDocument(analyzed);
+      let text = analyzed;
+      let current = analyze(result.ast);
+      const thirdScope = current.symbolTable.scopes.get('Third');
+      for (const statement of ['x := ;', 'x := 3;', 'total := x;']) {
+        text = edit(text, 'x := 1;', `x := 1;\n\n  ${statement}`);
+        result = reparseDocument(result, text);
+        current = analyze(result.ast, current.analyzer);
+      }
+
+      expect(current.symbolTable.scopes.get('Third')).toBe(thirdScope);
+      expect(current.diagnostics.length).toBeGreaterThan(0);
+      expect(current.diagnostics).toEqual(analyze(parseDocument(text).ast).diagnostics);
+    });
+
+    it('should analyze every declaration again when a heading changes', () => {
+      const previous = parseDocument(analyzed);
+      const before = analyze(previous.ast);
+      const thirdScope = before.symbolTable.scopes.get('Third');
+      const text = edit(analyzed, 'Second(IN n : INTEGER)', 'Second(IN n : REAL)');
+
+      const result = reparseDocument(previous, text);
+      const after = analyze(result.ast, before.analyzer);
+
+      expect(result.incremental).toBe(true);
+      expect(after.symbolTable.scopes.get('Third')).not.toBe(thirdScope);
+      expect(after.diagnostics).toEqual(analyze(parseDocument(text).ast).diagnostics);
+    });
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * Incremental Reparsing
+ *
+ * Re-lexes and reparses only the top-level declarations (or the single method)
+ * touched by an edit, and reuses every other token and AST subtree from the
+ * previous parse. Whenever the edit could change how the surrounding text
+ * parses, this falls back to a full parse. The analyzer in turn reuses the
+ * analysis of the declarations that kept their AST nodes (see
+ * SemanticAnalyzer.setPreviousAnalysis).
+ */
+
+import { Lexer } from './lexer';
+import { Parser, ParseError } from './parser';
+import { TokenType } from './ast';
+import type { ASTNode, Token, Position, Module, Declaration, ObjectDeclaration } from './ast';
+
+/**
+ * Result of parsing a document
+ */
+export interface ParseResult {
+  text: string;
+  tokens: Token[]; // With trivia, for doc comments
+  ast: Module;
+  errors: ParseError[];
+  incremental: boolean; // Whether only the edited region was reparsed
+}
+
+/**
+ * Text range changed by an edit: [start, oldEnd) in the old text became
+ * [start, newEnd) in the new text
+ */
+interface TextEdit {
+  start: number;
+  oldEnd: number;
+  newEnd: number;
+}
+
+/**
+ * Freshly parsed replacement for a run of nodes from the previous parse
+ */
+interface Fragment<T extends ASTNode> {
+  tokens: Token[];
+  nodes: T[];
+  errors: ParseError[];
+  oldStart: number;
+  oldEnd: Position; // End of the replaced nodes in the old text
+  newEnd: Position; // End of the new nodes in the new text
+}
+
+const LOCATION_SUFFIX = / at line \d+, column \d+$/;
+
+/**
+ * Parse a complete document
+ */
+export function parseDocument(text: string): ParseResult {
+  const tokens = new Lexer(text, { trivia: true }).tokenize();
+  const parser = new Parser(tokens, { errorRecovery: true });
+  const ast = parser.parse();
+
+  return { text, tokens, ast, errors: parser.getErrors(), incremental: false };
+}
+
+/**
+ * Parse a new version of a document, reusing the previous result where possible.
+ * Reused tokens and AST nodes are updated in place, so the previous result must
+ * not be used afterwards.
+ */
+export function reparseDocument(previous: ParseResult, text: string): ParseResult {
+  if (text === previous.text) {
+    return previous;
+  }
+
+  return reparseEditedRegion(previous, text) ?? parseDocument(text);
+}
+
+function reparseEditedRegion(previous: ParseResult, text: string): ParseResult | undefined {
+  const edit = findEdit(previous.text, text);
+  const declarations = previous.ast.declarations;
+  const run = findEnclosingRun(declarations, edit);
+  if (!run) {
+    return undefined;
+  }
+
+  // An edit inside one method of an OBJECT block only needs that method reparsed
+  const declaration = declarations[run.first];
+  if (run.first === run.last && declaration.type === 'ObjectDeclaration') {
+    const result = reparseMethod(previous, text, edit, run.first, declaration);
+    if (result) {
+      return result;
+    }
+  }
+
+  return reparseDeclarations(previous, text, edit, run.first, run.last);
+}
+
+/**
+ * Reparse the top-level declarations declarations[first..last]
+ */
+function reparseDeclarations(
+  previous: ParseResult,
+  text: string,
+  edit: TextEdit,
+  first: number,
+  last: number
+): ParseResult | undefined {
+  const declarations = previous.ast.declarations;
+  const replaced = declarations.slice(first, last + 1);
+
+  // TYPE/CONST/VAR sections carry state (the RAMS keyword-less continuations)
+  // into the declarations that follow, so only PROCEDURE and OBJECT blocks
+  // can be reparsed in isolation
+  if (!replaced.every(isSelfContained)) {
+    return undefined;
+  }
+
+  const fragment = parseFragment(text, edit, replaced, parser => parser.parseDeclarationList());
+  if (!fragment || !fragment.nodes.every(isSelfContained)) {
+    return undefined;
+  }
+
+  // OBJECT blocks end any open TYPE/CONST/VAR section; that must not change
+  if (replaced.some(isObject) !== fragment.nodes.some(isObject)) {
+    return undefined;
+  }
+
+  // A body-less PROCEDURE looks ahead into the following VAR/CONST/TYPE for a BEGIN
+  if (nextTokenIsOneOf(previous.tokens, fragment.oldEnd.offset, [TokenType.VAR, TokenType.CONST, TokenType.TYPE])) {
+    return undefined;
+  }
+
+  const ast: Module = {
+    ...previous.ast,
+    declarations: [...declarations.slice(0, first), ...fragment.nodes, ...declarations.slice(last + 1)],
+  };
+
+  return splice(previous, text, fragment, ast, replaced);
+}
+
+/**
+ * Reparse a single method of an OBJECT block
+ */
+function reparseMethod(
+  previous: ParseResult,
+  text: string,
+  edit: TextEdit,
+  index: number,
+  object: ObjectDeclaration
+): ParseResult | undefined {
+  const lists = [object.methods, object.privateSection?.methods ?? []];
+
+  for (const methods of lists) {
+    const run = findEnclosingRun(methods, edit);
+    if (!run || run.first !== run.last) {
+      continue;
+    }
+
+    const method = methods[run.first];
+    const fragment = parseFragment(text, edit, [method], parser => parser.parseMethodList());
+    if (!fragment || fragment.nodes.length !== 1) {
+      return undefined;
+    }
+
+    // A method without a body takes following declarations as its local declarations
+    const following = [TokenType.VAR, TokenType.CONST, TokenType.TYPE, TokenType.IDENTIFIER];
+    if (nextTokenIsOneOf(previous.tokens, fragment.oldEnd.offset, following)) {
+      return undefined;
+    }
+
+    const updatedMethods = methods.map(m => (m === method ? fragment.nodes[0] : m));
+    const updatedObject: ObjectDeclaration = methods === object.methods
+      ? { ...object, methods: updatedMethods }
+      : { ...object, privateSection: { fields: object.privateSection!.fields, methods: updatedMethods } };
+
+    const declarations = [...previous.ast.declarations];
+    declarations[index] = updatedObject;
+
+    return splice(previous, text, fragment, { ...previous.ast, declarations }, [method]);
+  }
+
+  return undefined;
+}
+
+/**
+ * Lex and parse the new text of the region covered by the given nodes.
+ * Returns undefined if the result might differ from what a full parse would
+ * produce for that region.
+ */
+function parseFragment<T extends ASTNode>(
+  text: string,
+  edit: TextEdit,
+  replaced: ASTNode[],
+  parse: (parser: Parser) => T[]
+): Fragment<T> | undefined {
+  // Text before the edit is unchanged, so the region's start position still holds
+  const start = replaced[0].start;
+  const oldEnd = replaced[replaced.length - 1].end;
+  const newEndOffset = oldEnd.offset + (edit.newEnd - edit.oldEnd);
+
+  const tokens = new Lexer(text, { trivia: true }).tokenizeRange(start, newEndOffset);
+  if (!tokens || tokens.length === 0) {
+    return undefined;
+  }
+
+  const eofPosition = tokens[tokens.length - 1].end;
+  const eof: Token = { type: TokenType.EOF, value: '', start: eofPosition, end: eofPosition };
+  const parser = new Parser([...tokens, eof], { errorRecovery: true });
+  const nodes = parse(parser);
+  const errors = parser.getErrors();
+
+  // The new nodes must end exactly where the region ends; otherwise the full
+  // parser would have carried on into the text that follows
+  if (nodes.length === 0 || nodes[nodes.length - 1].end.offset !== newEndOffset) {
+    return undefined;
+  }
+
+  // Errors are fine as long as they are contained in the new nodes. An error
+  // at EOF means a construct was left open and would have swallowed more text.
+  const contained = errors.every(error =>
+    error.token !== eof && nodes.some(node => containsOffset(node, error.token.start.offset))
+  );
+  if (!contained) {
+    return undefined;
+  }
+
+  return {
+    tokens,
+    nodes,
+    errors,
+    oldStart: start.offset,
+    oldEnd: { ...oldEnd },
+    newEnd: { ...nodes[nodes.length - 1].end },
+  };
+}
+
+/**
+ * Combine the fragment with the reused tokens, AST nodes and errors of the
+ * previous parse, moving everything after the region to its new position
+ */
+function splice<T extends ASTNode>(
+  previous: ParseResult,
+  text: string,
+  fragment: Fragment<T>,
+  ast: Module,
+  replaced: ASTNode[]
+): ParseResult {
+  const shift = new PositionShift(fragment.oldEnd, fragment.newEnd);
+
+  // The AST goes first: its walk relies on unshifted positions to skip subtrees
+  shiftTree(ast, shift, new Set<object>([...replaced, ...fragment.nodes]));
+
+  const firstReplaced = firstTokenAt(previous.tokens, fragment.oldStart);
+  const firstAfter = firstTokenAt(previous.tokens, fragment.oldEnd.offset);
+  const tokensBefore = previous.tokens.slice(0, firstReplaced);
+  const tokensAfter = previous.tokens.slice(firstAfter);
+  for (const token of tokensAfter) {
+    shiftToken(token, shift);
+  }
+
+  // Trivia around the region is unchanged: the new tokens take it over from the replaced ones
+  const trailingTrivia = previous.tokens[firstAfter - 1].trailingTrivia ?? [];
+  for (const piece of trailingTrivia) {
+    shift.apply(piece.start);
+    shift.apply(piece.end);
+  }
+  fragment.tokens[0].leadingTrivia = previous.tokens[firstReplaced].leadingTrivia;
+  fragment.tokens[fragment.tokens.length - 1].trailingTrivia = trailingTrivia;
+
+  const errorsBefore = previous.errors.filter(e => e.token.start.offset < fragment.oldStart);
+  const errorsAfter = previous.errors
+    .filter(e => e.token.start.offset >= fragment.oldEnd.offset)
+    .map(e => relocateError(e, shift));
+
+  return {
+    text,
+    tokens: [...tokensBefore, ...fragment.tokens, ...tokensAfter],
+    ast,
+    errors: [...errorsBefore, ...fragment.errors, ...errorsAfter],
+    incremental: true,
+  };
+}
+
+/**
+ * Find the changed range between two versions of a text
+ */
+function findEdit(oldText: string, newText: string): TextEdit {
+  const maxPrefix = Math.min(oldText.length, newText.length);
+  let start = 0;
+  while (start < maxPrefix && oldText.charCodeAt(start) === newText.charCodeAt(start)) {
+    start++;
+  }
+
+  const maxSuffix = maxPrefix - start;
+  let suffix = 0;
+  while (
+    suffix < maxSuffix &&
+    oldText.charCodeAt(oldText.length - 1 - suffix) === newText.charCodeAt(newText.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+
+  return { start, oldEnd: oldText.length - suffix, newEnd: newText.length - suffix };
+}
+
+/**
+ * Find the smallest run of consecutive nodes whose span contains the edit.
+ * An edit in the gap between two nodes is covered by both neighbours.
+ */
+function findEnclosingRun(nodes: ASTNode[], edit: TextEdit): { first: number; last: number } | undefined {
+  let first = -1;
+  let last = -1;
+
+  for (let i = 0; i < nodes.length; i++) {
+    if (first < 0 && nodes[i].end.offset >= edit.start) {
+      first = i;
+    }
+    if (nodes[i].start.offset <= edit.oldEnd) {
+      last = i;
+    }
+  }
+
+  if (first < 0 || last < 0) {
+    return undefined;
+  }
+  if (last < first) {
+    [first, last] = [last, first];
+  }
+  if (edit.start < nodes[first].start.offset || edit.oldEnd > nodes[last].end.offset) {
+    return undefined;
+  }
+
+  return { first, last };
+}
+
+/**
+ * Moves positions after the old region end to the corresponding positions after
+ * the new region end. Each position is moved once, as position objects are
+ * shared between tokens and AST nodes.
+ */
+class PositionShift {
+  private readonly shifted = new Set<Position>();
+
+  constructor(
+    private readonly oldEnd: Position,
+    private readonly newEnd: Position
+  ) {}
+
+  apply(position: Position): void {
+    if (this.isBeforeRegionEnd(position) || this.shifted.has(position)) {
+      return;
+    }
+    this.shifted.add(position);
+
+    if (position.line === this.oldEnd.line) {
+      position.column += this.newEnd.column - this.oldEnd.column;
+    }
+    position.line += this.newEnd.line - this.oldEnd.line;
+    position.offset += this.newEnd.offset - this.oldEnd.offset;
+  }
+
+  // Whether the position was before the region end in the old text
+  isBeforeRegionEnd(position: Position): boolean {
+    return !this.shifted.has(position) && position.offset < this.oldEnd.offset;
+  }
+}
+
+/**
+ * Apply the shift to every position in an AST subtree. Subtrees ending before
+ * the region are left alone, as are the skipped (replaced and new) nodes.
+ */
+function shiftTree(value: unknown, shift: PositionShift, skip: ReadonlySet<object>): void {
+  if (!value || typeof value !== 'object' || skip.has(value)) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      shiftTree(item, shift, skip);
+    }
+    return;
+  }
+
+  if (isPosition(value)) {
+    shift.apply(value);
+    return;
+  }
+
+  const end = (value as { end?: unknown }).end;
+  if (isPosition(end) && shift.isBeforeRegionEnd(end)) {
+    return;
+  }
+
+  for (const child of Object.values(value)) {
+    shiftTree(child, shift, skip);
+  }
+}
+
+/**
+ * Move a token after the region, with its trivia
+ */
+function shiftToken(token: Token, shift: PositionShift): void {
+  shift.apply(token.start);
+  shift.apply(token.end);
+  for (const piece of [...(token.leadingTrivia ?? []), ...(token.trailingTrivia ?? [])]) {
+    shift.apply(piece.start);
+    shift.apply(piece.end);
+  }
+}
+
+/**
+ * Rebuild a shifted error so its message reports the new location
+ */
+function relocateError(error: ParseError, shift: PositionShift): ParseError {
+  shift.apply(error.token.start);
+  shift.apply(error.token.end);
+
+  const { line, column } = error.token.start;
+  const message = error.message.replace(LOCATION_SUFFIX, ` at line ${line}, column ${column}`);
+  return new ParseError(message, error.token, error.code);
+}
+
+/**
+ * Index of the first token starting at or after the given offset
+ */
+function firstTokenAt(tokens: Token[], offset: number): number {
+  let low = 0;
+  let high = tokens.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (tokens[mid].start.offset < offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Check whether the first parser-visible token after the offset has one of the given types
+ */
+function nextTokenIsOneOf(tokens: Token[], offset: number, types: TokenType[]): boolean {
+  for (let i = firstTokenAt(tokens, offset); i < tokens.length; i++) {
+    if (tokens[i].type !== TokenType.ERROR) {
+      return types.includes(tokens[i].type);
+    }
+  }
+  return false;
+}
+
+function containsOffset(node: ASTNode, offset: number): boolean {
+  return node.start.offset <= offset && offset < node.end.offset;
+}
+
+function isSelfContained(declaration: Declaration): boolean {
+  return declaration.type === 'ProcedureDeclaration' || declaration.type === 'ObjectDeclaration';
+}
+
+function isObject(declaration: Declaration): boolean {
+  return declaration.type === 'ObjectDeclaration';
+}
+
+function isPosition(value: unknown): value is Position {
+  const position = value as Position;
+  return !!position && typeof position === 'object' &&
+    typeof position.line === 'number' && typeof position.column === 'number' && typeof position.offset === 'number';
+}
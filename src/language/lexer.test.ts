@@ -325,6 +325,43 @@ describe('Lexer', () => {
     });
   });
 
+  describe('Trivia', () => {
+    it('should not attach trivia by default', () => {
+      const tokens = new Lexer('BEGIN { comment } END').tokenize();
+
+      expect(tokens[0].leadingTrivia).toBeUndefined();
+      expect(tokens[0].trailingTrivia).toBeUndefined();
+    });
+
+    it('should attach comments on the same line as trailing trivia', () => {
+      const tokens = new Lexer('x := 1; (* set x *)\n  y := 2;', { trivia: true }).tokenize();
+      const semicolon = tokens[3];
+
+      expect(semicolon.type).toBe(TokenType.SEMICOLON);
+      expect(semicolon.trailingTrivia!.map(t => t.text)).toEqual([' ', '(* set x *)', '\n']);
+      expect(tokens[4].leadingTrivia!.map(t => t.text)).toEqual(['  ']);
+      expect(tokens[4].leadingTrivia![0].start).toEqual({ line: 2, column: 1, offset: 20 });
+    });
+
+    it('should attach comments on their own lines as leading trivia', () => {
+      const tokens = new Lexer('VAR\n{ first }\n(* second *)\nx : INTEGER;', { trivia: true }).tokenize();
+
+      expect(tokens[0].trailingTrivia!.map(t => t.text)).toEqual(['\n']);
+      expect(tokens[1].leadingTrivia!.map(t => t.type)).toEqual([
+        TokenType.COMMENT, TokenType.WHITESPACE, TokenType.COMMENT, TokenType.WHITESPACE,
+      ]);
+    });
+
+    it('should keep stray closing braces and final trivia', () => {
+      const tokens = new Lexer('END } (* done *)\n', { trivia: true }).tokenize();
+      const eof = tokens[tokens.length - 1];
+
+      expect(tokens[0].trailingTrivia!.map(t => t.text)).toEqual([' ', '}', ' ', '(* done *)', '\n']);
+      expect(eof.type).toBe(TokenType.EOF);
+      expect(eof.leadingTrivia).toEqual([]);
+    });
+  });
+
   describe('Position Tracking', () => {
     it('should track line and column positions', () => {
       const lexer = new Lexer('BEGIN\n  x := 10;\nEND');
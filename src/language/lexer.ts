@@ -5,7 +5,7 @@
  * Handles all keywords (ALL CAPS only), operators, literals, and nestable comments.
  */
 
-import { Token, TokenType, KEYWORDS, Position } from './ast';
+import { Token, TokenType, KEYWORDS, Position, Trivia } from './ast';
 
 export class Lexer {
   private source: string;
@@ -13,13 +13,19 @@ export class Lexer {
   private line: number;
   private column: number;
   private tokens: Token[];
+  private trivia: Trivia[] | undefined;
 
-  constructor(source: string) {
+  /**
+   * With `trivia` enabled, comments and whitespace are kept on the tokens as
+   * leading and trailing trivia, so the source can be rebuilt exactly
+   */
+  constructor(source: string, options?: { trivia?: boolean }) {
     this.source = source;
     this.position = 0;
     this.line = 1;
     this.column = 1;
     this.tokens = [];
+    this.trivia = options?.trivia ? [] : undefined;
   }
 
   /**
@@ -35,6 +41,41 @@ export class Lexer {
     // Add EOF token
     this.tokens.push(this.createToken(TokenType.EOF, ''));
 
+    if (this.trivia) {
+      this.attachTrivia(this.trivia);
+    }
+
+    return this.tokens;
+  }
+
+  /**
+   * Tokenize only the source between start and endOffset, with positions as in
+   * the full source. No EOF token is added. With `trivia` enabled, trivia
+   * between the tokens is attached; the first token has no leading and the
+   * last no trailing trivia, as that lies outside the range.
+   * Returns undefined if a token or comment runs past endOffset, since the range
+   * then can't be lexed independently of the text that follows it.
+   */
+  public tokenizeRange(start: Position, endOffset: number): Token[] | undefined {
+    this.tokens = [];
+    this.position = start.offset;
+    this.line = start.line;
+    this.column = start.column;
+    this.trivia = this.trivia ? [] : undefined;
+
+    while (this.position < endOffset) {
+      this.scanToken();
+    }
+
+    // Running past the end over whitespace is harmless, anything else is not
+    if (/\S/.test(this.source.slice(endOffset, this.position))) {
+      return undefined;
+    }
+
+    if (this.trivia) {
+      this.attachTrivia(this.trivia);
+    }
+
     return this.tokens;
   }
 
@@ -48,18 +89,21 @@ export class Lexer {
     // Skip whitespace
     if (this.isWhitespace(ch)) {
       this.skipWhitespace();
+      this.addTrivia(TokenType.WHITESPACE, start);
       return;
     }
 
     // Comments
     if (ch === '{') {
       this.scanComment('{', '}');
+      this.addTrivia(TokenType.COMMENT, start);
       return;
     }
 
     if (ch === '(' && this.peek() === '*') {
       this.advance(); // consume '*'
       this.scanComment('(*', '*)');
+      this.addTrivia(TokenType.COMMENT, start);
       return;
     }
 
@@ -357,6 +401,7 @@ export class Lexer {
         // These are unmatched comment terminators that should be silently ignored
         // This is a quirk of the language - stray } characters are valid and do nothing
         // Do not create a token - just skip it
+        this.addTrivia(TokenType.COMMENT, start);
         break;
       default:
         this.addErrorToken(start, `Unexpected character: '${ch}'`);
@@ -508,6 +553,82 @@ export class Lexer {
     this.tokens.push(token);
   }
 
+  /**
+   * Record the source from start to the current position as trivia
+   */
+  private addTrivia(type: Trivia['type'], start: Position): void {
+    this.trivia?.push({
+      type,
+      text: this.source.slice(start.offset, this.position),
+      start,
+      end: this.currentPosition(),
+    });
+  }
+
+  /**
+   * Distribute trivia over the tokens. A token's trailing trivia runs up to and
+   * including the end of its line; everything else leads the next token, and
+   * whatever follows the last token leads EOF.
+   */
+  private attachTrivia(trivia: Trivia[]): void {
+    let next = 0;
+
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      const leading: Trivia[] = [];
+      const trailing: Trivia[] = [];
+
+      while (next < trivia.length && trivia[next].end.offset <= token.start.offset) {
+        leading.push(trivia[next++]);
+      }
+
+      // Trailing trivia of the previous token is taken from the front of this run
+      if (i > 0) {
+        const previous = this.tokens[i - 1];
+        while (leading.length > 0) {
+          const piece = leading[0];
+          const newline = piece.type === TokenType.WHITESPACE ? piece.text.indexOf('\n') : -1;
+          if (newline >= 0) {
+            const [lineEnd, rest] = this.splitTrivia(piece, newline + 1);
+            trailing.push(lineEnd);
+            if (rest) {
+              leading[0] = rest;
+            } else {
+              leading.shift();
+            }
+            break;
+          }
+          trailing.push(leading.shift()!);
+        }
+        previous.trailingTrivia = trailing;
+      }
+
+      token.leadingTrivia = leading;
+      token.trailingTrivia = [];
+    }
+  }
+
+  /**
+   * Split whitespace trivia after the given number of characters
+   */
+  private splitTrivia(piece: Trivia, length: number): [Trivia, Trivia | undefined] {
+    if (length >= piece.text.length) {
+      return [piece, undefined];
+    }
+
+    // Splits only happen right after the first newline
+    const middle: Position = {
+      line: piece.start.line + 1,
+      column: 1,
+      offset: piece.start.offset + length,
+    };
+
+    return [
+      { type: piece.type, text: piece.text.slice(0, length), start: piece.start, end: middle },
+      { type: piece.type, text: piece.text.slice(length), start: middle, end: piece.end },
+    ];
+  }
+
   /**
    * Add an error token
    */
@@ -4,7 +4,7 @@
 
 import { Lexer } from './lexer';
 import { Parser } from './parser';
-import type { Module, ProcedureDeclaration, IfStatement, ForStatement } from './ast';
+import type { Module, ProcedureDeclaration, ObjectDeclaration, IfStatement, ForStatement } from './ast';
 
 describe('Parser', () => {
   function parse(source: string): Module {
@@ -583,6 +583,21 @@ END MODULE;
       expect(ifStmt.condition.left.type).toBe('CallExpression');
       expect(ifStmt.condition.left.callee.name).toBe('ANYOBJ');
     });
+
+    it('should keep the replacement of ANYOBJ in a parameterized base type', () => {
+      const source = `
+IMPLEMENTATION MODULE Test;
+TYPE
+  JobQueue = OBJECT(QueueObj[ANYOBJ:#Job])
+  END OBJECT;
+END MODULE;
+      `.trim();
+
+      const ast = parse(source);
+      const objType = (ast.declarations[0] as any).typeSpec;
+      expect(objType.baseTypes).toEqual(['QueueObj']);
+      expect(objType.elementType).toMatchObject({ type: 'SimpleType', name: 'Job', start: { line: 3, column: 38 } });
+    });
   });
 
   describe('POINTER types', () => {
@@ -1255,4 +1270,155 @@ END MODULE;
       expect(proc.body[1].type).toBe('TellStatement');
     });
   });
+
+  describe('Error Recovery', () => {
+    function parseWithRecovery(source: string): { ast: Module; parser: Parser } {
+      const tokens = new Lexer(source).tokenize();
+      const parser = new Parser(tokens, { errorRecovery: true });
+      return { ast: parser.parse(), parser };
+    }
+
+    it('should report every syntax error and keep the surrounding declarations', () => {
+      const source = `
+IMPLEMENTATION MODULE Test;
+PROCEDURE First;
+VAR x : INTEGER;
+BEGIN
+  x := 1 +;
+  x := 2;
+END PROCEDURE;
+
+PROCEDURE Second;
+VAR y : INTEGER;
+BEGIN
+  y := * 3;
+END PROCEDURE;
+
+PROCEDURE Third;
+BEGIN
+END PROCEDURE;
+END MODULE.
+      `.trim();
+
+      const { ast, parser } = parseWithRecovery(source);
+      expect(parser.getErrors()).toHaveLength(2);
+      expect(parser.getErrors()[0].token.start.line).toBe(5);
+      expect(parser.getErrors()[1].token.start.line).toBe(12);
+
+      const names = ast.declarations.map(d => (d as ProcedureDeclaration).name);
+      expect(names).toEqual(['First', 'Second', 'Third']);
+      // The statement after the bad one is still parsed
+      expect((ast.declarations[0] as ProcedureDeclaration).body).toHaveLength(1);
+    });
+
+    it('should skip a broken compound statement up to its END', () => {
+      const source = `
+IMPLEMENTATION MODULE Test;
+PROCEDURE Run;
+VAR x : INTEGER;
+BEGIN
+  IF x = THEN
+    x := 1;
+  END IF;
+  x := 2;
+END PROCEDURE;
+END MODULE.
+      `.trim();
+
+      const { ast, parser } = parseWithRecovery(source);
+      expect(parser.getErrors()).toHaveLength(1);
+      const proc = ast.declarations[0] as ProcedureDeclaration;
+      expect(proc.body).toHaveLength(1);
+      expect(proc.body[0].type).toBe('AssignmentStatement');
+    });
+
+    it('should not swallow the next procedure when END PROCEDURE is missing', () => {
+      const source = `
+IMPLEMENTATION MODULE Test;
+PROCEDURE First;
+BEGIN
+  x := 1;
+
+PROCEDURE Second;
+BEGIN
+END PROCEDURE;
+END MODULE.
+      `.trim();
+
+      const { ast, parser } = parseWithRecovery(source);
+      expect(parser.getErrors()).toHaveLength(1);
+      expect(parser.getErrors()[0].message).toContain('Expected END');
+      const names = ast.declarations.map(d => (d as ProcedureDeclaration).name);
+      expect(names).toEqual(['First', 'Second']);
+    });
+
+    it('should recover inside object bodies at method level', () => {
+      const source = `
+IMPLEMENTATION MODULE Test;
+OBJECT CarObj;
+  ASK METHOD Broken(IN : INTEGER);
+  BEGIN
+  END METHOD;
+
+  ASK METHOD Fine;
+  BEGIN
+  END METHOD;
+END OBJECT;
+END MODULE.
+      `.trim();
+
+      const { ast, parser } = parseWithRecovery(source);
+      expect(parser.getErrors()).toHaveLength(1);
+      const obj = ast.declarations[0] as ObjectDeclaration;
+      expect(obj.type).toBe('ObjectDeclaration');
+      expect(obj.methods.map(m => m.name)).toEqual(['Fine']);
+    });
+
+    it('should report a stray BEGIN in an implementation module and continue', () => {
+      const source = `
+IMPLEMENTATION MODULE Test;
+VAR count : INTEGER;
+BEGIN
+  count := 0;
+END;
+PROCEDURE After;
+BEGIN
+END PROCEDURE;
+END MODULE.
+      `.trim();
+
+      const { ast, parser } = parseWithRecovery(source);
+      expect(parser.getErrors().length).toBeGreaterThanOrEqual(1);
+      expect(parser.getErrors()[0].message).toContain('Unexpected BEGIN');
+      const names = ast.declarations.map(d => (d as { name?: string }).name);
+      expect(names).toContain('After');
+    });
+
+    it('should not report the same error twice', () => {
+      const source = `
+IMPLEMENTATION MODULE Test;
+PROCEDURE Run;
+BEGIN
+  x := ;
+END PROCEDURE;
+END MODULE.
+      `.trim();
+
+      const { parser } = parseWithRecovery(source);
+      expect(parser.getErrors()).toHaveLength(1);
+    });
+
+    it('should still throw on the first error without error recovery', () => {
+      const source = `
+IMPLEMENTATION MODULE Test;
+PROCEDURE Run;
+BEGIN
+  x := ;
+END PROCEDURE;
+END MODULE.
+      `.trim();
+
+      expect(() => parse(source)).toThrow('Expected expression');
+    });
+  });
 });
@@ -7,6 +7,7 @@
 
 import { Token, TokenType, Module } from './ast';
 import type {
+  Position,
   ImportStatement,
   ExportStatement,
   Declaration,
@@ -18,22 +19,41 @@ import type {
   MethodDeclaration,
   Parameter,
   TypeSpec,
+  SimpleType,
   ArrayType,
   RecordType,
   Statement,
   Expression,
 } from './ast';
+import { SyntaxErrorCode } from './diagnostics';
 
 export class ParseError extends Error {
   constructor(
     message: string,
-    public token: Token
+    public token: Token,
+    public code: SyntaxErrorCode = SyntaxErrorCode.SyntaxError
   ) {
     super(message);
     this.name = 'ParseError';
   }
 }
 
+// A missing END gets its own code, since it usually means a block was left open
+function expectedTokenCode(type: TokenType): SyntaxErrorCode {
+  return type === TokenType.END ? SyntaxErrorCode.MissingEnd : SyntaxErrorCode.ExpectedToken;
+}
+
+// Statements closed by END <keyword>, used to skip whole statements during error recovery
+const COMPOUND_STATEMENTS: ReadonlySet<TokenType | undefined> = new Set([
+  TokenType.IF,
+  TokenType.WHILE,
+  TokenType.FOR,
+  TokenType.FOREACH,
+  TokenType.CASE,
+  TokenType.LOOP,
+  TokenType.WITH,
+]);
+
 export class Parser {
   private tokens: Token[];
   private current: number = 0;
@@ -55,7 +75,7 @@ export class Parser {
       return this.parseModule();
     } catch (error) {
       if (error instanceof ParseError) {
-        this.errors.push(error);
+        this.recordError(error);
       }
       // In error recovery mode, return a partial module
       if (this.errorRecovery) {
@@ -80,6 +100,46 @@ export class Parser {
     return this.errors;
   }
 
+  /**
+   * Parse a standalone run of top-level declarations up to EOF.
+   * Used to reparse the edited region of a document (see incremental.ts).
+   */
+  public parseDeclarationList(): Declaration[] {
+    const declarations: Declaration[] = [];
+
+    while (!this.isAtEnd()) {
+      if (this.match(TokenType.SEMICOLON)) {
+        continue;
+      }
+      const declaration = this.recover(() => this.parseDeclaration(), start => this.synchronizeDeclaration(start));
+      if (declaration) {
+        declarations.push(declaration);
+      }
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Parse a standalone run of method declarations up to EOF.
+   * Used to reparse a single edited method of an OBJECT block.
+   */
+  public parseMethodList(): MethodDeclaration[] {
+    const methods: MethodDeclaration[] = [];
+
+    while (!this.isAtEnd()) {
+      if (this.match(TokenType.SEMICOLON)) {
+        continue;
+      }
+      const method = this.parseMember();
+      if (method) {
+        methods.push(method);
+      }
+    }
+
+    return methods;
+  }
+
   // ====================
   // Module parsing
   // ====================
@@ -113,17 +173,21 @@ export class Parser {
       this.consume(TokenType.MODULE, 'Expected MODULE keyword');
     }
 
-    const name = this.consume(TokenType.IDENTIFIER, 'Expected module name').value;
+    const nameToken = this.consume(TokenType.IDENTIFIER, 'Expected module name');
+    const name = nameToken.value;
     this.match(TokenType.SEMICOLON); // Semicolon is optional after module name
 
     // Parse imports
     const imports: ImportStatement[] = [];
     while (this.check(TokenType.FROM) || this.check(TokenType.IMPORT)) {
       if (this.check(TokenType.FROM)) {
-        imports.push(this.parseImport());
+        const statement = this.recover(() => this.parseImport(), start => this.synchronize(start));
+        if (statement) {
+          imports.push(statement);
+        }
       } else {
         // Standalone IMPORT statement
-        imports.push(...this.parseStandaloneImport());
+        imports.push(...this.recover(() => this.parseStandaloneImport(), start => this.synchronize(start)) ?? []);
       }
     }
 
@@ -141,19 +205,32 @@ export class Parser {
         // Skip
       }
       if (!this.check(TokenType.END) && !this.check(TokenType.BEGIN) && !this.isAtEnd()) {
-        declarations.push(this.parseDeclaration());
+        const declaration = this.recover(() => this.parseDeclaration(), start => this.synchronizeDeclaration(start));
+        if (declaration) {
+          declarations.push(declaration);
+        }
+      }
+
+      if (this.errorRecovery) {
+        // A BEGIN outside a MAIN module, or an END that doesn't close the module,
+        // would otherwise end the declaration list early and drop everything after it
+        const strayBegin = kind !== 'MAIN' && this.check(TokenType.BEGIN);
+        const strayEnd = this.check(TokenType.END) &&
+          this.peekNext()?.type !== TokenType.MODULE && this.peekNext()?.type !== TokenType.PROGRAM;
+        if (strayBegin || strayEnd) {
+          const token = this.peek();
+          this.recordError(new ParseError(
+            `Unexpected ${token.value} at line ${token.start.line}, column ${token.start.column}`, token,
+            SyntaxErrorCode.UnexpectedToken));
+          this.synchronizeDeclaration(this.current);
+        }
       }
     }
 
     // For MAIN MODULE, parse optional BEGIN...END block
     let mainBody: Statement[] | undefined;
     if (kind === 'MAIN' && this.match(TokenType.BEGIN)) {
-      mainBody = [];
-      while (!this.check(TokenType.END) && !this.isAtEnd()) {
-        mainBody.push(this.parseStatement());
-        // Semicolons are optional between statements
-        this.match(TokenType.SEMICOLON);
-      }
+      mainBody = this.parseStatementsUntil(TokenType.END);
     }
 
     this.consumeOrRecover(TokenType.END, 'Expected END');
@@ -172,6 +249,7 @@ export class Parser {
       type: 'Module',
       kind,
       name,
+      nameStart: nameToken.start,
       imports,
       exports,
       declarations,
@@ -183,17 +261,18 @@ export class Parser {
 
   private parseImport(): ImportStatement {
     const start = this.advance().start; // FROM
-    const moduleName = this.consume(TokenType.IDENTIFIER, 'Expected module name').value;
+    const moduleToken = this.consume(TokenType.IDENTIFIER, 'Expected module name');
     this.consume(TokenType.IMPORT, 'Expected IMPORT');
 
     const symbols: Array<{ name: string; alias?: string }> = [];
+    const symbolStarts: Position[] = [];
 
     // Parse first symbol (with optional ALL prefix for enum imports)
     // RAMS allows: FROM Module IMPORT ALL EnumType ; (imports all enum values)
     if (this.check(TokenType.IDENTIFIER) && this.peek().value === 'ALL') {
       this.advance(); // consume 'ALL'
     }
-    let symbolName = this.consume(TokenType.IDENTIFIER, 'Expected symbol name').value;
+    let symbolName = this.consumeName('Expected symbol name', symbolStarts);
 
     // Check for enum value list: EnumType (Value1, Value2, Value3 AS Alias, ...)
     // RAMS allows importing specific enum values with optional AS aliases
@@ -221,7 +300,7 @@ export class Parser {
       if (this.check(TokenType.IDENTIFIER) && this.peek().value === 'ALL') {
         this.advance(); // consume 'ALL'
       }
-      symbolName = this.consume(TokenType.IDENTIFIER, 'Expected symbol name').value;
+      symbolName = this.consumeName('Expected symbol name', symbolStarts);
 
       // Check for enum value list
       if (this.match(TokenType.LPAREN)) {
@@ -246,8 +325,10 @@ export class Parser {
 
     return {
       type: 'ImportStatement',
-      moduleName,
+      moduleName: moduleToken.value,
+      moduleNameStart: moduleToken.start,
       symbols,
+      symbolStarts,
       start,
       end: this.previous().end,
     };
@@ -280,10 +361,11 @@ export class Parser {
     const imports: ImportStatement[] = [];
 
     // Parse first module
-    const firstModule = this.consume(TokenType.IDENTIFIER, 'Expected module name').value;
+    const firstModule = this.consume(TokenType.IDENTIFIER, 'Expected module name');
     imports.push({
       type: 'ImportStatement',
-      moduleName: firstModule,
+      moduleName: firstModule.value,
+      moduleNameStart: firstModule.start,
       symbols: [], // Empty array means "import all"
       start,
       end: this.previous().end,
@@ -291,10 +373,11 @@ export class Parser {
 
     // Parse remaining modules
     while (this.match(TokenType.COMMA)) {
-      const moduleName = this.consume(TokenType.IDENTIFIER, 'Expected module name').value;
+      const moduleToken = this.consume(TokenType.IDENTIFIER, 'Expected module name');
       imports.push({
         type: 'ImportStatement',
-        moduleName,
+        moduleName: moduleToken.value,
+        moduleNameStart: moduleToken.start,
         symbols: [], // Empty array means "import all"
         start,
         end: this.previous().end,
@@ -450,6 +533,7 @@ export class Parser {
       return null; // Signal empty section
     }
 
+    const nameStart = this.peek().start;
     const name = this.consume(TokenType.IDENTIFIER, 'Expected type name').value;
     this.consume(TokenType.EQUAL, 'Expected =');
     const typeSpec = this.parseTypeSpec();
@@ -458,6 +542,7 @@ export class Parser {
     return {
       type: 'TypeDeclaration',
       name,
+      nameStart,
       typeSpec,
       start,
       end: this.previous().end,
@@ -467,6 +552,7 @@ export class Parser {
   // Parse type declaration without TYPE keyword (RAMS continuation style)
   private parseTypeDeclarationWithoutKeyword(): TypeDeclaration {
     const start = this.peek().start;
+    const nameStart = this.peek().start;
     const name = this.consume(TokenType.IDENTIFIER, 'Expected type name').value;
     this.consume(TokenType.EQUAL, 'Expected =');
     const typeSpec = this.parseTypeSpec();
@@ -475,6 +561,7 @@ export class Parser {
     return {
       type: 'TypeDeclaration',
       name,
+      nameStart,
       typeSpec,
       start,
       end: this.previous().end,
@@ -483,6 +570,7 @@ export class Parser {
 
   private parseConstDeclaration(): ConstDeclaration {
     const start = this.advance().start; // CONST
+    const nameStart = this.peek().start;
     const name = this.consume(TokenType.IDENTIFIER, 'Expected constant name').value;
 
     let valueType: TypeSpec | undefined;
@@ -497,6 +585,7 @@ export class Parser {
     return {
       type: 'ConstDeclaration',
       name,
+      nameStart,
       valueType,
       value,
       start,
@@ -507,6 +596,7 @@ export class Parser {
   // Parse const declaration without CONST keyword (RAMS continuation style)
   private parseConstDeclarationWithoutKeyword(): ConstDeclaration {
     const start = this.peek().start;
+    const nameStart = this.peek().start;
     const name = this.consume(TokenType.IDENTIFIER, 'Expected constant name').value;
 
     let valueType: TypeSpec | undefined;
@@ -521,6 +611,7 @@ export class Parser {
     return {
       type: 'ConstDeclaration',
       name,
+      nameStart,
       valueType,
       value,
       start,
@@ -555,10 +646,11 @@ export class Parser {
     }
 
     const names: string[] = [];
-    names.push(this.consume(TokenType.IDENTIFIER, 'Expected variable name').value);
+    const nameStarts: Position[] = [];
+    names.push(this.consumeName('Expected variable name', nameStarts));
 
     while (this.match(TokenType.COMMA)) {
-      names.push(this.consume(TokenType.IDENTIFIER, 'Expected variable name').value);
+      names.push(this.consumeName('Expected variable name', nameStarts));
     }
 
     this.consume(TokenType.COLON, 'Expected colon');
@@ -568,6 +660,7 @@ export class Parser {
     return {
       type: 'VarDeclaration',
       names,
+      nameStarts,
       valueType,
       start,
       end: this.previous().end,
@@ -578,10 +671,11 @@ export class Parser {
     // Parse VAR declaration without consuming VAR keyword (for continuations)
     const start = this.peek().start;
     const names: string[] = [];
-    names.push(this.consume(TokenType.IDENTIFIER, 'Expected variable name').value);
+    const nameStarts: Position[] = [];
+    names.push(this.consumeName('Expected variable name', nameStarts));
 
     while (this.match(TokenType.COMMA)) {
-      names.push(this.consume(TokenType.IDENTIFIER, 'Expected variable name').value);
+      names.push(this.consumeName('Expected variable name', nameStarts));
     }
 
     this.consume(TokenType.COLON, 'Expected colon');
@@ -591,6 +685,7 @@ export class Parser {
     return {
       type: 'VarDeclaration',
       names,
+      nameStarts,
       valueType,
       start,
       end: this.previous().end,
@@ -599,6 +694,7 @@ export class Parser {
 
   private parseProcedureDeclaration(): ProcedureDeclaration {
     const start = this.advance().start; // PROCEDURE
+    const nameStart = this.peek().start;
     const name = this.consume(TokenType.IDENTIFIER, 'Expected procedure name').value;
 
     // Parameters
@@ -636,9 +732,11 @@ export class Parser {
       return {
         type: 'ProcedureDeclaration',
         name,
+        nameStart,
         parameters,
         returnType,
         localDeclarations: undefined,
+        isForward: true,
         body: [], // Empty body for external procedure
         start,
         end: this.previous().end,
@@ -660,9 +758,11 @@ export class Parser {
       return {
         type: 'ProcedureDeclaration',
         name,
+        nameStart,
         parameters,
         returnType,
         localDeclarations: undefined,
+        isForward: true,
         body: [], // Empty body for forward declaration
         start,
         end: this.previous().end,
@@ -678,9 +778,11 @@ export class Parser {
         return {
           type: 'ProcedureDeclaration',
           name,
+          nameStart,
           parameters,
           returnType,
           localDeclarations: undefined,
+          isForward: true,
           body: [], // Empty body for forward declaration
           start,
           end: this.previous().end,
@@ -718,7 +820,10 @@ export class Parser {
           break; // Not in a declaration section
         }
       }
-      localDeclarations.push(this.parseDeclaration());
+      const declaration = this.recover(() => this.parseDeclaration(), start => this.synchronize(start));
+      if (declaration) {
+        localDeclarations.push(declaration);
+      }
     }
 
     // Restore lastDeclKeyword
@@ -727,13 +832,14 @@ export class Parser {
     // Body
     const body = this.parseStatementBlock();
 
-    this.consumeOrRecover(TokenType.END, 'Expected END');
-    this.consumeOrRecover(TokenType.PROCEDURE, 'Expected PROCEDURE');
-    this.consumeOrRecover(TokenType.SEMICOLON, 'Expected semicolon');
+    if (this.consumeBlockEnd(TokenType.PROCEDURE, 'Expected PROCEDURE')) {
+      this.consumeOrRecover(TokenType.SEMICOLON, 'Expected semicolon');
+    }
 
     return {
       type: 'ProcedureDeclaration',
       name,
+      nameStart,
       parameters,
       returnType,
       localDeclarations: localDeclarations.length > 0 ? localDeclarations : undefined,
@@ -745,15 +851,17 @@ export class Parser {
 
   private parseObjectDeclaration(): ObjectDeclaration {
     const start = this.advance().start; // OBJECT
+    const nameStart = this.peek().start;
     const name = this.consume(TokenType.IDENTIFIER, 'Expected object name').value;
 
     // Base types
     let baseTypes: string[] | undefined;
+    const baseTypeStarts: Position[] = [];
     if (this.match(TokenType.LPAREN)) {
       baseTypes = [];
-      baseTypes.push(this.consume(TokenType.IDENTIFIER, 'Expected base type name').value);
+      baseTypes.push(this.consumeName('Expected base type name', baseTypeStarts));
       while (this.match(TokenType.COMMA)) {
-        baseTypes.push(this.consume(TokenType.IDENTIFIER, 'Expected base type name').value);
+        baseTypes.push(this.consumeName('Expected base type name', baseTypeStarts));
       }
       this.consume(TokenType.RPAREN, 'Expected )');
     }
@@ -775,7 +883,10 @@ export class Parser {
           if (this.check(TokenType.VAR)) {
             privateSection.fields.push(this.parseVarDeclaration());
           } else if (this.checkMethodType()) {
-            privateSection.methods.push(this.parseMethodDeclaration());
+            const method = this.parseMember();
+            if (method) {
+              privateSection.methods.push(method);
+            }
             // Skip optional extra semicolons after method (RAMS allows semicolons after comments)
             while (this.match(TokenType.SEMICOLON)) {
               // Skip
@@ -794,7 +905,10 @@ export class Parser {
       } else if (this.check(TokenType.VAR)) {
         fields.push(this.parseVarDeclaration());
       } else if (this.checkMethodType()) {
-        methods.push(this.parseMethodDeclaration());
+        const method = this.parseMember();
+        if (method) {
+          methods.push(method);
+        }
         // Skip optional extra semicolons after method (RAMS allows semicolons after comments)
         while (this.match(TokenType.SEMICOLON)) {
           // Skip
@@ -807,14 +921,16 @@ export class Parser {
       }
     }
 
-    this.consumeOrRecover(TokenType.END, 'Expected END');
-    this.consumeOrRecover(TokenType.OBJECT, 'Expected OBJECT');
-    this.consumeOrRecover(TokenType.SEMICOLON, 'Expected semicolon');
+    if (this.consumeBlockEnd(TokenType.OBJECT, 'Expected OBJECT')) {
+      this.consumeOrRecover(TokenType.SEMICOLON, 'Expected semicolon');
+    }
 
     return {
       type: 'ObjectDeclaration',
       name,
+      nameStart,
       baseTypes,
+      baseTypeStarts: baseTypes && baseTypeStarts,
       fields,
       methods,
       privateSection,
@@ -830,6 +946,7 @@ export class Parser {
   //          END PROTO ;
   private parseProtoImplementation(): ObjectDeclaration {
     const start = this.advance().start; // PROTO
+    const nameStart = this.peek().start;
     const name = this.consume(TokenType.IDENTIFIER, 'Expected proto name').value;
     this.consume(TokenType.SEMICOLON, 'Expected semicolon after proto name');
 
@@ -839,20 +956,24 @@ export class Parser {
     // Methods continue until we hit END
     while (!this.check(TokenType.END) && !this.isAtEnd()) {
       if (this.checkMethodType()) {
-        methods.push(this.parseMethodDeclaration());
+        const method = this.parseMember();
+        if (method) {
+          methods.push(method);
+        }
       } else {
         // Not a method, stop parsing this PROTO implementation
         break;
       }
     }
 
-    this.consumeOrRecover(TokenType.END, 'Expected END');
-    this.consumeOrRecover(TokenType.PROTO, 'Expected PROTO');
-    this.consumeOrRecover(TokenType.SEMICOLON, 'Expected semicolon after PROTO');
+    if (this.consumeBlockEnd(TokenType.PROTO, 'Expected PROTO')) {
+      this.consumeOrRecover(TokenType.SEMICOLON, 'Expected semicolon after PROTO');
+    }
 
     return {
       type: 'ObjectDeclaration',
       name,
+      nameStart,
       baseTypes: undefined,
       fields: [],
       methods,
@@ -874,6 +995,7 @@ export class Parser {
     const isOverride = this.match(TokenType.OVERRIDE);
 
     this.consume(TokenType.METHOD, 'Expected METHOD');
+    const nameStart = this.peek().start;
     const name = this.consume(TokenType.IDENTIFIER, 'Expected method name').value;
 
     // Parameters
@@ -928,7 +1050,10 @@ export class Parser {
           break; // Not in a declaration section
         }
       }
-      localDeclarations.push(this.parseDeclaration());
+      const declaration = this.recover(() => this.parseDeclaration(), start => this.synchronize(start));
+      if (declaration) {
+        localDeclarations.push(declaration);
+      }
     }
 
     // Restore lastDeclKeyword
@@ -937,12 +1062,13 @@ export class Parser {
     // Body (optional - DEFINITION modules only have signatures)
     let body: Statement[] = [];
     let endPos = this.previous().end;
+    const isForward = !this.check(TokenType.BEGIN);
 
-    if (this.check(TokenType.BEGIN)) {
+    if (!isForward) {
       body = this.parseStatementBlock();
-      this.consume(TokenType.END, 'Expected END');
-      this.consume(TokenType.METHOD, 'Expected METHOD');
-      this.match(TokenType.SEMICOLON); // Optional semicolon after END METHOD
+      if (this.consumeBlockEnd(TokenType.METHOD, 'Expected METHOD')) {
+        this.match(TokenType.SEMICOLON); // Optional semicolon after END METHOD
+      }
       endPos = this.previous().end;
     }
 
@@ -950,10 +1076,12 @@ export class Parser {
       type: 'MethodDeclaration',
       methodType,
       name,
+      nameStart,
       parameters,
       returnType,
       isOverride,
       localDeclarations: localDeclarations.length > 0 ? localDeclarations : undefined,
+      isForward,
       body,
       start,
       end: endPos,
@@ -973,19 +1101,21 @@ export class Parser {
     // Parse one or more parameter names (comma-separated)
     // Example: IN x, y, z : REAL creates 3 parameters
     const names: string[] = [];
-    names.push(this.consume(TokenType.IDENTIFIER, 'Expected parameter name').value);
+    const nameStarts: Position[] = [];
+    names.push(this.consumeName('Expected parameter name', nameStarts));
     while (this.match(TokenType.COMMA)) {
-      names.push(this.consume(TokenType.IDENTIFIER, 'Expected parameter name').value);
+      names.push(this.consumeName('Expected parameter name', nameStarts));
     }
 
     this.consume(TokenType.COLON, 'Expected colon');
     const valueType = this.parseTypeSpec();
 
     // Create one Parameter object per name
-    return names.map(name => ({
+    return names.map((name, i) => ({
       type: 'Parameter' as const,
       mode,
       name,
+      nameStart: nameStarts[i],
       valueType,
       start,
       end: this.previous().end,
@@ -1192,10 +1322,11 @@ export class Parser {
         // Field without VAR keyword (RAMS TYPE declaration style)
         const fieldStart = this.peek().start;
         const names: string[] = [];
+        const nameStarts: Position[] = [];
 
         // Parse comma-separated field names
         do {
-          names.push(this.consume(TokenType.IDENTIFIER, 'Expected field name').value);
+          names.push(this.consumeName('Expected field name', nameStarts));
         } while (this.match(TokenType.COMMA));
 
         this.consume(TokenType.COLON, 'Expected colon');
@@ -1205,6 +1336,7 @@ export class Parser {
         fields.push({
           type: 'VarDeclaration',
           names,
+          nameStarts,
           valueType,
           start: fieldStart,
           end: this.previous().end,
@@ -1230,50 +1362,25 @@ export class Parser {
 
     // Base types (with optional parameterized PROTO type substitution)
     let baseTypes: string[] | undefined;
+    const baseTypeStarts: Position[] = [];
+    let elementType: SimpleType | undefined;
     if (this.match(TokenType.LPAREN)) {
       baseTypes = [];
 
       // Parse base type name
-      let baseTypeName = this.consume(TokenType.IDENTIFIER, 'Expected base type').value;
+      let baseTypeName = this.consumeName('Expected base type', baseTypeStarts);
 
       // Check for parameterized type: BaseType[Param:Type, Param2:Type2, ...]
-      if (this.match(TokenType.LBRACKET)) {
-        // Parse one or more parameter substitutions: ParamName : ReplacementType
-        do {
-          this.consumeIdentifierOrKeyword('Expected parameter name'); // parameter name (can be keyword like ANYOBJ)
-          this.consume(TokenType.COLON, 'Expected colon in type parameter');
-          // Replacement type may start with # for further derivation (replaceable type in PROTO objects)
-          // Syntax: ANYOBJ:#TypeName means TypeName can be replaced in future derivations
-          if (this.match(TokenType.HASH)) {
-            // # prefix found, consume the type name after it
-            this.consumeIdentifierOrKeyword('Expected replacement type after #');
-          } else {
-            // No # prefix, just consume the type name
-            this.consumeIdentifierOrKeyword('Expected replacement type');
-          }
-        } while (this.match(TokenType.COMMA)); // Handle multiple substitutions
-        this.consume(TokenType.RBRACKET, 'Expected ]');
-        // For now, store the base type name without parameters (AST doesn't track them yet)
-      }
+      elementType = this.parseTypeSubstitutions();
 
       baseTypes.push(baseTypeName);
 
       // Handle multiple base types
       while (this.match(TokenType.COMMA)) {
-        baseTypeName = this.consume(TokenType.IDENTIFIER, 'Expected base type').value;
+        baseTypeName = this.consumeName('Expected base type', baseTypeStarts);
 
         // Check for parameterized type on additional bases
-        if (this.match(TokenType.LBRACKET)) {
-          this.consumeIdentifierOrKeyword('Expected parameter name'); // parameter name (can be keyword like ANYOBJ)
-          this.consume(TokenType.COLON, 'Expected colon in type parameter');
-          // Handle optional # prefix for replacement types
-          if (this.match(TokenType.HASH)) {
-            this.consumeIdentifierOrKeyword('Expected replacement type after #');
-          } else {
-            this.consumeIdentifierOrKeyword('Expected replacement type');
-          }
-          this.consume(TokenType.RBRACKET, 'Expected ]');
-        }
+        elementType = this.parseTypeSubstitutions() ?? elementType;
 
         baseTypes.push(baseTypeName);
       }
@@ -1303,7 +1410,10 @@ export class Parser {
     while (!this.check(TokenType.END) && !this.isAtEnd()) {
       if (this.checkMethodType()) {
         // Regular method
-        methods.push(this.parseMethodDeclaration());
+        const method = this.parseMember();
+        if (method) {
+          methods.push(method);
+        }
         // Skip optional extra semicolons (RAMS allows semicolons after comments)
         while (this.match(TokenType.SEMICOLON)) {
           // Skip
@@ -1313,9 +1423,11 @@ export class Parser {
         this.advance(); // consume OVERRIDE
         while (!this.check(TokenType.END) && !this.check(TokenType.CLASS) && !this.check(TokenType.OVERRIDE) && !this.check(TokenType.PRIVATE) && !this.isAtEnd()) {
           if (this.checkMethodType()) {
-            const method = this.parseMethodDeclaration();
-            method.isOverride = true; // Mark as override
-            methods.push(method);
+            const method = this.parseMember();
+            if (method) {
+              method.isOverride = true; // Mark as override
+              methods.push(method);
+            }
             // Skip optional extra semicolons after method (RAMS allows semicolons after comments)
             while (this.match(TokenType.SEMICOLON)) {
               // Skip
@@ -1333,7 +1445,10 @@ export class Parser {
         while (!this.check(TokenType.END) && !this.check(TokenType.OVERRIDE) && !this.check(TokenType.CLASS) && !this.check(TokenType.PRIVATE) && !this.isAtEnd()) {
           if (this.checkMethodType()) {
             // Class method
-            methods.push(this.parseMethodDeclaration());
+            const method = this.parseMember();
+            if (method) {
+              methods.push(method);
+            }
             // Skip optional extra semicolons after method (RAMS allows semicolons after comments)
             while (this.match(TokenType.SEMICOLON)) {
               // Skip
@@ -1341,10 +1456,11 @@ export class Parser {
           } else if (this.check(TokenType.IDENTIFIER)) {
             // Class field declaration: name : type ;
             const fieldStart = this.peek().start;
+            const nameStarts = [fieldStart];
             const names: string[] = [this.advance().value];
 
             while (this.match(TokenType.COMMA)) {
-              names.push(this.consume(TokenType.IDENTIFIER, 'Expected field name').value);
+              names.push(this.consumeName('Expected field name', nameStarts));
             }
 
             this.consume(TokenType.COLON, 'Expected :');
@@ -1354,6 +1470,7 @@ export class Parser {
             fields.push({
               type: 'VarDeclaration',
               names,
+              nameStarts,
               valueType,
               start: fieldStart,
               end: this.previous().end,
@@ -1371,7 +1488,11 @@ export class Parser {
         while (!this.check(TokenType.END) && !this.check(TokenType.OVERRIDE) && !this.check(TokenType.CLASS) && !this.check(TokenType.PRIVATE) && !this.isAtEnd()) {
           if (this.checkMethodType()) {
             // Private method
-            methods.push(this.parseMethodDeclaration());
+            const method = this.parseMember();
+            if (method) {
+              method.isPrivate = true;
+              methods.push(method);
+            }
             // Skip optional extra semicolons after method (RAMS allows semicolons after comments)
             while (this.match(TokenType.SEMICOLON)) {
               // Skip
@@ -1379,10 +1500,11 @@ export class Parser {
           } else if (this.check(TokenType.IDENTIFIER)) {
             // Private field declaration: name : type ;
             const fieldStart = this.peek().start;
+            const nameStarts = [fieldStart];
             const names: string[] = [this.advance().value];
 
             while (this.match(TokenType.COMMA)) {
-              names.push(this.consume(TokenType.IDENTIFIER, 'Expected field name').value);
+              names.push(this.consumeName('Expected field name', nameStarts));
             }
 
             this.consume(TokenType.COLON, 'Expected :');
@@ -1392,7 +1514,9 @@ export class Parser {
             fields.push({
               type: 'VarDeclaration',
               names,
+              nameStarts,
               valueType,
+              isPrivate: true,
               start: fieldStart,
               end: this.previous().end,
             });
@@ -1406,10 +1530,11 @@ export class Parser {
       } else if (this.check(TokenType.IDENTIFIER)) {
         // Field declaration (not in CLASS section): name : type ;
         const fieldStart = this.peek().start;
+        const nameStarts = [fieldStart];
         const names: string[] = [this.advance().value];
 
         while (this.match(TokenType.COMMA)) {
-          names.push(this.consume(TokenType.IDENTIFIER, 'Expected field name').value);
+          names.push(this.consumeName('Expected field name', nameStarts));
         }
 
         this.consume(TokenType.COLON, 'Expected :');
@@ -1419,6 +1544,7 @@ export class Parser {
         fields.push({
           type: 'VarDeclaration',
           names,
+          nameStarts,
           valueType,
           start: fieldStart,
           end: this.previous().end,
@@ -1439,6 +1565,8 @@ export class Parser {
     return {
       type: 'ObjectType',
       baseTypes,
+      baseTypeStarts: baseTypes && baseTypeStarts,
+      elementType,
       fields,
       methods,
       start,
@@ -1446,56 +1574,58 @@ export class Parser {
     };
   }
 
+  /**
+   * Parse the substitutions of a parameterized base type: BaseType[Param:Type, Param2:Type2, ...]
+   * A replacement type may start with # for further derivation (ANYOBJ:#TypeName means TypeName
+   * can be replaced in future derivations). Returns the replacement of ANYOBJ, the type of the
+   * elements of a collection object.
+   */
+  private parseTypeSubstitutions(): SimpleType | undefined {
+    if (!this.match(TokenType.LBRACKET)) {
+      return undefined;
+    }
+
+    let elementType: SimpleType | undefined;
+    do {
+      const parameter = this.consumeIdentifierOrKeyword('Expected parameter name'); // can be a keyword like ANYOBJ
+      this.consume(TokenType.COLON, 'Expected colon in type parameter');
+      const replaceable = this.match(TokenType.HASH);
+      const token = this.peek();
+      const name = this.consumeIdentifierOrKeyword(replaceable ? 'Expected replacement type after #' : 'Expected replacement type');
+      if (parameter === 'ANYOBJ') {
+        elementType = { type: 'SimpleType', name, start: token.start, end: token.end };
+      }
+    } while (this.match(TokenType.COMMA));
+    this.consume(TokenType.RBRACKET, 'Expected ]');
+
+    return elementType;
+  }
+
   // PROTO is like OBJECT but uses END PROTO instead of END OBJECT
   private parseProtoType(): TypeSpec {
     const start = this.advance().start; // PROTO
 
     // Base types (with optional parameterized PROTO type substitution)
     let baseTypes: string[] | undefined;
+    const baseTypeStarts: Position[] = [];
+    let elementType: SimpleType | undefined;
     if (this.match(TokenType.LPAREN)) {
       baseTypes = [];
 
       // Parse base type name
-      let baseTypeName = this.consume(TokenType.IDENTIFIER, 'Expected base type').value;
+      let baseTypeName = this.consumeName('Expected base type', baseTypeStarts);
 
       // Check for parameterized type: BaseType[Param:Type, Param2:Type2, ...]
-      if (this.match(TokenType.LBRACKET)) {
-        // Parse one or more parameter substitutions: ParamName : ReplacementType
-        do {
-          this.consumeIdentifierOrKeyword('Expected parameter name'); // parameter name (can be keyword like ANYOBJ)
-          this.consume(TokenType.COLON, 'Expected colon in type parameter');
-          // Replacement type may start with # for further derivation (replaceable type in PROTO objects)
-          // Syntax: ANYOBJ:#TypeName means TypeName can be replaced in future derivations
-          if (this.match(TokenType.HASH)) {
-            // # prefix found, consume the type name after it
-            this.consumeIdentifierOrKeyword('Expected replacement type after #');
-          } else {
-            // No # prefix, just consume the type name
-            this.consumeIdentifierOrKeyword('Expected replacement type');
-          }
-        } while (this.match(TokenType.COMMA)); // Handle multiple substitutions
-        this.consume(TokenType.RBRACKET, 'Expected ]');
-        // For now, store the base type name without parameters (AST doesn't track them yet)
-      }
+      elementType = this.parseTypeSubstitutions();
 
       baseTypes.push(baseTypeName);
 
       // Handle multiple base types
       while (this.match(TokenType.COMMA)) {
-        baseTypeName = this.consume(TokenType.IDENTIFIER, 'Expected base type').value;
+        baseTypeName = this.consumeName('Expected base type', baseTypeStarts);
 
         // Check for parameterized type on additional bases
-        if (this.match(TokenType.LBRACKET)) {
-          this.consumeIdentifierOrKeyword('Expected parameter name'); // parameter name (can be keyword like ANYOBJ)
-          this.consume(TokenType.COLON, 'Expected colon in type parameter');
-          // Handle optional # prefix for replacement types
-          if (this.match(TokenType.HASH)) {
-            this.consumeIdentifierOrKeyword('Expected replacement type after #');
-          } else {
-            this.consumeIdentifierOrKeyword('Expected replacement type');
-          }
-          this.consume(TokenType.RBRACKET, 'Expected ]');
-        }
+        elementType = this.parseTypeSubstitutions() ?? elementType;
 
         baseTypes.push(baseTypeName);
       }
@@ -1511,14 +1641,19 @@ export class Parser {
     // Parse fields and methods - same as OBJECT
     while (!this.check(TokenType.END) && !this.isAtEnd()) {
       if (this.checkMethodType()) {
-        methods.push(this.parseMethodDeclaration());
+        const method = this.parseMember();
+        if (method) {
+          methods.push(method);
+        }
       } else if (this.check(TokenType.OVERRIDE)) {
         this.advance(); // OVERRIDE
         while (!this.check(TokenType.END) && !this.check(TokenType.CLASS) && !this.check(TokenType.OVERRIDE) && !this.check(TokenType.PRIVATE) && !this.isAtEnd()) {
           if (this.checkMethodType()) {
-            const method = this.parseMethodDeclaration();
-            method.isOverride = true;
-            methods.push(method);
+            const method = this.parseMember();
+            if (method) {
+              method.isOverride = true;
+              methods.push(method);
+            }
           } else if (this.check(TokenType.SEMICOLON)) {
             this.advance();
           } else {
@@ -1529,13 +1664,17 @@ export class Parser {
         this.advance(); // CLASS
         while (!this.check(TokenType.END) && !this.check(TokenType.OVERRIDE) && !this.check(TokenType.CLASS) && !this.check(TokenType.PRIVATE) && !this.isAtEnd()) {
           if (this.checkMethodType()) {
-            methods.push(this.parseMethodDeclaration());
+            const method = this.parseMember();
+            if (method) {
+              methods.push(method);
+            }
           } else if (this.check(TokenType.IDENTIFIER)) {
             const fieldStart = this.peek().start;
+            const nameStarts = [fieldStart];
             const names: string[] = [this.advance().value];
 
             while (this.match(TokenType.COMMA)) {
-              names.push(this.consume(TokenType.IDENTIFIER, 'Expected field name').value);
+              names.push(this.consumeName('Expected field name', nameStarts));
             }
 
             this.consume(TokenType.COLON, 'Expected :');
@@ -1545,6 +1684,7 @@ export class Parser {
             fields.push({
               type: 'VarDeclaration',
               names,
+              nameStarts,
               valueType,
               start: fieldStart,
               end: this.previous().end,
@@ -1559,13 +1699,18 @@ export class Parser {
         this.advance(); // PRIVATE
         while (!this.check(TokenType.END) && !this.check(TokenType.OVERRIDE) && !this.check(TokenType.CLASS) && !this.check(TokenType.PRIVATE) && !this.isAtEnd()) {
           if (this.checkMethodType()) {
-            methods.push(this.parseMethodDeclaration());
+            const method = this.parseMember();
+            if (method) {
+              method.isPrivate = true;
+              methods.push(method);
+            }
           } else if (this.check(TokenType.IDENTIFIER)) {
             const fieldStart = this.peek().start;
+            const nameStarts = [fieldStart];
             const names: string[] = [this.advance().value];
 
             while (this.match(TokenType.COMMA)) {
-              names.push(this.consume(TokenType.IDENTIFIER, 'Expected field name').value);
+              names.push(this.consumeName('Expected field name', nameStarts));
             }
 
             this.consume(TokenType.COLON, 'Expected :');
@@ -1575,7 +1720,9 @@ export class Parser {
             fields.push({
               type: 'VarDeclaration',
               names,
+              nameStarts,
               valueType,
+              isPrivate: true,
               start: fieldStart,
               end: this.previous().end,
             });
@@ -1587,10 +1734,11 @@ export class Parser {
         }
       } else if (this.check(TokenType.IDENTIFIER)) {
         const fieldStart = this.peek().start;
+        const nameStarts = [fieldStart];
         const names: string[] = [this.advance().value];
 
         while (this.match(TokenType.COMMA)) {
-          names.push(this.consume(TokenType.IDENTIFIER, 'Expected field name').value);
+          names.push(this.consumeName('Expected field name', nameStarts));
         }
 
         this.consume(TokenType.COLON, 'Expected :');
@@ -1600,6 +1748,7 @@ export class Parser {
         fields.push({
           type: 'VarDeclaration',
           names,
+          nameStarts,
           valueType,
           start: fieldStart,
           end: this.previous().end,
@@ -1620,6 +1769,8 @@ export class Parser {
     return {
       type: 'ObjectType',  // Use ObjectType for now (PROTO is semantically similar)
       baseTypes,
+      baseTypeStarts: baseTypes && baseTypeStarts,
+      elementType,
       fields,
       methods,
       start,
@@ -1672,10 +1823,11 @@ export class Parser {
   private parseEnumType(): TypeSpec {
     const start = this.advance().start; // (
     const values: string[] = [];
+    const valueStarts: Position[] = [];
 
-    values.push(this.consume(TokenType.IDENTIFIER, 'Expected enum value').value);
+    values.push(this.consumeName('Expected enum value', valueStarts));
     while (this.match(TokenType.COMMA)) {
-      values.push(this.consume(TokenType.IDENTIFIER, 'Expected enum value').value);
+      values.push(this.consumeName('Expected enum value', valueStarts));
     }
 
     this.consume(TokenType.RPAREN, 'Expected )');
@@ -1683,6 +1835,7 @@ export class Parser {
     return {
       type: 'EnumType',
       values,
+      valueStarts,
       start,
       end: this.previous().end,
     };
@@ -1693,18 +1846,37 @@ export class Parser {
   // ====================
 
   private parseStatementBlock(): Statement[] {
+    if (this.match(TokenType.BEGIN)) {
+      return this.parseStatementsUntil(TokenType.END);
+    }
+
+    return [];
+  }
+
+  /**
+   * Parse a statement sequence up to (not including) one of the terminator tokens.
+   * In error recovery mode a statement that fails to parse is dropped and parsing
+   * resumes at the next statement boundary, so one bad line doesn't lose the block.
+   */
+  private parseStatementsUntil(...terminators: TokenType[]): Statement[] {
     const statements: Statement[] = [];
 
-    if (this.match(TokenType.BEGIN)) {
-      while (!this.check(TokenType.END) && !this.isAtEnd()) {
-        // Skip standalone semicolons (RAMS allows semicolons after comments)
-        if (this.match(TokenType.SEMICOLON)) {
-          continue;
-        }
-        statements.push(this.parseStatement());
-        // Semicolons are optional between statements
-        this.match(TokenType.SEMICOLON);
+    while (!this.isAtEnd() && !terminators.some(type => this.check(type))) {
+      // Skip standalone semicolons (RAMS allows semicolons after comments)
+      if (this.match(TokenType.SEMICOLON)) {
+        continue;
+      }
+      // A body that runs into the next declaration is missing its END;
+      // stop here and let the enclosing declaration report it
+      if (this.errorRecovery && this.checkDeclarationStart()) {
+        break;
       }
+      const statement = this.recover(() => this.parseStatement(), start => this.synchronize(start));
+      if (statement) {
+        statements.push(statement);
+      }
+      // Semicolons are optional between statements
+      this.match(TokenType.SEMICOLON);
     }
 
     return statements;
@@ -1759,11 +1931,7 @@ export class Parser {
     // If THEN is omitted, there may be a semicolon after the condition
     this.match(TokenType.SEMICOLON);
 
-    const thenBlock: Statement[] = [];
-    while (!this.check(TokenType.ELSIF) && !this.check(TokenType.ELSE) && !this.check(TokenType.END) && !this.isAtEnd()) {
-      thenBlock.push(this.parseStatement());
-      this.match(TokenType.SEMICOLON);
-    }
+    const thenBlock = this.parseStatementsUntil(TokenType.ELSIF, TokenType.ELSE, TokenType.END);
 
     const elsifClauses: { condition: Expression; block: Statement[] }[] = [];
     while (this.match(TokenType.ELSIF)) {
@@ -1772,21 +1940,13 @@ export class Parser {
       this.match(TokenType.THEN);
       // If THEN is omitted, there may be a semicolon after the condition
       this.match(TokenType.SEMICOLON);
-      const elsifBlock: Statement[] = [];
-      while (!this.check(TokenType.ELSIF) && !this.check(TokenType.ELSE) && !this.check(TokenType.END) && !this.isAtEnd()) {
-        elsifBlock.push(this.parseStatement());
-        this.match(TokenType.SEMICOLON);
-      }
+      const elsifBlock = this.parseStatementsUntil(TokenType.ELSIF, TokenType.ELSE, TokenType.END);
       elsifClauses.push({ condition: elsifCondition, block: elsifBlock });
     }
 
     let elseBlock: Statement[] | undefined;
     if (this.match(TokenType.ELSE)) {
-      elseBlock = [];
-      while (!this.check(TokenType.END) && !this.isAtEnd()) {
-        elseBlock.push(this.parseStatement());
-        this.match(TokenType.SEMICOLON);
-      }
+      elseBlock = this.parseStatementsUntil(TokenType.END);
     }
 
     this.consume(TokenType.END, 'Expected END');
@@ -1810,15 +1970,7 @@ export class Parser {
     // If DO is omitted, there may be a semicolon after the condition
     this.match(TokenType.SEMICOLON);
 
-    const body: Statement[] = [];
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      // Skip standalone semicolons (RAMS allows semicolons after comments)
-      if (this.match(TokenType.SEMICOLON)) {
-        continue;
-      }
-      body.push(this.parseStatement());
-      this.match(TokenType.SEMICOLON);
-    }
+    const body = this.parseStatementsUntil(TokenType.END);
 
     this.consume(TokenType.END, 'Expected END');
     this.consume(TokenType.WHILE, 'Expected WHILE');
@@ -1834,6 +1986,7 @@ export class Parser {
 
   private parseForStatement(): Statement {
     const startPos = this.advance().start; // FOR
+    const variableStart = this.peek().start;
     const variable = this.consume(TokenType.IDENTIFIER, 'Expected variable name').value;
     this.consume(TokenType.ASSIGN, 'Expected :=');
     const from = this.parseExpression();
@@ -1851,11 +2004,7 @@ export class Parser {
     // If DO is omitted, there may be a semicolon after the range expression
     this.match(TokenType.SEMICOLON);
 
-    const body: Statement[] = [];
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      body.push(this.parseStatement());
-      this.match(TokenType.SEMICOLON);
-    }
+    const body = this.parseStatementsUntil(TokenType.END);
 
     this.consume(TokenType.END, 'Expected END');
     this.consume(TokenType.FOR, 'Expected FOR');
@@ -1863,6 +2012,7 @@ export class Parser {
     return {
       type: 'ForStatement',
       variable,
+      variableStart,
       from,
       to,
       step,
@@ -1875,6 +2025,7 @@ export class Parser {
 
   private parseForeachStatement(): Statement {
     const start = this.advance().start; // FOREACH
+    const variableStart = this.peek().start;
     const variable = this.consume(TokenType.IDENTIFIER, 'Expected variable name').value;
     this.consume(TokenType.IN, 'Expected IN');
     const collection = this.parseExpression();
@@ -1882,11 +2033,7 @@ export class Parser {
     // If DO is omitted, there may be a semicolon after the collection expression
     this.match(TokenType.SEMICOLON);
 
-    const body: Statement[] = [];
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      body.push(this.parseStatement());
-      this.match(TokenType.SEMICOLON);
-    }
+    const body = this.parseStatementsUntil(TokenType.END);
 
     this.consume(TokenType.END, 'Expected END');
     this.consume(TokenType.FOREACH, 'Expected FOREACH');
@@ -1894,6 +2041,7 @@ export class Parser {
     return {
       type: 'ForeachStatement',
       variable,
+      variableStart,
       collection,
       body,
       start,
@@ -1954,11 +2102,7 @@ export class Parser {
       // Skip optional semicolon after colon (for empty WHEN blocks)
       this.match(TokenType.SEMICOLON);
 
-      const block: Statement[] = [];
-      while (!this.check(TokenType.PIPE) && !this.check(TokenType.WHEN) && !this.check(TokenType.OTHERWISE) && !this.check(TokenType.END) && !this.isAtEnd()) {
-        block.push(this.parseStatement());
-        this.match(TokenType.SEMICOLON);
-      }
+      const block = this.parseStatementsUntil(TokenType.PIPE, TokenType.WHEN, TokenType.OTHERWISE, TokenType.END);
 
       cases.push({ values, block });
 
@@ -1977,11 +2121,7 @@ export class Parser {
     if (this.match(TokenType.OTHERWISE)) {
       // Skip optional semicolon after OTHERWISE
       this.match(TokenType.SEMICOLON);
-      otherwiseBlock = [];
-      while (!this.check(TokenType.END) && !this.isAtEnd()) {
-        otherwiseBlock.push(this.parseStatement());
-        this.match(TokenType.SEMICOLON);
-      }
+      otherwiseBlock = this.parseStatementsUntil(TokenType.END);
     }
 
     this.consume(TokenType.END, 'Expected END');
@@ -2000,11 +2140,7 @@ export class Parser {
   private parseLoopStatement(): Statement {
     const start = this.advance().start; // LOOP
 
-    const body: Statement[] = [];
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      body.push(this.parseStatement());
-      this.match(TokenType.SEMICOLON);
-    }
+    const body = this.parseStatementsUntil(TokenType.END);
 
     this.consume(TokenType.END, 'Expected END');
     this.consume(TokenType.LOOP, 'Expected LOOP');
@@ -2020,11 +2156,7 @@ export class Parser {
   private parseRepeatUntilStatement(): Statement {
     const start = this.advance().start; // REPEAT
 
-    const body: Statement[] = [];
-    while (!this.check(TokenType.UNTIL) && !this.isAtEnd()) {
-      body.push(this.parseStatement());
-      this.match(TokenType.SEMICOLON);
-    }
+    const body = this.parseStatementsUntil(TokenType.UNTIL);
 
     this.consume(TokenType.UNTIL, 'Expected UNTIL');
     const condition = this.parseExpression();
@@ -2052,7 +2184,8 @@ export class Parser {
       // Check if this is WAIT FOR object TO method
       if (this.check(TokenType.TO)) {
         this.advance(); // consume TO
-        const method = this.consume(TokenType.IDENTIFIER, 'Expected method name').value;
+        const methodToken = this.consume(TokenType.IDENTIFIER, 'Expected method name');
+        const method = methodToken.value;
 
         // Parse optional arguments
         const args: Expression[] = [];
@@ -2073,7 +2206,7 @@ export class Parser {
             object: exprOrObject,
             field: method,
             start: exprOrObject.start,
-            end: this.previous().end,
+            end: methodToken.end,
           },
           arguments: args,
           start: exprOrObject.start,
@@ -2085,20 +2218,12 @@ export class Parser {
         // Optional semicolon after method call (for empty body case)
         this.match(TokenType.SEMICOLON);
 
-        const body: Statement[] = [];
-        while (!this.check(TokenType.ON) && !this.check(TokenType.END) && !this.isAtEnd()) {
-          body.push(this.parseStatement());
-          this.match(TokenType.SEMICOLON);
-        }
+        const body = this.parseStatementsUntil(TokenType.ON, TokenType.END);
 
         let onInterrupt: Statement[] | undefined;
         if (this.match(TokenType.ON)) {
           this.consume(TokenType.INTERRUPT, 'Expected INTERRUPT');
-          onInterrupt = [];
-          while (!this.check(TokenType.END) && !this.isAtEnd()) {
-            onInterrupt.push(this.parseStatement());
-            this.match(TokenType.SEMICOLON);
-          }
+          onInterrupt = this.parseStatementsUntil(TokenType.END);
         }
 
         this.consume(TokenType.END, 'Expected END');
@@ -2120,20 +2245,12 @@ export class Parser {
       // Optional semicolon after expression (for empty body case)
       this.match(TokenType.SEMICOLON);
 
-      const body: Statement[] = [];
-      while (!this.check(TokenType.ON) && !this.check(TokenType.END) && !this.isAtEnd()) {
-        body.push(this.parseStatement());
-        this.match(TokenType.SEMICOLON);
-      }
+      const body = this.parseStatementsUntil(TokenType.ON, TokenType.END);
 
       let onInterrupt: Statement[] | undefined;
       if (this.match(TokenType.ON)) {
         this.consume(TokenType.INTERRUPT, 'Expected INTERRUPT');
-        onInterrupt = [];
-        while (!this.check(TokenType.END) && !this.isAtEnd()) {
-          onInterrupt.push(this.parseStatement());
-          this.match(TokenType.SEMICOLON);
-        }
+        onInterrupt = this.parseStatementsUntil(TokenType.END);
       }
 
       this.consume(TokenType.END, 'Expected END');
@@ -2169,20 +2286,12 @@ export class Parser {
     }
 
     // WAIT DURATION can also have body and ON INTERRUPT (compound form)
-    const body: Statement[] = [];
-    while (!this.check(TokenType.ON) && !this.check(TokenType.END) && !this.isAtEnd()) {
-      body.push(this.parseStatement());
-      this.match(TokenType.SEMICOLON);
-    }
+    const body = this.parseStatementsUntil(TokenType.ON, TokenType.END);
 
     let onInterrupt: Statement[] | undefined;
     if (this.match(TokenType.ON)) {
       this.consume(TokenType.INTERRUPT, 'Expected INTERRUPT');
-      onInterrupt = [];
-      while (!this.check(TokenType.END) && !this.isAtEnd()) {
-        onInterrupt.push(this.parseStatement());
-        this.match(TokenType.SEMICOLON);
-      }
+      onInterrupt = this.parseStatementsUntil(TokenType.END);
     }
 
     this.consume(TokenType.END, 'Expected END');
@@ -2347,11 +2456,7 @@ export class Parser {
     const record = this.parseExpression();
     this.match(TokenType.DO); // DO is optional in RAMS
 
-    const body: Statement[] = [];
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      body.push(this.parseStatement());
-      this.match(TokenType.SEMICOLON);
-    }
+    const body = this.parseStatementsUntil(TokenType.END);
 
     this.consume(TokenType.END, 'Expected END');
     this.consume(TokenType.WITH, 'Expected WITH after END');
@@ -2367,12 +2472,7 @@ export class Parser {
 
   private parseBlockStatement(): Statement {
     const start = this.advance().start; // BEGIN
-    const statements: Statement[] = [];
-
-    while (!this.check(TokenType.END) && !this.isAtEnd()) {
-      statements.push(this.parseStatement());
-      this.match(TokenType.SEMICOLON);
-    }
+    const statements = this.parseStatementsUntil(TokenType.END);
 
     this.consume(TokenType.END, 'Expected END');
 
@@ -2399,6 +2499,7 @@ export class Parser {
 
     // TO keyword is optional in RAMS
     this.match(TokenType.TO);
+    const methodStart = this.peek().start;
     const method = this.consume(TokenType.IDENTIFIER, 'Expected method name').value;
 
     const args: Expression[] = [];
@@ -2422,6 +2523,7 @@ export class Parser {
       type: 'AskStatement',
       object,
       method,
+      methodStart,
       arguments: args,
       delay,
       result,
@@ -2436,6 +2538,7 @@ export class Parser {
     const object = this.parsePostfix();
     // TO keyword is optional in RAMS
     this.match(TokenType.TO);
+    const methodStart = this.peek().start;
     const method = this.consume(TokenType.IDENTIFIER, 'Expected method name').value;
 
     const args: Expression[] = [];
@@ -2458,6 +2561,7 @@ export class Parser {
       type: 'TellStatement',
       object,
       method,
+      methodStart,
       arguments: args,
       delay,
       start,
@@ -2914,7 +3018,8 @@ export class Parser {
       this.match(TokenType.TO);
 
       // Next token should be method name (identifier)
-      const method = this.consume(TokenType.IDENTIFIER, 'Expected method name').value;
+      const methodToken = this.consume(TokenType.IDENTIFIER, 'Expected method name');
+      const method = methodToken.value;
 
       // Parse optional arguments
       const args: Expression[] = [];
@@ -2944,7 +3049,7 @@ export class Parser {
           object,
           field: method,
           start: object.start,
-          end: this.previous().end,
+          end: methodToken.end,
         },
         arguments: args,
         start,
@@ -2971,8 +3076,8 @@ export class Parser {
     if (this.check(TokenType.INHERITED) && this.peekAhead(1)?.type === TokenType.FROM) {
       this.advance(); // INHERITED
       this.advance(); // FROM
-      const baseClass = this.consume(TokenType.IDENTIFIER, 'Expected base class name').value;
-      const methodName = this.consume(TokenType.IDENTIFIER, 'Expected method name').value;
+      const baseClass = this.consume(TokenType.IDENTIFIER, 'Expected base class name');
+      const methodToken = this.consume(TokenType.IDENTIFIER, 'Expected method name');
 
       // Parse optional arguments
       const args: Expression[] = [];
@@ -2993,13 +3098,13 @@ export class Parser {
           type: 'FieldAccessExpression',
           object: {
             type: 'IdentifierExpression',
-            name: baseClass,
-            start,
-            end: this.previous().end,
+            name: baseClass.value,
+            start: baseClass.start,
+            end: baseClass.end,
           },
-          field: methodName,
+          field: methodToken.value,
           start,
-          end: this.previous().end,
+          end: methodToken.end,
         },
         arguments: args,
         start,
@@ -3017,7 +3122,7 @@ export class Parser {
       };
     }
 
-    throw this.error('Expected expression');
+    throw this.error('Expected expression', SyntaxErrorCode.ExpectedExpression);
   }
 
   // ====================
@@ -3071,7 +3176,7 @@ export class Parser {
 
   private consume(type: TokenType, message: string): Token {
     if (this.check(type)) return this.advance();
-    throw this.error(message);
+    throw this.error(message, expectedTokenCode(type));
   }
 
   /**
@@ -3084,8 +3189,8 @@ export class Parser {
     if (this.errorRecovery) {
       // Record the error but don't throw
       const token = this.peek();
-      const error = new ParseError(`${message} at line ${token.start.line}, column ${token.start.column}`, token);
-      this.errors.push(error);
+      this.recordError(new ParseError(
+        `${message} at line ${token.start.line}, column ${token.start.column}`, token, expectedTokenCode(type)));
 
       // Return a synthetic token
       return {
@@ -3096,7 +3201,7 @@ export class Parser {
       };
     }
 
-    throw this.error(message);
+    throw this.error(message, expectedTokenCode(type));
   }
 
   /**
@@ -3117,13 +3222,237 @@ export class Parser {
     throw this.error(message);
   }
 
-  private error(message: string): never {
+  /**
+   * Consume an identifier token as a name, recording where it starts
+   */
+  private consumeName(message: string, starts: Position[]): string {
+    const token = this.consume(TokenType.IDENTIFIER, message);
+    starts.push(token.start);
+    return token.value;
+  }
+
+  private error(message: string, code: SyntaxErrorCode = SyntaxErrorCode.ExpectedToken): never {
     const token = this.peek();
-    const error = new ParseError(`${message} at line ${token.start.line}, column ${token.start.column}`, token);
-    this.errors.push(error);
+    const error = new ParseError(`${message} at line ${token.start.line}, column ${token.start.column}`, token, code);
+    this.recordError(error);
     throw error;
   }
 
-  // TODO: Implement error recovery (Task 3.14)
-  // private synchronize(): void { ... }
+  /**
+   * Record a parse error unless one was already reported at the same token.
+   * Recovery frequently fails again at the token that caused the first error
+   * (e.g. a missing END is noticed by every enclosing construct), and those
+   * cascading errors only add noise.
+   */
+  private recordError(error: ParseError): void {
+    const offset = error.token.start.offset;
+    if (!this.errors.some(e => e.token.start.offset === offset)) {
+      this.errors.push(error);
+    }
+  }
+
+  // ====================
+  // Error recovery
+  // ====================
+
+  /**
+   * Run a sub-parser. Without error recovery this is a plain call; with it, a
+   * ParseError (already recorded by error()) is swallowed, the token stream is
+   * resynchronized and undefined is returned in place of the failed construct.
+   */
+  private recover<T>(parseFn: () => T, synchronize: (startIndex: number) => void): T | undefined {
+    if (!this.errorRecovery) {
+      return parseFn();
+    }
+
+    const startIndex = this.current;
+    try {
+      return parseFn();
+    } catch (error) {
+      if (!(error instanceof ParseError)) {
+        throw error;
+      }
+      synchronize(startIndex);
+      return undefined;
+    }
+  }
+
+  /**
+   * Statement-level synchronization: skip to just after the next semicolon, or
+   * stop before a token that closes the enclosing block or starts a declaration.
+   * Compound statements opened by the failed statement are skipped up to their
+   * matching END, so e.g. a bad IF condition doesn't end the enclosing body at END IF.
+   */
+  private synchronize(startIndex: number): void {
+    // Always make progress, otherwise the caller would fail on the same token forever
+    if (this.current === startIndex) {
+      this.advance();
+    }
+
+    let depth = 0;
+    for (let i = startIndex; i < this.current; i++) {
+      if (this.tokens[i].type === TokenType.END && COMPOUND_STATEMENTS.has(this.tokens[i + 1]?.type)) {
+        depth--;
+        i++;
+      } else if (this.opensCompoundStatement(i)) {
+        depth++;
+      }
+    }
+
+    while (!this.isAtEnd()) {
+      if (this.checkDeclarationStart()) return;
+
+      if (depth > 0) {
+        if (this.check(TokenType.END) && COMPOUND_STATEMENTS.has(this.peekNext()?.type)) {
+          this.advance(); // END
+          depth--;
+        } else if (this.opensCompoundStatement(this.current)) {
+          depth++;
+        }
+        this.advance();
+        continue;
+      }
+
+      if (this.previous().type === TokenType.SEMICOLON) return;
+
+      switch (this.peek().type) {
+        case TokenType.END:
+        case TokenType.ELSE:
+        case TokenType.ELSIF:
+        case TokenType.OTHERWISE:
+        case TokenType.UNTIL:
+        case TokenType.PIPE:
+        case TokenType.WHEN:
+        case TokenType.ON:
+        case TokenType.BEGIN:
+          return;
+      }
+
+      this.advance();
+    }
+  }
+
+  // WAIT FOR is not a FOR loop, so it has no END FOR
+  private opensCompoundStatement(index: number): boolean {
+    const type = this.tokens[index].type;
+    return COMPOUND_STATEMENTS.has(type) &&
+      !(type === TokenType.FOR && this.tokens[index - 1]?.type === TokenType.WAIT);
+  }
+
+  /**
+   * Declaration-level synchronization: skip to the next top-level declaration.
+   * A closing END PROCEDURE/OBJECT/PROTO is consumed so the remainder of a broken
+   * declaration is not reparsed; END MODULE/PROGRAM is left for parseModule.
+   */
+  private synchronizeDeclaration(startIndex: number): void {
+    if (this.current === startIndex) {
+      this.advance();
+    }
+    this.lastDeclKeyword = null;
+
+    while (!this.isAtEnd()) {
+      if (this.check(TokenType.END)) {
+        const closes = this.peekNext()?.type;
+        if (closes === TokenType.MODULE || closes === TokenType.PROGRAM) return;
+        if (closes === TokenType.PROCEDURE || closes === TokenType.OBJECT || closes === TokenType.PROTO) {
+          this.advance(); // END
+          this.advance(); // PROCEDURE/OBJECT/PROTO
+          this.match(TokenType.SEMICOLON);
+          return;
+        }
+        // END METHOD, END IF, ... belong to the declaration being skipped
+        this.advance();
+        this.advance();
+        continue;
+      }
+
+      switch (this.peek().type) {
+        case TokenType.PROCEDURE:
+        case TokenType.TYPE:
+        case TokenType.CONST:
+        case TokenType.VAR:
+        case TokenType.OBJECT:
+        case TokenType.PROTO:
+          return;
+      }
+
+      this.advance();
+    }
+  }
+
+  /**
+   * Member-level synchronization inside OBJECT/PROTO bodies: skip to the next
+   * method, a section keyword, or the END that closes the object.
+   */
+  private synchronizeMember(startIndex: number): void {
+    if (this.current === startIndex) {
+      this.advance();
+    }
+
+    while (!this.isAtEnd()) {
+      if (this.check(TokenType.END)) {
+        const closes = this.peekNext()?.type;
+        if (closes === TokenType.METHOD) {
+          // Skip the rest of the broken method, including its END METHOD
+          this.advance();
+          this.advance();
+          this.match(TokenType.SEMICOLON);
+          return;
+        }
+        if (closes === TokenType.OBJECT || closes === TokenType.PROTO || closes === TokenType.MODULE) return;
+        this.advance();
+        this.advance();
+        continue;
+      }
+
+      switch (this.peek().type) {
+        case TokenType.OVERRIDE:
+        case TokenType.CLASS:
+        case TokenType.PRIVATE:
+        case TokenType.PUBLIC:
+        case TokenType.PROCEDURE:
+          return;
+      }
+      if (this.checkMethodStart()) return;
+
+      this.advance();
+    }
+  }
+
+  /**
+   * Parse a method inside an OBJECT/PROTO body, recovering at member level
+   */
+  private parseMember(): MethodDeclaration | undefined {
+    return this.recover(() => this.parseMethodDeclaration(), start => this.synchronizeMember(start));
+  }
+
+  /**
+   * Consume the END <keyword> that closes a declaration. Returns false when the
+   * END is missing in error recovery mode; the closing keyword is then left in
+   * place so the declaration that follows is not swallowed.
+   */
+  private consumeBlockEnd(keyword: TokenType, message: string): boolean {
+    const hasEnd = this.check(TokenType.END);
+    this.consumeOrRecover(TokenType.END, 'Expected END');
+    if (!hasEnd) {
+      return false;
+    }
+    this.consumeOrRecover(keyword, message);
+    return true;
+  }
+
+  // Check for the start of a method declaration (ASK METHOD, TELL OVERRIDE METHOD, ...)
+  private checkMethodStart(): boolean {
+    if (!this.checkMethodType()) return false;
+    const next = this.peekNext()?.type;
+    return next === TokenType.METHOD || next === TokenType.OVERRIDE;
+  }
+
+  // Check for a token that can only start a declaration, never a statement
+  private checkDeclarationStart(): boolean {
+    return this.check(TokenType.PROCEDURE) || this.check(TokenType.TYPE) ||
+           this.check(TokenType.CONST) || this.check(TokenType.VAR) ||
+           this.check(TokenType.OBJECT) || this.check(TokenType.PROTO) ||
+           this.checkMethodStart();
+  }
 }
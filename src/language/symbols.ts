@@ -27,6 +27,7 @@ export interface Symbol {
   type: Type;
   declaration: Position; // Where the symbol was declared
   scope?: Scope; // The scope containing this symbol
+  documentation?: string; // Doc comment of the declaration, as Markdown
 }
 
 // Module symbol
@@ -82,7 +83,7 @@ export interface ObjectSymbol extends Symbol {
 // Method symbol
 export interface MethodSymbol extends Symbol {
   kind: SymbolKind.METHOD;
-  methodType: 'ASK' | 'TELL';
+  methodType: 'ASK' | 'TELL' | 'LMONITOR' | 'RMONITOR' | 'WAITFOR';
   parameters: ParameterSymbol[];
   returnType?: Type;
   isOverride: boolean;
@@ -134,6 +135,8 @@ export class Scope {
   parent?: Scope;
   symbols: Map<string, AnySymbol> = new Map();
   children: Scope[] = [];
+  start?: Position; // Source range of the node that opens the scope
+  end?: Position;
 
   constructor(kind: ScopeKind, name: string, parent?: Scope) {
     this.kind = kind;
@@ -144,6 +147,20 @@ export class Scope {
     }
   }
 
+  /**
+   * Check if a source position (1-based) falls within this scope's range
+   */
+  contains(position: { line: number; column: number }): boolean {
+    if (!this.start || !this.end) {
+      return false;
+    }
+    const afterStart = position.line > this.start.line
+      || (position.line === this.start.line && position.column >= this.start.column);
+    const beforeEnd = position.line < this.end.line
+      || (position.line === this.end.line && position.column <= this.end.column);
+    return afterStart && beforeEnd;
+  }
+
   /**
    * Define a symbol in this scope
    */
@@ -217,10 +234,12 @@ export class SymbolTable {
   }
 
   /**
-   * Enter a new scope
+   * Enter a new scope, optionally recording the source range it covers
    */
-  enterScope(kind: ScopeKind, name: string): Scope {
+  enterScope(kind: ScopeKind, name: string, range?: { start: Position; end: Position }): Scope {
     const newScope = this.currentScope.createChild(kind, name);
+    newScope.start = range?.start;
+    newScope.end = range?.end;
     this.currentScope = newScope;
     this.scopes.set(name, newScope);
     return newScope;
@@ -293,6 +312,20 @@ export class SymbolTable {
     return searchInScope(this.globalScope);
   }
 
+  /**
+   * Find the innermost scope containing a source position (1-based)
+   * Lookups from the returned scope follow the scope chain at that position.
+   */
+  findScopeAt(position: { line: number; column: number }): Scope {
+    let scope = this.globalScope;
+    let child = scope.children.find(c => c.contains(position));
+    while (child) {
+      scope = child;
+      child = scope.children.find(c => c.contains(position));
+    }
+    return scope;
+  }
+
   /**
    * Get a scope by name
    */
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the concrete syntax tree
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  buildSyntaxTree,
+  getFullText,
+  getText,
+  getLeadingTrivia,
+  getTrailingTrivia,
+  SyntaxElement,
+  SyntaxToken,
+} from './syntaxTree';
+import { parseDocument, reparseDocument } from './incremental';
+import { TokenType } from './ast';
+import type { ProcedureDeclaration } from './ast';
+
+describe('Syntax Tree', () => {
+  function collectTokens(element: SyntaxElement, tokens: SyntaxToken[] = []): SyntaxToken[] {
+    if (element.kind === 'token') {
+      tokens.push(element);
+    } else {
+      element.children.forEach(child => collectTokens(child, tokens));
+    }
+    return tokens;
+  }
+
+  function expectRoundTrip(text: string): void {
+    const tree = buildSyntaxTree(parseDocument(text));
+    expect(getFullText(tree.root)).toBe(text);
+    // Every token belongs to the tree exactly once, in source order
+    expect(collectTokens(tree.root)).toEqual(tree.tokens);
+  }
+
+  describe('Round Trip', () => {
+    const fixtures = path.join(__dirname, '../../test/fixtures');
+
+    it.each(fs.readdirSync(fixtures).filter(file => file.endsWith('.mod')))(
+      'should reproduce %s exactly',
+      (file) => {
+        expectRoundTrip(fs.readFileSync(path.join(fixtures, file), 'utf8'));
+      }
+    );
+
+    it('should reproduce comments, blank lines and CRLF line endings', () => {
+      expectRoundTrip(
+        '\r\n(* header { nested } *)\r\nDEFINITION MODULE Test;\r\n\r\n  TYPE Age = INTEGER; { trailing }\r\n\r\nEND MODULE.\r\n\r\n'
+      );
+    });
+
+    it('should reproduce stray braces, lexical errors and unterminated comments', () => {
+      expectRoundTrip('IMPLEMENTATION MODULE Test; }\nVAR x : INTEGER @;\nBEGIN\n  x := "a b";\nEND MODULE. (* open');
+    });
+
+    it('should reproduce a document after an incremental reparse', () => {
+      const before = 'IMPLEMENTATION MODULE Test;\n(* first *)\nPROCEDURE A;\nBEGIN\nEND PROCEDURE;\n\nPROCEDURE B;\nBEGIN\nEND PROCEDURE;\nEND MODULE.\n';
+      const after = before.replace('PROCEDURE A;\nBEGIN\n', 'PROCEDURE A;\nBEGIN\n  { empty }\n');
+      const reparsed = reparseDocument(parseDocument(before), after);
+      const tree = buildSyntaxTree(reparsed);
+
+      expect(reparsed.incremental).toBe(true);
+      expect(getFullText(tree.root)).toBe(after);
+      expect(collectTokens(tree.root)).toEqual(tree.tokens);
+    });
+
+    it('should keep the source text of tokens whose value differs from it', () => {
+      const tree = buildSyntaxTree(parseDocument('x := "a b"; @'));
+      const string = tree.tokens.find(t => t.token.type === TokenType.STRING_LITERAL)!;
+      const error = tree.tokens.find(t => t.token.type === TokenType.ERROR)!;
+
+      expect([string.text, string.token.value]).toEqual(['"a b"', 'a b']);
+      expect(error.text).toBe('@');
+    });
+
+    it('should reproduce text that fails to parse', () => {
+      expectRoundTrip('PROCEDURE ;; IF THEN (* c *) END END');
+      expectRoundTrip('');
+      expectRoundTrip('   \n\t');
+    });
+  });
+
+  describe('Nodes', () => {
+    const source = `IMPLEMENTATION MODULE Test;
+
+(* Adds one to n *)
+PROCEDURE Inc(IN n : INTEGER) : INTEGER; (* trailing *)
+BEGIN
+  RETURN n + 1;
+END PROCEDURE; { after }
+
+END MODULE.
+`;
+
+    it('should map every declaration to a node covering its source', () => {
+      const tree = buildSyntaxTree(parseDocument(source));
+      const procedure = tree.ast.declarations[0] as ProcedureDeclaration;
+      const node = tree.nodes.get(procedure)!;
+
+      expect(node).toBeDefined();
+      expect(getText(node)).toBe(source.slice(procedure.start.offset, procedure.end.offset));
+    });
+
+    it('should expose the comments before and after a declaration', () => {
+      const tree = buildSyntaxTree(parseDocument(source));
+      const node = tree.nodes.get(tree.ast.declarations[0])!;
+
+      const leading = getLeadingTrivia(node).filter(t => t.type === TokenType.COMMENT);
+      const trailing = getTrailingTrivia(node).filter(t => t.type === TokenType.COMMENT);
+      expect(leading.map(t => t.text)).toEqual(['(* Adds one to n *)']);
+      expect(trailing.map(t => t.text)).toEqual(['{ after }']);
+    });
+
+    it('should nest statement and expression nodes inside their declaration', () => {
+      const tree = buildSyntaxTree(parseDocument(source));
+      const procedure = tree.ast.declarations[0] as ProcedureDeclaration;
+      const statement = tree.nodes.get(procedure.body[0])!;
+
+      expect(getText(statement)).toBe('RETURN n + 1');
+      expect(getTrailingTrivia(statement)).toEqual([]);
+      expect(tree.nodes.get(procedure)!.children).toContain(statement);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Concrete Syntax Tree
+ *
+ * A lossless view of a parsed document layered over its AST: every token, with
+ * the comments and whitespace around it kept as trivia, belongs to exactly one
+ * syntax node, so the original text can be rebuilt exactly.
+ */
+
+import type { ParseError } from './parser';
+import type { ParseResult } from './incremental';
+import type { ASTNode, Token, Trivia, Module } from './ast';
+
+/**
+ * Token together with its exact source text
+ */
+export interface SyntaxToken {
+  kind: 'token';
+  token: Token;
+  text: string; // Differs from token.value for string literals and ERROR tokens
+  leadingTrivia: Trivia[];
+  trailingTrivia: Trivia[];
+}
+
+/**
+ * AST node together with the tokens and child nodes it covers, in source order
+ */
+export interface SyntaxNode {
+  kind: 'node';
+  node: ASTNode;
+  children: SyntaxElement[];
+}
+
+export type SyntaxElement = SyntaxNode | SyntaxToken;
+
+/**
+ * Lossless syntax tree of a document
+ */
+export interface SyntaxTree {
+  text: string;
+  root: SyntaxNode; // Covers the whole document, including trivia before EOF
+  tokens: SyntaxToken[];
+  ast: Module;
+  errors: ParseError[];
+  nodes: Map<ASTNode, SyntaxNode>;
+}
+
+/**
+ * Build the lossless syntax tree of a parsed document
+ */
+export function buildSyntaxTree({ text, tokens, ast, errors }: ParseResult): SyntaxTree {
+  const syntaxTokens: SyntaxToken[] = tokens.map(token => ({
+    kind: 'token',
+    token,
+    text: text.slice(token.start.offset, token.end.offset),
+    leadingTrivia: token.leadingTrivia ?? [],
+    trailingTrivia: token.trailingTrivia ?? [],
+  }));
+
+  const builder = new SyntaxTreeBuilder(syntaxTokens);
+  const root = builder.buildRoot(ast);
+
+  return { text, root, tokens: syntaxTokens, ast, errors, nodes: builder.nodes };
+}
+
+/**
+ * Full source text of an element, including its trivia
+ */
+export function getFullText(element: SyntaxElement): string {
+  if (element.kind === 'token') {
+    return triviaText(element.leadingTrivia) + element.text + triviaText(element.trailingTrivia);
+  }
+  return element.children.map(getFullText).join('');
+}
+
+/**
+ * Source text of an element without its outer leading and trailing trivia
+ */
+export function getText(element: SyntaxElement): string {
+  const full = getFullText(element);
+  const leading = triviaText(getLeadingTrivia(element)).length;
+  const trailing = triviaText(getTrailingTrivia(element)).length;
+  return full.slice(leading, full.length - trailing);
+}
+
+/**
+ * First token of an element
+ */
+export function getFirstToken(element: SyntaxElement): SyntaxToken | undefined {
+  if (element.kind === 'token') {
+    return element;
+  }
+  for (const child of element.children) {
+    const token = getFirstToken(child);
+    if (token) {
+      return token;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Last token of an element
+ */
+export function getLastToken(element: SyntaxElement): SyntaxToken | undefined {
+  if (element.kind === 'token') {
+    return element;
+  }
+  for (let i = element.children.length - 1; i >= 0; i--) {
+    const token = getLastToken(element.children[i]);
+    if (token) {
+      return token;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Trivia before an element, e.g. the comment block above a declaration
+ */
+export function getLeadingTrivia(element: SyntaxElement): Trivia[] {
+  return getFirstToken(element)?.leadingTrivia ?? [];
+}
+
+/**
+ * Trivia after an element up to the end of its last line, e.g. a trailing comment
+ */
+export function getTrailingTrivia(element: SyntaxElement): Trivia[] {
+  return getLastToken(element)?.trailingTrivia ?? [];
+}
+
+function triviaText(trivia: Trivia[]): string {
+  return trivia.map(t => t.text).join('');
+}
+
+/**
+ * Assigns tokens to the innermost AST node whose range covers them
+ */
+class SyntaxTreeBuilder {
+  readonly nodes = new Map<ASTNode, SyntaxNode>();
+  private index = 0;
+
+  constructor(private readonly tokens: SyntaxToken[]) {}
+
+  /**
+   * Build the root, which also takes any tokens after the module's range and EOF
+   */
+  buildRoot(ast: Module): SyntaxNode {
+    const root = this.buildNode(ast);
+    this.takeTokens(root, () => true);
+    return root;
+  }
+
+  private buildNode(node: ASTNode): SyntaxNode {
+    const syntaxNode: SyntaxNode = { kind: 'node', node, children: [] };
+    this.nodes.set(node, syntaxNode);
+
+    for (const child of getChildNodes(node)) {
+      // Children the parser placed out of order or overlapping are left to the
+      // parent; their tokens still end up in the tree
+      if (this.index < this.tokens.length && child.start.offset < this.tokens[this.index].token.start.offset) {
+        continue;
+      }
+      this.takeTokens(syntaxNode, token => token.start.offset < child.start.offset);
+      if (child.end.offset > child.start.offset) {
+        syntaxNode.children.push(this.buildNode(child));
+      }
+    }
+
+    this.takeTokens(syntaxNode, token => token.end.offset <= node.end.offset);
+    return syntaxNode;
+  }
+
+  /**
+   * Add the following tokens to a node for as long as they match
+   */
+  private takeTokens(syntaxNode: SyntaxNode, matches: (token: Token) => boolean): void {
+    while (this.index < this.tokens.length && matches(this.tokens[this.index].token)) {
+      syntaxNode.children.push(this.tokens[this.index++]);
+    }
+  }
+}
+
+/**
+ * Direct AST children of a node, in source order
+ */
+function getChildNodes(node: ASTNode): ASTNode[] {
+  const children: ASTNode[] = [];
+
+  const collect = (value: unknown): void => {
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+      return;
+    }
+    if (isNode(value)) {
+      children.push(value);
+      return;
+    }
+    // Plain records such as CASE arms or ELSIF clauses hold nodes of their own
+    Object.values(value).forEach(collect);
+  };
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== 'start' && key !== 'end') {
+      collect(value);
+    }
+  }
+
+  return children.sort((a, b) => a.start.offset - b.start.offset);
+}
+
+function isNode(value: object): value is ASTNode {
+  const candidate = value as Partial<ASTNode>;
+  return typeof candidate.type === 'string' && !!candidate.start && !!candidate.end;
+}
@@ -50,6 +50,7 @@ export interface RecordType extends Type {
 export interface FieldInfo {
   type: Type;
   offset?: number; // Optional offset for memory layout
+  documentation?: string; // Doc comment of the declaration, as Markdown
 }
 
 // Object type
@@ -58,8 +59,42 @@ export interface ObjectType extends Type {
   baseTypes?: ObjectType[]; // Inheritance (multiple inheritance supported)
   fields: Map<string, FieldInfo>; // Instance variables
   methods: Map<string, MethodInfo>; // Methods
+  elementType?: Type; // Type of the elements of a collection object, substituted for ANYOBJ
   privateFields?: Map<string, FieldInfo>; // Private fields
   privateMethods?: Map<string, MethodInfo>; // Private methods
+  importedBaseTypes?: ImportedTypeReference[]; // Base types of modules that were not available to resolve them
+}
+
+/**
+ * A type imported from another module, by name
+ */
+export interface ImportedTypeReference {
+  name: string;
+  moduleName: string;
+}
+
+/**
+ * Resolves a type imported from another module
+ */
+export type ImportedTypeResolver = (reference: ImportedTypeReference) => Type | undefined;
+
+/**
+ * A field or method of a record or object type
+ */
+export interface MemberInfo {
+  name: string;
+  field?: FieldInfo;
+  method?: MethodInfo;
+  isPrivate: boolean;
+  owner: Type; // The record or object type the member was found on
+}
+
+/**
+ * The members of a record or object type, including those of its base types
+ */
+export interface MemberSet {
+  members: Map<string, MemberInfo>;
+  complete: boolean; // False if a base type imported from another module could not be resolved
 }
 
 export interface MethodInfo {
@@ -67,12 +102,14 @@ export interface MethodInfo {
   parameters: ParameterInfo[];
   returnType?: Type; // Only for ASK/WAITFOR methods
   isOverride: boolean;
+  documentation?: string;
 }
 
 export interface ParameterInfo {
   name: string;
   type: Type;
   mode: 'IN' | 'OUT' | 'INOUT';
+  documentation?: string;
 }
 
 // Pointer/Reference type
@@ -142,8 +179,9 @@ export const NILARRAY_TYPE: Type = { kind: TypeKind.UNKNOWN, name: 'NILARRAY' };
 
 /**
  * Check if a type is assignable to another type
+ * Object types inheriting from types of other modules need `resolveImported` to be checked.
  */
-export function isAssignable(target: Type, source: Type): boolean {
+export function isAssignable(target: Type, source: Type, resolveImported?: ImportedTypeResolver): boolean {
   // Same type
   if (target === source) return true;
   if (target.kind === source.kind && target.name === source.name) return true;
@@ -179,9 +217,14 @@ export function isAssignable(target: Type, source: Type): boolean {
     return true;
   }
 
+  // ANYOBJ can hold an object of any type
+  if (target.kind === TypeKind.ANYOBJ && source.kind === TypeKind.OBJECT) {
+    return true;
+  }
+
   // Object inheritance - source object can be assigned to target if it inherits from it
   if (target.kind === TypeKind.OBJECT && source.kind === TypeKind.OBJECT) {
-    return isSubtypeOf(source as ObjectType, target as ObjectType);
+    return isSubtypeOf(source as ObjectType, target as ObjectType, resolveImported);
   }
 
   return false;
@@ -190,22 +233,106 @@ export function isAssignable(target: Type, source: Type): boolean {
 /**
  * Check if source object type is a subtype of target object type (inheritance)
  */
-function isSubtypeOf(source: ObjectType, target: ObjectType): boolean {
+function isSubtypeOf(
+  source: ObjectType,
+  target: ObjectType,
+  resolveImported?: ImportedTypeResolver,
+  visited = new Set<Type>()
+): boolean {
   if (source === target) return true;
   if (source.name === target.name) return true;
+  if (visited.has(source)) return false;
+  visited.add(source);
 
   // Check if source inherits from target
-  if (source.baseTypes) {
-    for (const baseType of source.baseTypes) {
-      if (isSubtypeOf(baseType, target)) {
-        return true;
-      }
+  for (const baseType of source.baseTypes ?? []) {
+    if (isSubtypeOf(baseType, target, resolveImported, visited)) {
+      return true;
+    }
+  }
+
+  for (const reference of source.importedBaseTypes ?? []) {
+    const baseType = resolveImported?.(reference);
+    if (baseType?.kind !== TypeKind.OBJECT) {
+      // A base type of a module that is not available may be the target
+      return true;
+    }
+    if (isSubtypeOf(baseType as ObjectType, target, resolveImported, visited)) {
+      return true;
     }
   }
 
   return false;
 }
 
+/**
+ * Get the fields and methods of a record or object type, searching base types across modules
+ * Members of derived types come first, so overrides win.
+ */
+export function getMembers(type: Type, resolveImported?: ImportedTypeResolver): MemberSet {
+  const members = new Map<string, MemberInfo>();
+  let complete = true;
+
+  const add = (owner: Type, entries: Map<string, FieldInfo | MethodInfo> | undefined, isMethod: boolean, isPrivate: boolean) => {
+    for (const [name, info] of entries ?? []) {
+      if (!members.has(name)) {
+        members.set(name, {
+          name,
+          field: isMethod ? undefined : (info as FieldInfo),
+          method: isMethod ? (info as MethodInfo) : undefined,
+          isPrivate,
+          owner,
+        });
+      }
+    }
+  };
+
+  if (type.kind === TypeKind.RECORD) {
+    add(type, (type as RecordType).fields, false, false);
+    return { members, complete };
+  }
+
+  const visited = new Set<Type>();
+  const visit = (objectType: ObjectType) => {
+    if (visited.has(objectType)) return;
+    visited.add(objectType);
+
+    add(objectType, objectType.fields, false, false);
+    add(objectType, objectType.methods, true, false);
+    add(objectType, objectType.privateFields, false, true);
+    add(objectType, objectType.privateMethods, true, true);
+
+    objectType.baseTypes?.forEach(visit);
+    for (const reference of objectType.importedBaseTypes ?? []) {
+      const baseType = resolveImported?.(reference);
+      if (baseType?.kind === TypeKind.OBJECT) {
+        visit(baseType as ObjectType);
+      } else {
+        complete = false;
+      }
+    }
+  };
+
+  if (type.kind === TypeKind.OBJECT) {
+    visit(type as ObjectType);
+  }
+  return { members, complete };
+}
+
+/**
+ * Find a field or method of a record or object type, searching base types across modules
+ */
+export function findMember(type: Type, name: string, resolveImported?: ImportedTypeResolver): MemberInfo | undefined {
+  return getMembers(type, resolveImported).members.get(name);
+}
+
+/**
+ * Type of a member: the type of a field, or what a method returns
+ */
+export function getMemberType(member: MemberInfo): Type {
+  return member.field?.type ?? member.method?.returnType ?? { kind: TypeKind.VOID };
+}
+
 /**
  * Get the result type of a binary operation
  */
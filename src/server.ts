@@ -15,28 +15,57 @@ import {
   CompletionItem,
   TextDocumentPositionParams,
   Connection,
+  CancellationToken,
+  DocumentDiagnosticReport,
+  WorkspaceDiagnosticReport,
 } from 'vscode-languageserver/node';
 
 import { TextDocument } from 'vscode-languageserver-textdocument';
 
-import { Lexer } from './language/lexer';
-import { Parser } from './language/parser';
-import { SemanticAnalyzer } from './language/analyzer';
+import { parseDocument, reparseDocument, ParseResult } from './language/incremental';
+import { SemanticAnalyzer, ModuleAnalysis } from './language/analyzer';
+import { createParseDiagnostics } from './language/diagnostics';
+import { DocComments } from './language/docComments';
 import type { Module } from './language/ast';
 import { SymbolTable } from './language/symbols';
 import { getDocumentSymbols } from './features/documentSymbols';
+import { getWorkspaceSymbols } from './features/workspaceSymbols';
 import { getHover } from './features/hover';
 import { getDefinition } from './features/definition';
+import { getDeclaration, getImplementation } from './features/implementation';
+import { prepareCallHierarchy, getIncomingCalls, getOutgoingCalls } from './features/callHierarchy';
+import {
+  prepareTypeHierarchy,
+  getSupertypes,
+  getSubtypes,
+  getInheritanceGraph,
+  InheritanceGraphRequest,
+} from './features/typeHierarchy';
 import { getSemanticTokens } from './features/semanticTokens';
-import { getCompletions, resolveCompletionItem } from './features/completion';
+import { getCompletions, resolveCompletionItem, SymbolCompletionData } from './features/completion';
 import { findReferences } from './features/references';
 import { getSignatureHelp } from './features/signatureHelp';
+import { getInlayHints } from './features/inlayHints';
+import { getCodeLenses, ReferenceIndexCache } from './features/codeLens';
 import { getCodeActions } from './features/codeAction';
 import { prepareRename, getRename } from './features/rename';
+import {
+  toLspDiagnostics,
+  getDocumentDiagnosticReport,
+  getWorkspaceDiagnosticReport,
+  OpenDocumentDiagnostics,
+} from './features/pullDiagnostics';
 import { getDocumentHighlights } from './features/documentHighlight';
 import { getFoldingRanges } from './features/foldingRanges';
+import { formatDocument, formatRange, FormatSettings, DEFAULT_FORMAT_SETTINGS } from './features/formatting';
+import {
+  getOnTypeFormatting,
+  ON_TYPE_FORMATTING_TRIGGER,
+  ON_TYPE_FORMATTING_MORE_TRIGGERS,
+} from './features/onTypeFormatting';
 import { initLogger, logInfo, logError, logWarn } from './utils/logging';
 import { WorkspaceManager } from './utils/workspace';
+import { ValidationScheduler } from './utils/validationScheduler';
 
 // Create connection using all proposed features
 const connection: Connection = createConnection(ProposedFeatures.all);
@@ -53,13 +82,36 @@ interface DocumentState {
   symbolTable?: SymbolTable;
   diagnostics: Diagnostic[];
   version: number;
+  parseResult?: ParseResult; // Reused for incremental reparsing on the next change
+  analysis?: ModuleAnalysis; // Reused for analyzing only the reparsed declarations on the next change
 }
 
 const documentStates = new Map<string, DocumentState>();
 
+// Code lenses count references across the workspace; the index is kept until a module is reanalyzed
+const referenceIndexCache = new ReferenceIndexCache();
+
+// Validation is debounced per document, so fast typing runs one analysis per pause
+// rather than one per keystroke, and runs for outdated versions are dropped
+const VALIDATION_DELAY_MS = 300;
+
+const validationScheduler = new ValidationScheduler(
+  async (uri) => {
+    const document = documents.get(uri);
+    if (document) {
+      await validateTextDocument(document);
+    }
+  },
+  (uri) => documents.get(uri)?.version,
+  VALIDATION_DELAY_MS
+);
+
 // Server capabilities
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
+let hasRenameFileCapability = false;
+let hasPullDiagnosticsCapability = false;
+let hasDiagnosticRefreshCapability = false;
 // let hasDiagnosticRelatedInformationCapability = false;
 
 /**
@@ -71,6 +123,13 @@ connection.onInitialize((params: InitializeParams) => {
   // Check client capabilities
   hasConfigurationCapability = !!(capabilities.workspace && !!capabilities.workspace.configuration);
   hasWorkspaceFolderCapability = !!(capabilities.workspace && !!capabilities.workspace.workspaceFolders);
+  hasRenameFileCapability = !!(
+    capabilities.workspace?.workspaceEdit?.documentChanges &&
+    capabilities.workspace.workspaceEdit.resourceOperations?.includes('rename')
+  );
+  // Clients that pull diagnostics are not pushed any
+  hasPullDiagnosticsCapability = !!capabilities.textDocument?.diagnostic;
+  hasDiagnosticRefreshCapability = !!capabilities.workspace?.diagnostics?.refreshSupport;
   // hasDiagnosticRelatedInformationCapability = !!(
   //   capabilities.textDocument &&
   //   capabilities.textDocument.publishDiagnostics &&
@@ -81,8 +140,17 @@ connection.onInitialize((params: InitializeParams) => {
     capabilities: {
       textDocumentSync: TextDocumentSyncKind.Incremental,
       documentSymbolProvider: true,
+      workspaceSymbolProvider: true,
       hoverProvider: true,
       definitionProvider: true,
+      declarationProvider: true,
+      implementationProvider: true,
+      callHierarchyProvider: true,
+      typeHierarchyProvider: true,
+      inlayHintProvider: true,
+      codeLensProvider: {
+        resolveProvider: false,
+      },
       semanticTokensProvider: {
         legend: {
           tokenTypes: ['keyword', 'type', 'class', 'function', 'variable', 'parameter', 'property', 'string', 'number', 'comment'],
@@ -103,6 +171,16 @@ connection.onInitialize((params: InitializeParams) => {
       },
       documentHighlightProvider: true,
       foldingRangeProvider: true,
+      documentFormattingProvider: true,
+      documentRangeFormattingProvider: true,
+      documentOnTypeFormattingProvider: {
+        firstTriggerCharacter: ON_TYPE_FORMATTING_TRIGGER,
+        moreTriggerCharacter: ON_TYPE_FORMATTING_MORE_TRIGGERS,
+      },
+      diagnosticProvider: {
+        interFileDependencies: true,
+        workspaceDiagnostics: true,
+      },
     },
   };
 
@@ -149,6 +227,7 @@ connection.onInitialized(async () => {
     // Don't index on startup - wait for first document to open
     logWarn('No workspace folders provided by client, will auto-discover on first document open');
   }
+  publishWorkspaceDiagnostics();
 
   if (hasWorkspaceFolderCapability) {
 
@@ -167,7 +246,7 @@ connection.onInitialized(async () => {
  */
 connection.onDidChangeConfiguration((_change) => {
   // Revalidate all open documents
-  documents.all().forEach(validateTextDocument);
+  documents.all().forEach((document) => validationScheduler.schedule(document.uri, document.version));
 });
 
 /**
@@ -226,13 +305,14 @@ documents.onDidOpen(async (event) => {
     try {
       await workspaceManager.initialize([workspaceRoot], (msg) => connection.console.log(msg));
       connection.console.log(`Workspace indexing completed successfully`);
+      publishWorkspaceDiagnostics();
     } catch (error: any) {
       logError(`Workspace initialization failed: ${error.message}`);
       connection.console.log(`Workspace initialization failed: ${error.message}`);
     }
   }
 
-  await validateTextDocument(event.document);
+  await validationScheduler.runNow(event.document.uri, event.document.version);
 });
 
 /**
@@ -241,111 +321,128 @@ documents.onDidOpen(async (event) => {
 documents.onDidChangeContent(async (change) => {
   connection.console.log(`Document changed: ${change.document.uri}`);
   logInfo(`Document changed: ${change.document.uri}`);
-  await validateTextDocument(change.document);
+  validationScheduler.schedule(change.document.uri, change.document.version);
 });
 
 /**
  * Document closed
  */
-documents.onDidClose((event) => {
-  connection.console.log(`Document closed: ${event.document.uri}`);
-  logInfo(`Document closed: ${event.document.uri}`);
-  documentStates.delete(event.document.uri);
-  workspaceManager.removeDocument(event.document.uri);
-  connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+documents.onDidClose(async (event) => {
+  const uri = event.document.uri;
+  connection.console.log(`Document closed: ${uri}`);
+  logInfo(`Document closed: ${uri}`);
+  validationScheduler.cancel(uri);
+  documentStates.delete(uri);
+
+  // Unsaved changes are discarded, so the workspace goes back to the file on disk
+  const dependents = await workspaceManager.reloadDocument(uri);
+  if (hasPullDiagnosticsCapability) {
+    refreshDiagnostics();
+  } else {
+    connection.sendDiagnostics({ uri, diagnostics: toLspDiagnostics(workspaceManager.getDiagnostics(uri)) });
+  }
+  await revalidateDependents(dependents);
 });
 
 /**
- * Validate (parse and analyze) a text document
+ * Bring the cached state of a document up to date with its text
+ * The parse, AST, symbol table and diagnostics are replaced together, since reparsing
+ * moves the reused tokens and AST nodes of the previous parse in place.
  */
-async function validateTextDocument(textDocument: TextDocument): Promise<void> {
-  try {
-    const text = textDocument.getText();
-    const uri = textDocument.uri;
-    const version = textDocument.version;
+function updateDocumentState(textDocument: TextDocument): DocumentState {
+  const text = textDocument.getText();
+  const uri = textDocument.uri;
+  const version = textDocument.version;
 
-    // Tokenize
-    const lexer = new Lexer(text);
-    const tokens = lexer.tokenize();
-
-    // Parse
-    const parser = new Parser(tokens);
-    const ast = parser.parse();
+  const previous = documentStates.get(uri);
+  try {
+    // Tokenize and parse with error recovery, so a syntax error doesn't discard the
+    // rest of the file. After an edit only the touched declarations are reparsed.
+    const parseResult = previous?.parseResult ? reparseDocument(previous.parseResult, text) : parseDocument(text);
+    const { tokens, ast } = parseResult;
 
-    // Analyze with workspace context
+    // Analyze with workspace context; declarations that were not reparsed keep their analysis
     const analyzer = new SemanticAnalyzer();
+    analyzer.setDocComments(new DocComments(tokens));
+    if (previous?.analysis) {
+      analyzer.setPreviousAnalysis(previous.analysis);
+    }
 
     // Provide workspace symbol resolver to analyzer
-    analyzer.setWorkspaceResolver((moduleName: string) => {
-      connection.console.log(`Looking up module: ${moduleName}`);
-      const moduleUri = workspaceManager.resolveModule(moduleName);
-      if (moduleUri) {
-        connection.console.log(`Found module ${moduleName} at ${moduleUri}`);
-        const doc = workspaceManager.getDocument(moduleUri);
-        if (doc) {
-          // Return the symbol table for import resolution
-          return doc.symbolTable;
-        } else {
-          connection.console.log(`  Document not found for URI ${moduleUri}`);
-        }
-      } else {
-        connection.console.log(`Module ${moduleName} not found in workspace`);
-      }
-      return undefined;
-    });
+    analyzer.setWorkspaceResolver((moduleName: string) => workspaceManager.getModuleSymbols(moduleName));
 
     const analyzerDiagnostics = analyzer.analyze(ast);
 
-    // Check for ERROR tokens from lexer (e.g., lowercase keywords)
-    const tokenDiagnostics = tokens
-      .filter((token) => token.type === 'ERROR')
-      .map((token) => ({
-        severity: 'Error' as const,
-        message: token.value,
-        start: token.start,
-        end: token.end,
-      }));
-
-    // Combine all diagnostics
-    const allDiagnostics = [...analyzerDiagnostics, ...tokenDiagnostics];
-
-    // Convert diagnostics to LSP format
-    const diagnostics: Diagnostic[] = allDiagnostics.map((d) => ({
-      severity: d.severity === 'Error' ? 1 : d.severity === 'Warning' ? 2 : 3,
-      range: {
-        start: { line: d.start.line - 1, character: d.start.column - 1 }, // LSP is 0-based
-        end: { line: d.end.line - 1, character: d.end.column - 1 },
-      },
-      message: d.message,
-      source: 'modsim-lsp',
-    }));
+    // Syntax errors, each located at the token where parsing failed, then ERROR
+    // tokens from the lexer (e.g., lowercase keywords)
+    const parseDiagnostics = createParseDiagnostics(tokens, parseResult.errors);
+
+    // Combine all diagnostics, converted to LSP format
+    const diagnostics = toLspDiagnostics([...parseDiagnostics, ...analyzerDiagnostics]);
 
-    // Cache document state
-    documentStates.set(uri, {
+    const state: DocumentState = {
       ast,
       symbolTable: analyzer.getSymbolTable(),
       diagnostics,
       version,
-    });
+      parseResult,
+      analysis: analyzer.getAnalysis(),
+    };
+    documentStates.set(uri, state);
+    return state;
+  } catch (error) {
+    // The cached parse and analysis may have been partly updated; start over next time
+    if (previous) {
+      previous.parseResult = undefined;
+      previous.analysis = undefined;
+    }
+    throw error;
+  }
+}
 
-    // Update workspace manager
-    await workspaceManager.updateDocument(uri, text, version);
+/**
+ * Validate (parse and analyze) a text document
+ */
+async function validateTextDocument(textDocument: TextDocument): Promise<void> {
+  try {
+    const uri = textDocument.uri;
+    const version = textDocument.version;
+    const { diagnostics, parseResult, symbolTable } = updateDocumentState(textDocument);
+
+    // Update workspace manager with this analysis
+    // (it returns the modules depending on this one if its interface changed)
+    const dependents = await workspaceManager.updateDocument(uri, textDocument.getText(), version, parseResult, symbolTable);
+
+    // Don't publish diagnostics for a version the client has already moved past;
+    // the run for the newer version will publish its own
+    if (documents.get(uri)?.version !== version) {
+      logInfo(`Dropped stale diagnostics for ${uri}, version ${version}`);
+    } else {
+      // Send diagnostics to client; pulling clients are asked to pull them again,
+      // along with those of the files importing this one
+      if (hasPullDiagnosticsCapability) {
+        refreshDiagnostics();
+      } else {
+        connection.sendDiagnostics({ uri, diagnostics });
+      }
+      logInfo(`Validated document: ${uri}, diagnostics: ${diagnostics.length}`);
+    }
 
-    // Send diagnostics to client
-    connection.sendDiagnostics({ uri, diagnostics });
-    logInfo(`Validated document: ${uri}, diagnostics: ${diagnostics.length}`);
+    // The dependents were analyzed against the old interface, whichever version this is
+    await revalidateDependents(dependents);
   } catch (error: any) {
     // Log error
     logError(`Error validating ${textDocument.uri}`, { error: error.message, stack: error.stack });
 
-    // Send parse error as diagnostic
+    // Syntax errors are reported per token above; anything reaching here is an
+    // unexpected failure, so report it at the top of the file
     const diagnostic: Diagnostic = {
       severity: 1, // Error
       range: {
         start: { line: 0, character: 0 },
         end: { line: 0, character: 1 },
       },
-      message: `Parse error: ${error.message}`,
+      message: `Validation failed: ${error.message}`,
       source: 'modsim-lsp',
     };
 
@@ -358,6 +455,48 @@ async function validateTextDocument(textDocument: TextDocument): Promise<void> {
   }
 }
 
+/**
+ * Push the diagnostics of every closed document in the workspace, for clients that don't pull them
+ */
+function publishWorkspaceDiagnostics(): void {
+  if (hasPullDiagnosticsCapability) {
+    return;
+  }
+
+  for (const doc of workspaceManager.getAllDocuments()) {
+    if (!documents.get(doc.uri)) {
+      connection.sendDiagnostics({ uri: doc.uri, diagnostics: toLspDiagnostics(workspaceManager.getDiagnostics(doc.uri)) });
+    }
+  }
+}
+
+/**
+ * Re-analyze modules whose imports changed, in dependency order, and publish their diagnostics
+ * Open documents are validated again; closed ones are re-analyzed when their diagnostics are next needed.
+ */
+async function revalidateDependents(uris: string[]): Promise<void> {
+  for (const uri of uris) {
+    const document = documents.get(uri);
+    if (document && validationScheduler.isRunning(uri)) {
+      // Imports form a cycle back to a document whose validation is waiting on this one
+      validationScheduler.schedule(uri, document.version);
+    } else if (document) {
+      await validationScheduler.runNow(uri, document.version);
+    } else if (!hasPullDiagnosticsCapability) {
+      connection.sendDiagnostics({ uri, diagnostics: toLspDiagnostics(workspaceManager.getDiagnostics(uri)) });
+    }
+  }
+}
+
+/**
+ * Ask the client to pull diagnostics again, if it supports being asked
+ */
+function refreshDiagnostics(): void {
+  if (hasDiagnosticRefreshCapability) {
+    void connection.languages.diagnostics.refresh();
+  }
+}
+
 /**
  * Get document state
  */
@@ -368,16 +507,19 @@ function getDocumentState(uri: string): DocumentState | undefined {
 /**
  * Completion provider
  */
-connection.onCompletion((params: TextDocumentPositionParams): CompletionItem[] => {
+connection.onCompletion((params: TextDocumentPositionParams, token: CancellationToken): CompletionItem[] => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast || !state?.symbolTable) {
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
     return [];
   }
   return getCompletions(
     state.ast,
     state.symbolTable,
     params.position.line,
-    params.position.character
+    params.position.character,
+    params.textDocument.uri,
+    documents.get(params.textDocument.uri)?.getText(),
+    (reference) => workspaceManager.resolveImportedType(reference)
   );
 });
 
@@ -385,26 +527,35 @@ connection.onCompletion((params: TextDocumentPositionParams): CompletionItem[] =
  * Completion resolve
  */
 connection.onCompletionResolve((item: CompletionItem): CompletionItem => {
-  return resolveCompletionItem(item);
+  const data = item.data as SymbolCompletionData | undefined;
+  const state = data?.uri ? getDocumentState(data.uri) : undefined;
+  return resolveCompletionItem(item, state?.symbolTable);
 });
 
 /**
  * Document symbols provider
  */
-connection.onDocumentSymbol((params) => {
+connection.onDocumentSymbol((params, token) => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast) {
+  if (token.isCancellationRequested || !state?.ast) {
     return null;
   }
   return getDocumentSymbols(state.ast);
 });
 
+/**
+ * Workspace symbols provider
+ */
+connection.onWorkspaceSymbol((params, token) => {
+  return getWorkspaceSymbols(params.query, workspaceManager.getAllDocuments(), token);
+});
+
 /**
  * Hover provider
  */
-connection.onHover((params) => {
+connection.onHover((params, token) => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast || !state?.symbolTable) {
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
     return null;
   }
   return getHover(
@@ -419,9 +570,9 @@ connection.onHover((params) => {
 /**
  * Go-to-definition provider
  */
-connection.onDefinition((params) => {
+connection.onDefinition((params, token) => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast || !state?.symbolTable) {
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
     return null;
   }
   return getDefinition(
@@ -429,16 +580,123 @@ connection.onDefinition((params) => {
     state.symbolTable,
     params.position.line,
     params.position.character,
-    params.textDocument.uri
+    params.textDocument.uri,
+    workspaceManager
+  );
+});
+
+/**
+ * Go-to-declaration provider
+ */
+connection.onDeclaration((params, token) => {
+  const state = getDocumentState(params.textDocument.uri);
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
+    return null;
+  }
+  return getDeclaration(
+    state.ast,
+    state.symbolTable,
+    params.position.line,
+    params.position.character,
+    params.textDocument.uri,
+    workspaceManager
+  );
+});
+
+/**
+ * Go-to-implementation provider
+ */
+connection.onImplementation((params, token) => {
+  const state = getDocumentState(params.textDocument.uri);
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
+    return null;
+  }
+  return getImplementation(
+    state.ast,
+    state.symbolTable,
+    params.position.line,
+    params.position.character,
+    params.textDocument.uri,
+    workspaceManager
+  );
+});
+
+/**
+ * Call hierarchy provider
+ */
+connection.languages.callHierarchy.onPrepare((params, token) => {
+  const state = getDocumentState(params.textDocument.uri);
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
+    return null;
+  }
+  return prepareCallHierarchy(
+    state.ast,
+    state.symbolTable,
+    params.position.line,
+    params.position.character,
+    params.textDocument.uri,
+    workspaceManager
+  );
+});
+
+connection.languages.callHierarchy.onIncomingCalls((params, token) => {
+  return getIncomingCalls(params.item, workspaceManager, token);
+});
+
+connection.languages.callHierarchy.onOutgoingCalls((params, token) => {
+  return getOutgoingCalls(params.item, workspaceManager, token);
+});
+
+/**
+ * Type hierarchy provider
+ */
+connection.languages.typeHierarchy.onPrepare((params, token) => {
+  const state = getDocumentState(params.textDocument.uri);
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
+    return null;
+  }
+  return prepareTypeHierarchy(
+    state.ast,
+    state.symbolTable,
+    params.position.line,
+    params.position.character,
+    params.textDocument.uri,
+    workspaceManager
+  );
+});
+
+connection.languages.typeHierarchy.onSupertypes((params, token) => {
+  return getSupertypes(params.item, workspaceManager, token);
+});
+
+connection.languages.typeHierarchy.onSubtypes((params, token) => {
+  return getSubtypes(params.item, workspaceManager, token);
+});
+
+/**
+ * Inheritance graph of an object type (modsim/inheritanceGraph)
+ */
+connection.onRequest(InheritanceGraphRequest, (params, token) => {
+  const state = getDocumentState(params.textDocument.uri);
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
+    return null;
+  }
+  return getInheritanceGraph(
+    state.ast,
+    state.symbolTable,
+    params.position.line,
+    params.position.character,
+    params.textDocument.uri,
+    workspaceManager
   );
 });
 
 /**
  * Find references provider
  */
-connection.onReferences((params) => {
+connection.onReferences((params, token) => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast || !state?.symbolTable) {
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
     return null;
   }
   return findReferences(
@@ -448,16 +706,17 @@ connection.onReferences((params) => {
     params.position.character,
     params.textDocument.uri,
     params.context.includeDeclaration,
-    workspaceManager
+    workspaceManager,
+    token
   );
 });
 
 /**
  * Signature help provider
  */
-connection.onSignatureHelp((params) => {
+connection.onSignatureHelp((params, token) => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast || !state?.symbolTable) {
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
     return null;
   }
   return getSignatureHelp(
@@ -468,12 +727,48 @@ connection.onSignatureHelp((params) => {
   );
 });
 
+/**
+ * Inlay hints provider
+ */
+connection.languages.inlayHint.on((params, token) => {
+  const state = getDocumentState(params.textDocument.uri);
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
+    return [];
+  }
+
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return [];
+  }
+
+  return getInlayHints(
+    state.ast,
+    state.symbolTable,
+    params.range,
+    document.getText(),
+    params.textDocument.uri,
+    workspaceManager
+  );
+});
+
+/**
+ * Code lens provider
+ */
+connection.onCodeLens((params, token) => {
+  const state = getDocumentState(params.textDocument.uri);
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
+    return [];
+  }
+  return getCodeLenses(
+    state.ast, state.symbolTable, params.textDocument.uri, workspaceManager, token, referenceIndexCache);
+});
+
 /**
  * Code action provider
  */
-connection.onCodeAction((params) => {
+connection.onCodeAction((params, token) => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast || !state?.symbolTable) {
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
     return [];
   }
 
@@ -495,9 +790,9 @@ connection.onCodeAction((params) => {
 /**
  * Prepare rename provider
  */
-connection.onPrepareRename((params) => {
+connection.onPrepareRename((params, token) => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast || !state?.symbolTable) {
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
     return null;
   }
 
@@ -505,16 +800,18 @@ connection.onPrepareRename((params) => {
     state.ast,
     state.symbolTable,
     params.position.line,
-    params.position.character
+    params.position.character,
+    params.textDocument.uri,
+    workspaceManager
   );
 });
 
 /**
  * Rename provider
  */
-connection.onRenameRequest((params) => {
+connection.onRenameRequest((params, token) => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast || !state?.symbolTable) {
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
     return null;
   }
 
@@ -525,16 +822,20 @@ connection.onRenameRequest((params) => {
     params.position.character,
     params.newName,
     params.textDocument.uri,
-    workspaceManager
+    workspaceManager,
+    {
+      renameFiles: hasRenameFileCapability,
+      getOpenVersion: (uri) => documents.get(uri)?.version,
+    }
   );
 });
 
 /**
  * Document highlight provider
  */
-connection.onDocumentHighlight((params) => {
+connection.onDocumentHighlight((params, token) => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast || !state?.symbolTable) {
+  if (token.isCancellationRequested || !state?.ast || !state?.symbolTable) {
     return null;
   }
 
@@ -551,21 +852,118 @@ connection.onDocumentHighlight((params) => {
 /**
  * Folding ranges provider
  */
-connection.onFoldingRanges((params) => {
+connection.onFoldingRanges((params, token) => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast) {
+  if (token.isCancellationRequested || !state?.ast) {
     return null;
   }
 
   return getFoldingRanges(state.ast);
 });
 
+/**
+ * Document diagnostics provider (pull model)
+ */
+connection.languages.diagnostics.on(async (params): Promise<DocumentDiagnosticReport> => {
+  const uri = params.textDocument.uri;
+  const document = documents.get(uri);
+  if (!document) {
+    const diagnostics = toLspDiagnostics(workspaceManager.getDiagnostics(uri));
+    return getDocumentDiagnosticReport(diagnostics, params.previousResultId);
+  }
+
+  // Validate now rather than after the debounce, so the report is for the current version
+  if (documentStates.get(uri)?.version !== document.version) {
+    await validationScheduler.runNow(uri, document.version);
+  }
+  return getDocumentDiagnosticReport(documentStates.get(uri)?.diagnostics ?? [], params.previousResultId);
+});
+
+/**
+ * Workspace diagnostics provider (pull model), covering closed files as well as open ones
+ */
+connection.languages.diagnostics.onWorkspace((params, token): WorkspaceDiagnosticReport => {
+  const openDocuments = new Map<string, OpenDocumentDiagnostics>();
+  for (const [uri, state] of documentStates) {
+    openDocuments.set(uri, { version: state.version, diagnostics: state.diagnostics });
+  }
+
+  return getWorkspaceDiagnosticReport(workspaceManager, openDocuments, params.previousResultIds, token);
+});
+
+/**
+ * Get the formatter settings for a document from the `modsim.format` section
+ */
+async function getFormatSettings(uri: string): Promise<FormatSettings> {
+  if (!hasConfigurationCapability) {
+    return DEFAULT_FORMAT_SETTINGS;
+  }
+
+  const settings = await connection.workspace.getConfiguration({ scopeUri: uri, section: 'modsim.format' });
+  return { ...DEFAULT_FORMAT_SETTINGS, ...settings };
+}
+
+/**
+ * Document formatting provider
+ */
+connection.onDocumentFormatting(async (params, token) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return null;
+  }
+
+  const settings = await getFormatSettings(document.uri);
+  if (token.isCancellationRequested) {
+    return null;
+  }
+
+  return formatDocument(document.getText(), params.options, settings);
+});
+
+/**
+ * Range formatting provider
+ */
+connection.onDocumentRangeFormatting(async (params, token) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return null;
+  }
+
+  const settings = await getFormatSettings(document.uri);
+  if (token.isCancellationRequested) {
+    return null;
+  }
+
+  return formatRange(document.getText(), params.range, params.options, settings);
+});
+
+/**
+ * On-type formatting provider
+ */
+connection.onDocumentOnTypeFormatting(async (params, token) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return null;
+  }
+
+  const settings = await getFormatSettings(document.uri);
+  if (token.isCancellationRequested) {
+    return null;
+  }
+
+  // Validation is debounced, so the cached state may lag behind typing; bringing it up to
+  // date only reparses and analyzes what changed
+  const cached = getDocumentState(document.uri);
+  const { ast } = cached?.parseResult?.text === document.getText() ? cached : updateDocumentState(document);
+  return getOnTypeFormatting(document.getText(), ast, params.position, params.ch, params.options, settings);
+});
+
 /**
  * Semantic tokens provider
  */
-connection.languages.semanticTokens.on((params) => {
+connection.languages.semanticTokens.on((params, token) => {
   const state = getDocumentState(params.textDocument.uri);
-  if (!state?.ast) {
+  if (token.isCancellationRequested || !state?.ast) {
     return { data: [] };
   }
   return { data: getSemanticTokens(state.ast) };
@@ -576,6 +974,7 @@ connection.languages.semanticTokens.on((params) => {
  */
 connection.onShutdown(() => {
   connection.console.log('Server shutting down');
+  validationScheduler.dispose();
 });
 
 /**
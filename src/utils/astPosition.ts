@@ -55,8 +55,8 @@ export function findNodeAtPosition(ast: ASTNode, position: Position): ASTNode |
     const childMatch = findNodeAtPosition(child, position);
     if (childMatch) {
       const childSize = getNodeSize(childMatch);
-      // Prefer smaller (more specific) nodes
-      if (childSize < bestMatchSize) {
+      // Prefer smaller (more specific) nodes, and children over parents of the same size
+      if (childSize <= bestMatchSize) {
         bestMatch = childMatch;
         bestMatchSize = childSize;
       }
@@ -93,6 +93,9 @@ function getNodeChildren(node: ASTNode): ASTNode[] {
       if ('declarations' in node && Array.isArray(node.declarations)) {
         children.push(...node.declarations);
       }
+      if ('mainBody' in node && Array.isArray(node.mainBody)) {
+        children.push(...node.mainBody);
+      }
       break;
 
     case 'TypeDeclaration':
@@ -120,6 +123,10 @@ function getNodeChildren(node: ASTNode): ASTNode[] {
       if ('methods' in node && Array.isArray(node.methods)) {
         children.push(...node.methods);
       }
+      if ('privateSection' in node && node.privateSection) {
+        const privateSection = node.privateSection as { fields: ASTNode[]; methods: ASTNode[] };
+        children.push(...privateSection.fields, ...privateSection.methods);
+      }
       break;
 
     case 'ProcedureDeclaration':
@@ -285,3 +292,16 @@ export function getNodeRange(node: ASTNode): {
     },
   };
 }
+
+/**
+ * Convert the source range of a node (1-based) to an LSP range (0-based)
+ */
+export function toRange(node: {
+  start: { line: number; column: number };
+  end: { line: number; column: number };
+}): { start: Position; end: Position } {
+  return {
+    start: { line: node.start.line - 1, character: node.start.column - 1 },
+    end: { line: node.end.line - 1, character: node.end.column - 1 },
+  };
+}
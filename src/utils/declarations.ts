@@ -0,0 +1,267 @@
+/**
+ * Declaration Resolution
+ * Utilities for finding where a module-level name or object member is declared,
+ * following imports into other workspace modules
+ */
+
+import { Location } from 'vscode-languageserver/node';
+import type {
+  Module,
+  ASTNode,
+  Declaration,
+  Expression,
+  MethodDeclaration,
+  VarDeclaration,
+} from '../language/ast';
+import { SymbolTable } from '../language/symbols';
+import type { WorkspaceManager } from './workspace';
+import { findNodeAtPosition, isPositionInRange, Position } from './astPosition';
+
+/**
+ * A parsed and analyzed module together with the file it was read from
+ */
+export interface ModuleContext {
+  uri: string;
+  ast: Module;
+  symbolTable: SymbolTable;
+}
+
+/**
+ * A declaration and the module that declares it
+ */
+export interface ResolvedDeclaration {
+  context: ModuleContext;
+  declaration: Declaration;
+}
+
+/**
+ * A field or method and the object or record type that declares it
+ */
+export interface ResolvedMember {
+  context: ModuleContext;
+  typeName: string;
+  member: MethodDeclaration | VarDeclaration;
+}
+
+/**
+ * Find the module-level declaration of a name, following imports into other modules
+ */
+export function resolveDeclaration(
+  context: ModuleContext,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined,
+  visited = new Set<string>()
+): ResolvedDeclaration | undefined {
+  if (visited.has(context.uri)) {
+    return undefined;
+  }
+  visited.add(context.uri);
+
+  const declaration = findTopLevelDeclaration(context.ast, name);
+  if (declaration) {
+    return { context, declaration };
+  }
+  if (!workspaceManager) {
+    return undefined;
+  }
+
+  for (const importStmt of context.ast.imports) {
+    const imported = importStmt.symbols.find(symbol => (symbol.alias ?? symbol.name) === name);
+    if (imported) {
+      const moduleContext = getModuleContext(workspaceManager, importStmt.moduleName);
+      return moduleContext && resolveDeclaration(moduleContext, imported.name, workspaceManager, visited);
+    }
+  }
+
+  // An IMPLEMENTATION module sees everything its DEFINITION module declares
+  if (context.ast.kind === 'IMPLEMENTATION') {
+    const definition = getModuleContext(workspaceManager, context.ast.name, 'DEFINITION');
+    return definition && resolveDeclaration(definition, name, workspaceManager, visited);
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the declaration of a field or method of an object type, or a field of a record type
+ * Base types are searched in order, including those declared in other modules.
+ */
+export function resolveMember(
+  context: ModuleContext,
+  typeName: string,
+  member: string,
+  workspaceManager: WorkspaceManager | undefined,
+  visited = new Set<string>()
+): ResolvedMember | undefined {
+  const resolved = resolveDeclaration(context, typeName, workspaceManager);
+  if (!resolved || resolved.declaration.type !== 'TypeDeclaration') {
+    return undefined;
+  }
+
+  // Guard against inheritance cycles
+  const key = `${resolved.context.uri}#${typeName}`;
+  if (visited.has(key)) {
+    return undefined;
+  }
+  visited.add(key);
+
+  const typeSpec = resolved.declaration.typeSpec;
+  if (typeSpec.type === 'RecordType') {
+    const field = typeSpec.fields.find(f => f.names.includes(member));
+    return field && { context: resolved.context, typeName, member: field };
+  }
+  if (typeSpec.type !== 'ObjectType') {
+    return undefined;
+  }
+
+  const declared = typeSpec.methods.find(m => m.name === member)
+    ?? typeSpec.fields.find(f => f.names.includes(member));
+  if (declared) {
+    return { context: resolved.context, typeName, member: declared };
+  }
+
+  for (const baseType of typeSpec.baseTypes ?? []) {
+    const inherited = resolveMember(resolved.context, baseType, member, workspaceManager, visited);
+    if (inherited) {
+      return inherited;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find a name declared at the top level of a module
+ * OBJECT blocks are not declarations: they implement a type declared elsewhere.
+ */
+export function findTopLevelDeclaration(ast: Module, name: string): Declaration | undefined {
+  return ast.declarations.find(decl => declaresName(decl, name));
+}
+
+/**
+ * Whether a declaration declares a name
+ */
+export function declaresName(decl: Declaration, name: string): boolean {
+  switch (decl.type) {
+    case 'TypeDeclaration':
+    case 'ConstDeclaration':
+    case 'ProcedureDeclaration':
+      return decl.name === name;
+    case 'VarDeclaration':
+      return decl.names.includes(name);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get the analyzed module a workspace module name refers to
+ * Without a kind the DEFINITION module is preferred, as in WorkspaceManager.resolveModule.
+ */
+export function getModuleContext(
+  workspaceManager: WorkspaceManager,
+  moduleName: string,
+  kind?: Module['kind']
+): ModuleContext | undefined {
+  const uri = workspaceManager.resolveModule(moduleName, kind);
+  const doc = uri ? workspaceManager.getDocument(uri) : undefined;
+  if (!doc?.ast || !doc.symbolTable) {
+    return undefined;
+  }
+  return { uri: doc.uri, ast: doc.ast, symbolTable: doc.symbolTable };
+}
+
+/**
+ * Whether a name refers to a module rather than a value, as in `Module.Symbol`
+ */
+export function isModuleReference(context: ModuleContext, name: string): boolean {
+  return context.ast.imports.some(importStmt => importStmt.moduleName === name)
+    || !context.symbolTable.lookupGlobal(name);
+}
+
+/**
+ * Get the name of the OBJECT block containing a position
+ */
+export function findEnclosingObject(ast: Module, position: Position): string | undefined {
+  const objectDecl = ast.declarations.find(
+    decl => decl.type === 'ObjectDeclaration' && isPositionInRange(position, decl.start, decl.end)
+  );
+  return objectDecl?.type === 'ObjectDeclaration' ? objectDecl.name : undefined;
+}
+
+/**
+ * Find the method name of an ASK/TELL statement at a position
+ * The statement keeps the name as a string, so the cursor must be between the
+ * receiver and the argument list.
+ */
+export function findStatementMethod(
+  ast: Module,
+  position: Position
+): { object: Expression; method: string } | undefined {
+  const node = findNodeAtPosition(ast, position);
+  if (!node || (node.type !== 'AskStatement' && node.type !== 'TellStatement')) {
+    return undefined;
+  }
+
+  const { object, method, arguments: args } = node as ASTNode & { object: Expression; method: string; arguments: Expression[] };
+  const afterObject = position.line === object.end.line - 1 && position.character >= object.end.column - 1;
+  const beforeArguments = args.length === 0 || position.line < args[0].start.line - 1
+    || (position.line === args[0].start.line - 1 && position.character < args[0].start.column - 1);
+
+  return afterObject && beforeArguments ? { object, method } : undefined;
+}
+
+/**
+ * Every analyzed module of the workspace, with the current document's own analysis if given
+ */
+export function getWorkspaceContexts(workspaceManager?: WorkspaceManager, current?: ModuleContext): ModuleContext[] {
+  const contexts = new Map<string, ModuleContext>();
+  for (const doc of workspaceManager?.getAllDocuments() ?? []) {
+    if (doc.ast && doc.symbolTable) {
+      contexts.set(doc.uri, { uri: doc.uri, ast: doc.ast, symbolTable: doc.symbolTable });
+    }
+  }
+  if (current) {
+    contexts.set(current.uri, current);
+  }
+  return Array.from(contexts.values());
+}
+
+/**
+ * Location of the name a declaration, member or module introduces
+ * Declarations start at their section keyword or parameter mode, so the name is found
+ * through the name starts the parser records.
+ */
+export function toNameLocation(uri: string, node: ASTNode, name: string): Location {
+  type Start = { line: number; column: number };
+  const named = node as ASTNode & {
+    nameStart?: Start;
+    names?: string[];
+    nameStarts?: Start[];
+    values?: string[];
+    valueStarts?: Start[];
+  };
+  const start = named.names ? named.nameStarts?.[named.names.indexOf(name)]
+    : named.values ? named.valueStarts?.[named.values.indexOf(name)]
+    : named.nameStart;
+  return toDeclarationLocation(uri, start ?? node.start, name);
+}
+
+/**
+ * Location of a declaration, spanning the length of its name
+ */
+export function toDeclarationLocation(uri: string, declaration: { line: number; column: number }, name: string): Location {
+  return {
+    uri,
+    range: {
+      start: {
+        line: declaration.line - 1, // Convert to 0-based
+        character: declaration.column - 1,
+      },
+      end: {
+        line: declaration.line - 1,
+        character: declaration.column - 1 + name.length,
+      },
+    },
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Name Occurrences
+ * Every place a module or symbol name is written in a module, with its exact range
+ */
+
+import { Range } from 'vscode-languageserver/node';
+import type { Module, ASTNode, Expression, Position } from '../language/ast';
+
+/**
+ * How a name is written, which decides where it is looked up
+ * - module: a module name in a module header, import clause or `Module.Symbol`
+ * - declaration: the name a declaration introduces, with the object type declaring it for members
+ * - qualified: a symbol of another module, in its import clause or as `Module.Symbol`
+ * - reference: a name looked up through the scopes at its position
+ * - member: a field or method of a receiver, as `receiver.field` or `ASK receiver TO Method`
+ */
+export type OccurrenceSite =
+  | { kind: 'module' }
+  | { kind: 'declaration'; node: ASTNode; container?: string }
+  | { kind: 'qualified'; moduleName: string }
+  | { kind: 'reference'; isType?: boolean }
+  | { kind: 'member'; receiver: Expression };
+
+/**
+ * A name as written in the source
+ */
+export interface NameOccurrence {
+  name: string;
+  range: Range;
+  site: OccurrenceSite;
+}
+
+/**
+ * Collect the name occurrences of a module
+ */
+export function collectNameOccurrences(ast: Module): NameOccurrence[] {
+  const occurrences: NameOccurrence[] = [];
+  const moduleNames = new Set(ast.imports.map(importStmt => importStmt.moduleName));
+  const containers = new Map<ASTNode, string>(); // Members by the object type declaring them
+
+  const add = (name: string, start: Position | undefined, site: OccurrenceSite) => {
+    if (start) {
+      occurrences.push({ name, range: toRange(start, name), site });
+    }
+  };
+  const addAll = (names: string[] | undefined, starts: Position[] | undefined, site: OccurrenceSite) => {
+    names?.forEach((name, i) => add(name, starts?.[i], site));
+  };
+  const addMembers = (container: string, ...members: ASTNode[][]) => {
+    members.flat().forEach(member => containers.set(member, container));
+  };
+
+  add(ast.name, ast.nameStart, { kind: 'module' });
+  for (const importStmt of ast.imports) {
+    add(importStmt.moduleName, importStmt.moduleNameStart, { kind: 'module' });
+    addAll(importStmt.symbols.map(symbol => symbol.name), importStmt.symbolStarts,
+      { kind: 'qualified', moduleName: importStmt.moduleName });
+  }
+
+  const visited = new Set<object>();
+  const visit = (value: unknown): void => {
+    if (!value || typeof value !== 'object' || visited.has(value)) {
+      return;
+    }
+    visited.add(value);
+
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+
+    const node = value as ASTNode & Record<string, any>;
+    const declaration: OccurrenceSite = { kind: 'declaration', node, container: containers.get(node) };
+    switch (node.type) {
+      case 'TypeDeclaration':
+        if (node.typeSpec.type === 'ObjectType') {
+          addMembers(node.name, node.typeSpec.fields, node.typeSpec.methods);
+        }
+        add(node.name, node.nameStart, declaration);
+        break;
+      case 'ConstDeclaration':
+      case 'ProcedureDeclaration':
+      case 'MethodDeclaration':
+      case 'Parameter':
+        add(node.name, node.nameStart, declaration);
+        break;
+      case 'ObjectDeclaration':
+        addMembers(node.name, node.fields, node.methods,
+          node.privateSection?.fields ?? [], node.privateSection?.methods ?? []);
+        add(node.name, node.nameStart, declaration);
+        addAll(node.baseTypes, node.baseTypeStarts, { kind: 'reference', isType: true });
+        break;
+      case 'ObjectType':
+        addAll(node.baseTypes, node.baseTypeStarts, { kind: 'reference', isType: true });
+        break;
+      case 'VarDeclaration':
+        addAll(node.names, node.nameStarts, declaration);
+        break;
+      case 'EnumType':
+        addAll(node.values, node.valueStarts, declaration);
+        break;
+      case 'ForStatement':
+      case 'ForeachStatement':
+        add(node.variable, node.variableStart, { kind: 'reference' });
+        break;
+      case 'AskStatement':
+      case 'TellStatement':
+        add(node.method, node.methodStart, { kind: 'member', receiver: node.object });
+        break;
+      case 'IdentifierExpression':
+        add(node.name, node.start, { kind: 'reference' });
+        break;
+      case 'SimpleType':
+        // A # prefix marks a replaceable type, so the name is taken from the end
+        add(node.name, startOfNameEndingAt(node.end, node.name), { kind: 'reference', isType: true });
+        break;
+      case 'FieldAccessExpression': {
+        const { object } = node;
+        const fieldStart = startOfNameEndingAt(node.end, node.field);
+        if (object.type === 'IdentifierExpression' && moduleNames.has(object.name)) {
+          add(object.name, object.start, { kind: 'module' });
+          add(node.field, fieldStart, { kind: 'qualified', moduleName: object.name });
+          visited.add(object);
+        } else {
+          add(node.field, fieldStart, { kind: 'member', receiver: object });
+        }
+        break;
+      }
+    }
+
+    Object.values(node).forEach(visit);
+  };
+
+  visit(ast.declarations);
+  visit(ast.mainBody);
+
+  return occurrences;
+}
+
+/**
+ * Find the occurrence containing an LSP position
+ */
+export function findOccurrenceAt(
+  occurrences: NameOccurrence[],
+  line: number,
+  character: number
+): NameOccurrence | undefined {
+  return occurrences.find(({ range }) =>
+    range.start.line === line && range.start.character <= character && character <= range.end.character
+  );
+}
+
+/**
+ * Convert the start of a name to an LSP Range spanning it (LSP is 0-based)
+ */
+function toRange(start: Position, name: string): Range {
+  return {
+    start: { line: start.line - 1, character: start.column - 1 },
+    end: { line: start.line - 1, character: start.column - 1 + name.length },
+  };
+}
+
+function startOfNameEndingAt(end: Position, name: string): Position {
+  return { line: end.line, column: end.column - name.length, offset: end.offset - name.length };
+}
@@ -0,0 +1,575 @@
+/**
+ * Symbol Binding
+ * Binds the name occurrences of a module to the declarations they refer to, following
+ * the scope chain of the symbol table at each occurrence
+ */
+
+import { CancellationToken } from 'vscode-languageserver/node';
+import type {
+  ASTNode,
+  Expression,
+  FieldAccessExpression,
+  MethodDeclaration,
+  ProcedureDeclaration,
+  WithStatement,
+} from '../language/ast';
+import { Scope, ScopeKind } from '../language/symbols';
+import { Type, TypeKind, ObjectType } from '../language/types';
+import type { WorkspaceManager } from './workspace';
+import {
+  ModuleContext,
+  ResolvedDeclaration,
+  ResolvedMember,
+  resolveDeclaration,
+  resolveMember,
+  findTopLevelDeclaration,
+  findEnclosingObject,
+  findStatementMethod,
+  declaresName,
+  getModuleContext,
+  getWorkspaceContexts,
+  isModuleReference,
+} from './declarations';
+import { NameOccurrence, collectNameOccurrences } from './nameOccurrences';
+import { findIdentifierAtPosition, findNodeAtPosition, isPositionInRange, Position } from './astPosition';
+
+/**
+ * The declaration a name is bound to: the node declaring it and the module of that node
+ * Enum values are bound to their enumeration type, VAR names to their VAR declaration.
+ */
+export interface Binding {
+  context: ModuleContext;
+  node: ASTNode;
+  name: string;
+}
+
+/**
+ * An occurrence of a name and the module it is written in
+ */
+export interface BoundOccurrence {
+  context: ModuleContext;
+  occurrence: NameOccurrence;
+}
+
+/**
+ * What the cursor refers to: a module-level declaration or an object member
+ */
+export type DeclarationTarget =
+  | { kind: 'declaration'; resolved: ResolvedDeclaration; name: string }
+  | { kind: 'member'; resolved: ResolvedMember; name: string };
+
+/**
+ * Get a key identifying a binding across analyses of the same source
+ */
+export function getBindingKey(binding: Binding): string {
+  return `${binding.context.uri}#${binding.node.start.offset}#${binding.name}`;
+}
+
+/**
+ * Bind a symbol occurrence to its declaration
+ * Module occurrences are not bound: module names are global to the workspace.
+ */
+export function bindOccurrence(
+  context: ModuleContext,
+  occurrence: NameOccurrence,
+  workspaceManager: WorkspaceManager | undefined
+): Binding | undefined {
+  const { name, site, range } = occurrence;
+  const position = { line: range.start.line + 1, column: range.start.character + 1 };
+
+  switch (site.kind) {
+    case 'declaration':
+      return bindDeclaration(context, site.node, name, site.container, workspaceManager);
+    case 'qualified': {
+      const moduleContext = workspaceManager && getModuleContext(workspaceManager, site.moduleName);
+      return moduleContext && bindModuleName(moduleContext, name, workspaceManager);
+    }
+    case 'reference':
+      return bindReference(context, name, position, workspaceManager, site.isType);
+    case 'member':
+      return bindMember(context, site.receiver, name, workspaceManager);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Find every occurrence across the workspace bound to the same declaration as a binding
+ */
+export function findBoundOccurrences(
+  current: ModuleContext,
+  target: Binding,
+  workspaceManager: WorkspaceManager | undefined,
+  token?: CancellationToken,
+  currentOccurrences = collectNameOccurrences(current.ast)
+): BoundOccurrence[] {
+  const key = getBindingKey(target);
+  const found: BoundOccurrence[] = [];
+
+  for (const context of getWorkspaceContexts(workspaceManager, current)) {
+    if (token?.isCancellationRequested) {
+      return [];
+    }
+
+    const occurrences = context === current ? currentOccurrences : collectNameOccurrences(context.ast);
+    for (const occurrence of occurrences) {
+      if (occurrence.name !== target.name || occurrence.site.kind === 'module') {
+        continue;
+      }
+      const binding = bindOccurrence(context, occurrence, workspaceManager);
+      if (binding && getBindingKey(binding) === key) {
+        found.push({ context, occurrence });
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Bind a name written at a position through the scopes enclosing it
+ */
+export function bindReference(
+  context: ModuleContext,
+  name: string,
+  position: { line: number; column: number },
+  workspaceManager: WorkspaceManager | undefined,
+  isType = false
+): Binding | undefined {
+  return bindName(context, name, context.symbolTable.findScopeAt(position), workspaceManager, isType);
+}
+
+/**
+ * Get the type the analyzer gave the name a binding declares, from the module declaring it
+ * Object fields are typed by their object type; other names by the scope of their declaration.
+ */
+export function getBoundType(binding: Binding): Type | undefined {
+  const { context, node, name } = binding;
+  const ownerName = findFieldOwner(context, node);
+  if (ownerName) {
+    const ownerType = context.symbolTable.lookupGlobal(ownerName)?.type;
+    if (ownerType?.kind !== TypeKind.OBJECT) {
+      return undefined;
+    }
+    const { fields, privateFields } = ownerType as ObjectType;
+    return (fields.get(name) ?? privateFields?.get(name))?.type;
+  }
+
+  return context.symbolTable.findScopeAt(node.start).lookup(name)?.type;
+}
+
+/**
+ * Find a field or method of the object an ASK/TELL receiver or field access object refers to
+ * The receiver is bound through the scope it is written in, so same-named variables of other
+ * routines don't decide its type.
+ */
+export function resolveReceiverMember(
+  context: ModuleContext,
+  receiver: Expression,
+  member: string,
+  workspaceManager: WorkspaceManager | undefined
+): ResolvedMember | undefined {
+  const scope = context.symbolTable.findScopeAt(receiver.start);
+  const receiverType = resolveReceiverType(context, receiver, workspaceManager, scope);
+  return receiverType && resolveObjectMember(receiverType.context, receiverType.typeName, member, workspaceManager);
+}
+
+/**
+ * Find the declaration or member the cursor is on
+ * Works on references as well as on the headers of declarations themselves.
+ */
+export function findTargetAtPosition(
+  context: ModuleContext,
+  position: Position,
+  workspaceManager?: WorkspaceManager
+): DeclarationTarget | undefined {
+  const identifierNode = findIdentifierAtPosition(context.ast, position);
+
+  if (identifierNode?.type === 'FieldAccessExpression') {
+    const { object, field } = identifierNode as FieldAccessExpression;
+    if (workspaceManager && object.type === 'IdentifierExpression' && isModuleReference(context, object.name)) {
+      const moduleContext = getModuleContext(workspaceManager, object.name);
+      return moduleContext && declarationTarget(resolveDeclaration(moduleContext, field, workspaceManager), field);
+    }
+    return memberTarget(resolveReceiverMember(context, object, field, workspaceManager), field);
+  }
+
+  if (identifierNode?.type === 'IdentifierExpression' && 'name' in identifierNode) {
+    const name = identifierNode.name as string;
+    return declarationTarget(resolveDeclaration(context, name, workspaceManager), name);
+  }
+
+  // Method names of ASK/TELL statements are not identifier nodes
+  const call = findStatementMethod(context.ast, position);
+  if (call) {
+    return memberTarget(resolveReceiverMember(context, call.object, call.method, workspaceManager), call.method);
+  }
+
+  // Headers of declarations, and type names in them
+  const node = findNodeAtPosition(context.ast, position);
+  switch (node?.type) {
+    case 'ProcedureDeclaration':
+    case 'ObjectDeclaration':
+    case 'TypeDeclaration':
+    case 'SimpleType': {
+      const name = (node as ASTNode & { name: string }).name;
+      return declarationTarget(resolveDeclaration(context, name, workspaceManager), name);
+    }
+    case 'MethodDeclaration': {
+      const method = node as MethodDeclaration;
+      const typeName = findEnclosingObject(context.ast, position) ?? findEnclosingType(context, position);
+      return typeName ? memberTarget(resolveMember(context, typeName, method.name, workspaceManager), method.name) : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Bind the name a declaration introduces
+ * Members bind to the declaration of their object type, overriding methods to the method they
+ * override, and module-level declarations of an IMPLEMENTATION module to its DEFINITION module.
+ */
+function bindDeclaration(
+  context: ModuleContext,
+  node: ASTNode,
+  name: string,
+  container: string | undefined,
+  workspaceManager: WorkspaceManager | undefined
+): Binding | undefined {
+  if (node.type === 'MethodDeclaration' && container) {
+    const resolved = resolveObjectMember(context, container, name, workspaceManager);
+    return resolved && toMemberBinding(findOverriddenRoot(resolved, name, workspaceManager), name);
+  }
+
+  if (node.type === 'ObjectDeclaration' || (context.ast.declarations as ASTNode[]).includes(node)) {
+    return bindModuleName(context, name, workspaceManager) ?? { context, node, name };
+  }
+
+  return { context, node, name };
+}
+
+/**
+ * Bind a name through a scope and the scopes enclosing it
+ * Procedure and method scopes hold parameters and locals, OBJECT scopes the members of the
+ * object being implemented and WITH scopes the fields of their record. Type names skip the
+ * latter two.
+ */
+function bindName(
+  context: ModuleContext,
+  name: string,
+  innermost: Scope,
+  workspaceManager: WorkspaceManager | undefined,
+  isType = false
+): Binding | undefined {
+  for (let scope: Scope | undefined = innermost; scope; scope = scope.parent) {
+    switch (scope.kind) {
+      case ScopeKind.MODULE:
+      case ScopeKind.GLOBAL:
+        return bindModuleName(context, name, workspaceManager);
+      case ScopeKind.OBJECT: {
+        const resolved = !isType ? resolveObjectMember(context, scope.name, name, workspaceManager) : undefined;
+        if (resolved) {
+          return toMemberBinding(findOverriddenRoot(resolved, name, workspaceManager), name);
+        }
+        break;
+      }
+      case ScopeKind.BLOCK: {
+        const resolved = !isType ? resolveWithField(context, scope, name, workspaceManager) : undefined;
+        if (resolved) {
+          return toMemberBinding(resolved, name);
+        }
+        break;
+      }
+      default:
+        if (scope.lookupLocal(name)) {
+          return bindLocal(context, scope, name);
+        }
+    }
+  }
+
+  return bindModuleName(context, name, workspaceManager);
+}
+
+/**
+ * Bind a parameter or local declaration of the procedure or method opening a scope
+ */
+function bindLocal(context: ModuleContext, scope: Scope, name: string): Binding | undefined {
+  const routine = findRoutines(context).find(r => r.start.offset === scope.start?.offset);
+  const node = routine?.parameters.find(param => param.name === name)
+    ?? routine?.localDeclarations?.find(decl => declaresName(decl, name))
+    ?? routine?.localDeclarations?.map(decl => decl.type === 'TypeDeclaration' ? decl.typeSpec : undefined)
+      .find(typeSpec => typeSpec?.type === 'EnumType' && typeSpec.values.includes(name));
+  return node && { context, node, name };
+}
+
+/**
+ * Bind a name declared at the top level of a module: a declaration, an enum value or an OBJECT block
+ * Declarations of an IMPLEMENTATION module bind to their DEFINITION module when it declares them.
+ */
+function bindModuleName(
+  context: ModuleContext,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined
+): Binding | undefined {
+  const resolved = resolveDeclaration(context, name, workspaceManager);
+  if (resolved) {
+    const { context: declaringContext, declaration } = toDefinition(resolved, name, workspaceManager);
+    return { context: declaringContext, node: declaration, name };
+  }
+
+  const enumType = findEnumValue(context, name, workspaceManager);
+  if (enumType) {
+    return enumType;
+  }
+
+  const objectDecl = context.ast.declarations.find(decl => decl.type === 'ObjectDeclaration' && decl.name === name);
+  return objectDecl && { context, node: objectDecl, name };
+}
+
+/**
+ * Bind the field or method of a receiver
+ * `SELF` is an instance of the enclosing OBJECT block; other receivers are bound first and
+ * their member is looked up in the type they are declared with.
+ */
+function bindMember(
+  context: ModuleContext,
+  receiver: Expression,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined,
+  scope = context.symbolTable.findScopeAt(receiver.start)
+): Binding | undefined {
+  const receiverType = resolveReceiverType(context, receiver, workspaceManager, scope);
+  const resolved = receiverType
+    && resolveObjectMember(receiverType.context, receiverType.typeName, name, workspaceManager);
+  return resolved && toMemberBinding(findOverriddenRoot(resolved, name, workspaceManager), name);
+}
+
+/**
+ * Get the type name of a receiver and the module it is declared in, looking it up from a scope
+ */
+function resolveReceiverType(
+  context: ModuleContext,
+  receiver: Expression,
+  workspaceManager: WorkspaceManager | undefined,
+  scope: Scope
+): { context: ModuleContext; typeName: string } | undefined {
+  let binding: Binding | undefined;
+  if (receiver.type === 'IdentifierExpression') {
+    if (receiver.name === 'SELF') {
+      const position = { line: receiver.start.line - 1, character: receiver.start.column - 1 };
+      const typeName = findEnclosingObject(context.ast, position);
+      return typeName ? { context, typeName } : undefined;
+    }
+    binding = bindName(context, receiver.name, scope, workspaceManager);
+  } else if (receiver.type === 'FieldAccessExpression') {
+    binding = bindMember(context, receiver.object, receiver.field, workspaceManager, scope);
+  }
+
+  // Variables, fields and parameters declared with a named type
+  const valueType = binding && (binding.node as ASTNode & { valueType?: ASTNode & { name?: string } }).valueType;
+  return valueType?.type === 'SimpleType' && valueType.name
+    ? { context: binding!.context, typeName: valueType.name }
+    : undefined;
+}
+
+/**
+ * Find a member of an object or record type, or of an OBJECT block implementing a type
+ * Members only declared in the OBJECT block, such as its PRIVATE section, are found there.
+ */
+function resolveObjectMember(
+  context: ModuleContext,
+  typeName: string,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined
+): ResolvedMember | undefined {
+  const resolved = resolveMember(context, typeName, name, workspaceManager);
+  if (resolved) {
+    return resolved;
+  }
+
+  for (const decl of context.ast.declarations) {
+    if (decl.type !== 'ObjectDeclaration' || decl.name !== typeName) {
+      continue;
+    }
+    const methods = [...decl.methods, ...(decl.privateSection?.methods ?? [])];
+    const fields = [...decl.fields, ...(decl.privateSection?.fields ?? [])];
+    const member = methods.find(m => m.name === name) ?? fields.find(f => f.names.includes(name));
+    if (member) {
+      return { context, typeName, member };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find a field of the record of the WITH statement opening a scope
+ */
+function resolveWithField(
+  context: ModuleContext,
+  scope: Scope,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined
+): ResolvedMember | undefined {
+  // The record is looked up outside the scope its fields open
+  const withStmt = findWithStatement(context, scope);
+  const recordType = withStmt && scope.parent
+    && resolveReceiverType(context, withStmt.record, workspaceManager, scope.parent);
+  return recordType && resolveMember(recordType.context, recordType.typeName, name, workspaceManager);
+}
+
+/**
+ * Follow an overriding method to the method it overrides, up to the one that introduces it
+ */
+function findOverriddenRoot(
+  resolved: ResolvedMember,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined,
+  visited = new Set<string>()
+): ResolvedMember {
+  const key = `${resolved.context.uri}#${resolved.typeName}`;
+  if (resolved.member.type !== 'MethodDeclaration' || visited.has(key)) {
+    return resolved;
+  }
+  visited.add(key);
+
+  const declared = resolveDeclaration(resolved.context, resolved.typeName, workspaceManager);
+  if (declared?.declaration.type !== 'TypeDeclaration' || declared.declaration.typeSpec.type !== 'ObjectType') {
+    return resolved;
+  }
+
+  for (const baseType of declared.declaration.typeSpec.baseTypes ?? []) {
+    const inherited = resolveMember(declared.context, baseType, name, workspaceManager);
+    if (inherited?.member.type === 'MethodDeclaration') {
+      return findOverriddenRoot(inherited, name, workspaceManager, visited);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Find the enumeration type declaring a value, in a module, the modules it imports and
+ * for an IMPLEMENTATION module its DEFINITION module
+ */
+function findEnumValue(
+  context: ModuleContext,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined
+): Binding | undefined {
+  const contexts: Array<ModuleContext | undefined> = [context];
+  if (workspaceManager) {
+    if (context.ast.kind === 'IMPLEMENTATION') {
+      contexts.push(getModuleContext(workspaceManager, context.ast.name, 'DEFINITION'));
+    }
+    for (const importStmt of context.ast.imports) {
+      contexts.push(getModuleContext(workspaceManager, importStmt.moduleName));
+    }
+  }
+
+  for (const candidate of contexts) {
+    for (const decl of candidate?.ast.declarations ?? []) {
+      if (decl.type === 'TypeDeclaration' && decl.typeSpec.type === 'EnumType' && decl.typeSpec.values.includes(name)) {
+        return { context: candidate!, node: decl.typeSpec, name };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Use the DEFINITION module's declaration of a name declared by an IMPLEMENTATION module
+ */
+function toDefinition(
+  resolved: ResolvedDeclaration,
+  name: string,
+  workspaceManager: WorkspaceManager | undefined
+): ResolvedDeclaration {
+  const { ast } = resolved.context;
+  const definition = workspaceManager && ast.kind === 'IMPLEMENTATION'
+    ? getModuleContext(workspaceManager, ast.name, 'DEFINITION')
+    : undefined;
+  const declaration = definition && findTopLevelDeclaration(definition.ast, name);
+  return declaration ? { context: definition!, declaration } : resolved;
+}
+
+function declarationTarget(resolved: ResolvedDeclaration | undefined, name: string): DeclarationTarget | undefined {
+  return resolved && { kind: 'declaration', resolved, name };
+}
+
+function memberTarget(resolved: ResolvedMember | undefined, name: string): DeclarationTarget | undefined {
+  return resolved && { kind: 'member', resolved, name };
+}
+
+/**
+ * Get the name of the object type or OBJECT block declaring a field
+ */
+function findFieldOwner(context: ModuleContext, node: ASTNode): string | undefined {
+  for (const decl of context.ast.declarations) {
+    if (decl.type === 'TypeDeclaration' && decl.typeSpec.type === 'ObjectType') {
+      if (decl.typeSpec.fields.some(field => field === node)) {
+        return decl.name;
+      }
+    } else if (decl.type === 'ObjectDeclaration') {
+      if ([...decl.fields, ...(decl.privateSection?.fields ?? [])].some(field => field === node)) {
+        return decl.name;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the name of the TYPE declaration containing a position
+ */
+function findEnclosingType(context: ModuleContext, position: Position): string | undefined {
+  const typeDecl = context.ast.declarations.find(
+    decl => decl.type === 'TypeDeclaration' && isPositionInRange(position, decl.start, decl.end)
+  );
+  return typeDecl?.type === 'TypeDeclaration' ? typeDecl.name : undefined;
+}
+
+function toMemberBinding(resolved: ResolvedMember, name: string): Binding {
+  return { context: resolved.context, node: resolved.member, name };
+}
+
+/**
+ * Every procedure and method implementation of a module
+ */
+function findRoutines(context: ModuleContext): Array<ProcedureDeclaration | MethodDeclaration> {
+  const routines: Array<ProcedureDeclaration | MethodDeclaration> = [];
+  for (const decl of context.ast.declarations) {
+    if (decl.type === 'ProcedureDeclaration') {
+      routines.push(decl);
+    } else if (decl.type === 'ObjectDeclaration') {
+      routines.push(...decl.methods, ...(decl.privateSection?.methods ?? []));
+    }
+  }
+  return routines;
+}
+
+/**
+ * Find the WITH statement opening a scope
+ */
+function findWithStatement(context: ModuleContext, scope: Scope): WithStatement | undefined {
+  let found: WithStatement | undefined;
+  const visit = (value: unknown): void => {
+    if (found || !value || typeof value !== 'object') {
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    const node = value as ASTNode;
+    if (node.type === 'WithStatement' && node.start.offset === scope.start?.offset) {
+      found = node as WithStatement;
+      return;
+    }
+    Object.values(node).forEach(visit);
+  };
+
+  visit(context.ast.declarations);
+  visit(context.ast.mainBody);
+  return found;
+}
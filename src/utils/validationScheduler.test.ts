@@ -0,0 +1,185 @@
+/**
+ * Unit tests for Validation Scheduler
+ */
+
+import { ValidationScheduler } from './validationScheduler';
+
+describe('ValidationScheduler', () => {
+  const uri = 'file:///test.mod';
+  let versions: Map<string, number>;
+  let validated: Array<{ uri: string; version: number | undefined }>;
+  let scheduler: ValidationScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    versions = new Map();
+    validated = [];
+    scheduler = new ValidationScheduler(
+      async (docUri) => {
+        validated.push({ uri: docUri, version: versions.get(docUri) });
+      },
+      (docUri) => versions.get(docUri),
+      100
+    );
+  });
+
+  afterEach(() => {
+    scheduler.dispose();
+    jest.useRealTimers();
+  });
+
+  function change(docUri: string, version: number): void {
+    versions.set(docUri, version);
+    scheduler.schedule(docUri, version);
+  }
+
+  it('should validate once after the delay', async () => {
+    change(uri, 1);
+    expect(validated).toEqual([]);
+    expect(scheduler.isPending(uri)).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(validated).toEqual([{ uri, version: 1 }]);
+    expect(scheduler.isPending(uri)).toBe(false);
+  });
+
+  it('should collapse rapid changes into a single run for the latest version', async () => {
+    for (let version = 1; version <= 20; version++) {
+      change(uri, version);
+      await jest.advanceTimersByTimeAsync(50);
+    }
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(validated).toEqual([{ uri, version: 20 }]);
+  });
+
+  it('should debounce each document separately', async () => {
+    const other = 'file:///other.mod';
+    change(uri, 1);
+    change(other, 1);
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(validated).toHaveLength(2);
+    expect(validated.map(v => v.uri).sort()).toEqual([other, uri].sort());
+  });
+
+  it('should drop a run whose version is no longer current', async () => {
+    versions.set(uri, 2);
+    await scheduler.runNow(uri, 1);
+
+    expect(validated).toEqual([]);
+  });
+
+  it('should drop a run for a closed document', async () => {
+    change(uri, 1);
+    versions.delete(uri);
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(validated).toEqual([]);
+  });
+
+  it('should not run after being cancelled', async () => {
+    change(uri, 1);
+    scheduler.cancel(uri);
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(validated).toEqual([]);
+  });
+
+  it('should validate immediately with runNow and clear a pending run', async () => {
+    change(uri, 1);
+    await scheduler.runNow(uri, 1);
+
+    expect(validated).toEqual([{ uri, version: 1 }]);
+    expect(scheduler.isPending(uri)).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(validated).toHaveLength(1);
+  });
+
+  it('should wait for an in-flight run and skip it if superseded meanwhile', async () => {
+    let release!: () => void;
+    const started: number[] = [];
+    scheduler = new ValidationScheduler(
+      async (docUri) => {
+        const version = versions.get(docUri)!;
+        started.push(version);
+        if (version === 1) {
+          await new Promise<void>(resolve => { release = resolve; });
+        }
+      },
+      (docUri) => versions.get(docUri),
+      100
+    );
+
+    versions.set(uri, 1);
+    const first = scheduler.runNow(uri, 1);
+    expect(started).toEqual([1]);
+
+    // Versions 2 and 3 arrive while version 1 is still being validated
+    versions.set(uri, 2);
+    const second = scheduler.runNow(uri, 2);
+    versions.set(uri, 3);
+    const third = scheduler.runNow(uri, 3);
+    expect(started).toEqual([1]);
+
+    release();
+    await Promise.all([first, second, third]);
+
+    expect(started).toEqual([1, 3]);
+  });
+
+  it('should validate one run at a time when several wait for the same in-flight run', async () => {
+    const releases: Array<() => void> = [];
+    let active = 0;
+    let maxActive = 0;
+    scheduler = new ValidationScheduler(
+      async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise<void>(resolve => releases.push(resolve));
+        active--;
+      },
+      (docUri) => versions.get(docUri),
+      100
+    );
+
+    versions.set(uri, 1);
+    const first = scheduler.runNow(uri, 1);
+
+    // Two runs for the current version, e.g. after a dependency changed, wait for the first
+    versions.set(uri, 2);
+    const second = scheduler.runNow(uri, 2);
+    const third = scheduler.runNow(uri, 2);
+
+    for (let i = 0; i < 3; i++) {
+      await jest.advanceTimersByTimeAsync(0);
+      releases.shift()?.();
+    }
+    await Promise.all([first, second, third]);
+
+    expect(maxActive).toBe(1);
+  });
+
+  it('should report a document as running until its validation finishes', async () => {
+    let release!: () => void;
+    scheduler = new ValidationScheduler(
+      () => new Promise<void>(resolve => { release = resolve; }),
+      (docUri) => versions.get(docUri),
+      100
+    );
+
+    versions.set(uri, 1);
+    const run = scheduler.runNow(uri, 1);
+    expect(scheduler.isRunning(uri)).toBe(true);
+
+    release();
+    await run;
+    expect(scheduler.isRunning(uri)).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Validation Scheduler
+ * Debounces document validation per document and drops work for versions
+ * that have already been superseded
+ */
+
+/**
+ * Schedules validation runs for documents
+ */
+export class ValidationScheduler {
+  private timers = new Map<string, NodeJS.Timeout>();
+  private running = new Map<string, Promise<void>>();
+
+  /**
+   * @param validate Validates the current version of a document
+   * @param getVersion Returns the current version of a document, or undefined once it is closed
+   * @param delay Debounce delay in milliseconds
+   */
+  constructor(
+    private readonly validate: (uri: string) => Promise<void>,
+    private readonly getVersion: (uri: string) => number | undefined,
+    private readonly delay: number = 300
+  ) {}
+
+  /**
+   * Schedule validation of a document version, replacing any pending run for the document
+   */
+  schedule(uri: string, version: number): void {
+    this.cancel(uri);
+
+    const timer = setTimeout(() => {
+      this.timers.delete(uri);
+      void this.run(uri, version);
+    }, this.delay);
+    this.timers.set(uri, timer);
+  }
+
+  /**
+   * Validate a document version right away, replacing any pending run for the document
+   */
+  async runNow(uri: string, version: number): Promise<void> {
+    this.cancel(uri);
+    await this.run(uri, version);
+  }
+
+  /**
+   * Cancel a pending run for a document
+   */
+  cancel(uri: string): void {
+    const timer = this.timers.get(uri);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(uri);
+    }
+  }
+
+  /**
+   * Cancel all pending runs
+   */
+  dispose(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Whether a document has a pending run
+   */
+  isPending(uri: string): boolean {
+    return this.timers.has(uri);
+  }
+
+  /**
+   * Whether a document is being validated
+   */
+  isRunning(uri: string): boolean {
+    return this.running.has(uri);
+  }
+
+  private async run(uri: string, version: number): Promise<void> {
+    // Drop the run if the document changed (a newer run is scheduled) or was closed
+    const validateIfCurrent = () => this.getVersion(uri) === version ? this.validate(uri) : undefined;
+
+    // Never validate the same document twice at once: each run follows the one before it
+    const previous = this.running.get(uri);
+    const run: Promise<void> = (previous
+      ? previous.then(validateIfCurrent, validateIfCurrent)
+      : Promise.resolve(validateIfCurrent())
+    ).finally(() => {
+      if (this.running.get(uri) === run) {
+        this.running.delete(uri);
+      }
+    });
+    this.running.set(uri, run);
+    await run;
+  }
+}
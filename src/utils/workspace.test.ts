@@ -3,6 +3,8 @@
  */
 
 import { WorkspaceManager } from './workspace';
+import { SemanticAnalyzer } from '../language/analyzer';
+import { parseDocument } from '../language/incremental';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -127,6 +129,24 @@ END MODULE.`;
       expect(doc?.version).toBe(2);
     });
 
+    it('should keep the analysis of a caller that already analyzed the content', async () => {
+      const uri = URI.file(path.join(testDir, 'Module1.mod')).toString();
+      const content = `DEFINITION MODULE Module1;
+TYPE Count = INTEGER;
+END MODULE.`;
+      const parsed = parseDocument(content);
+      const analyzer = new SemanticAnalyzer();
+      analyzer.analyze(parsed.ast);
+
+      const analyze = jest.spyOn(SemanticAnalyzer.prototype, 'analyze');
+      await workspaceManager.updateDocument(uri, content, 1, parsed, analyzer.getSymbolTable());
+      const analyzed = analyze.mock.calls.length;
+      analyze.mockRestore();
+
+      expect(analyzed).toBe(0);
+      expect(workspaceManager.getModuleSymbols('Module1')).toBe(analyzer.getSymbolTable());
+    });
+
     it('should handle parse errors gracefully', async () => {
       const uri = URI.file(path.join(testDir, 'Invalid.mod')).toString();
       const invalidContent = `DEFINITION MODULE Invalid
@@ -261,6 +281,296 @@ END MODULE.`
     });
   });
 
+  describe('Diagnostics', () => {
+    let module1File: string;
+    let module2File: string;
+
+    beforeEach(() => {
+      module1File = path.join(testDir, 'Module1.mod');
+      module2File = path.join(testDir, 'Module2.mod');
+      fs.writeFileSync(
+        module1File,
+        `DEFINITION MODULE Module1;
+TYPE Something = INTEGER;
+END MODULE.`
+      );
+      fs.writeFileSync(
+        module2File,
+        `DEFINITION MODULE Module2;
+FROM Module1 IMPORT Something, Missing;
+TYPE Other = Something;
+END MODULE.`
+      );
+    });
+
+    it('should report broken imports of files that were never opened', async () => {
+      await workspaceManager.initialize([testDir]);
+
+      const diagnostics = workspaceManager.getDiagnostics(URI.file(module2File).toString());
+      expect(diagnostics.map((d) => d.message)).toEqual(["Symbol 'Missing' not found in module 'Module1'"]);
+      expect(workspaceManager.getDiagnostics(URI.file(module1File).toString())).toEqual([]);
+    });
+
+    it('should report syntax errors of files that were never opened', async () => {
+      const invalidFile = path.join(testDir, 'Invalid.mod');
+      fs.writeFileSync(invalidFile, `DEFINITION MODULE Invalid;
+TYPE T = ;
+END MODULE.`);
+
+      await workspaceManager.initialize([testDir]);
+
+      const diagnostics = workspaceManager.getDiagnostics(URI.file(invalidFile).toString());
+      expect(diagnostics.length).toBeGreaterThan(0);
+      expect(diagnostics[0].source).toBe('modsim-parser');
+    });
+
+    it('should reanalyze importers when an imported module changes', async () => {
+      await workspaceManager.initialize([testDir]);
+      const module2Uri = URI.file(module2File).toString();
+      const cached = workspaceManager.getDiagnostics(module2Uri);
+      expect(workspaceManager.getDiagnostics(module2Uri)).toBe(cached);
+
+      await workspaceManager.updateDocument(URI.file(module1File).toString(), `DEFINITION MODULE Module1;
+TYPE Something = INTEGER;
+TYPE Missing = REAL;
+END MODULE.`, 1);
+
+      expect(workspaceManager.getDiagnostics(module2Uri)).toEqual([]);
+    });
+
+    it('should not reanalyze importers when an indexed file is opened unchanged', async () => {
+      await workspaceManager.initialize([testDir]);
+      const module2Uri = URI.file(module2File).toString();
+      const cached = workspaceManager.getDiagnostics(module2Uri);
+
+      const content = fs.readFileSync(module1File, 'utf-8');
+      expect(await workspaceManager.updateDocument(URI.file(module1File).toString(), content, 1)).toEqual([]);
+      expect(workspaceManager.getDiagnostics(module2Uri)).toBe(cached);
+    });
+
+    it('should reload a closed document from disk', async () => {
+      await workspaceManager.initialize([testDir]);
+      const module1Uri = URI.file(module1File).toString();
+
+      // Unsaved changes in the editor
+      await workspaceManager.updateDocument(module1Uri, `DEFINITION MODULE Module1;
+TYPE Renamed = INTEGER;
+END MODULE.`, 3);
+      await workspaceManager.reloadDocument(module1Uri);
+
+      expect(workspaceManager.getModuleSymbols('Module1')?.lookupGlobal('Something')).toBeDefined();
+
+      fs.unlinkSync(module1File);
+      await workspaceManager.reloadDocument(module1Uri);
+      expect(workspaceManager.getDocument(module1Uri)).toBeUndefined();
+    });
+
+    it('should not import an IMPLEMENTATION module into itself when it has no DEFINITION module', async () => {
+      await workspaceManager.updateDocument('file:///tools.mod', `IMPLEMENTATION MODULE Tools;
+VAR count : INTEGER;
+PROCEDURE Reset;
+BEGIN
+  count := 0;
+END PROCEDURE;
+END MODULE.`, 1);
+
+      expect(workspaceManager.getDiagnostics('file:///tools.mod')).toEqual([]);
+    });
+
+    it('should not report procedures an IMPLEMENTATION module implements from its DEFINITION module', async () => {
+      await workspaceManager.updateDocument('file:///tools.def', `DEFINITION MODULE Tools;
+PROCEDURE Reset;
+END MODULE.`, 1);
+      await workspaceManager.updateDocument('file:///tools.mod', `IMPLEMENTATION MODULE Tools;
+VAR count : INTEGER;
+PROCEDURE Reset;
+BEGIN
+  count := 0;
+END PROCEDURE;
+PROCEDURE Reset;
+BEGIN
+END PROCEDURE;
+END MODULE.`, 1);
+
+      expect(workspaceManager.getDiagnostics('file:///tools.mod').map((d) => d.message)).toEqual([
+        "Procedure 'Reset' is already defined",
+      ]);
+    });
+
+    it('should resolve members inherited from object types of other modules', async () => {
+      await workspaceManager.updateDocument('file:///parts.mod', `DEFINITION MODULE Parts;
+TYPE PartObj = OBJECT
+  failureRate : REAL;
+PRIVATE
+  serial : INTEGER;
+END OBJECT;
+END MODULE.`, 1);
+      await workspaceManager.updateDocument('file:///pumps.mod', `DEFINITION MODULE Pumps;
+FROM Parts IMPORT PartObj;
+TYPE PumpObj = OBJECT(PartObj)
+  flow : REAL;
+END OBJECT;
+END MODULE.`, 1);
+      await workspaceManager.updateDocument('file:///plant.mod', `MAIN MODULE Plant;
+FROM Pumps IMPORT PumpObj;
+VAR pump : PumpObj;
+VAR s : STRING;
+BEGIN
+  s := pump.failureRate;
+  s := pump.serial;
+  s := pump.pressure;
+END MODULE.`, 1);
+
+      expect(workspaceManager.getDiagnostics('file:///plant.mod').map((d) => d.message)).toEqual([
+        'Cannot assign REAL to STRING',
+        "'serial' is PRIVATE to PartObj and cannot be accessed here",
+        'Cannot assign INTEGER to STRING',
+        "No field 'pressure' on type PumpObj",
+      ]);
+    });
+
+    it('should check assignments of objects whose base types come from other modules', async () => {
+      await workspaceManager.updateDocument('file:///parts.mod', `DEFINITION MODULE Parts;
+TYPE
+  PartObj = OBJECT
+    failureRate : REAL;
+  END OBJECT;
+  ToolObj = OBJECT
+    size : INTEGER;
+  END OBJECT;
+END MODULE.`, 1);
+      await workspaceManager.updateDocument('file:///pumps.mod', `DEFINITION MODULE Pumps;
+FROM Parts IMPORT PartObj;
+TYPE PumpObj = OBJECT(PartObj)
+  flow : REAL;
+END OBJECT;
+END MODULE.`, 1);
+      await workspaceManager.updateDocument('file:///plant.mod', `MAIN MODULE Plant;
+FROM Parts IMPORT PartObj, ToolObj;
+FROM Pumps IMPORT PumpObj;
+VAR pump : PumpObj;
+VAR part : PartObj;
+VAR tool : ToolObj;
+BEGIN
+  part := pump;
+  tool := pump;
+END MODULE.`, 1);
+
+      expect(workspaceManager.getDiagnostics('file:///plant.mod').map((d) => d.message)).toEqual([
+        'Cannot assign OBJECT to OBJECT',
+      ]);
+    });
+
+    it('should report imports no declaration or statement uses', async () => {
+      await workspaceManager.updateDocument('file:///colors.mod', `DEFINITION MODULE Colors;
+TYPE Color = (Red, Green);
+TYPE Shade = INTEGER;
+PROCEDURE Mix;
+END MODULE.`, 1);
+      await workspaceManager.updateDocument('file:///paint.mod', `MAIN MODULE Paint;
+FROM Colors IMPORT Color, Shade, Mix;
+VAR ok : BOOLEAN;
+BEGIN
+  ok := Red = Green;
+  Mix;
+END MODULE.`, 1);
+
+      const [unused, ...rest] = workspaceManager.getDiagnostics('file:///paint.mod');
+      expect(rest).toEqual([]);
+      expect(unused).toMatchObject({
+        message: "'Shade' is imported from Colors but never used",
+        code: 'unused-import',
+        start: { line: 2, column: 27 },
+        end: { line: 2, column: 32 },
+      });
+    });
+  });
+
+  describe('Dependents', () => {
+    const base = `DEFINITION MODULE Base;
+TYPE Count = INTEGER;
+PROCEDURE Reset;
+END MODULE.`;
+
+    beforeEach(async () => {
+      await workspaceManager.updateDocument('file:///base.mod', base, 1);
+      await workspaceManager.updateDocument('file:///top.mod', `MAIN MODULE Top;
+FROM Mid IMPORT Total;
+FROM Base IMPORT Count;
+VAR c : Count;
+END MODULE.`, 1);
+      await workspaceManager.updateDocument('file:///mid.mod', `DEFINITION MODULE Mid;
+FROM Base IMPORT Count;
+VAR Total : Count;
+END MODULE.`, 1);
+      await workspaceManager.updateDocument('file:///baseImpl.mod', `IMPLEMENTATION MODULE Base;
+PROCEDURE Reset;
+VAR n : INTEGER;
+BEGIN
+  n := 0;
+END PROCEDURE;
+END MODULE.`, 1);
+    });
+
+    it('should return transitive dependents in dependency order when the interface changes', async () => {
+      const dependents = await workspaceManager.updateDocument('file:///base.mod', `DEFINITION MODULE Base;
+TYPE Count = REAL;
+PROCEDURE Reset;
+END MODULE.`, 2);
+
+      expect([...dependents].sort()).toEqual(['file:///baseImpl.mod', 'file:///mid.mod', 'file:///top.mod']);
+      expect(dependents.indexOf('file:///mid.mod')).toBeLessThan(dependents.indexOf('file:///top.mod'));
+    });
+
+    it('should not ripple edits that leave the interface unchanged', async () => {
+      const midDiagnostics = workspaceManager.getDiagnostics('file:///mid.mod');
+
+      // Layout only
+      expect(await workspaceManager.updateDocument('file:///base.mod', `DEFINITION MODULE Base;
+
+TYPE
+  Count = INTEGER;
+PROCEDURE Reset;
+END MODULE.`, 2)).toEqual([]);
+
+      // A procedure body
+      expect(await workspaceManager.updateDocument('file:///baseImpl.mod', `IMPLEMENTATION MODULE Base;
+PROCEDURE Reset;
+VAR n, m : INTEGER;
+BEGIN
+  n := 1;
+END PROCEDURE;
+END MODULE.`, 2)).toEqual([]);
+
+      // A private helper and a module variable of an IMPLEMENTATION module
+      expect(await workspaceManager.updateDocument('file:///baseImpl.mod', `IMPLEMENTATION MODULE Base;
+VAR calls : INTEGER;
+PROCEDURE Helper(IN n : INTEGER);
+BEGIN
+END PROCEDURE;
+PROCEDURE Reset;
+VAR n, m : INTEGER;
+BEGIN
+  n := 1;
+END PROCEDURE;
+END MODULE.`, 3)).toEqual([]);
+
+      expect(workspaceManager.getDiagnostics('file:///mid.mod')).toBe(midDiagnostics);
+    });
+
+    it('should find importers whose import failed to resolve once the module appears', async () => {
+      await workspaceManager.updateDocument('file:///user.mod', `MAIN MODULE User;
+FROM Extra IMPORT Helper;
+END MODULE.`, 1);
+
+      const dependents = await workspaceManager.updateDocument('file:///extra.mod', `DEFINITION MODULE Extra;
+PROCEDURE Helper;
+END MODULE.`, 1);
+
+      expect(dependents).toEqual(['file:///user.mod']);
+    });
+  });
+
   describe('Symbol Lookup', () => {
     it.skip('should lookup symbols across workspace', async () => {
       // SKIP: Global symbol table not populated during indexing
@@ -6,10 +6,13 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import { URI } from 'vscode-uri';
-import { Lexer } from '../language/lexer';
-import { Parser } from '../language/parser';
+import { parseDocument, ParseResult } from '../language/incremental';
 import { SemanticAnalyzer } from '../language/analyzer';
-import { SymbolTable, Symbol as LspSymbol } from '../language/symbols';
+import { createParseDiagnostics, Diagnostic } from '../language/diagnostics';
+import { DocComments } from '../language/docComments';
+import { SymbolTable, SymbolKind, Symbol as LspSymbol } from '../language/symbols';
+import type { ImportedTypeReference, Type } from '../language/types';
+import { getDeclarationSignature } from '../language/ast';
 import type { Module } from '../language/ast';
 import { logInfo, logError, logWarn, logDebug } from './logging';
 
@@ -24,6 +27,9 @@ export interface WorkspaceDocument {
   dependencies: Set<string>; // URIs of imported modules
   dependents: Set<string>; // URIs of modules that import this one
   parseError?: string;
+  parseDiagnostics?: Diagnostic[]; // Syntax and lexical errors
+  diagnostics?: Diagnostic[]; // All diagnostics, analyzed against the workspace; cleared when an import changes
+  interfaceSignature?: string; // What importers see of the module; they are only affected when it changes
 }
 
 /**
@@ -160,13 +166,11 @@ export class WorkspaceManager {
       const content = await fs.promises.readFile(filePath, 'utf-8');
 
       // Parse the file
-      const lexer = new Lexer(content);
-      const tokens = lexer.tokenize();
-      const parser = new Parser(tokens);
-      const ast = parser.parse();
+      const { ast, tokens, errors } = parseDocument(content);
 
-      // Analyze the file
+      // Analyze the file, keeping doc comments so importers can show them
       const analyzer = new SemanticAnalyzer();
+      analyzer.setDocComments(new DocComments(tokens));
       analyzer.analyze(ast);
 
       // Extract module name from AST
@@ -180,6 +184,9 @@ export class WorkspaceManager {
         symbolTable: analyzer.getSymbolTable(),
         dependencies: new Set(),
         dependents: new Set(),
+        parseError: errors[0]?.message,
+        parseDiagnostics: createParseDiagnostics(tokens, errors),
+        interfaceSignature: getInterfaceSignature(ast),
       };
 
       this.documents.set(uri, doc);
@@ -371,20 +378,32 @@ export class WorkspaceManager {
 
   /**
    * Update a document (e.g., when it changes)
+   * Pass the parse result, and the symbol table analyzed from it, if the caller already
+   * parsed and analyzed the content.
+   * Returns the modules depending on the document, transitively and in dependency order,
+   * if its interface changed; edits to bodies don't affect them.
    */
-  async updateDocument(uri: string, content: string, version: number): Promise<void> {
+  async updateDocument(
+    uri: string,
+    content: string,
+    version: number,
+    parsed?: ParseResult,
+    analyzed?: SymbolTable
+  ): Promise<string[]> {
     logDebug(`Updating document ${uri}, version ${version}`);
 
     try {
-      // Parse the updated document
-      const lexer = new Lexer(content);
-      const tokens = lexer.tokenize();
-      const parser = new Parser(tokens);
-      const ast = parser.parse();
-
-      // Analyze
-      const analyzer = new SemanticAnalyzer();
-      analyzer.analyze(ast);
+      // Parse the updated document, unless the caller already did
+      const { ast, tokens, errors } = parsed ?? parseDocument(content);
+
+      // Analyze, unless the caller already did
+      let symbolTable = analyzed;
+      if (!symbolTable) {
+        const analyzer = new SemanticAnalyzer();
+        analyzer.setDocComments(new DocComments(tokens));
+        analyzer.analyze(ast);
+        symbolTable = analyzer.getSymbolTable();
+      }
 
       // Get existing document or create new one
       const existingDoc = this.documents.get(uri);
@@ -392,13 +411,21 @@ export class WorkspaceManager {
         uri,
         version,
         ast,
-        symbolTable: analyzer.getSymbolTable(),
+        symbolTable,
         dependencies: existingDoc?.dependencies || new Set(),
         dependents: existingDoc?.dependents || new Set(),
+        parseError: errors[0]?.message,
+        parseDiagnostics: createParseDiagnostics(tokens, errors),
+        interfaceSignature: getInterfaceSignature(ast),
       };
 
       this.documents.set(uri, doc);
 
+      // Importers of the old and the new module name see different symbols if the interface changed
+      const interfaceChanged = existingDoc?.ast?.name !== ast.name
+        || existingDoc?.interfaceSignature !== doc.interfaceSignature;
+      const dependents = interfaceChanged ? this.invalidateDependents([existingDoc?.ast?.name, ast.name], uri) : [];
+
       // Update module name mapping
       if (ast.name) {
         const existingUris = this.moduleNameToUri.get(ast.name) || [];
@@ -412,6 +439,7 @@ export class WorkspaceManager {
       await this.updateImportsForDocument(uri);
 
       logDebug(`Document ${uri} updated successfully`);
+      return dependents;
     } catch (error: any) {
       logError(`Error updating document ${uri}`, { error: error.message });
 
@@ -424,6 +452,7 @@ export class WorkspaceManager {
         dependents: existingDoc?.dependents || new Set(),
         parseError: error.message,
       });
+      return this.invalidateDependents([existingDoc?.ast?.name], uri);
     }
   }
 
@@ -498,11 +527,109 @@ export class WorkspaceManager {
     }
 
     this.documents.delete(uri);
+    this.invalidateDependents([doc.ast?.name], uri);
 
     // Rebuild global symbol table
     this.buildGlobalSymbolTable();
   }
 
+  /**
+   * Reload a document from disk (e.g., when the editor closes it, discarding unsaved changes)
+   * A document whose file no longer exists is removed.
+   * Returns the modules affected, as updateDocument does.
+   */
+  async reloadDocument(uri: string): Promise<string[]> {
+    const filePath = URI.parse(uri).fsPath;
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(filePath, 'utf-8');
+    } catch {
+      const moduleName = this.documents.get(uri)?.ast?.name;
+      this.removeDocument(uri);
+      return this.getDependentsOf([moduleName], uri);
+    }
+
+    return this.updateDocument(uri, content, 0);
+  }
+
+  /**
+   * Get the diagnostics of a document, analyzed with its imports resolved across the workspace
+   * The result is cached until the document or a module it imports changes.
+   */
+  getDiagnostics(uri: string): Diagnostic[] {
+    const doc = this.documents.get(uri);
+    if (!doc?.ast) {
+      return [];
+    }
+
+    if (!doc.diagnostics) {
+      const analyzer = new SemanticAnalyzer();
+      analyzer.setWorkspaceResolver((moduleName) => this.getModuleSymbols(moduleName));
+      doc.diagnostics = [...(doc.parseDiagnostics ?? []), ...analyzer.analyze(doc.ast)];
+    }
+    return doc.diagnostics;
+  }
+
+  /**
+   * Get the symbol table of a module by name, for resolving imports
+   */
+  getModuleSymbols(moduleName: string): SymbolTable | undefined {
+    const moduleUri = this.resolveModule(moduleName);
+    return moduleUri ? this.documents.get(moduleUri)?.symbolTable : undefined;
+  }
+
+  /**
+   * Resolve a type imported from another module, such as the base type of an object
+   */
+  resolveImportedType(reference: ImportedTypeReference): Type | undefined {
+    const symbol = this.getModuleSymbols(reference.moduleName)?.lookupGlobal(reference.name);
+    return symbol?.kind === SymbolKind.TYPE ? symbol.type : undefined;
+  }
+
+  /**
+   * Get the modules depending on the modules with the given names, transitively and in dependency order
+   * A module depends on the modules it imports and, as an IMPLEMENTATION module, on its DEFINITION module.
+   * Names are used rather than the dependents of each document, so that an import which failed to
+   * resolve is found once the module it names appears.
+   */
+  getDependentsOf(moduleNames: Array<string | undefined>, excludeUri?: string): string[] {
+    const order: string[] = [];
+    const visited = new Set<string>(excludeUri ? [excludeUri] : []);
+
+    // Depth-first over importers; a module is added after everything depending on it
+    const visit = (names: Set<string>): void => {
+      for (const doc of this.documents.values()) {
+        if (visited.has(doc.uri) || !doc.ast) continue;
+
+        const dependsOn = (doc.ast.kind === 'IMPLEMENTATION' && names.has(doc.ast.name))
+          || doc.ast.imports.some((importStmt) => names.has(importStmt.moduleName));
+        if (dependsOn) {
+          visited.add(doc.uri);
+          visit(new Set([doc.ast.name]));
+          order.push(doc.uri);
+        }
+      }
+    };
+    visit(new Set(moduleNames.filter((name): name is string => !!name)));
+
+    return order.reverse();
+  }
+
+  /**
+   * Clear the cached diagnostics of a document and of the modules depending on its module name(s)
+   */
+  private invalidateDependents(moduleNames: Array<string | undefined>, uri: string): string[] {
+    const dependents = this.getDependentsOf(moduleNames, uri);
+    for (const dependent of [uri, ...dependents]) {
+      const doc = this.documents.get(dependent);
+      if (doc) {
+        doc.diagnostics = undefined;
+      }
+    }
+    return dependents;
+  }
+
   /**
    * Get a document by URI
    */
@@ -519,13 +646,18 @@ export class WorkspaceManager {
 
   /**
    * Resolve a module name to a URI
+   * A kind selects one half of a DEFINITION/IMPLEMENTATION pair.
    */
-  resolveModule(moduleName: string): string | undefined {
+  resolveModule(moduleName: string, kind?: Module['kind']): string | undefined {
     const uris = this.moduleNameToUri.get(moduleName);
     if (!uris || uris.length === 0) {
       return undefined;
     }
 
+    if (kind) {
+      return uris.find(uri => this.documents.get(uri)?.ast?.kind === kind);
+    }
+
     // If multiple modules with same name, prefer DEFINITION over IMPLEMENTATION
     if (uris.length > 1) {
       for (const uri of uris) {
@@ -591,3 +723,12 @@ export class WorkspaceManager {
     return doc ? Array.from(doc.dependents) : [];
   }
 }
+
+/**
+ * Signature of what importers see of a module: the declarations of a DEFINITION module, without
+ * bodies or source positions. Those of IMPLEMENTATION and MAIN modules are private to them.
+ */
+function getInterfaceSignature(ast: Module): string {
+  const declarations = ast.kind === 'DEFINITION' ? ast.declarations : [];
+  return getDeclarationSignature({ kind: ast.kind, declarations });
+}
@@ -0,0 +1,66 @@
+/**
+ * Workspace fixture shared by the feature tests
+ */
+
+import type { Module } from '../../src/language/ast';
+import type { SymbolTable } from '../../src/language/symbols';
+import { WorkspaceManager } from '../../src/utils/workspace';
+
+/**
+ * Feature that works on a position in a document of the workspace, such as preparing a
+ * call hierarchy or finding implementations
+ */
+type PositionFeature<T> = (
+  ast: Module,
+  symbolTable: SymbolTable,
+  line: number,
+  character: number,
+  uri: string,
+  workspaceManager: WorkspaceManager
+) => T;
+
+/**
+ * In-memory modules indexed by a workspace manager
+ */
+export class TestWorkspace {
+  manager = new WorkspaceManager();
+
+  constructor(readonly files: Record<string, string>) {}
+
+  /**
+   * Index the files again in a new workspace manager
+   */
+  async reset(): Promise<void> {
+    this.manager = new WorkspaceManager();
+    for (const [uri, text] of Object.entries(this.files)) {
+      await this.manager.updateDocument(uri, text, 1);
+    }
+  }
+
+  /**
+   * Get the AST and symbol table of an indexed document
+   */
+  document(uri: string): { ast: Module; symbolTable: SymbolTable } {
+    const doc = this.manager.getDocument(uri)!;
+    return { ast: doc.ast!, symbolTable: doc.symbolTable! };
+  }
+
+  /**
+   * Bind a position feature to the documents of the workspace
+   */
+  at<T>(feature: PositionFeature<T>): (uri: string, line: number, character: number) => T {
+    return (uri, line, character) => {
+      const { ast, symbolTable } = this.document(uri);
+      return feature(ast, symbolTable, line, character, uri, this.manager);
+    };
+  }
+}
+
+/**
+ * Create a workspace of the given files, indexed again before each test of the suite
+ */
+export function useWorkspace(files: Record<string, string>): TestWorkspace {
+  const workspace = new TestWorkspace(files);
+  beforeEach(() => workspace.reset());
+  return workspace;
+}